@@ -0,0 +1,450 @@
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from 'crypto'
+
+/**
+ * Transparent encryption of PHI columns. Statements are rewritten on their
+ * way to SQLite so encrypted columns are written as AES-256-GCM ciphertext,
+ * and read back decrypted, whether selected by name or under an alias.
+ *
+ * Equality lookups on a column with a blind index are answered from an HMAC
+ * of the value instead. Each ciphertext and index value names the key that
+ * made it, so FIELD_ENCRYPTION_KEY (required) can be replaced while the app is running:
+ * list the old key in FIELD_ENCRYPTION_PREVIOUS_KEYS, then re-encrypt with
+ * "npm run db:encrypt-fields" and drop it.
+ *
+ * Only values bound as "?" can be encrypted. A write that sets an encrypted
+ * column any other way (an expression, a literal, INSERT ... SELECT, several
+ * VALUES rows or an upsert assignment) throws instead of storing plaintext.
+ */
+
+export const ENCRYPTED_COLUMNS: Record<string, string[]> = {
+  encounters: ['reason_diagnosis', 'prescriptions_notes', 'allergies_snapshot', 'chronic_snapshot'],
+  patient_profiles: ['id_proof_number'],
+  patient_allergies: ['name'],
+  patient_conditions: ['name'],
+  patient_medications: ['name', 'dosage'],
+  user_totp: ['secret']
+}
+
+// Encrypted column -> the column holding its blind index. Index values name
+// their key, so a UNIQUE index on one only holds among values indexed under
+// the same key: after a rotation, lookups still match every configured key,
+// and "npm run db:encrypt-fields" rebuilds older values under the current one.
+export const BLIND_INDEXES: Record<string, Record<string, string>> = {
+  patient_profiles: { id_proof_number: 'id_proof_number_bidx' },
+  patient_allergies: { name: 'name_bidx' },
+  patient_conditions: { name: 'name_bidx' },
+  patient_medications: { name: 'name_bidx' }
+}
+
+// Indexes of NOCASE columns, made from the lowercased value
+const CASE_INSENSITIVE_INDEXES = new Set(['name_bidx'])
+
+const CIPHERTEXT = /^enc:([0-9a-f]{16}):(.+)$/
+
+// Query -> the result columns it reads from encrypted columns
+const revealedColumnCache = new Map<string, Set<string>>()
+
+interface FieldKey {
+  id: string
+  encryptionKey: Buffer
+  indexKey: Buffer
+}
+
+// Keys derived from the configured secrets, rederived only when they change
+let derivedKeys: { secrets: string; keys: FieldKey[] } | null = null
+
+export function isEncrypted(value: unknown): boolean {
+  return typeof value === 'string' && CIPHERTEXT.test(value)
+}
+
+/**
+ * The key id a value was encrypted with, or null for plaintext
+ */
+export function encryptedKeyId(value: unknown): string | null {
+  return typeof value === 'string' ? value.match(CIPHERTEXT)?.[1] || null : null
+}
+
+/**
+ * Throws unless FIELD_ENCRYPTION_KEY is configured, so a missing key is
+ * reported at startup rather than on the first write
+ */
+export function checkFieldEncryptionKey(): void {
+  fieldKeys()
+}
+
+export function currentFieldKeyId(): string {
+  return fieldKeys()[0].id
+}
+
+export function encryptField(value: string): string {
+  const key = fieldKeys()[0]
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', key.encryptionKey, iv)
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()])
+  return `enc:${key.id}:${Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64')}`
+}
+
+/**
+ * Plaintext of a value written by encryptField. Anything else is returned
+ * unchanged.
+ */
+export function decryptField(value: string): string {
+  const match = value.match(CIPHERTEXT)
+  if (!match) {
+    return value
+  }
+
+  const key = fieldKeys().find(candidate => candidate.id === match[1])
+  if (!key) {
+    throw new Error(`Field encryption key ${match[1]} is not configured`)
+  }
+
+  const data = Buffer.from(match[2], 'base64')
+  const decipher = createDecipheriv('aes-256-gcm', key.encryptionKey, data.subarray(0, 12))
+  decipher.setAuthTag(data.subarray(12, 28))
+  return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString('utf8')
+}
+
+/**
+ * Blind index of a value under the current key
+ */
+export function blindIndex(value: string, indexColumn: string): string {
+  return indexWith(fieldKeys()[0], value, indexColumn)
+}
+
+/**
+ * Encrypt a statement's parameters for encrypted columns, fill in blind
+ * indexes and turn equality lookups on indexed columns into index lookups
+ */
+export function protectStatement(query: string, params: unknown[]): { query: string; params: unknown[] } {
+  const insert = query.match(/^\s*(?:INSERT(?:\s+OR\s+\w+)?|REPLACE)\s+INTO\s+(\w+)\s*/i)
+  if (insert && ENCRYPTED_COLUMNS[insert[1]]) {
+    if (query[insert[0].length] !== '(') {
+      throw new Error(`Writes to ${insert[1]} must list their columns so encrypted ones can be protected`)
+    }
+    return protectInsert(query, params, insert[1], insert[0].length)
+  }
+
+  const update = query.match(/^\s*UPDATE\s+(?:OR\s+\w+\s+)?(\w+)\s+SET\s/i)
+  if (update && ENCRYPTED_COLUMNS[update[1]]) {
+    return protectUpdate(query, params, update[1], update[0].length)
+  }
+
+  return protectLookups(query, params, 0)
+}
+
+/**
+ * Decrypt the values a query read from encrypted columns. Other columns are
+ * returned as stored, and a value that cannot be decrypted is logged and
+ * left as ciphertext rather than failing the query.
+ */
+export function revealRows<T>(rows: T[], query: string): T[] {
+  if (rows.length === 0) {
+    return rows
+  }
+
+  let columns = revealedColumnCache.get(query)
+  if (!columns) {
+    columns = revealedColumns(query)
+    revealedColumnCache.set(query, columns)
+  }
+
+  for (const row of rows as Record<string, unknown>[]) {
+    for (const column of columns) {
+      const value = row[column]
+      if (!isEncrypted(value)) {
+        continue
+      }
+
+      try {
+        row[column] = decryptField(value as string)
+      } catch (error) {
+        console.error(`Failed to decrypt ${column}:`, error)
+      }
+    }
+  }
+  return rows
+}
+
+/**
+ * Result columns of a query that come from an encrypted column of a table
+ * it reads: the columns themselves, and aliases of expressions using them
+ */
+function revealedColumns(query: string): Set<string> {
+  const tables = [...query.matchAll(/\b(?:FROM|JOIN)\s+(\w+)/gi)].map(match => match[1])
+  const encrypted = [...new Set(tables.flatMap(table => ENCRYPTED_COLUMNS[table] || []))]
+  const columns = new Set(encrypted)
+  if (encrypted.length === 0) {
+    return columns
+  }
+
+  const reference = new RegExp(`\\b(?:${encrypted.join('|')})\\b`)
+  for (const select of query.matchAll(/\bSELECT\s([\s\S]+?)\sFROM\s/gi)) {
+    for (const item of splitTopLevel(select[1])) {
+      const alias = item.text.trim().match(/(?:\)|\w)\s+(?:AS\s+)?(\w+)$/i)
+      if (alias && reference.test(item.text)) {
+        columns.add(alias[1])
+      }
+    }
+  }
+
+  return columns
+}
+
+function protectInsert(query: string, params: unknown[], table: string, columnsStart: number): { query: string; params: unknown[] } {
+  const columnsEnd = closingParen(query, columnsStart)
+  const columns = splitTopLevel(query.slice(columnsStart + 1, columnsEnd)).map(part => part.text.trim())
+  const encrypted = columns.filter(column => ENCRYPTED_COLUMNS[table].includes(column))
+
+  const values = query.slice(columnsEnd).match(/^\)\s*VALUES\s*\(/i)
+  if (!values) {
+    if (encrypted.length > 0) {
+      throw unsupportedWrite(table, encrypted[0])
+    }
+    return { query, params }
+  }
+
+  const valuesStart = columnsEnd + values[0].length - 1
+  const valuesEnd = closingParen(query, valuesStart)
+  const expressions = splitTopLevel(query.slice(valuesStart + 1, valuesEnd))
+  const rest = query.slice(valuesEnd + 1)
+
+  if (encrypted.length > 0 && /^\s*,/.test(rest)) {
+    throw unsupportedWrite(table, encrypted[0])
+  }
+
+  // ON CONFLICT ... DO UPDATE SET assignments are not rewritten
+  const upsert = rest.match(/\bDO\s+UPDATE\s+SET\s([\s\S]*?)(?:\sWHERE\s|$)/i)
+  for (const assignment of upsert ? splitTopLevel(upsert[1]) : []) {
+    const column = assignment.text.match(/^\s*(\w+)\s*=/)?.[1]
+    if (column && ENCRYPTED_COLUMNS[table].includes(column)) {
+      throw unsupportedWrite(table, column)
+    }
+  }
+
+  const placeholders = placeholderOffsets(query)
+  const next = params.slice()
+  const added: { column: string; value: string | null }[] = []
+
+  columns.forEach((column, index) => {
+    const expression = expressions[index]
+    if (!expression || !encrypted.includes(column) || isNull(expression.text)) {
+      return
+    }
+    if (expression.text.trim() !== '?') {
+      throw unsupportedWrite(table, column)
+    }
+
+    const paramIndex = placeholders.indexOf(valuesStart + 1 + expression.offset + expression.text.indexOf('?'))
+    const value = next[paramIndex]
+    const indexColumn = BLIND_INDEXES[table]?.[column]
+
+    if (indexColumn) {
+      added.push({ column: indexColumn, value: typeof value === 'string' ? blindIndex(value, indexColumn) : null })
+    }
+    if (typeof value === 'string' && !isEncrypted(value)) {
+      next[paramIndex] = encryptField(value)
+    }
+  })
+
+  if (added.length === 0) {
+    return { query, params: next }
+  }
+
+  // New placeholders go at the end of the VALUES list, after the ones already in it
+  const insertAt = placeholders.filter(offset => offset < valuesEnd).length
+  next.splice(insertAt, 0, ...added.map(entry => entry.value))
+
+  const rewritten = query.slice(0, columnsEnd) +
+    added.map(entry => `, ${entry.column}`).join('') +
+    query.slice(columnsEnd, valuesEnd) +
+    added.map(() => ', ?').join('') +
+    query.slice(valuesEnd)
+
+  return { query: rewritten, params: next }
+}
+
+function protectUpdate(query: string, params: unknown[], table: string, setStart: number): { query: string; params: unknown[] } {
+  const where = query.slice(setStart).search(/\sWHERE\s/i)
+  const setEnd = where === -1 ? query.length : setStart + where
+
+  const placeholders = placeholderOffsets(query)
+  const next = params.slice()
+  const added: { column: string; value: string | null }[] = []
+
+  for (const assignment of splitTopLevel(query.slice(setStart, setEnd))) {
+    const match = assignment.text.match(/^\s*(\w+)\s*=([\s\S]*)$/)
+    if (!match || !ENCRYPTED_COLUMNS[table].includes(match[1]) || isNull(match[2])) {
+      continue
+    }
+    if (match[2].trim() !== '?') {
+      throw unsupportedWrite(table, match[1])
+    }
+
+    const paramIndex = placeholders.indexOf(setStart + assignment.offset + assignment.text.indexOf('?'))
+    const value = next[paramIndex]
+    const indexColumn = BLIND_INDEXES[table]?.[match[1]]
+
+    if (indexColumn) {
+      added.push({ column: indexColumn, value: typeof value === 'string' ? blindIndex(value, indexColumn) : null })
+    }
+    if (typeof value === 'string' && !isEncrypted(value)) {
+      next[paramIndex] = encryptField(value)
+    }
+  }
+
+  const setClause = query.slice(0, setEnd).trimEnd()
+  const insertAt = placeholders.filter(offset => offset < setEnd).length
+  next.splice(insertAt, 0, ...added.map(entry => entry.value))
+
+  const rewritten = setClause + added.map(entry => `, ${entry.column} = ?`).join('') + query.slice(setClause.length)
+  return protectLookups(rewritten, next, setClause.length)
+}
+
+/**
+ * "column = ?" on an indexed column of a table the statement uses becomes a
+ * match on the index under any configured key, or on the plaintext for rows
+ * not yet encrypted
+ */
+function protectLookups(query: string, params: unknown[], from: number): { query: string; params: unknown[] } {
+  const tables = [...query.matchAll(/\b(?:FROM|JOIN|UPDATE|INTO)\s+(\w+)/gi)].map(match => match[1])
+  const indexed = [...new Set(tables)].flatMap(table => Object.entries(BLIND_INDEXES[table] || {}))
+  if (indexed.length === 0) {
+    return { query, params }
+  }
+
+  const pattern = new RegExp(`\\b((?:\\w+\\.)?)(${indexed.map(([column]) => column).join('|')})\\s*=\\s*\\?`, 'g')
+  const matches = [...query.slice(from).matchAll(pattern)]
+  if (matches.length === 0) {
+    return { query, params }
+  }
+
+  const placeholders = placeholderOffsets(query)
+  const next = params.slice()
+  let rewritten = query
+
+  // Right to left, so earlier offsets and parameter positions stay valid
+  for (const match of matches.reverse()) {
+    const start = from + match.index!
+    const paramIndex = placeholders.indexOf(start + match[0].length - 1)
+    const value = next[paramIndex]
+    if (typeof value !== 'string') {
+      continue
+    }
+
+    const [qualifier, column] = [match[1], match[2]]
+    const indexColumn = indexed.find(([name]) => name === column)![1]
+    const hashes = fieldKeys().map(key => indexWith(key, value, indexColumn))
+
+    rewritten = rewritten.slice(0, start) +
+      `(${qualifier}${indexColumn} IN (${hashes.map(() => '?').join(', ')}) OR (${qualifier}${indexColumn} IS NULL AND ${qualifier}${column} = ?))` +
+      rewritten.slice(start + match[0].length)
+    next.splice(paramIndex, 1, ...hashes, value)
+  }
+
+  return { query: rewritten, params: next }
+}
+
+function unsupportedWrite(table: string, column: string): Error {
+  return new Error(`${table}.${column} is encrypted and can only be written from a "?" parameter`)
+}
+
+function isNull(expression: string): boolean {
+  return /^\s*NULL\s*$/i.test(expression)
+}
+
+function indexWith(key: FieldKey, value: string, indexColumn: string): string {
+  const normalized = CASE_INSENSITIVE_INDEXES.has(indexColumn) ? value.toLowerCase() : value
+  return `${key.id}:${createHmac('sha256', key.indexKey).update(normalized, 'utf8').digest('hex')}`
+}
+
+/**
+ * Offsets of "?" placeholders outside string literals
+ */
+function placeholderOffsets(query: string): number[] {
+  const offsets: number[] = []
+  let quote: string | null = null
+
+  for (let i = 0; i < query.length; i++) {
+    const char = query[i]
+    if (quote) {
+      if (char === quote) {
+        quote = null
+      }
+    } else if (char === '\'' || char === '"') {
+      quote = char
+    } else if (char === '?') {
+      offsets.push(i)
+    }
+  }
+
+  return offsets
+}
+
+/**
+ * Offset of the parenthesis closing the one at start
+ */
+function closingParen(query: string, start: number): number {
+  let depth = 0
+  for (let i = start; i < query.length; i++) {
+    if (query[i] === '(') {
+      depth++
+    } else if (query[i] === ')' && --depth === 0) {
+      return i
+    }
+  }
+  throw new Error('Unbalanced parentheses in statement')
+}
+
+/**
+ * Split a list on commas that are not inside parentheses
+ */
+function splitTopLevel(list: string): { text: string; offset: number }[] {
+  const parts: { text: string; offset: number }[] = []
+  let depth = 0
+  let start = 0
+
+  for (let i = 0; i < list.length; i++) {
+    if (list[i] === '(') {
+      depth++
+    } else if (list[i] === ')') {
+      depth--
+    } else if (list[i] === ',' && depth === 0) {
+      parts.push({ text: list.slice(start, i), offset: start })
+      start = i + 1
+    }
+  }
+  parts.push({ text: list.slice(start), offset: start })
+
+  return parts
+}
+
+/**
+ * The current key first, then previous ones, each identified by a
+ * fingerprint. Encryption and blind-index keys are derived separately.
+ */
+function fieldKeys(): FieldKey[] {
+  const current = process.env.FIELD_ENCRYPTION_KEY
+  if (!current) {
+    throw new Error('FIELD_ENCRYPTION_KEY is not configured')
+  }
+
+  const secrets = `${current}\n${process.env.FIELD_ENCRYPTION_PREVIOUS_KEYS || ''}`
+  if (derivedKeys?.secrets === secrets) {
+    return derivedKeys.keys
+  }
+
+  const previous = (process.env.FIELD_ENCRYPTION_PREVIOUS_KEYS || '')
+    .split(',')
+    .map(secret => secret.trim())
+    .filter(Boolean)
+
+  const keys = [current, ...previous].map(secret => ({
+    id: createHmac('sha256', secret).update('key-id').digest('hex').substring(0, 16),
+    encryptionKey: createHmac('sha256', secret).update('field-encryption').digest(),
+    indexKey: createHmac('sha256', secret).update('blind-index').digest()
+  }))
+
+  derivedKeys = { secrets, keys }
+  return keys
+}
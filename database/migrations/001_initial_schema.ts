@@ -0,0 +1,161 @@
+import type { Database } from 'sqlite'
+
+/**
+ * Baseline schema: users, profiles, encounters, documents, emergency
+ * sessions and audit logs
+ */
+export const version = 1
+export const name = 'initial_schema'
+
+export async function up(db: Database): Promise<void> {
+  await db.exec(`
+    -- Users table (base table for all user types)
+    CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+        role TEXT CHECK (role IN ('PATIENT', 'DOCTOR', 'OPERATOR')) NOT NULL,
+        name TEXT NOT NULL,
+        mobile TEXT UNIQUE NOT NULL,
+        email TEXT UNIQUE NOT NULL,
+        hospital_id TEXT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Hospitals table
+    CREATE TABLE IF NOT EXISTS hospitals (
+        id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+        name TEXT UNIQUE NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Patient profiles table
+    CREATE TABLE IF NOT EXISTS patient_profiles (
+        user_id TEXT PRIMARY KEY,
+        id_proof_type TEXT NOT NULL,
+        id_proof_number TEXT UNIQUE NOT NULL,
+        emergency_contact TEXT NOT NULL,
+        family_member_id TEXT NULL,
+        deleted_at DATETIME NULL,
+        biometric_fingerprint_ref TEXT NULL,
+        biometric_iris_ref TEXT NULL,
+        profile_photo_path TEXT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Doctor profiles table
+    CREATE TABLE IF NOT EXISTS doctor_profiles (
+        user_id TEXT PRIMARY KEY,
+        hospital_name TEXT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Operator profiles table
+    CREATE TABLE IF NOT EXISTS operator_profiles (
+        user_id TEXT PRIMARY KEY,
+        hospital_id TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- OTP table for authentication
+    CREATE TABLE IF NOT EXISTS otps (
+        id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+        user_id TEXT NOT NULL,
+        code_hash TEXT NOT NULL,
+        purpose TEXT NOT NULL,
+        expires_at DATETIME NOT NULL,
+        attempts INTEGER DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Encounters table (medical timeline entries)
+    CREATE TABLE IF NOT EXISTS encounters (
+        id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+        patient_user_id TEXT NOT NULL,
+        occurred_at DATETIME NOT NULL,
+        type TEXT NOT NULL,
+        reason_diagnosis TEXT NOT NULL,
+        prescriptions_notes TEXT NOT NULL,
+        allergies_snapshot TEXT NULL,
+        chronic_snapshot TEXT NULL,
+        blood_group TEXT NULL,
+        recent_surgery TEXT NULL,
+        created_by_role TEXT NOT NULL,
+        created_by_user_id TEXT NOT NULL,
+        hospital_id TEXT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Documents table (file attachments)
+    CREATE TABLE IF NOT EXISTS documents (
+        id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+        encounter_id TEXT NOT NULL,
+        patient_user_id TEXT NOT NULL,
+        uploaded_by_user_id TEXT NOT NULL,
+        hospital_id TEXT NULL,
+        filename TEXT NOT NULL,
+        storage_path TEXT NOT NULL,
+        mimetype TEXT NOT NULL,
+        uploaded_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Emergency sessions table (doctor access sessions)
+    CREATE TABLE IF NOT EXISTS emergency_sessions (
+        id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+        doctor_user_id TEXT NOT NULL,
+        patient_user_id TEXT NOT NULL,
+        method TEXT CHECK (method IN ('OTP', 'FINGERPRINT', 'IRIS')) NOT NULL,
+        reason TEXT NOT NULL,
+        hospital_name TEXT NULL,
+        granted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME NOT NULL,
+        status TEXT CHECK (status IN ('ACTIVE', 'EXPIRED', 'REVOKED')) DEFAULT 'ACTIVE'
+    );
+
+    -- Audit logs table (comprehensive logging)
+    CREATE TABLE IF NOT EXISTS audit_logs (
+        id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+        actor_user_id TEXT NULL,
+        actor_role TEXT NOT NULL,
+        patient_user_id TEXT NULL,
+        action_type TEXT NOT NULL,
+        details_json TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Create indexes for better performance
+    CREATE INDEX IF NOT EXISTS idx_users_mobile ON users(mobile);
+    CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+    CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
+    CREATE INDEX IF NOT EXISTS idx_patient_profiles_id_proof ON patient_profiles(id_proof_number);
+    CREATE INDEX IF NOT EXISTS idx_patient_profiles_deleted ON patient_profiles(deleted_at);
+    CREATE INDEX IF NOT EXISTS idx_otps_user_purpose ON otps(user_id, purpose);
+    CREATE INDEX IF NOT EXISTS idx_otps_expires ON otps(expires_at);
+    CREATE INDEX IF NOT EXISTS idx_encounters_patient_occurred ON encounters(patient_user_id, occurred_at);
+    CREATE INDEX IF NOT EXISTS idx_encounters_type ON encounters(type);
+    CREATE INDEX IF NOT EXISTS idx_encounters_created_by ON encounters(created_by_user_id);
+    CREATE INDEX IF NOT EXISTS idx_documents_encounter ON documents(encounter_id);
+    CREATE INDEX IF NOT EXISTS idx_documents_patient ON documents(patient_user_id);
+    CREATE INDEX IF NOT EXISTS idx_documents_uploaded_by ON documents(uploaded_by_user_id);
+    CREATE INDEX IF NOT EXISTS idx_emergency_sessions_doctor_active ON emergency_sessions(doctor_user_id, status);
+    CREATE INDEX IF NOT EXISTS idx_emergency_sessions_patient_active ON emergency_sessions(patient_user_id, status);
+    CREATE INDEX IF NOT EXISTS idx_emergency_sessions_expires ON emergency_sessions(expires_at);
+    CREATE INDEX IF NOT EXISTS idx_audit_logs_actor ON audit_logs(actor_user_id);
+    CREATE INDEX IF NOT EXISTS idx_audit_logs_patient ON audit_logs(patient_user_id);
+    CREATE INDEX IF NOT EXISTS idx_audit_logs_action_type ON audit_logs(action_type);
+    CREATE INDEX IF NOT EXISTS idx_audit_logs_created_at ON audit_logs(created_at);
+  `)
+}
+
+export async function down(db: Database): Promise<void> {
+  await db.exec(`
+    DROP TABLE IF EXISTS audit_logs;
+    DROP TABLE IF EXISTS emergency_sessions;
+    DROP TABLE IF EXISTS documents;
+    DROP TABLE IF EXISTS encounters;
+    DROP TABLE IF EXISTS otps;
+    DROP TABLE IF EXISTS operator_profiles;
+    DROP TABLE IF EXISTS doctor_profiles;
+    DROP TABLE IF EXISTS patient_profiles;
+    DROP TABLE IF EXISTS hospitals;
+    DROP TABLE IF EXISTS users;
+  `)
+}
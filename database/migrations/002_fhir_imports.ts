@@ -0,0 +1,28 @@
+import type { Database } from 'sqlite'
+
+/**
+ * FHIR import ledger (de-duplicates resources imported from other providers)
+ */
+export const version = 2
+export const name = 'fhir_imports'
+
+export async function up(db: Database): Promise<void> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS fhir_imports (
+        id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+        patient_user_id TEXT NOT NULL,
+        resource_key TEXT NOT NULL,
+        resource_type TEXT NOT NULL,
+        encounter_id TEXT NULL,
+        imported_by_user_id TEXT NOT NULL,
+        imported_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (patient_user_id, resource_key)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_fhir_imports_encounter ON fhir_imports(encounter_id);
+  `)
+}
+
+export async function down(db: Database): Promise<void> {
+  await db.exec('DROP TABLE IF EXISTS fhir_imports;')
+}
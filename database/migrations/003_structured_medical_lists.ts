@@ -0,0 +1,105 @@
+import type { Database } from 'sqlite'
+import { parseSnapshotList } from '../../src/lib/utils/encounter-utils'
+import { decryptField, encryptField, isEncrypted } from '../field-encryption'
+
+/**
+ * Structured allergy, condition and medication lists, backfilled from the
+ * encounter snapshot columns. Encounters are replayed oldest first so each
+ * entry keeps the date and encounter where it was first recorded.
+ * Snapshots written with field encryption are decrypted before parsing, and
+ * their entries are stored encrypted too.
+ */
+export const version = 3
+export const name = 'structured_medical_lists'
+
+export async function up(db: Database): Promise<void> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS patient_allergies (
+        id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+        patient_user_id TEXT NOT NULL,
+        name TEXT NOT NULL COLLATE NOCASE,
+        severity TEXT CHECK (severity IN ('MILD', 'MODERATE', 'SEVERE', 'UNKNOWN')) DEFAULT 'UNKNOWN',
+        onset_date DATE NULL,
+        status TEXT CHECK (status IN ('ACTIVE', 'RESOLVED')) DEFAULT 'ACTIVE',
+        source_encounter_id TEXT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (patient_user_id, name)
+    );
+
+    CREATE TABLE IF NOT EXISTS patient_conditions (
+        id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+        patient_user_id TEXT NOT NULL,
+        name TEXT NOT NULL COLLATE NOCASE,
+        severity TEXT CHECK (severity IN ('MILD', 'MODERATE', 'SEVERE', 'UNKNOWN')) DEFAULT 'UNKNOWN',
+        onset_date DATE NULL,
+        status TEXT CHECK (status IN ('ACTIVE', 'RESOLVED')) DEFAULT 'ACTIVE',
+        source_encounter_id TEXT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (patient_user_id, name)
+    );
+
+    CREATE TABLE IF NOT EXISTS patient_medications (
+        id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+        patient_user_id TEXT NOT NULL,
+        name TEXT NOT NULL COLLATE NOCASE,
+        dosage TEXT NULL,
+        severity TEXT CHECK (severity IN ('MILD', 'MODERATE', 'SEVERE', 'UNKNOWN')) DEFAULT 'UNKNOWN',
+        onset_date DATE NULL,
+        status TEXT CHECK (status IN ('ACTIVE', 'RESOLVED')) DEFAULT 'ACTIVE',
+        source_encounter_id TEXT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (patient_user_id, name)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_patient_allergies_patient_status ON patient_allergies(patient_user_id, status);
+    CREATE INDEX IF NOT EXISTS idx_patient_conditions_patient_status ON patient_conditions(patient_user_id, status);
+    CREATE INDEX IF NOT EXISTS idx_patient_medications_patient_status ON patient_medications(patient_user_id, status);
+  `)
+
+  const encounters = await db.all(`
+    SELECT id, patient_user_id, occurred_at, allergies_snapshot, chronic_snapshot
+    FROM encounters
+    WHERE allergies_snapshot IS NOT NULL OR chronic_snapshot IS NOT NULL
+    ORDER BY occurred_at ASC
+  `)
+
+  // Encrypted names cannot be matched by the UNIQUE constraint, so entries
+  // are deduplicated here instead
+  const recorded = new Set<string>()
+
+  for (const encounter of encounters) {
+    const onsetDate = String(encounter.occurred_at).slice(0, 10)
+    const snapshots: Array<[string, string | null]> = [
+      ['patient_allergies', encounter.allergies_snapshot],
+      ['patient_conditions', encounter.chronic_snapshot]
+    ]
+
+    for (const [table, snapshot] of snapshots) {
+      const encrypted = isEncrypted(snapshot)
+
+      for (const item of parseSnapshotList(snapshot && decryptField(snapshot))) {
+        const key = `${table}:${encounter.patient_user_id}:${item.toLowerCase()}`
+        if (recorded.has(key)) {
+          continue
+        }
+        recorded.add(key)
+
+        await db.run(
+          `INSERT INTO ${table} (patient_user_id, name, onset_date, source_encounter_id) VALUES (?, ?, ?, ?)`,
+          [encounter.patient_user_id, encrypted ? encryptField(item) : item, onsetDate, encounter.id]
+        )
+      }
+    }
+  }
+}
+
+export async function down(db: Database): Promise<void> {
+  await db.exec(`
+    DROP TABLE IF EXISTS patient_medications;
+    DROP TABLE IF EXISTS patient_conditions;
+    DROP TABLE IF EXISTS patient_allergies;
+  `)
+}
@@ -0,0 +1,71 @@
+import type { Database } from 'sqlite'
+
+/**
+ * Break-glass emergency access: allow BREAK_GLASS sessions and add the
+ * review queue for after-the-fact approval
+ */
+export const version = 4
+export const name = 'break_glass_access'
+
+const EMERGENCY_SESSION_INDEXES = `
+    CREATE INDEX IF NOT EXISTS idx_emergency_sessions_doctor_active ON emergency_sessions(doctor_user_id, status);
+    CREATE INDEX IF NOT EXISTS idx_emergency_sessions_patient_active ON emergency_sessions(patient_user_id, status);
+    CREATE INDEX IF NOT EXISTS idx_emergency_sessions_expires ON emergency_sessions(expires_at);
+`
+
+// SQLite cannot alter a CHECK constraint, so the table is rebuilt with the new method list
+async function rebuildEmergencySessions(db: Database, methods: string[]): Promise<void> {
+  const methodList = methods.map(method => `'${method}'`).join(', ')
+
+  await db.exec(`
+    CREATE TABLE emergency_sessions_new (
+        id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+        doctor_user_id TEXT NOT NULL,
+        patient_user_id TEXT NOT NULL,
+        method TEXT CHECK (method IN (${methodList})) NOT NULL,
+        reason TEXT NOT NULL,
+        hospital_name TEXT NULL,
+        granted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME NOT NULL,
+        status TEXT CHECK (status IN ('ACTIVE', 'EXPIRED', 'REVOKED')) DEFAULT 'ACTIVE'
+    );
+
+    INSERT INTO emergency_sessions_new
+      SELECT id, doctor_user_id, patient_user_id, method, reason, hospital_name, granted_at, expires_at, status
+      FROM emergency_sessions
+      WHERE method IN (${methodList});
+
+    DROP TABLE emergency_sessions;
+    ALTER TABLE emergency_sessions_new RENAME TO emergency_sessions;
+    ${EMERGENCY_SESSION_INDEXES}
+  `)
+}
+
+export async function up(db: Database): Promise<void> {
+  await rebuildEmergencySessions(db, ['OTP', 'FINGERPRINT', 'IRIS', 'BREAK_GLASS'])
+
+  await db.exec(`
+    -- Break-glass sessions awaiting review by a hospital reviewer
+    CREATE TABLE IF NOT EXISTS break_glass_reviews (
+        id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+        session_id TEXT UNIQUE NOT NULL,
+        doctor_user_id TEXT NOT NULL,
+        patient_user_id TEXT NOT NULL,
+        justification TEXT NOT NULL,
+        hospital_name TEXT NULL,
+        status TEXT CHECK (status IN ('PENDING', 'APPROVED', 'FLAGGED')) DEFAULT 'PENDING',
+        reviewer_user_id TEXT NULL,
+        review_notes TEXT NULL,
+        reviewed_at DATETIME NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_break_glass_reviews_status ON break_glass_reviews(status, created_at);
+    CREATE INDEX IF NOT EXISTS idx_break_glass_reviews_patient ON break_glass_reviews(patient_user_id);
+  `)
+}
+
+export async function down(db: Database): Promise<void> {
+  await db.exec('DROP TABLE IF EXISTS break_glass_reviews;')
+  await rebuildEmergencySessions(db, ['OTP', 'FINGERPRINT', 'IRIS'])
+}
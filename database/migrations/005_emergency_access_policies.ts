@@ -0,0 +1,32 @@
+import type { Database } from 'sqlite'
+
+/**
+ * Patient-configurable emergency access policies, and the data categories
+ * each emergency session was granted
+ */
+export const version = 5
+export const name = 'emergency_access_policies'
+
+export async function up(db: Database): Promise<void> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS emergency_access_policies (
+        patient_user_id TEXT PRIMARY KEY,
+        allowed_methods_json TEXT NOT NULL,
+        data_categories_json TEXT NOT NULL,
+        max_session_minutes INTEGER NOT NULL,
+        trusted_hospitals_json TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- NULL means the session predates policies and has the full view
+    ALTER TABLE emergency_sessions ADD COLUMN data_categories_json TEXT NULL;
+  `)
+}
+
+export async function down(db: Database): Promise<void> {
+  await db.exec(`
+    ALTER TABLE emergency_sessions DROP COLUMN data_categories_json;
+    DROP TABLE IF EXISTS emergency_access_policies;
+  `)
+}
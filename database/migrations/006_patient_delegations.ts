@@ -0,0 +1,33 @@
+import type { Database } from 'sqlite'
+
+/**
+ * Family-member delegations: a patient invites a delegate by mobile number
+ * and grants them scoped permissions until an expiry date
+ */
+export const version = 6
+export const name = 'patient_delegations'
+
+export async function up(db: Database): Promise<void> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS patient_delegations (
+        id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+        patient_user_id TEXT NOT NULL,
+        delegate_mobile TEXT NOT NULL,
+        delegate_user_id TEXT NULL,
+        permissions_json TEXT NOT NULL,
+        status TEXT CHECK (status IN ('PENDING', 'ACTIVE', 'REVOKED')) DEFAULT 'PENDING',
+        expires_at DATETIME NOT NULL,
+        accepted_at DATETIME NULL,
+        revoked_at DATETIME NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_patient_delegations_patient ON patient_delegations(patient_user_id, status);
+    CREATE INDEX IF NOT EXISTS idx_patient_delegations_delegate ON patient_delegations(delegate_user_id, status);
+    CREATE INDEX IF NOT EXISTS idx_patient_delegations_mobile ON patient_delegations(delegate_mobile, status);
+  `)
+}
+
+export async function down(db: Database): Promise<void> {
+  await db.exec('DROP TABLE IF EXISTS patient_delegations;')
+}
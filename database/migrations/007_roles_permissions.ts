@@ -0,0 +1,105 @@
+import type { Database } from 'sqlite'
+
+/**
+ * Database-backed roles: permissions with resource scopes, custom staff
+ * roles, and role assignments on top of each user's account role
+ */
+export const version = 7
+export const name = 'roles_permissions'
+
+// [role id, name, description, is system role, [permission, scope][]]
+const SEED_ROLES: [string, string, string, number, [string, string][]][] = [
+  ['PATIENT', 'Patient', 'Patients managing their own record', 1, [
+    ['READ_OWN_PROFILE', 'OWN'],
+    ['UPDATE_OWN_PROFILE', 'OWN'],
+    ['DELETE_OWN_PROFILE', 'OWN'],
+    ['READ_OWN_ENCOUNTERS', 'OWN'],
+    ['CREATE_ENCOUNTER', 'OWN'],
+    ['READ_OWN_AUDIT_LOGS', 'OWN']
+  ]],
+  ['DOCTOR', 'Doctor', 'Doctors requesting emergency access', 1, [
+    ['READ_OWN_PROFILE', 'OWN'],
+    ['REQUEST_EMERGENCY_ACCESS', 'ANY'],
+    ['REQUEST_BREAK_GLASS_ACCESS', 'ANY'],
+    ['VIEW_PATIENT_DATA', 'PATIENT_GRANTED']
+  ]],
+  ['OPERATOR', 'Hospital Operator', 'Hospital staff recording encounters and documents', 1, [
+    ['READ_OWN_PROFILE', 'OWN'],
+    ['UPLOAD_DOCUMENTS', 'HOSPITAL'],
+    ['READ_HOSPITAL_ENCOUNTERS', 'HOSPITAL'],
+    ['REVIEW_BREAK_GLASS_ACCESS', 'HOSPITAL']
+  ]],
+  ['ADMIN', 'Administrator', 'Platform administrators', 1, [
+    ['MANAGE_ROLES', 'ANY'],
+    ['READ_AUDIT_LOGS', 'ANY']
+  ]],
+  ['HOSPITAL_ADMIN', 'Hospital Administrator', 'Administers a hospital and reviews its emergency access', 0, [
+    ['UPLOAD_DOCUMENTS', 'HOSPITAL'],
+    ['READ_HOSPITAL_ENCOUNTERS', 'HOSPITAL'],
+    ['REVIEW_BREAK_GLASS_ACCESS', 'HOSPITAL'],
+    ['READ_AUDIT_LOGS', 'HOSPITAL']
+  ]],
+  ['NURSE', 'Nurse', 'Nursing staff', 0, [
+    ['VIEW_PATIENT_DATA', 'PATIENT_GRANTED'],
+    ['READ_HOSPITAL_ENCOUNTERS', 'HOSPITAL']
+  ]],
+  ['LAB_TECHNICIAN', 'Lab Technician', 'Uploads lab reports for the hospital', 0, [
+    ['UPLOAD_DOCUMENTS', 'HOSPITAL']
+  ]],
+  ['AUDITOR', 'Auditor', 'Reviews the audit trail for a hospital', 0, [
+    ['READ_AUDIT_LOGS', 'HOSPITAL']
+  ]]
+]
+
+export async function up(db: Database): Promise<void> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS roles (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT NULL,
+        is_system INTEGER NOT NULL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS role_permissions (
+        role_id TEXT NOT NULL,
+        permission TEXT NOT NULL,
+        scope TEXT CHECK (scope IN ('OWN', 'HOSPITAL', 'PATIENT_GRANTED', 'ANY')) NOT NULL,
+        PRIMARY KEY (role_id, permission)
+    );
+
+    -- Roles held in addition to users.role; hospital_id scopes HOSPITAL grants
+    CREATE TABLE IF NOT EXISTS user_roles (
+        user_id TEXT NOT NULL,
+        role_id TEXT NOT NULL,
+        hospital_id TEXT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (user_id, role_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_user_roles_role ON user_roles(role_id);
+  `)
+
+  for (const [id, roleName, description, isSystem, grants] of SEED_ROLES) {
+    await db.run(
+      'INSERT INTO roles (id, name, description, is_system) VALUES (?, ?, ?, ?)',
+      [id, roleName, description, isSystem]
+    )
+
+    for (const [permission, scope] of grants) {
+      await db.run(
+        'INSERT INTO role_permissions (role_id, permission, scope) VALUES (?, ?, ?)',
+        [id, permission, scope]
+      )
+    }
+  }
+}
+
+export async function down(db: Database): Promise<void> {
+  await db.exec(`
+    DROP TABLE IF EXISTS user_roles;
+    DROP TABLE IF EXISTS role_permissions;
+    DROP TABLE IF EXISTS roles;
+  `)
+}
@@ -0,0 +1,65 @@
+import type { Database } from 'sqlite'
+
+/**
+ * Hospital tenancy: suspension status, doctors linked to a hospital, staff
+ * invitations, and the permission to manage hospitals
+ */
+export const version = 8
+export const name = 'hospital_tenancy'
+
+// [role id, scope]
+const MANAGE_HOSPITALS_GRANTS: [string, string][] = [
+  ['ADMIN', 'ANY'],
+  ['HOSPITAL_ADMIN', 'HOSPITAL']
+]
+
+export async function up(db: Database): Promise<void> {
+  await db.exec(`
+    ALTER TABLE hospitals ADD COLUMN status TEXT NOT NULL DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'SUSPENDED'));
+    ALTER TABLE hospitals ADD COLUMN suspended_at DATETIME NULL;
+    ALTER TABLE hospitals ADD COLUMN suspension_reason TEXT NULL;
+
+    ALTER TABLE doctor_profiles ADD COLUMN hospital_id TEXT NULL;
+
+    -- Operators and doctors invited to join a hospital
+    CREATE TABLE IF NOT EXISTS hospital_invitations (
+        id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+        hospital_id TEXT NOT NULL,
+        role TEXT CHECK (role IN ('OPERATOR', 'DOCTOR')) NOT NULL,
+        name TEXT NOT NULL,
+        mobile TEXT NOT NULL,
+        email TEXT NOT NULL,
+        status TEXT CHECK (status IN ('PENDING', 'ACCEPTED', 'REVOKED')) DEFAULT 'PENDING',
+        invited_by_user_id TEXT NOT NULL,
+        accepted_user_id TEXT NULL,
+        expires_at DATETIME NOT NULL,
+        accepted_at DATETIME NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_hospital_invitations_hospital ON hospital_invitations(hospital_id, status);
+    CREATE INDEX IF NOT EXISTS idx_hospital_invitations_mobile ON hospital_invitations(mobile, status);
+    CREATE INDEX IF NOT EXISTS idx_doctor_profiles_hospital ON doctor_profiles(hospital_id);
+  `)
+
+  for (const [roleId, scope] of MANAGE_HOSPITALS_GRANTS) {
+    await db.run(
+      'INSERT OR IGNORE INTO role_permissions (role_id, permission, scope) VALUES (?, ?, ?)',
+      [roleId, 'MANAGE_HOSPITALS', scope]
+    )
+  }
+}
+
+export async function down(db: Database): Promise<void> {
+  await db.exec(`
+    DELETE FROM role_permissions WHERE permission = 'MANAGE_HOSPITALS';
+
+    DROP TABLE IF EXISTS hospital_invitations;
+    DROP INDEX IF EXISTS idx_doctor_profiles_hospital;
+
+    ALTER TABLE doctor_profiles DROP COLUMN hospital_id;
+    ALTER TABLE hospitals DROP COLUMN suspension_reason;
+    ALTER TABLE hospitals DROP COLUMN suspended_at;
+    ALTER TABLE hospitals DROP COLUMN status;
+  `)
+}
@@ -0,0 +1,33 @@
+import type { Database } from 'sqlite'
+
+/**
+ * Server-side record of each signed-in device, keyed by the JWT id, so
+ * sessions can be listed and revoked before they expire
+ */
+export const version = 9
+export const name = 'user_sessions'
+
+export async function up(db: Database): Promise<void> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY, -- JWT jti
+        user_id TEXT NOT NULL,
+        user_agent TEXT NULL,
+        ip_address TEXT NULL,
+        device_name TEXT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_seen_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME NOT NULL,
+        revoked_at DATETIME NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id, revoked_at);
+    CREATE INDEX IF NOT EXISTS idx_sessions_expires ON sessions(expires_at);
+  `)
+}
+
+export async function down(db: Database): Promise<void> {
+  await db.exec(`
+    DROP TABLE IF EXISTS sessions;
+  `)
+}
@@ -0,0 +1,29 @@
+import type { Database } from 'sqlite'
+
+/**
+ * Rotating refresh tokens for regular sessions. Every token issued for a
+ * session belongs to that session's family and is stored hashed.
+ */
+export const version = 10
+export const name = 'refresh_tokens'
+
+export async function up(db: Database): Promise<void> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS refresh_tokens (
+        id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+        session_id TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE, -- SHA-256 of the token
+        expires_at DATETIME NOT NULL,
+        used_at DATETIME NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_refresh_tokens_session ON refresh_tokens(session_id);
+  `)
+}
+
+export async function down(db: Database): Promise<void> {
+  await db.exec(`
+    DROP TABLE IF EXISTS refresh_tokens;
+  `)
+}
@@ -0,0 +1,25 @@
+import type { Database } from 'sqlite'
+
+/**
+ * Rate limit state shared by every server instance using the database
+ */
+export const version = 11
+export const name = 'rate_limits'
+
+export async function up(db: Database): Promise<void> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS rate_limits (
+        key TEXT PRIMARY KEY, -- policy:identifier:ip
+        state_json TEXT NOT NULL,
+        expires_at INTEGER NOT NULL -- epoch milliseconds after which the state can be discarded
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_rate_limits_expires ON rate_limits(expires_at);
+  `)
+}
+
+export async function down(db: Database): Promise<void> {
+  await db.exec(`
+    DROP TABLE IF EXISTS rate_limits;
+  `)
+}
@@ -0,0 +1,40 @@
+import type { Database } from 'sqlite'
+
+/**
+ * Failed OTP verifications kept independently of the OTPs themselves, and
+ * the account lockouts they trigger
+ */
+export const version = 12
+export const name = 'account_lockouts'
+
+export async function up(db: Database): Promise<void> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS otp_failures (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL,
+        purpose TEXT NOT NULL,
+        created_at DATETIME NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS account_lockouts (
+        id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+        user_id TEXT NOT NULL,
+        level INTEGER NOT NULL, -- 1 for the first lockout in the escalation period
+        failed_attempts INTEGER NOT NULL,
+        locked_at DATETIME NOT NULL,
+        locked_until DATETIME NOT NULL,
+        unlocked_at DATETIME NULL,
+        unlock_method TEXT NULL CHECK (unlock_method IN ('EMERGENCY_CONTACT'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_otp_failures_user ON otp_failures(user_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_account_lockouts_user ON account_lockouts(user_id, locked_at);
+  `)
+}
+
+export async function down(db: Database): Promise<void> {
+  await db.exec(`
+    DROP TABLE IF EXISTS account_lockouts;
+    DROP TABLE IF EXISTS otp_failures;
+  `)
+}
@@ -0,0 +1,41 @@
+import type { Database } from 'sqlite'
+
+/**
+ * Authenticator app (TOTP) second factor for staff, its recovery codes, and
+ * the hospital policy that makes it mandatory
+ */
+export const version = 13
+export const name = 'totp'
+
+export async function up(db: Database): Promise<void> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS user_totp (
+        user_id TEXT PRIMARY KEY,
+        secret TEXT NOT NULL, -- base32
+        enabled_at DATETIME NULL, -- NULL until the first code is confirmed
+        last_used_step INTEGER NULL, -- time step of the last accepted code, to stop replays
+        created_at DATETIME NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS totp_recovery_codes (
+        id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+        user_id TEXT NOT NULL,
+        code_hash TEXT NOT NULL,
+        used_at DATETIME NULL,
+        created_at DATETIME NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_totp_recovery_codes_user ON totp_recovery_codes(user_id);
+
+    ALTER TABLE hospitals ADD COLUMN require_totp INTEGER NOT NULL DEFAULT 0;
+  `)
+}
+
+export async function down(db: Database): Promise<void> {
+  await db.exec(`
+    ALTER TABLE hospitals DROP COLUMN require_totp;
+
+    DROP TABLE IF EXISTS totp_recovery_codes;
+    DROP TABLE IF EXISTS user_totp;
+  `)
+}
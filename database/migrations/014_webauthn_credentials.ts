@@ -0,0 +1,42 @@
+import type { Database } from 'sqlite'
+
+/**
+ * WebAuthn (passkey) credentials registered from platform authenticators,
+ * and the single-use challenges issued for registration and sign-in
+ */
+export const version = 14
+export const name = 'webauthn_credentials'
+
+export async function up(db: Database): Promise<void> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS webauthn_credentials (
+        id TEXT PRIMARY KEY, -- base64url credential ID
+        user_id TEXT NOT NULL,
+        public_key_jwk TEXT NOT NULL,
+        algorithm INTEGER NOT NULL, -- COSE algorithm, -7 (ES256) or -257 (RS256)
+        sign_count INTEGER NOT NULL DEFAULT 0,
+        transports_json TEXT NULL,
+        device_name TEXT NULL,
+        created_at DATETIME NOT NULL,
+        last_used_at DATETIME NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS webauthn_challenges (
+        id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+        user_id TEXT NOT NULL,
+        purpose TEXT CHECK (purpose IN ('REGISTRATION', 'AUTHENTICATION')) NOT NULL,
+        challenge TEXT NOT NULL UNIQUE,
+        expires_at DATETIME NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_webauthn_credentials_user ON webauthn_credentials(user_id);
+    CREATE INDEX IF NOT EXISTS idx_webauthn_challenges_user ON webauthn_challenges(user_id, purpose);
+  `)
+}
+
+export async function down(db: Database): Promise<void> {
+  await db.exec(`
+    DROP TABLE IF EXISTS webauthn_challenges;
+    DROP TABLE IF EXISTS webauthn_credentials;
+  `)
+}
@@ -0,0 +1,36 @@
+import type { Database } from 'sqlite'
+
+/**
+ * Encrypted biometric templates, one per enrolled finger or eye. The
+ * patient_profiles reference columns now only record that enrollment exists,
+ * so the generated references from before, which held no biometric data, are
+ * cleared and those patients enroll again.
+ */
+export const version = 15
+export const name = 'biometric_templates'
+
+export async function up(db: Database): Promise<void> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS biometric_templates (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        biometric_type TEXT CHECK (biometric_type IN ('FINGERPRINT', 'IRIS')) NOT NULL,
+        position TEXT NOT NULL, -- finger (e.g. RIGHT_INDEX) or eye (LEFT, RIGHT)
+        matcher TEXT NOT NULL,
+        template_encrypted TEXT NOT NULL, -- base64 AES-256-GCM: iv | auth tag | ciphertext
+        created_at DATETIME NOT NULL,
+        last_matched_at DATETIME NULL,
+        UNIQUE (user_id, biometric_type, position)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_biometric_templates_type ON biometric_templates(biometric_type, matcher);
+
+    UPDATE patient_profiles SET biometric_fingerprint_ref = NULL, biometric_iris_ref = NULL;
+  `)
+}
+
+export async function down(db: Database): Promise<void> {
+  await db.exec(`
+    DROP TABLE IF EXISTS biometric_templates;
+  `)
+}
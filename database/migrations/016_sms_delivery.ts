@@ -0,0 +1,41 @@
+import type { Database } from 'sqlite'
+
+/**
+ * SMS delivery tracking for every provider attempt, and the outbox the local
+ * provider writes messages to
+ */
+export const version = 16
+export const name = 'sms_delivery'
+
+export async function up(db: Database): Promise<void> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS sms_deliveries (
+        id TEXT PRIMARY KEY,
+        provider TEXT NOT NULL,
+        provider_message_id TEXT NULL, -- NULL when the provider rejected the message
+        to_number TEXT NOT NULL,
+        status TEXT CHECK (status IN ('QUEUED', 'SENT', 'DELIVERED', 'FAILED')) NOT NULL,
+        error_code TEXT NULL,
+        created_at DATETIME NOT NULL,
+        updated_at DATETIME NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS sms_outbox (
+        id TEXT PRIMARY KEY,
+        to_number TEXT NOT NULL,
+        body TEXT NOT NULL,
+        created_at DATETIME NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_sms_deliveries_message ON sms_deliveries(provider, provider_message_id);
+    CREATE INDEX IF NOT EXISTS idx_sms_deliveries_created ON sms_deliveries(created_at);
+    CREATE INDEX IF NOT EXISTS idx_sms_outbox_to ON sms_outbox(to_number, created_at);
+  `)
+}
+
+export async function down(db: Database): Promise<void> {
+  await db.exec(`
+    DROP TABLE IF EXISTS sms_outbox;
+    DROP TABLE IF EXISTS sms_deliveries;
+  `)
+}
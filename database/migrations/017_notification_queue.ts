@@ -0,0 +1,47 @@
+import type { Database } from 'sqlite'
+
+/**
+ * Durable queue for outbound notifications, retried with backoff until they
+ * are sent or dead-lettered, and the permission to manage it
+ */
+export const version = 17
+export const name = 'notification_queue'
+
+export async function up(db: Database): Promise<void> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS notifications (
+        id TEXT PRIMARY KEY,
+        channel TEXT NOT NULL, -- SMS
+        recipient TEXT NOT NULL,
+        body TEXT NULL, -- Cleared once a sensitive message is sent or dead-lettered
+        sensitive INTEGER NOT NULL DEFAULT 0,
+        idempotency_key TEXT NULL UNIQUE,
+        status TEXT CHECK (status IN ('PENDING', 'SENDING', 'SENT', 'DEAD')) NOT NULL DEFAULT 'PENDING',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL,
+        next_attempt_at DATETIME NOT NULL,
+        expires_at DATETIME NULL, -- Not worth sending after this, e.g. an OTP
+        last_error TEXT NULL,
+        provider TEXT NULL,
+        provider_message_id TEXT NULL,
+        created_at DATETIME NOT NULL,
+        updated_at DATETIME NOT NULL,
+        sent_at DATETIME NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_notifications_due ON notifications(status, next_attempt_at);
+  `)
+
+  await db.run(
+    'INSERT OR IGNORE INTO role_permissions (role_id, permission, scope) VALUES (?, ?, ?)',
+    ['ADMIN', 'MANAGE_NOTIFICATIONS', 'ANY']
+  )
+}
+
+export async function down(db: Database): Promise<void> {
+  await db.exec(`
+    DELETE FROM role_permissions WHERE permission = 'MANAGE_NOTIFICATIONS';
+
+    DROP TABLE IF EXISTS notifications;
+  `)
+}
@@ -0,0 +1,27 @@
+import type { Database } from 'sqlite'
+
+/**
+ * Each user's preferred notification channel, and the subject and HTML body
+ * queued emails need
+ */
+export const version = 18
+export const name = 'email_channel'
+
+export async function up(db: Database): Promise<void> {
+  await db.exec(`
+    ALTER TABLE users ADD COLUMN notification_channel TEXT NOT NULL DEFAULT 'SMS' CHECK (notification_channel IN ('SMS', 'EMAIL'));
+
+    ALTER TABLE notifications ADD COLUMN subject TEXT NULL;
+    ALTER TABLE notifications ADD COLUMN html_body TEXT NULL;
+  `)
+}
+
+export async function down(db: Database): Promise<void> {
+  await db.exec(`
+    DELETE FROM notifications WHERE channel = 'EMAIL';
+    ALTER TABLE notifications DROP COLUMN html_body;
+    ALTER TABLE notifications DROP COLUMN subject;
+
+    ALTER TABLE users DROP COLUMN notification_channel;
+  `)
+}
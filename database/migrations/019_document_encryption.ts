@@ -0,0 +1,32 @@
+import type { Database } from 'sqlite'
+
+/**
+ * Envelope encryption keys for document files. Rows without an encrypted key
+ * are plaintext files uploaded before encryption.
+ */
+export const version = 19
+export const name = 'document_encryption'
+
+export async function up(db: Database): Promise<void> {
+  await db.exec(`
+    ALTER TABLE documents ADD COLUMN encrypted_key TEXT NULL;
+    ALTER TABLE documents ADD COLUMN encryption_nonce TEXT NULL;
+    ALTER TABLE documents ADD COLUMN encryption_tag TEXT NULL;
+    ALTER TABLE documents ADD COLUMN encryption_key_id TEXT NULL;
+  `)
+}
+
+export async function down(db: Database): Promise<void> {
+  // Dropping the keys would make encrypted files unreadable
+  const encrypted = await db.get('SELECT COUNT(*) AS count FROM documents WHERE encrypted_key IS NOT NULL')
+  if (encrypted.count > 0) {
+    throw new Error(`${encrypted.count} document(s) are encrypted; their keys cannot be dropped`)
+  }
+
+  await db.exec(`
+    ALTER TABLE documents DROP COLUMN encryption_key_id;
+    ALTER TABLE documents DROP COLUMN encryption_tag;
+    ALTER TABLE documents DROP COLUMN encryption_nonce;
+    ALTER TABLE documents DROP COLUMN encrypted_key;
+  `)
+}
@@ -0,0 +1,35 @@
+import type { Database } from 'sqlite'
+import { ENCRYPTED_COLUMNS, decryptField } from '../field-encryption'
+
+/**
+ * Blind index for ID proof numbers, whose encrypted values can no longer be
+ * compared directly. Unique like the column itself, for values indexed under
+ * the same key.
+ */
+export const version = 20
+export const name = 'field_encryption'
+
+export async function up(db: Database): Promise<void> {
+  await db.exec(`
+    ALTER TABLE patient_profiles ADD COLUMN id_proof_number_bidx TEXT NULL;
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_patient_profiles_id_proof_bidx ON patient_profiles(id_proof_number_bidx);
+  `)
+}
+
+export async function down(db: Database): Promise<void> {
+  // Without the index, encrypted ID proof numbers could not be looked up, so
+  // every encrypted value goes back to plaintext first
+  for (const [table, columns] of Object.entries(ENCRYPTED_COLUMNS)) {
+    for (const column of columns) {
+      const rows = await db.all(`SELECT rowid, ${column} AS value FROM ${table} WHERE ${column} LIKE 'enc:%'`)
+      for (const row of rows) {
+        await db.run(`UPDATE ${table} SET ${column} = ? WHERE rowid = ?`, [decryptField(row.value), row.rowid])
+      }
+    }
+  }
+
+  await db.exec(`
+    DROP INDEX IF EXISTS idx_patient_profiles_id_proof_bidx;
+    ALTER TABLE patient_profiles DROP COLUMN id_proof_number_bidx;
+  `)
+}
@@ -0,0 +1,41 @@
+import type { Database } from 'sqlite'
+
+/**
+ * Resumable document uploads. Chunks are staged on disk, encrypted with the
+ * upload's own wrapped key, until the upload is completed or expires.
+ */
+export const version = 21
+export const name = 'document_uploads'
+
+export async function up(db: Database): Promise<void> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS document_uploads (
+        id TEXT PRIMARY KEY,
+        encounter_id TEXT NOT NULL,
+        patient_user_id TEXT NOT NULL,
+        hospital_id TEXT NULL,
+        uploaded_by_user_id TEXT NOT NULL,
+        filename TEXT NOT NULL,
+        mimetype TEXT NOT NULL,
+        total_size INTEGER NOT NULL,
+        received_bytes INTEGER NOT NULL DEFAULT 0,
+        encrypted_key TEXT NOT NULL, -- Wrapped key for the staged chunks
+        encryption_key_id TEXT NOT NULL,
+        status TEXT CHECK (status IN ('UPLOADING', 'COMPLETED')) NOT NULL DEFAULT 'UPLOADING',
+        document_id TEXT NULL,
+        created_at DATETIME NOT NULL,
+        updated_at DATETIME NOT NULL,
+        expires_at DATETIME NOT NULL,
+        FOREIGN KEY (encounter_id) REFERENCES encounters(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_document_uploads_expires ON document_uploads(status, expires_at);
+  `)
+}
+
+export async function down(db: Database): Promise<void> {
+  await db.exec(`
+    DROP INDEX IF EXISTS idx_document_uploads_expires;
+    DROP TABLE IF EXISTS document_uploads;
+  `)
+}
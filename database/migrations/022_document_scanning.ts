@@ -0,0 +1,29 @@
+import type { Database } from 'sqlite'
+
+/**
+ * Malware scan results for documents. New uploads start PENDING and are
+ * quarantined until a scan finds them CLEAN; rows uploaded before scanning
+ * was introduced have no status.
+ */
+export const version = 22
+export const name = 'document_scanning'
+
+export async function up(db: Database): Promise<void> {
+  await db.exec(`
+    ALTER TABLE documents ADD COLUMN scan_status TEXT NULL CHECK (scan_status IN ('PENDING', 'CLEAN', 'INFECTED', 'FAILED'));
+    ALTER TABLE documents ADD COLUMN scan_result TEXT NULL; -- What was found, or why the scan failed
+    ALTER TABLE documents ADD COLUMN scanned_at DATETIME NULL; -- Last scan attempt
+
+    CREATE INDEX IF NOT EXISTS idx_documents_scan_status ON documents(scan_status);
+  `)
+}
+
+export async function down(db: Database): Promise<void> {
+  await db.exec(`
+    DROP INDEX IF EXISTS idx_documents_scan_status;
+
+    ALTER TABLE documents DROP COLUMN scanned_at;
+    ALTER TABLE documents DROP COLUMN scan_result;
+    ALTER TABLE documents DROP COLUMN scan_status;
+  `)
+}
@@ -0,0 +1,38 @@
+import type { Database } from 'sqlite'
+
+/**
+ * The hospital an emergency session was granted under, taken from the
+ * doctor's hospital profile rather than the free-text hospital name.
+ * Break-glass reviews are scoped to it. Existing rows are filled from the
+ * doctor's current hospital.
+ */
+export const version = 23
+export const name = 'emergency_session_hospitals'
+
+export async function up(db: Database): Promise<void> {
+  await db.exec(`
+    ALTER TABLE emergency_sessions ADD COLUMN hospital_id TEXT NULL REFERENCES hospitals(id);
+    ALTER TABLE break_glass_reviews ADD COLUMN hospital_id TEXT NULL REFERENCES hospitals(id);
+
+    UPDATE emergency_sessions SET hospital_id = (
+      SELECT dp.hospital_id FROM doctor_profiles dp WHERE dp.user_id = emergency_sessions.doctor_user_id
+    );
+
+    UPDATE break_glass_reviews SET hospital_id = (
+      SELECT es.hospital_id FROM emergency_sessions es WHERE es.id = break_glass_reviews.session_id
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_emergency_sessions_hospital ON emergency_sessions(hospital_id);
+    CREATE INDEX IF NOT EXISTS idx_break_glass_reviews_hospital ON break_glass_reviews(hospital_id, status);
+  `)
+}
+
+export async function down(db: Database): Promise<void> {
+  await db.exec(`
+    DROP INDEX IF EXISTS idx_break_glass_reviews_hospital;
+    DROP INDEX IF EXISTS idx_emergency_sessions_hospital;
+
+    ALTER TABLE break_glass_reviews DROP COLUMN hospital_id;
+    ALTER TABLE emergency_sessions DROP COLUMN hospital_id;
+  `)
+}
@@ -0,0 +1,27 @@
+import type { Database } from 'sqlite'
+
+/**
+ * Download links are single use: each redeemed link's nonce is kept until
+ * the link would have expired anyway
+ */
+export const version = 24
+export const name = 'document_download_links'
+
+export async function up(db: Database): Promise<void> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS document_download_redemptions (
+        nonce TEXT PRIMARY KEY,
+        document_id TEXT NOT NULL,
+        redeemed_at DATETIME NOT NULL,
+        expires_at DATETIME NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_document_download_redemptions_expires ON document_download_redemptions(expires_at);
+  `)
+}
+
+export async function down(db: Database): Promise<void> {
+  await db.exec(`
+    DROP TABLE IF EXISTS document_download_redemptions;
+  `)
+}
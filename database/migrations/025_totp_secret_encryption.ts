@@ -0,0 +1,27 @@
+import type { Database } from 'sqlite'
+import { decryptField, encryptField, isEncrypted } from '../field-encryption'
+
+/**
+ * Authenticator secrets are encrypted like PHI columns. Secrets stored before
+ * are encrypted in place, so FIELD_ENCRYPTION_KEY must be set to migrate.
+ */
+export const version = 25
+export const name = 'totp_secret_encryption'
+
+export async function up(db: Database): Promise<void> {
+  const rows: { user_id: string; secret: string }[] = await db.all('SELECT user_id, secret FROM user_totp')
+  for (const row of rows) {
+    if (!isEncrypted(row.secret)) {
+      await db.run('UPDATE user_totp SET secret = ? WHERE user_id = ?', [encryptField(row.secret), row.user_id])
+    }
+  }
+}
+
+export async function down(db: Database): Promise<void> {
+  const rows: { user_id: string; secret: string }[] = await db.all('SELECT user_id, secret FROM user_totp')
+  for (const row of rows) {
+    if (isEncrypted(row.secret)) {
+      await db.run('UPDATE user_totp SET secret = ? WHERE user_id = ?', [decryptField(row.secret), row.user_id])
+    }
+  }
+}
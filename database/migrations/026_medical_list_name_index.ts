@@ -0,0 +1,55 @@
+import type { Database } from 'sqlite'
+import { blindIndex, decryptField } from '../field-encryption'
+
+/**
+ * Blind index for allergy, condition and medication names. The lists'
+ * UNIQUE (patient_user_id, name) never matches encrypted names, so a
+ * patient's entries are kept unique on the index instead. Entries already
+ * recorded twice keep the oldest one; FIELD_ENCRYPTION_KEY must be set to
+ * migrate.
+ */
+export const version = 26
+export const name = 'medical_list_name_index'
+
+const TABLES = ['patient_allergies', 'patient_conditions', 'patient_medications']
+
+export async function up(db: Database): Promise<void> {
+  for (const table of TABLES) {
+    await db.exec(`ALTER TABLE ${table} ADD COLUMN name_bidx TEXT NULL`)
+
+    const rows: { id: string; patient_user_id: string; name: string }[] = await db.all(
+      `SELECT id, patient_user_id, name FROM ${table} ORDER BY created_at ASC, rowid ASC`
+    )
+    const recorded = new Set<string>()
+    let removed = 0
+
+    for (const row of rows) {
+      const index = blindIndex(decryptField(row.name), 'name_bidx')
+      const key = `${row.patient_user_id}:${index}`
+
+      if (recorded.has(key)) {
+        await db.run(`DELETE FROM ${table} WHERE id = ?`, [row.id])
+        removed++
+        continue
+      }
+      recorded.add(key)
+
+      await db.run(`UPDATE ${table} SET name_bidx = ? WHERE id = ?`, [index, row.id])
+    }
+
+    if (removed > 0) {
+      console.log(`🧹 ${table}: removed ${removed} duplicate entry(s)`)
+    }
+
+    await db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_${table}_name_bidx ON ${table}(patient_user_id, name_bidx)`)
+  }
+}
+
+export async function down(db: Database): Promise<void> {
+  for (const table of TABLES) {
+    await db.exec(`
+      DROP INDEX IF EXISTS idx_${table}_name_bidx;
+      ALTER TABLE ${table} DROP COLUMN name_bidx;
+    `)
+  }
+}
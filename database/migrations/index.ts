@@ -0,0 +1,57 @@
+import type { Migration } from '../migrator'
+import * as initialSchema from './001_initial_schema'
+import * as fhirImports from './002_fhir_imports'
+import * as structuredMedicalLists from './003_structured_medical_lists'
+import * as breakGlassAccess from './004_break_glass_access'
+import * as emergencyAccessPolicies from './005_emergency_access_policies'
+import * as patientDelegations from './006_patient_delegations'
+import * as rolesPermissions from './007_roles_permissions'
+import * as hospitalTenancy from './008_hospital_tenancy'
+import * as userSessions from './009_user_sessions'
+import * as refreshTokens from './010_refresh_tokens'
+import * as rateLimits from './011_rate_limits'
+import * as accountLockouts from './012_account_lockouts'
+import * as totp from './013_totp'
+import * as webauthnCredentials from './014_webauthn_credentials'
+import * as biometricTemplates from './015_biometric_templates'
+import * as smsDelivery from './016_sms_delivery'
+import * as notificationQueue from './017_notification_queue'
+import * as emailChannel from './018_email_channel'
+import * as documentEncryption from './019_document_encryption'
+import * as fieldEncryption from './020_field_encryption'
+import * as documentUploads from './021_document_uploads'
+import * as documentScanning from './022_document_scanning'
+import * as emergencySessionHospitals from './023_emergency_session_hospitals'
+import * as documentDownloadLinks from './024_document_download_links'
+import * as totpSecretEncryption from './025_totp_secret_encryption'
+import * as medicalListNameIndex from './026_medical_list_name_index'
+
+// Every migration, in version order. Add new migrations to the end.
+export const migrations: Migration[] = [
+  initialSchema,
+  fhirImports,
+  structuredMedicalLists,
+  breakGlassAccess,
+  emergencyAccessPolicies,
+  patientDelegations,
+  rolesPermissions,
+  hospitalTenancy,
+  userSessions,
+  refreshTokens,
+  rateLimits,
+  accountLockouts,
+  totp,
+  webauthnCredentials,
+  biometricTemplates,
+  smsDelivery,
+  notificationQueue,
+  emailChannel,
+  documentEncryption,
+  fieldEncryption,
+  documentUploads,
+  documentScanning,
+  emergencySessionHospitals,
+  documentDownloadLinks,
+  totpSecretEncryption,
+  medicalListNameIndex
+]
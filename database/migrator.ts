@@ -0,0 +1,121 @@
+import type { Database } from 'sqlite'
+import { migrations } from './migrations'
+
+export interface Migration {
+  version: number
+  name: string
+  up(db: Database): Promise<void>
+  down(db: Database): Promise<void>
+}
+
+export interface AppliedMigration {
+  version: number
+  name: string
+  applied_at: string
+}
+
+/**
+ * Create the schema_migrations table if it does not exist
+ */
+export async function ensureMigrationsTable(db: Database): Promise<void> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `)
+}
+
+/**
+ * Mark the initial schema as applied on databases that were created from
+ * sqlite-schema.sql before migrations were versioned
+ */
+export async function baselineExistingDatabase(db: Database): Promise<boolean> {
+  await ensureMigrationsTable(db)
+
+  const recorded = await db.get('SELECT COUNT(*) as count FROM schema_migrations')
+  const users = await db.get("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'users'")
+
+  if (recorded.count > 0 || !users) {
+    return false
+  }
+
+  const initial = migrations[0]
+  await db.run('INSERT INTO schema_migrations (version, name) VALUES (?, ?)', [initial.version, initial.name])
+  console.log(`📌 Existing database baselined at migration ${formatMigration(initial)}`)
+  return true
+}
+
+/**
+ * Get migrations recorded as applied, oldest first
+ */
+export async function getAppliedMigrations(db: Database): Promise<AppliedMigration[]> {
+  await ensureMigrationsTable(db)
+  return db.all('SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC')
+}
+
+/**
+ * Get migrations that have not been applied yet, oldest first
+ */
+export async function getPendingMigrations(db: Database): Promise<Migration[]> {
+  const applied = new Set((await getAppliedMigrations(db)).map(migration => migration.version))
+  return migrations.filter(migration => !applied.has(migration.version))
+}
+
+/**
+ * Apply pending migrations up to and including targetVersion (default: all)
+ */
+export async function migrateUp(db: Database, targetVersion?: number): Promise<Migration[]> {
+  const pending = (await getPendingMigrations(db))
+    .filter(migration => targetVersion === undefined || migration.version <= targetVersion)
+
+  for (const migration of pending) {
+    await runInTransaction(db, async () => {
+      await migration.up(db)
+      await db.run('INSERT INTO schema_migrations (version, name) VALUES (?, ?)', [migration.version, migration.name])
+    })
+    console.log(`⬆️  Applied migration ${formatMigration(migration)}`)
+  }
+
+  return pending
+}
+
+/**
+ * Revert the most recently applied migrations, newest first
+ */
+export async function migrateDown(db: Database, steps: number = 1): Promise<Migration[]> {
+  const applied = (await getAppliedMigrations(db)).reverse().slice(0, steps)
+  const reverted: Migration[] = []
+
+  for (const record of applied) {
+    const migration = migrations.find(candidate => candidate.version === record.version)
+    if (!migration) {
+      throw new Error(`Migration ${record.version} (${record.name}) is applied but has no migration file`)
+    }
+
+    await runInTransaction(db, async () => {
+      await migration.down(db)
+      await db.run('DELETE FROM schema_migrations WHERE version = ?', [migration.version])
+    })
+    console.log(`⬇️  Reverted migration ${formatMigration(migration)}`)
+    reverted.push(migration)
+  }
+
+  return reverted
+}
+
+export function formatMigration(migration: Pick<Migration, 'version' | 'name'>): string {
+  return `${String(migration.version).padStart(3, '0')}_${migration.name}`
+}
+
+async function runInTransaction(db: Database, work: () => Promise<void>): Promise<void> {
+  await db.exec('BEGIN TRANSACTION')
+  try {
+    await work()
+    await db.exec('COMMIT')
+  } catch (error) {
+    await db.exec('ROLLBACK')
+    throw error
+  }
+}
@@ -1,11 +1,41 @@
 import sqlite3 from 'sqlite3'
-import { open } from 'sqlite'
+import { open, Database } from 'sqlite'
 import fs from 'fs'
 import path from 'path'
+import { AsyncLocalStorage } from 'async_hooks'
+import { migrateUp, baselineExistingDatabase, getPendingMigrations, formatMigration } from './migrator'
+import { protectStatement, revealRows } from './field-encryption'
 
 let db: any = null
 let initPromise: Promise<any> | null = null
 
+/**
+ * Open the SQLite database file with the pragmas used by the app. Used
+ * directly by the migration CLI, which must run before the app will start.
+ */
+export async function openSQLiteDatabase(): Promise<Database> {
+  // Create database directory if it doesn't exist
+  const dbDir = path.join(process.cwd(), 'database')
+  if (!fs.existsSync(dbDir)) {
+    fs.mkdirSync(dbDir, { recursive: true })
+  }
+
+  // Open SQLite database with WAL mode for better concurrency
+  const connection = await open({
+    filename: path.join(dbDir, 'e_patient_connect.db'),
+    driver: sqlite3.Database
+  })
+
+  // Enable WAL mode for better concurrent access
+  await connection.exec('PRAGMA journal_mode = WAL;')
+  await connection.exec('PRAGMA synchronous = NORMAL;')
+  await connection.exec('PRAGMA cache_size = 1000;')
+  await connection.exec('PRAGMA temp_store = memory;')
+  await connection.exec('PRAGMA busy_timeout = 30000;') // 30 second timeout
+
+  return connection
+}
+
 export async function initializeSQLite() {
   // If already initializing, wait for it to complete
   if (initPromise) {
@@ -21,24 +51,7 @@ export async function initializeSQLite() {
   
   initPromise = (async () => {
     try {
-      // Create database directory if it doesn't exist
-      const dbDir = path.join(process.cwd(), 'database')
-      if (!fs.existsSync(dbDir)) {
-        fs.mkdirSync(dbDir, { recursive: true })
-      }
-
-      // Open SQLite database with WAL mode for better concurrency
-      db = await open({
-        filename: path.join(dbDir, 'e_patient_connect.db'),
-        driver: sqlite3.Database
-      })
-
-      // Enable WAL mode for better concurrent access
-      await db.exec('PRAGMA journal_mode = WAL;')
-      await db.exec('PRAGMA synchronous = NORMAL;')
-      await db.exec('PRAGMA cache_size = 1000;')
-      await db.exec('PRAGMA temp_store = memory;')
-      await db.exec('PRAGMA busy_timeout = 30000;') // 30 second timeout
+      db = await openSQLiteDatabase()
 
       console.log('✅ SQLite database connected')
 
@@ -46,26 +59,29 @@ export async function initializeSQLite() {
       const tables = await db.all("SELECT name FROM sqlite_master WHERE type='table'")
       
       if (tables.length === 0) {
-        // Read the clean SQLite schema
-        const schemaPath = path.join(process.cwd(), 'database', 'sqlite-schema.sql')
-        const schemaSql = fs.readFileSync(schemaPath, 'utf8')
-        
-        // Execute schema
+        // A brand new database has nothing to lose, so build it from scratch
         console.log('📋 Creating SQLite tables...')
-        await db.exec(schemaSql)
-        
-        // Verify tables were created
-        const newTables = await db.all("SELECT name FROM sqlite_master WHERE type='table'")
-        console.log('📊 Created tables:', newTables.map(t => t.name).join(', '))
+        await migrateUp(db)
         console.log('✅ SQLite schema created successfully')
       } else {
-        console.log('📊 Using existing tables:', tables.map(t => t.name).join(', '))
+        await baselineExistingDatabase(db)
+
+        // Refuse to serve against a schema the code does not match
+        const pending = await getPendingMigrations(db)
+        if (pending.length > 0) {
+          throw new Error(
+            `Database has ${pending.length} pending migration(s): ${pending.map(formatMigration).join(', ')}. ` +
+            'Run "npm run db:migrate" before starting the server.'
+          )
+        }
+
         console.log('✅ SQLite database ready')
       }
 
       return db
     } catch (error) {
       console.error('❌ SQLite initialization failed:', error)
+      await db?.close().catch(() => {})
       db = null
       initPromise = null
       throw error
@@ -82,8 +98,33 @@ export async function getSQLiteConnection() {
   return db
 }
 
+interface TransactionScope {
+  savepoints: number
+}
+
+// Set while a transaction owns the shared connection, so statements issued
+// anywhere inside it join the transaction instead of waiting for it to end
+const transactionScope = new AsyncLocalStorage<TransactionScope>()
+
+// Tail of the queue of work waiting for exclusive use of the connection
+let connectionQueue: Promise<void> = Promise.resolve()
+
+async function withConnectionLock<T>(work: () => Promise<T>): Promise<T> {
+  const previous = connectionQueue
+  let release!: () => void
+  connectionQueue = new Promise<void>(resolve => { release = resolve })
+
+  try {
+    await previous
+    return await work()
+  } finally {
+    release()
+  }
+}
+
 // Simple query execution for SQLite with retry logic
-export async function executeSQLiteQuery(query: string, params: any[] = []) {
+async function runSQLiteQuery(sql: string, sqlParams: unknown[] = []) {
+  const { query, params } = protectStatement(sql, sqlParams)
   const maxRetries = 3
   let lastError: any
 
@@ -94,7 +135,7 @@ export async function executeSQLiteQuery(query: string, params: any[] = []) {
       }
       
       if (query.trim().toUpperCase().startsWith('SELECT')) {
-        return await db.all(query, params)
+        return revealRows(await db.all(query, params), query)
       } else {
         return await db.run(query, params)
       }
@@ -114,4 +155,53 @@ export async function executeSQLiteQuery(query: string, params: any[] = []) {
   }
 
   throw lastError
-}
\ No newline at end of file
+}
+
+export async function executeSQLiteQuery(query: string, params: unknown[] = []) {
+  if (transactionScope.getStore()) {
+    return runSQLiteQuery(query, params)
+  }
+
+  return withConnectionLock(() => runSQLiteQuery(query, params))
+}
+
+/**
+ * Run work inside a transaction on the shared connection. Other statements
+ * and transactions wait until it commits or rolls back. Called again from
+ * inside a transaction, it opens a savepoint instead.
+ */
+export async function runSQLiteTransaction<T>(work: () => Promise<T>): Promise<T> {
+  const scope = transactionScope.getStore()
+
+  if (scope) {
+    const savepoint = `sp_${++scope.savepoints}`
+    await runSQLiteQuery(`SAVEPOINT ${savepoint}`)
+
+    try {
+      const result = await work()
+      await runSQLiteQuery(`RELEASE SAVEPOINT ${savepoint}`)
+      return result
+    } catch (error) {
+      await runSQLiteQuery(`ROLLBACK TO SAVEPOINT ${savepoint}`)
+      await runSQLiteQuery(`RELEASE SAVEPOINT ${savepoint}`)
+      throw error
+    }
+  }
+
+  return withConnectionLock(() => transactionScope.run({ savepoints: 0 }, async () => {
+    await runSQLiteQuery('BEGIN IMMEDIATE TRANSACTION')
+
+    try {
+      const result = await work()
+      await runSQLiteQuery('COMMIT')
+      return result
+    } catch (error) {
+      try {
+        await runSQLiteQuery('ROLLBACK')
+      } catch (rollbackError) {
+        console.error('SQLite rollback error:', rollbackError)
+      }
+      throw error
+    }
+  }))
+}
@@ -101,6 +101,40 @@ async function makeRequest(endpoint, options = {}) {
   }
 }
 
+// Current RFC 6238 code for a base32 authenticator secret
+async function totpCode(secret) {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+  let bits = ''
+  for (const char of secret) {
+    bits += alphabet.indexOf(char).toString(2).padStart(5, '0')
+  }
+  const key = Buffer.from(bits.match(/.{8}/g).map(byte => parseInt(byte, 2)))
+
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(Math.floor(Date.now() / 30000)))
+  const hmacKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-1' }, false, ['sign'])
+  const hmac = Buffer.from(await crypto.subtle.sign('HMAC', hmacKey, counter))
+  const offset = hmac[hmac.length - 1] & 0x0f
+  return String((hmac.readUInt32BE(offset) & 0x7fffffff) % 1000000).padStart(6, '0')
+}
+
+// Enroll an authenticator app for a staff token. Returns its recovery codes,
+// which the tests use in place of app codes since each app code works once.
+async function enrollAuthenticator(token) {
+  const headers = { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` }
+  const setup = await makeRequest('/api/auth/totp/setup', { method: 'POST', headers, body: '{}' })
+  if (!setup.data || !setup.data.secret) {
+    return []
+  }
+
+  const activate = await makeRequest('/api/auth/totp/activate', {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ code: await totpCode(setup.data.secret) })
+  })
+  return (activate.data && activate.data.recoveryCodes) || []
+}
+
 async function sleep(ms) {
   return new Promise(resolve => setTimeout(resolve, ms))
 }
@@ -214,13 +248,29 @@ async function testPatientLoginFlow() {
     }
   }
   
+  // Enroll a fingerprint, then sign in with the same scan
+  if (testResults.tokens.patient) {
+    const enrollResult = await makeRequest('/api/user/biometrics', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${testResults.tokens.patient}` },
+      body: JSON.stringify({
+        fingerprints: [{ finger: 'LEFT_INDEX', data: 'placeholder_fingerprint_data' }]
+      })
+    })
+
+    logTest('Patient Fingerprint Enrollment',
+      enrollResult.status === 200,
+      `Status: ${enrollResult.status}`
+    )
+  }
+
   // Test biometric login
   const biometricResult = await makeRequest('/api/auth/biometric/verify', {
     method: 'POST',
     body: JSON.stringify({
       identifier: DEMO_USERS.patient.mobile,
       biometricType: 'FINGERPRINT',
-      biometricData: 'placeholder_data'
+      biometricData: 'placeholder_fingerprint_data'
     })
   })
   
@@ -259,6 +309,7 @@ async function testDoctorEmergencyAccess() {
     
     if (doctorLoginResult.data && doctorLoginResult.data.token) {
       testResults.tokens.doctor = doctorLoginResult.data.token
+      const recoveryCodes = await enrollAuthenticator(testResults.tokens.doctor)
       
       // Step 2: Request emergency access
       const emergencyResult = await makeRequest('/api/emergency/request', {
@@ -271,7 +322,8 @@ async function testDoctorEmergencyAccess() {
           reason: 'Integration test emergency access',
           hospitalName: 'Test Hospital',
           authMethod: 'OTP',
-          authData: '123456' // Mock OTP for emergency
+          authData: '123456', // Mock OTP for emergency
+          totpCode: recoveryCodes[0]
         })
       })
       
@@ -280,6 +332,13 @@ async function testDoctorEmergencyAccess() {
         `Status: ${emergencyResult.status}`
       )
       
+      // Remove the authenticator so the next run can sign in with OTP alone
+      await makeRequest('/api/auth/totp', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${testResults.tokens.doctor}` },
+        body: JSON.stringify({ code: recoveryCodes[1] })
+      })
+      
       if (emergencyResult.data && emergencyResult.data.sessionToken) {
         testResults.tokens.emergency = emergencyResult.data.sessionToken
         testResults.sessionData.emergencySessionId = emergencyResult.data.sessionId
@@ -419,10 +478,25 @@ async function testFileUploadDownload() {
           }
         })
         
-        logTest('File Download', 
-          downloadResult.status === 200,
+        logTest('Download URL Issued', 
+          downloadResult.status === 200 && !!downloadResult.data?.downloadUrl,
           `Status: ${downloadResult.status}`
         )
+        
+        if (downloadResult.data?.downloadUrl) {
+          // Signed URLs work without the bearer token but are never cached
+          const fileResult = await fetch(`${BASE_URL}${downloadResult.data.downloadUrl}`)
+          logTest('File Download', 
+            fileResult.status === 200 && fileResult.headers.get('cache-control') === 'private, no-store',
+            `Status: ${fileResult.status}`
+          )
+          
+          const tamperedResult = await fetch(`${BASE_URL}${downloadResult.data.downloadUrl}x`)
+          logTest('Tampered Download URL Rejected', 
+            tamperedResult.status === 403,
+            `Status: ${tamperedResult.status}`
+          )
+        }
       }
     }
   } catch (error) {
@@ -430,6 +504,107 @@ async function testFileUploadDownload() {
   }
 }
 
+async function testChunkedUpload() {
+  log('\n📦 Testing Resumable Chunked Upload...', 'info')
+
+  if (!testResults.tokens.operator || !testResults.sessionData.testEncounterId) {
+    logTest('Chunked Upload Test', false, 'Missing operator token or encounter ID')
+    return
+  }
+
+  const authHeaders = { 'Authorization': `Bearer ${testResults.tokens.operator}` }
+  const file = Buffer.concat([Buffer.from('%PDF-1.4\n'), crypto.getRandomValues(new Uint8Array(50000))])
+  const checksum = Buffer.from(await crypto.subtle.digest('SHA-256', file)).toString('hex')
+
+  const createResult = await makeRequest('/api/documents/uploads', {
+    method: 'POST',
+    headers: authHeaders,
+    body: JSON.stringify({
+      encounterId: testResults.sessionData.testEncounterId,
+      filename: 'integration-chunked.pdf',
+      mimetype: 'application/pdf',
+      size: file.length
+    })
+  })
+
+  logTest('Upload Created',
+    createResult.status === 201 && createResult.data?.upload?.receivedBytes === 0,
+    `Status: ${createResult.status}`
+  )
+
+  if (!createResult.data?.upload) {
+    return
+  }
+
+  const uploadId = createResult.data.upload.id
+  const sendChunk = (offset, chunk) => makeRequest(`/api/documents/uploads/${uploadId}?offset=${offset}`, {
+    method: 'PUT',
+    headers: { ...authHeaders, 'Content-Type': 'application/octet-stream' },
+    body: chunk
+  })
+
+  const firstResult = await sendChunk(0, file.subarray(0, 20000))
+  logTest('First Chunk Stored',
+    firstResult.status === 200 && firstResult.data?.upload?.receivedBytes === 20000,
+    `Status: ${firstResult.status}`
+  )
+
+  // A chunk sent again after its response was lost is refused with the progress to resume from
+  const resendResult = await sendChunk(0, file.subarray(0, 20000))
+  logTest('Resent Chunk Returns Progress',
+    resendResult.status === 409 && resendResult.data?.upload?.receivedBytes === 20000,
+    `Status: ${resendResult.status}`
+  )
+
+  const progressResult = await makeRequest(`/api/documents/uploads/${uploadId}`, { headers: authHeaders })
+  logTest('Upload Progress',
+    progressResult.status === 200 && progressResult.data?.upload?.receivedBytes === 20000,
+    `Received: ${progressResult.data?.upload?.receivedBytes}`
+  )
+
+  const oversizedResult = await sendChunk(20000, Buffer.alloc(createResult.data.upload.chunkSize + 1))
+  logTest('Oversized Chunk Rejected',
+    oversizedResult.status === 413,
+    `Status: ${oversizedResult.status}`
+  )
+
+  const earlyResult = await makeRequest(`/api/documents/uploads/${uploadId}/complete`, {
+    method: 'POST',
+    headers: authHeaders,
+    body: JSON.stringify({ checksum })
+  })
+  logTest('Incomplete Upload Not Completed',
+    earlyResult.status === 409,
+    `Status: ${earlyResult.status}`
+  )
+
+  const lastResult = await sendChunk(20000, file.subarray(20000))
+  logTest('Last Chunk Stored',
+    lastResult.status === 200 && lastResult.data?.upload?.receivedBytes === file.length,
+    `Status: ${lastResult.status}`
+  )
+
+  const completeResult = await makeRequest(`/api/documents/uploads/${uploadId}/complete`, {
+    method: 'POST',
+    headers: authHeaders,
+    body: JSON.stringify({ checksum })
+  })
+  logTest('Upload Completed',
+    completeResult.status === 200 && !!completeResult.data?.documentId,
+    `Status: ${completeResult.status}`
+  )
+
+  const againResult = await makeRequest(`/api/documents/uploads/${uploadId}/complete`, {
+    method: 'POST',
+    headers: authHeaders,
+    body: JSON.stringify({ checksum })
+  })
+  logTest('Completing Again Returns Same Document',
+    againResult.data?.documentId === completeResult.data?.documentId,
+    `Status: ${againResult.status}`
+  )
+}
+
 async function testAuditLogging() {
   log('\n📝 Testing Audit Logging...', 'info')
   
@@ -535,6 +710,115 @@ async function testSecurityControls() {
   }
 }
 
+async function testRateLimiting() {
+  log('\n⏱️ Testing Rate Limiting...', 'info')
+
+  // An identifier no other test uses, so its limit starts empty
+  const identifier = `+1888${Date.now().toString().slice(-7)}`
+  const statuses = []
+  let limited = null
+
+  for (let i = 0; i < 6; i++) {
+    const result = await makeRequest('/api/auth/otp/generate', {
+      method: 'POST',
+      body: JSON.stringify({ identifier, purpose: 'LOGIN' })
+    })
+    statuses.push(result.status)
+    if (result.status === 429) {
+      limited = result
+    }
+  }
+
+  logTest('OTP Generation Rate Limited',
+    statuses.slice(0, 5).every(status => status !== 429) && statuses[5] === 429,
+    `Statuses: ${statuses.join(', ')}`
+  )
+
+  logTest('Rate Limit Retry-After Header',
+    !!limited && Number(limited.response.headers.get('retry-after')) > 0,
+    `Retry-After: ${limited?.response.headers.get('retry-after')}`
+  )
+}
+
+async function testAccountLockout() {
+  log('\n🔐 Testing Account Lockout...', 'info')
+
+  if (!testResults.tokens.newPatient) {
+    logTest('Account Lockout Test', false, 'Missing registered test patient')
+    return
+  }
+
+  // The patient registered earlier, whose emergency contact can unlock it.
+  // Each code allows three attempts, so failures are counted across two codes.
+  const identifier = '+1999999999'
+  let lastResult = null
+  for (let i = 0; i < 5; i++) {
+    if (i % 3 === 0) {
+      await makeRequest('/api/auth/otp/generate', {
+        method: 'POST',
+        body: JSON.stringify({ identifier, purpose: 'LOGIN' })
+      })
+    }
+    lastResult = await makeRequest('/api/auth/otp/verify', {
+      method: 'POST',
+      body: JSON.stringify({ identifier, otp: '000000', purpose: 'LOGIN' })
+    })
+  }
+
+  logTest('Account Locked After Failed OTPs',
+    lastResult.status === 400 && /Account locked/.test(lastResult.data?.error || ''),
+    lastResult.data?.error || `Status: ${lastResult.status}`
+  )
+
+  const lockedResult = await makeRequest('/api/auth/otp/verify', {
+    method: 'POST',
+    body: JSON.stringify({ identifier, otp: '000000', purpose: 'LOGIN' })
+  })
+  logTest('OTP Refused While Locked',
+    lockedResult.status === 400 && /Account locked/.test(lockedResult.data?.error || ''),
+    `Status: ${lockedResult.status}`
+  )
+
+  const unlockResult = await makeRequest('/api/auth/unlock/request', {
+    method: 'POST',
+    body: JSON.stringify({ identifier })
+  })
+  logTest('Unlock Code Sent to Emergency Contact',
+    unlockResult.status === 200,
+    `Status: ${unlockResult.status}`
+  )
+
+  // A wrong unlock code does not lift the lockout
+  const wrongResult = await makeRequest('/api/auth/unlock/verify', {
+    method: 'POST',
+    body: JSON.stringify({ identifier, otp: '000000' })
+  })
+  logTest('Wrong Unlock Code Rejected',
+    wrongResult.status === 400,
+    `Status: ${wrongResult.status}`
+  )
+
+  if (unlockResult.data?.otp) {
+    const verifyResult = await makeRequest('/api/auth/unlock/verify', {
+      method: 'POST',
+      body: JSON.stringify({ identifier, otp: unlockResult.data.otp })
+    })
+    logTest('Account Unlocked by Emergency Contact',
+      verifyResult.status === 200 && /unlocked/.test(verifyResult.data?.message || ''),
+      verifyResult.data?.message || `Status: ${verifyResult.status}`
+    )
+
+    const afterResult = await makeRequest('/api/auth/otp/generate', {
+      method: 'POST',
+      body: JSON.stringify({ identifier, purpose: 'LOGIN' })
+    })
+    logTest('OTP Allowed After Unlock',
+      afterResult.status === 200,
+      `Status: ${afterResult.status}`
+    )
+  }
+}
+
 async function testCrossRoleAccess() {
   log('\n🔄 Testing Cross-Role Access Controls...', 'info')
   
@@ -667,8 +951,11 @@ async function runIntegrationTests() {
     await testDoctorEmergencyAccess()
     await testOperatorWorkflow()
     await testFileUploadDownload()
+    await testChunkedUpload()
     await testAuditLogging()
     await testSecurityControls()
+    await testRateLimiting()
+    await testAccountLockout()
     await testCrossRoleAccess()
     await testDataIntegrity()
     await testPerformance()
@@ -707,7 +994,7 @@ async function runIntegrationTests() {
     'Authentication': testResults.tests.filter(t => t.name.includes('Login') || t.name.includes('OTP') || t.name.includes('Token')),
     'Emergency Access': testResults.tests.filter(t => t.name.includes('Emergency')),
     'File Operations': testResults.tests.filter(t => t.name.includes('File') || t.name.includes('Upload') || t.name.includes('Download')),
-    'Security': testResults.tests.filter(t => t.name.includes('Security') || t.name.includes('Unauthorized') || t.name.includes('Access')),
+    'Security': testResults.tests.filter(t => t.name.includes('Security') || t.name.includes('Unauthorized') || t.name.includes('Access') || t.name.includes('Rate Limit') || t.name.includes('Lock')),
     'Audit & Compliance': testResults.tests.filter(t => t.name.includes('Audit')),
     'Performance': testResults.tests.filter(t => t.name.includes('Performance'))
   }
@@ -0,0 +1,265 @@
+/**
+ * E-Patient Connect Notification Queue Test Suite
+ *
+ * Exercises the outbound notification queue in-process: idempotency keys,
+ * exponential backoff, dead-lettering, recovery of messages left SENDING by
+ * a crashed worker, and the admin retry of failed deliveries. SMS is routed
+ * to a provider the tests switch between failing and the local outbox.
+ *
+ * Run with: npm run test:notifications
+ * Prerequisites: Migrated database with no other queued notifications due
+ */
+
+import { database } from './src/lib/database'
+import { NotificationService } from './src/lib/services/notification-service'
+import { smsService } from './src/lib/services/sms-service'
+import { OutboxSmsProvider, SmsProvider, SmsSendResult } from './src/lib/services/sms-providers'
+
+const RECIPIENT = `+1777${Date.now().toString().slice(-7)}`
+
+// Test state
+const testResults = {
+  passed: 0,
+  failed: 0,
+  skipped: 0,
+  tests: [] as { name: string; passed: boolean; message: string }[]
+}
+
+interface NotificationRow {
+  status: string
+  attempts: number
+  max_attempts: number
+  body: string | null
+  last_error: string | null
+  next_attempt_at: string
+}
+
+// Fails every send while `failing` is set, otherwise delivers to the outbox
+class SwitchableSmsProvider implements SmsProvider {
+  readonly name = 'integration-test'
+  failing = true
+  private outbox = new OutboxSmsProvider()
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    if (this.failing) {
+      throw new Error('Simulated provider outage')
+    }
+    return this.outbox.send(to, body)
+  }
+}
+
+const provider = new SwitchableSmsProvider()
+
+// Utility functions
+function log(message: string, type: 'info' | 'success' | 'error' | 'warning' = 'info') {
+  const colors = {
+    info: '\x1b[36m',
+    success: '\x1b[32m',
+    error: '\x1b[31m',
+    warning: '\x1b[33m',
+    reset: '\x1b[0m'
+  }
+
+  const timestamp = new Date().toISOString()
+  console.log(`${colors[type]}[${timestamp}] ${message}${colors.reset}`)
+}
+
+function logTest(name: string, passed: boolean, message = '') {
+  const status = passed ? '✅ PASS' : '❌ FAIL'
+  log(`${status} ${name} ${message}`, passed ? 'success' : 'error')
+
+  testResults.tests.push({ name, passed, message })
+  if (passed) testResults.passed++
+  else testResults.failed++
+}
+
+async function getRow(id: string): Promise<NotificationRow> {
+  const [rows] = await database.execute('SELECT * FROM notifications WHERE id = ?', [id]) as [NotificationRow[]]
+  return rows[0]
+}
+
+// Make a queued notification due now instead of waiting out its backoff
+async function makeDue(id: string) {
+  await database.execute('UPDATE notifications SET next_attempt_at = ? WHERE id = ?', [new Date(0).toISOString(), id])
+}
+
+function secondsUntil(timestamp: string) {
+  return Math.round((new Date(timestamp).getTime() - Date.now()) / 1000)
+}
+
+// Test suites
+async function testIdempotency() {
+  log('\n🔁 Testing Idempotency Keys...', 'info')
+
+  const key = `integration-test:${RECIPIENT}`
+  const first = await NotificationService.enqueueSms(RECIPIENT, 'Idempotent message', { idempotencyKey: key })
+  const second = await NotificationService.enqueueSms(RECIPIENT, 'Duplicate message', { idempotencyKey: key })
+
+  logTest('Same Key Returns Same Notification', first === second, `IDs: ${first}, ${second}`)
+
+  const [rows] = await database.execute('SELECT COUNT(*) AS count FROM notifications WHERE idempotency_key = ?', [key]) as [{ count: number }[]]
+  logTest('Only One Row Queued', rows[0].count === 1, `Rows: ${rows[0].count}`)
+
+  const row = await getRow(first)
+  logTest('First Body Kept', row.body === 'Idempotent message', `Body: ${row.body}`)
+}
+
+async function testBackoffAndDeadLetter() {
+  log('\n📉 Testing Backoff and Dead-Lettering...', 'info')
+
+  provider.failing = true
+  const notification = await NotificationService.sendSms(RECIPIENT, 'Your code is 123456', { sensitive: true })
+
+  logTest('Failed Send Stays Queued',
+    notification.status === 'PENDING' && notification.attempts === 1,
+    `Status: ${notification.status}, attempts: ${notification.attempts}`
+  )
+
+  // 30 seconds after the first failure, doubling each time
+  const delays = [secondsUntil(notification.nextAttemptAt)]
+  for (let attempt = 2; attempt <= 4; attempt++) {
+    await makeDue(notification.id)
+    await NotificationService.processDue()
+    delays.push(secondsUntil((await getRow(notification.id)).next_attempt_at))
+  }
+
+  const expected = [30, 60, 120, 240]
+  logTest('Exponential Backoff',
+    delays.every((delay, index) => Math.abs(delay - expected[index]) <= 2),
+    `Delays: ${delays.join('s, ')}s`
+  )
+
+  await makeDue(notification.id)
+  await NotificationService.processDue()
+  const dead = await getRow(notification.id)
+
+  logTest('Dead-Lettered After Max Attempts',
+    dead.status === 'DEAD' && dead.attempts === dead.max_attempts,
+    `Status: ${dead.status}, attempts: ${dead.attempts}`
+  )
+  logTest('Dead Letter Records Last Error',
+    dead.last_error === 'Failed to send SMS. Please try again.',
+    `Error: ${dead.last_error}`
+  )
+  logTest('Sensitive Body Cleared', dead.body === null, 'OTP text removed from the dead letter')
+
+  const list = await NotificationService.listNotifications('DEAD')
+  logTest('Listed for Admin Review',
+    !!list.notifications?.some(item => item.id === notification.id && item.body === null),
+    `Dead letters: ${list.counts?.DEAD}`
+  )
+
+  const retry = await NotificationService.retry(notification.id, 'integration-test')
+  logTest('Cleared Dead Letter Cannot Be Resent',
+    !retry.success && retry.message === 'This notification has expired and cannot be resent',
+    retry.message
+  )
+}
+
+async function testAdminRetry() {
+  log('\n🛠️ Testing Admin Retry...', 'info')
+
+  provider.failing = true
+  const notification = await NotificationService.sendSms(RECIPIENT, 'Emergency access alert')
+  await database.execute(
+    "UPDATE notifications SET status = 'DEAD', attempts = max_attempts WHERE id = ?",
+    [notification.id]
+  )
+
+  provider.failing = false
+  const retry = await NotificationService.retry(notification.id, 'integration-test')
+
+  logTest('Dead Letter Retried',
+    retry.success && retry.notification?.status === 'SENT',
+    `Status: ${retry.notification?.status}`
+  )
+  logTest('Retry Starts Fresh Attempts', retry.notification?.attempts === 1, `Attempts: ${retry.notification?.attempts}`)
+
+  const again = await NotificationService.retry(notification.id, 'integration-test')
+  logTest('Sent Notification Not Retried', !again.success, again.message)
+}
+
+async function testStaleSendingRecovery() {
+  log('\n♻️ Testing Recovery of Interrupted Deliveries...', 'info')
+
+  provider.failing = false
+  const stale = await NotificationService.enqueueSms(RECIPIENT, 'Interrupted long ago')
+  const fresh = await NotificationService.enqueueSms(RECIPIENT, 'Being sent right now')
+
+  // As if a worker claimed them and died; only the stale claim is abandoned
+  await database.execute(
+    "UPDATE notifications SET status = 'SENDING', attempts = 1, updated_at = ? WHERE id = ?",
+    [new Date(Date.now() - 10 * 60 * 1000).toISOString(), stale]
+  )
+  await database.execute(
+    "UPDATE notifications SET status = 'SENDING', attempts = 1, updated_at = ? WHERE id = ?",
+    [new Date().toISOString(), fresh]
+  )
+
+  await NotificationService.processDue()
+
+  const staleRow = await getRow(stale)
+  const freshRow = await getRow(fresh)
+
+  logTest('Stale SENDING Delivered', staleRow.status === 'SENT', `Status: ${staleRow.status}`)
+  logTest('Recent SENDING Left Alone', freshRow.status === 'SENDING', `Status: ${freshRow.status}`)
+}
+
+async function otherDueNotifications(): Promise<number> {
+  const [rows] = await database.execute(
+    "SELECT COUNT(*) AS count FROM notifications WHERE status IN ('PENDING', 'SENDING') AND recipient != ?",
+    [RECIPIENT]
+  ) as [{ count: number }[]]
+  return rows[0].count
+}
+
+async function cleanup() {
+  await database.execute('DELETE FROM notifications WHERE recipient = ?', [RECIPIENT])
+  await database.execute("DELETE FROM sms_outbox WHERE to_number LIKE '%' || ?", [RECIPIENT.slice(-10)])
+  await database.execute("DELETE FROM sms_deliveries WHERE to_number LIKE '%' || ?", [RECIPIENT.slice(-10)])
+}
+
+// Main test runner
+async function runNotificationQueueTests() {
+  log('🚀 Starting E-Patient Connect Notification Queue Tests', 'info')
+  log('='.repeat(60), 'info')
+
+  smsService.useProviders([provider])
+
+  try {
+    await testIdempotency()
+
+    // Processing the queue would also deliver other pending messages
+    const others = await otherDueNotifications()
+    if (others > 0) {
+      log(`⏭️  Skipping queue processing tests: ${others} other notification(s) are queued`, 'warning')
+      testResults.skipped += 2
+    } else {
+      await testBackoffAndDeadLetter()
+      await testStaleSendingRecovery()
+    }
+
+    await testAdminRetry()
+  } catch (error) {
+    log(`💥 Test runner error: ${error instanceof Error ? error.message : error}`, 'error')
+    testResults.failed++
+  } finally {
+    await cleanup()
+  }
+
+  log('\n' + '='.repeat(60), 'info')
+  log(`✅ Passed: ${testResults.passed}`, 'success')
+  log(`❌ Failed: ${testResults.failed}`, 'error')
+  log(`⏭️  Skipped: ${testResults.skipped}`, 'warning')
+
+  if (testResults.failed > 0) {
+    log('\n❌ Failed Tests:', 'error')
+    testResults.tests
+      .filter(test => !test.passed)
+      .forEach(test => log(`  - ${test.name}: ${test.message}`, 'error'))
+  }
+
+  process.exit(testResults.failed > 0 ? 1 : 0)
+}
+
+runNotificationQueueTests()
@@ -31,6 +31,11 @@ try {
   execSync('npm run db:init', { stdio: 'inherit' });
   console.log('✅ Database initialized');
 
+  // Apply schema migrations
+  console.log('🗄️ Applying database migrations...');
+  execSync('npm run db:migrate', { stdio: 'inherit' });
+  console.log('✅ Database migrations applied');
+
   // Seed database with demo data
   console.log('🌱 Seeding database...');
   execSync('npm run db:seed', { stdio: 'inherit' });
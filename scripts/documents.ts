@@ -0,0 +1,119 @@
+#!/usr/bin/env tsx
+
+import { existsSync } from 'fs'
+import fs from 'fs/promises'
+import { openSQLiteDatabase } from '../database/sqlite'
+import { DocumentEncryption } from '../src/lib/services/document-encryption'
+import { DocumentScanService } from '../src/lib/services/document-scan-service'
+import { DocumentService } from '../src/lib/services/document-service'
+
+const USAGE = `Usage: tsx scripts/documents.ts <command>
+
+Commands:
+  encrypt-existing  Encrypt document files uploaded before encryption at rest
+  rotate-keys       Rewrap every data key with the current DOCUMENT_MASTER_KEY
+  scan              Malware-scan documents that were never scanned or whose
+                    scan has not passed yet
+
+To rotate the master key, set DOCUMENT_MASTER_KEY to the new key and list the
+old one in DOCUMENT_PREVIOUS_MASTER_KEYS, run rotate-keys, then remove the old
+key. Until then both keys must be configured wherever the app runs.`
+
+async function main() {
+  const [command] = process.argv.slice(2)
+
+  if (!command || !['encrypt-existing', 'rotate-keys', 'scan'].includes(command)) {
+    console.log(USAGE)
+    process.exit(command ? 1 : 0)
+  }
+
+  const db = await openSQLiteDatabase()
+
+  try {
+    if (command === 'encrypt-existing') {
+      const documents = await db.all('SELECT id, storage_path FROM documents WHERE encrypted_key IS NULL')
+      let encrypted = 0
+
+      for (const document of documents) {
+        const sourcePath = DocumentService.resolveStoragePath(document.storage_path)
+        if (!existsSync(sourcePath)) {
+          console.warn(`⚠️  ${document.id}: ${sourcePath} not found, skipped`)
+          continue
+        }
+
+        // The encrypted copy replaces the plaintext only once the row points at it
+        const storagePath = `${document.storage_path}.enc`
+        const targetPath = DocumentService.resolveStoragePath(storagePath)
+        await fs.rm(targetPath, { force: true })
+
+        const key = await DocumentEncryption.encryptFile(sourcePath, targetPath, document.id)
+        await db.run(
+          `UPDATE documents
+           SET storage_path = ?, encrypted_key = ?, encryption_nonce = ?, encryption_tag = ?, encryption_key_id = ?
+           WHERE id = ?`,
+          [storagePath, key.encryptedKey, key.nonce, key.authTag, key.keyId, document.id]
+        )
+        await fs.unlink(sourcePath)
+
+        encrypted++
+        console.log(`🔒 ${document.id}: ${document.storage_path} -> ${storagePath}`)
+      }
+
+      console.log(`✅ Encrypted ${encrypted} of ${documents.length} plaintext document(s)`)
+      return
+    }
+
+    if (command === 'scan') {
+      // Documents uploaded before scanning existed have no status and are still served
+      const documents = await db.all(
+        "SELECT id FROM documents WHERE scan_status IS NULL OR scan_status IN ('PENDING', 'FAILED') ORDER BY uploaded_at"
+      )
+      const counts: Record<string, number> = {}
+
+      for (const document of documents) {
+        const status = await DocumentScanService.scanDocument(document.id)
+        if (status) {
+          counts[status] = (counts[status] || 0) + 1
+        }
+        if (status && status !== 'CLEAN') {
+          console.warn(`⚠️  ${document.id}: ${status}`)
+        }
+      }
+
+      const summary = Object.entries(counts).map(([status, count]) => `${count} ${status}`).join(', ')
+      console.log(`✅ Scanned ${documents.length} document(s)${summary ? `: ${summary}` : ''}`)
+      return
+    }
+
+    const documents = await db.all(
+      `SELECT id, encrypted_key, encryption_nonce, encryption_tag, encryption_key_id FROM documents
+       WHERE encrypted_key IS NOT NULL AND encryption_key_id != ?`,
+      [DocumentEncryption.currentKeyId()]
+    )
+
+    for (const document of documents) {
+      const rewrapped = DocumentEncryption.rewrapKey(document.id, {
+        encryptedKey: document.encrypted_key,
+        nonce: document.encryption_nonce,
+        authTag: document.encryption_tag,
+        keyId: document.encryption_key_id
+      })
+
+      if (rewrapped) {
+        await db.run(
+          'UPDATE documents SET encrypted_key = ?, encryption_key_id = ? WHERE id = ?',
+          [rewrapped.encryptedKey, rewrapped.keyId, document.id]
+        )
+      }
+    }
+
+    console.log(`✅ Rewrapped ${documents.length} data key(s) with master key ${DocumentEncryption.currentKeyId()}`)
+  } finally {
+    await db.close()
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Document command failed:', error.message || error)
+  process.exit(1)
+})
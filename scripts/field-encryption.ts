@@ -0,0 +1,85 @@
+#!/usr/bin/env tsx
+
+import { openSQLiteDatabase } from '../database/sqlite'
+import {
+  BLIND_INDEXES,
+  ENCRYPTED_COLUMNS,
+  blindIndex,
+  currentFieldKeyId,
+  decryptField,
+  encryptField,
+  encryptedKeyId
+} from '../database/field-encryption'
+
+const USAGE = `Usage: tsx scripts/field-encryption.ts encrypt
+
+Encrypts PHI columns still stored as plaintext and re-encrypts values made
+with a previous FIELD_ENCRYPTION_KEY, refreshing their blind indexes.
+
+To rotate the key, set FIELD_ENCRYPTION_KEY to the new key and list the old
+one in FIELD_ENCRYPTION_PREVIOUS_KEYS, run encrypt, then remove the old key.
+Until then both keys must be configured wherever the app runs.`
+
+async function main() {
+  const [command] = process.argv.slice(2)
+
+  if (command !== 'encrypt') {
+    console.log(USAGE)
+    process.exit(command ? 1 : 0)
+  }
+
+  const db = await openSQLiteDatabase()
+  const keyId = currentFieldKeyId()
+
+  try {
+    for (const [table, columns] of Object.entries(ENCRYPTED_COLUMNS)) {
+      const indexes = BLIND_INDEXES[table] || {}
+      const rows: Record<string, unknown>[] = await db.all(`SELECT rowid, ${[...columns, ...Object.values(indexes)].join(', ')} FROM ${table}`)
+      let updated = 0
+
+      for (const row of rows) {
+        const assignments: string[] = []
+        const params: string[] = []
+
+        for (const column of columns) {
+          const value = row[column]
+          if (typeof value !== 'string' || (encryptedKeyId(value) === keyId && !stale(row, indexes[column]))) {
+            continue
+          }
+
+          const plaintext = decryptField(value)
+          assignments.push(`${column} = ?`)
+          params.push(encryptField(plaintext))
+
+          if (indexes[column]) {
+            assignments.push(`${indexes[column]} = ?`)
+            params.push(blindIndex(plaintext, indexes[column]))
+          }
+        }
+
+        if (assignments.length > 0) {
+          await db.run(`UPDATE ${table} SET ${assignments.join(', ')} WHERE rowid = ?`, [...params, row.rowid])
+          updated++
+        }
+      }
+
+      console.log(`🔒 ${table}: encrypted ${updated} of ${rows.length} row(s)`)
+    }
+
+    console.log(`✅ PHI columns encrypted with key ${keyId}`)
+  } finally {
+    await db.close()
+  }
+}
+
+/**
+ * Whether a row's blind index is missing or was made with another key
+ */
+function stale(row: Record<string, unknown>, indexColumn?: string): boolean {
+  return !!indexColumn && !String(row[indexColumn] || '').startsWith(`${currentFieldKeyId()}:`)
+}
+
+main().catch((error) => {
+  console.error('❌ Field encryption failed:', error.message || error)
+  process.exit(1)
+})
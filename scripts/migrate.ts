@@ -0,0 +1,69 @@
+#!/usr/bin/env tsx
+
+import { openSQLiteDatabase } from '../database/sqlite'
+import {
+  baselineExistingDatabase,
+  getAppliedMigrations,
+  getPendingMigrations,
+  migrateUp,
+  migrateDown,
+  formatMigration
+} from '../database/migrator'
+
+const USAGE = `Usage: tsx scripts/migrate.ts <command> [options]
+
+Commands:
+  status              List applied and pending migrations
+  up [--to <version>] Apply pending migrations (default: all)
+  down [--steps <n>]  Revert the most recent migrations (default: 1)`
+
+function getOption(args: string[], flag: string): number | undefined {
+  const index = args.indexOf(flag)
+  if (index === -1) {
+    return undefined
+  }
+
+  const value = parseInt(args[index + 1], 10)
+  if (isNaN(value) || value < 1) {
+    throw new Error(`${flag} expects a positive number`)
+  }
+
+  return value
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2)
+
+  if (!command || !['status', 'up', 'down'].includes(command)) {
+    console.log(USAGE)
+    process.exit(command ? 1 : 0)
+  }
+
+  const db = await openSQLiteDatabase()
+
+  try {
+    await baselineExistingDatabase(db)
+
+    if (command === 'status') {
+      const applied = await getAppliedMigrations(db)
+      const pending = await getPendingMigrations(db)
+
+      console.log('📋 Migration status')
+      applied.forEach(migration => console.log(`  ✅ ${formatMigration(migration)} (applied ${migration.applied_at})`))
+      pending.forEach(migration => console.log(`  ⏳ ${formatMigration(migration)} (pending)`))
+    } else if (command === 'up') {
+      const applied = await migrateUp(db, getOption(args, '--to'))
+      console.log(applied.length > 0 ? `✅ Applied ${applied.length} migration(s)` : '✅ Database is up to date')
+    } else {
+      const reverted = await migrateDown(db, getOption(args, '--steps') ?? 1)
+      console.log(reverted.length > 0 ? `✅ Reverted ${reverted.length} migration(s)` : '✅ No migrations to revert')
+    }
+  } finally {
+    await db.close()
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Migration failed:', error)
+  process.exit(1)
+})
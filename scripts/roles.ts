@@ -0,0 +1,76 @@
+#!/usr/bin/env tsx
+
+import { openSQLiteDatabase } from '../database/sqlite'
+
+const USAGE = `Usage: tsx scripts/roles.ts <command> [options]
+
+Commands:
+  list                                           List roles and their permissions
+  assign <user id|mobile> <role> [--hospital <id>] Assign a role to a staff user
+  unassign <user id|mobile> <role>               Remove a role from a user
+
+Use "assign <user> ADMIN" to create the first administrator; after that,
+roles can be managed through /api/admin/roles.`
+
+async function main() {
+  const [command, userIdentifier, roleId, ...args] = process.argv.slice(2)
+
+  if (!command || !['list', 'assign', 'unassign'].includes(command) ||
+      (command !== 'list' && (!userIdentifier || !roleId))) {
+    console.log(USAGE)
+    process.exit(command ? 1 : 0)
+  }
+
+  const db = await openSQLiteDatabase()
+
+  try {
+    if (command === 'list') {
+      const roles = await db.all('SELECT id, name, is_system FROM roles ORDER BY is_system DESC, id')
+      for (const role of roles) {
+        const grants = await db.all('SELECT permission, scope FROM role_permissions WHERE role_id = ? ORDER BY permission', [role.id])
+        console.log(`🛡️  ${role.id} (${role.name})${role.is_system ? ' [system]' : ''}`)
+        grants.forEach(grant => console.log(`    ${grant.permission}: ${grant.scope}`))
+      }
+      return
+    }
+
+    const user = await db.get(
+      'SELECT id, name, role FROM users WHERE id = ? OR mobile = ?',
+      [userIdentifier, userIdentifier]
+    )
+    if (!user) {
+      throw new Error(`User not found: ${userIdentifier}`)
+    }
+
+    const role = await db.get('SELECT id FROM roles WHERE id = ?', [roleId.toUpperCase()])
+    if (!role) {
+      throw new Error(`Role not found: ${roleId}`)
+    }
+
+    if (command === 'assign') {
+      if (user.role === 'PATIENT') {
+        throw new Error('Roles can only be assigned to staff accounts')
+      }
+
+      const hospitalIndex = args.indexOf('--hospital')
+      const hospitalId = hospitalIndex === -1 ? null : args[hospitalIndex + 1]
+
+      await db.run(
+        `INSERT INTO user_roles (user_id, role_id, hospital_id) VALUES (?, ?, ?)
+         ON CONFLICT(user_id, role_id) DO UPDATE SET hospital_id = excluded.hospital_id`,
+        [user.id, role.id, hospitalId]
+      )
+      console.log(`✅ Assigned ${role.id} to ${user.name}${hospitalId ? ` for hospital ${hospitalId}` : ''}`)
+    } else {
+      const result = await db.run('DELETE FROM user_roles WHERE user_id = ? AND role_id = ?', [user.id, role.id])
+      console.log(result.changes ? `✅ Removed ${role.id} from ${user.name}` : `✅ ${user.name} does not hold ${role.id}`)
+    }
+  } finally {
+    await db.close()
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Role command failed:', error.message || error)
+  process.exit(1)
+})
@@ -100,6 +100,9 @@ export default function SMSConfigPage() {
               <p className="text-xs text-gray-600 mt-1">
                 Mode: {status?.smsService?.mode}
               </p>
+              <p className="text-xs text-gray-600 mt-1">
+                Providers: {status?.smsService?.providers?.join(' → ')}
+              </p>
             </div>
 
             <div className={`p-4 rounded-lg ${status?.twilioConfigured ? 'bg-green-50' : 'bg-red-50'}`}>
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { SessionCleanup } from '@/lib/utils/session-cleanup'
+import { NotificationWorker } from '@/lib/utils/notification-worker'
 
 export async function POST(request: NextRequest) {
   try {
@@ -26,7 +27,8 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       message: 'Cleanup status retrieved successfully',
-      status
+      status,
+      notificationWorker: NotificationWorker.getStatus()
     })
 
   } catch (error) {
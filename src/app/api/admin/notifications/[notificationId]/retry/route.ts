@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeRequest } from '@/lib/auth'
+import { NotificationService } from '@/lib/services/notification-service'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ notificationId: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(request, 'MANAGE_NOTIFICATIONS')
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const { notificationId } = await params
+    const result = await NotificationService.retry(notificationId, user.userId)
+
+    if (!result.success) {
+      const status = result.message === 'Notification not found'
+        ? 404
+        : result.message === 'Failed to retry notification' ? 500 : 409
+
+      return NextResponse.json(
+        { error: result.message },
+        { status }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      notification: result.notification
+    })
+
+  } catch (error) {
+    console.error('Retry notification API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
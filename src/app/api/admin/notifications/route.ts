@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeRequest } from '@/lib/auth'
+import { NotificationService, NotificationStatus, NOTIFICATION_STATUSES } from '@/lib/services/notification-service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authorizeRequest(request, 'MANAGE_NOTIFICATIONS')
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = (searchParams.get('status') || 'DEAD').toUpperCase() as NotificationStatus
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, 200)
+
+    if (!NOTIFICATION_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Status must be one of ${NOTIFICATION_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const result = await NotificationService.listNotifications(status, limit)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      notifications: result.notifications,
+      counts: result.counts
+    })
+
+  } catch (error) {
+    console.error('List notifications API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
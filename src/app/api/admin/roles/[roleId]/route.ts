@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeRequest } from '@/lib/auth'
+import { RBACService } from '@/lib/services/rbac-service'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ roleId: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(request, 'MANAGE_ROLES')
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const { roleId } = await params
+    const result = await RBACService.getRole(roleId)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: result.message === 'Role not found' ? 404 : 500 }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      role: result.role
+    })
+
+  } catch (error) {
+    console.error('Get role API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ roleId: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(request, 'MANAGE_ROLES')
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const { roleId } = await params
+    const body = await request.json()
+    const { name, description, permissions } = body
+
+    const result = await RBACService.updateRole(roleId, { name, description, permissions }, user.userId)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: result.message === 'Role not found' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      role: result.role
+    })
+
+  } catch (error) {
+    console.error('Update role API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ roleId: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(request, 'MANAGE_ROLES')
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const { roleId } = await params
+
+    const result = await RBACService.deleteRole(roleId, user.userId)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: result.message === 'Role not found' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message
+    })
+
+  } catch (error) {
+    console.error('Delete role API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
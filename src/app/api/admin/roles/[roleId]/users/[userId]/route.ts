@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeRequest } from '@/lib/auth'
+import { RBACService } from '@/lib/services/rbac-service'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ roleId: string; userId: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(request, 'MANAGE_ROLES')
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const { roleId, userId } = await params
+
+    const result = await RBACService.unassignRole(roleId, userId, user.userId)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: result.message === 'Role assignment not found' ? 404 : 500 }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message
+    })
+
+  } catch (error) {
+    console.error('Unassign role API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
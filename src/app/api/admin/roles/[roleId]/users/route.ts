@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeRequest } from '@/lib/auth'
+import { RBACService } from '@/lib/services/rbac-service'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roleId: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(request, 'MANAGE_ROLES')
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const { roleId } = await params
+    const body = await request.json()
+    const { userId, hospitalId } = body
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await RBACService.assignRole(roleId, userId, hospitalId || null, user.userId)
+
+    if (!result.success) {
+      const notFound = ['Role not found', 'User not found', 'Hospital not found'].includes(result.message)
+      return NextResponse.json(
+        { error: result.message },
+        { status: notFound ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message
+    })
+
+  } catch (error) {
+    console.error('Assign role API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
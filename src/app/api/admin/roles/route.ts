@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeRequest } from '@/lib/auth'
+import { RBACService } from '@/lib/services/rbac-service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authorizeRequest(request, 'MANAGE_ROLES')
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const result = await RBACService.listRoles()
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      roles: result.roles
+    })
+
+  } catch (error) {
+    console.error('List roles API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authorizeRequest(request, 'MANAGE_ROLES')
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const body = await request.json()
+    const { id, name, description, permissions } = body
+
+    const result = await RBACService.createRole({ id, name, description, permissions }, user.userId)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: result.message === 'A role with this ID already exists' ? 409 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      role: result.role
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Create role API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { database } from '@/lib/database'
-import jwt from 'jsonwebtoken'
+import { SessionService } from '@/lib/auth'
 
 export async function GET(request: NextRequest) {
   try {
@@ -15,16 +15,15 @@ export async function GET(request: NextRequest) {
 
     const token = authHeader.substring(7)
 
-    // Verify JWT token
-    let decoded: any
-    try {
-      decoded = jwt.verify(token, process.env.JWT_SECRET!)
-    } catch (error) {
+    // Verify the session token, which also rejects revoked sessions
+    const sessionResult = await SessionService.verifySession(token)
+    if (!sessionResult.success) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
         { status: 401 }
       )
     }
+    const decoded: any = sessionResult.sessionData
 
     // Get audit logs for the user
     const [logs] = await database.execute(`
@@ -1,35 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { authenticateRequest, canAccessPatientData } from '@/lib/auth'
+import { authenticateRequest, authorizeRequest, canAccessPatientData } from '@/lib/auth'
 import { AuditService } from '@/lib/services/audit-service'
+import { RBACService } from '@/lib/services/rbac-service'
 
 export async function GET(request: NextRequest) {
   try {
-    const authResult = await authenticateRequest(request)
+    const { searchParams } = new URL(request.url)
+    const hospitalId = searchParams.get('hospitalId')
+
+    // A hospital's logs need READ_AUDIT_LOGS for that hospital
+    const authResult = hospitalId
+      ? await authorizeRequest(request, 'READ_AUDIT_LOGS', { hospitalId })
+      : await authenticateRequest(request)
 
     if (!authResult.success) {
       return authResult.response!
     }
 
     const user = authResult.user!
-    const { searchParams } = new URL(request.url)
 
     const patientId = searchParams.get('patientId')
     const actorRole = searchParams.get('actorRole')
     const startDate = searchParams.get('startDate')
     const endDate = searchParams.get('endDate')
 
-    // Determine access permissions
+    // Determine access permissions. Auditors can read every log in their scope.
+    const auditScope = !!hospitalId || await RBACService.hasPermission(user, 'READ_AUDIT_LOGS')
     let targetPatientId: string | undefined
 
     if (patientId) {
       // Check if user can access this patient's data
-      if (!canAccessPatientData(user, patientId)) {
+      if (!auditScope && !canAccessPatientData(user, patientId)) {
         return NextResponse.json(
           { error: 'Access denied for this patient data' },
           { status: 403 }
         )
       }
       targetPatientId = patientId
+    } else if (auditScope) {
+      // No patient filter
     } else if (user.role === 'PATIENT') {
       // Patients can only see their own stats
       targetPatientId = user.userId
@@ -38,7 +47,7 @@ export async function GET(request: NextRequest) {
       targetPatientId = user.patientUserId
     }
 
-    if (!targetPatientId && user.role !== 'PATIENT') {
+    if (!targetPatientId && !auditScope && user.role !== 'PATIENT') {
       return NextResponse.json(
         { error: 'Patient ID is required for non-patient users' },
         { status: 400 }
@@ -48,6 +57,7 @@ export async function GET(request: NextRequest) {
     // Build filters
     const filters: any = {}
     if (targetPatientId) filters.patientUserId = targetPatientId
+    if (hospitalId) filters.hospitalId = hospitalId
     if (actorRole) filters.actorRole = actorRole
     if (startDate) filters.startDate = new Date(startDate)
     if (endDate) filters.endDate = new Date(endDate)
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { WebAuthnService, rateLimitRequest } from '@/lib/auth'
+
+/**
+ * Start a passkey sign-in, returning options for navigator.credentials.get()
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { identifier } = body
+
+    if (!identifier) {
+      return NextResponse.json(
+        { error: 'Mobile number or email is required' },
+        { status: 400 }
+      )
+    }
+
+    const rateLimited = await rateLimitRequest(request, 'LOGIN', identifier)
+    if (rateLimited) {
+      return rateLimited
+    }
+
+    const result = await WebAuthnService.generateAuthenticationOptions(identifier)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ options: result.options })
+
+  } catch (error) {
+    console.error('Passkey options API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,11 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { BiometricService, BiometricType } from '@/lib/auth/biometric-service'
-import { SessionService } from '@/lib/auth/session-service'
+import { createSignInResponse } from '@/lib/auth/middleware'
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { identifier, biometricType, biometricData } = body
+    const { identifier, biometricType, biometricData, credential } = body
 
     // Validate input
     if (!identifier || !biometricType) {
@@ -27,7 +27,8 @@ export async function POST(request: NextRequest) {
     const biometricResult = await BiometricService.verifyBiometric(
       identifier, 
       biometricType as BiometricType,
-      biometricData
+      biometricData,
+      credential // WebAuthn assertion from a registered passkey
     )
 
     if (!biometricResult.success) {
@@ -37,21 +38,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Create session
-    const sessionResult = await SessionService.createSession(biometricResult.userId!)
-
-    if (!sessionResult.success) {
-      return NextResponse.json(
-        { error: sessionResult.message },
-        { status: 500 }
-      )
-    }
-
-    return NextResponse.json({
-      message: 'Biometric authentication successful',
-      token: sessionResult.token,
-      user: sessionResult.sessionData
-    })
+    return createSignInResponse(request, biometricResult.userId!, 'Biometric authentication successful')
 
   } catch (error) {
     console.error('Biometric verification API error:', error)
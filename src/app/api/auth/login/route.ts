@@ -1,10 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { OTPService, BiometricService, SessionService, BiometricType } from '@/lib/auth'
+import { OTPService, BiometricService, BiometricType, createSignInResponse, rateLimitRequest } from '@/lib/auth'
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { identifier, method, otp, biometricType, biometricData } = body
+    const { identifier, method, otp, biometricType, biometricData, credential } = body
 
     // Validate input
     if (!identifier || !method) {
@@ -14,6 +14,11 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const rateLimited = await rateLimitRequest(request, 'LOGIN', identifier)
+    if (rateLimited) {
+      return rateLimited
+    }
+
     let userId: string | undefined
 
     // Handle different authentication methods
@@ -54,7 +59,8 @@ export async function POST(request: NextRequest) {
         const biometricResult = await BiometricService.verifyBiometric(
           identifier,
           biometricType as BiometricType,
-          biometricData
+          biometricData,
+          credential
         )
 
         if (!biometricResult.success) {
@@ -73,21 +79,7 @@ export async function POST(request: NextRequest) {
         )
     }
 
-    // Create session
-    const sessionResult = await SessionService.createSession(userId!)
-
-    if (!sessionResult.success) {
-      return NextResponse.json(
-        { error: sessionResult.message },
-        { status: 500 }
-      )
-    }
-
-    return NextResponse.json({
-      message: 'Login successful',
-      token: sessionResult.token,
-      user: sessionResult.sessionData
-    })
+    return createSignInResponse(request, userId!, 'Login successful')
 
   } catch (error) {
     console.error('Login API error:', error)
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { authenticateRequest, SessionService } from '@/lib/auth'
+import { authenticateRequest, SessionService, clearRefreshTokenCookie } from '@/lib/auth'
 
 export async function POST(request: NextRequest) {
   try {
@@ -14,15 +14,17 @@ export async function POST(request: NextRequest) {
     // If this is an emergency session, revoke it
     if ('sessionId' in user) {
       await SessionService.revokeEmergencySession(user.sessionId)
+    } else if (user.jti) {
+      // Revoking the server-side session invalidates the token and its refresh tokens
+      await SessionService.revokeSession(user.jti, user, 'LOGOUT')
     }
 
-    // Log logout event
-    // Note: In a real implementation, you might want to maintain a blacklist of tokens
-    // For now, we'll just return success as JWT tokens are stateless
-
-    return NextResponse.json({
+    const response = NextResponse.json({
       message: 'Logged out successfully'
     })
+    clearRefreshTokenCookie(response)
+
+    return response
 
   } catch (error) {
     console.error('Logout API error:', error)
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { OTPService } from '@/lib/auth'
+import { OTPService, rateLimitRequest } from '@/lib/auth'
 
 export async function POST(request: NextRequest) {
   try {
@@ -14,6 +14,11 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const rateLimited = await rateLimitRequest(request, 'OTP_GENERATE', identifier)
+    if (rateLimited) {
+      return rateLimited
+    }
+
     // Generate OTP
     const result = await OTPService.generateOTP(identifier, purpose)
 
@@ -29,6 +34,7 @@ export async function POST(request: NextRequest) {
       message: result.message,
       otp: result.otp, // Only present in development
       smsStatus: result.smsStatus,
+      channel: result.channel,
       developmentMode: process.env.NODE_ENV === 'development',
       smsEnabled: process.env.SMS_ENABLED === 'true'
     })
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { OTPService, SessionService } from '@/lib/auth'
+import { OTPService, ACCOUNT_UNLOCK_OTP_PURPOSE, createSignInResponse } from '@/lib/auth'
 
 export async function POST(request: NextRequest) {
   try {
@@ -14,31 +14,25 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Verify OTP
-    const otpResult = await OTPService.verifyOTP(identifier, otp, purpose)
-
-    if (!otpResult.success) {
+    // Unlock codes go to the emergency contact and must not sign anyone in
+    if (purpose === ACCOUNT_UNLOCK_OTP_PURPOSE) {
       return NextResponse.json(
-        { error: otpResult.message },
+        { error: 'Use /api/auth/unlock/verify to unlock an account' },
         { status: 400 }
       )
     }
 
-    // Create session
-    const sessionResult = await SessionService.createSession(otpResult.userId!)
+    // Verify OTP
+    const otpResult = await OTPService.verifyOTP(identifier, otp, purpose)
 
-    if (!sessionResult.success) {
+    if (!otpResult.success) {
       return NextResponse.json(
-        { error: sessionResult.message },
-        { status: 500 }
+        { error: otpResult.message },
+        { status: 400 }
       )
     }
 
-    return NextResponse.json({
-      message: 'Authentication successful',
-      token: sessionResult.token,
-      user: sessionResult.sessionData
-    })
+    return createSignInResponse(request, otpResult.userId!, 'Authentication successful')
 
   } catch (error) {
     console.error('OTP verification API error:', error)
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  SessionService,
+  getRefreshTokenCookie,
+  setRefreshTokenCookie,
+  clearRefreshTokenCookie
+} from '@/lib/auth'
+
+export async function POST(request: NextRequest) {
+  try {
+    const refreshToken = getRefreshTokenCookie(request)
+
+    if (!refreshToken) {
+      return NextResponse.json(
+        { error: 'Refresh token is required' },
+        { status: 401 }
+      )
+    }
+
+    const sessionResult = await SessionService.refreshSession(refreshToken)
+
+    if (!sessionResult.success) {
+      const response = NextResponse.json(
+        { error: sessionResult.message },
+        { status: sessionResult.message === 'Failed to refresh session' ? 500 : 401 }
+      )
+      clearRefreshTokenCookie(response)
+      return response
+    }
+
+    const response = NextResponse.json({
+      message: 'Session refreshed successfully',
+      token: sessionResult.token,
+      expiresIn: sessionResult.expiresIn,
+      user: sessionResult.sessionData
+    })
+
+    setRefreshTokenCookie(response, sessionResult.refreshToken!, sessionResult.refreshTokenExpiresAt!)
+
+    return response
+
+  } catch (error) {
+    console.error('Refresh session API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, SessionService } from '@/lib/auth'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request)
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const { sessionId } = await params
+
+    const revoked = await SessionService.revokeSession(
+      sessionId,
+      user,
+      sessionId === user.jti ? 'LOGOUT' : 'SESSION_REVOKED'
+    )
+
+    if (!revoked) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: 'Signed out of the device successfully'
+    })
+
+  } catch (error) {
+    console.error('Revoke session API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
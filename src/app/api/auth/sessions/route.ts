@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, SessionService } from '@/lib/auth'
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request)
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const sessions = await SessionService.getActiveSessions(user.userId)
+
+    return NextResponse.json({
+      sessions: sessions.map(session => ({
+        ...session,
+        current: session.id === user.jti
+      }))
+    })
+
+  } catch (error) {
+    console.error('List sessions API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
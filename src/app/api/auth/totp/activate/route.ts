@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, createSessionResponse, rateLimitRequest, TotpService } from '@/lib/auth'
+
+/**
+ * Confirm authenticator enrollment with a code from the app. When enrolling
+ * during sign-in, this also completes the sign-in.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { code, challengeToken } = body
+
+    if (!code) {
+      return NextResponse.json(
+        { error: 'Authenticator code is required' },
+        { status: 400 }
+      )
+    }
+
+    let userId: string | null
+    if (challengeToken) {
+      userId = TotpService.verifyChallenge(challengeToken)
+      if (!userId) {
+        return NextResponse.json(
+          { error: 'Sign-in challenge is invalid or expired' },
+          { status: 401 }
+        )
+      }
+    } else {
+      const authResult = await authenticateRequest(request, ['DOCTOR', 'OPERATOR'])
+      if (!authResult.success) {
+        return authResult.response!
+      }
+      userId = authResult.user!.userId
+    }
+
+    const rateLimited = await rateLimitRequest(request, 'LOGIN', userId)
+    if (rateLimited) {
+      return rateLimited
+    }
+
+    const result = await TotpService.activate(userId, code)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: 400 }
+      )
+    }
+
+    if (challengeToken) {
+      return createSessionResponse(request, userId, {
+        message: result.message,
+        recoveryCodes: result.recoveryCodes
+      })
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      recoveryCodes: result.recoveryCodes
+    })
+
+  } catch (error) {
+    console.error('TOTP activation API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, TotpService } from '@/lib/auth'
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['DOCTOR', 'OPERATOR'])
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const status = await TotpService.getStatus(authResult.user!.userId)
+
+    return NextResponse.json({ totp: status })
+
+  } catch (error) {
+    console.error('Get TOTP status API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['DOCTOR', 'OPERATOR'])
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const body = await request.json()
+    const { code } = body
+
+    if (!code) {
+      return NextResponse.json(
+        { error: 'A current authenticator code is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await TotpService.disable(authResult.user!.userId, code)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ message: result.message })
+
+  } catch (error) {
+    console.error('Disable TOTP API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
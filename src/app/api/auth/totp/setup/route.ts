@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, TotpService } from '@/lib/auth'
+
+/**
+ * Start authenticator enrollment, either from a signed-in session or with
+ * the challenge token of a sign-in that requires an authenticator
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { challengeToken } = body
+
+    let userId: string | null
+    if (challengeToken) {
+      userId = TotpService.verifyChallenge(challengeToken)
+      if (!userId) {
+        return NextResponse.json(
+          { error: 'Sign-in challenge is invalid or expired' },
+          { status: 401 }
+        )
+      }
+    } else {
+      const authResult = await authenticateRequest(request, ['DOCTOR', 'OPERATOR'])
+      if (!authResult.success) {
+        return authResult.response!
+      }
+      userId = authResult.user!.userId
+    }
+
+    const result = await TotpService.startEnrollment(userId)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      secret: result.secret,
+      otpauthUri: result.otpauthUri
+    })
+
+  } catch (error) {
+    console.error('TOTP setup API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
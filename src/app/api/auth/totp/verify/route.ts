@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSessionResponse, rateLimitRequest, TotpService } from '@/lib/auth'
+
+/**
+ * Complete a sign-in with an authenticator or recovery code
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { challengeToken, code } = body
+
+    if (!challengeToken || !code) {
+      return NextResponse.json(
+        { error: 'Challenge token and authenticator code are required' },
+        { status: 400 }
+      )
+    }
+
+    const userId = TotpService.verifyChallenge(challengeToken)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Sign-in challenge is invalid or expired' },
+        { status: 401 }
+      )
+    }
+
+    const rateLimited = await rateLimitRequest(request, 'LOGIN', userId)
+    if (rateLimited) {
+      return rateLimited
+    }
+
+    const result = await TotpService.verifyCode(userId, code)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: 400 }
+      )
+    }
+
+    return createSessionResponse(request, userId, { message: 'Login successful' })
+
+  } catch (error) {
+    console.error('TOTP verification API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
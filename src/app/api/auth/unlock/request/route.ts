@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { OTPService, ACCOUNT_UNLOCK_OTP_PURPOSE, rateLimitRequest } from '@/lib/auth'
+
+/**
+ * Send an unlock code for a locked account to its emergency contact
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { identifier } = body
+
+    if (!identifier) {
+      return NextResponse.json(
+        { error: 'Mobile number or email is required' },
+        { status: 400 }
+      )
+    }
+
+    const rateLimited = await rateLimitRequest(request, 'OTP_GENERATE', identifier)
+    if (rateLimited) {
+      return rateLimited
+    }
+
+    const result = await OTPService.generateOTP(identifier, ACCOUNT_UNLOCK_OTP_PURPOSE)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      message: 'Unlock code sent to the emergency contact',
+      otp: result.otp, // Only present in development
+      smsStatus: result.smsStatus
+    })
+
+  } catch (error) {
+    console.error('Unlock request API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
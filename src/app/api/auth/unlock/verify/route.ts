@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { OTPService, AccountLockoutService, ACCOUNT_UNLOCK_OTP_PURPOSE, rateLimitRequest } from '@/lib/auth'
+
+/**
+ * Unlock an account with the code sent to its emergency contact. The owner
+ * still has to sign in normally afterwards.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { identifier, otp } = body
+
+    if (!identifier || !otp) {
+      return NextResponse.json(
+        { error: 'Mobile number/email and OTP are required' },
+        { status: 400 }
+      )
+    }
+
+    const rateLimited = await rateLimitRequest(request, 'LOGIN', identifier)
+    if (rateLimited) {
+      return rateLimited
+    }
+
+    const otpResult = await OTPService.verifyOTP(identifier, otp, ACCOUNT_UNLOCK_OTP_PURPOSE)
+
+    if (!otpResult.success) {
+      return NextResponse.json(
+        { error: otpResult.message },
+        { status: 400 }
+      )
+    }
+
+    const unlocked = await AccountLockoutService.unlock(otpResult.userId!, 'EMERGENCY_CONTACT')
+
+    return NextResponse.json({
+      message: unlocked ? 'Account unlocked. You can now sign in.' : 'Account is not locked'
+    })
+
+  } catch (error) {
+    console.error('Unlock verification API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { DelegationService } from '@/lib/services/delegation-service'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request)
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const { id: delegationId } = await params
+    const body = await request.json()
+    const { otp } = body
+
+    if (!otp) {
+      return NextResponse.json(
+        { error: 'OTP is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await DelegationService.acceptInvitation(delegationId, user.userId, otp)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: result.message === 'Invitation not found' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      delegation: result.delegation
+    })
+
+  } catch (error) {
+    console.error('Accept delegation API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { DelegationService } from '@/lib/services/delegation-service'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['PATIENT'])
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const { id: delegationId } = await params
+    const body = await request.json()
+    const { permissions, expiresAt } = body
+
+    const result = await DelegationService.updateDelegation(delegationId, user.userId, {
+      permissions,
+      expiresAt
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: result.message === 'Delegation not found' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      delegation: result.delegation
+    })
+
+  } catch (error) {
+    console.error('Update delegation API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request)
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const { id: delegationId } = await params
+
+    const result = await DelegationService.revokeDelegation(delegationId, user.userId)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: result.message === 'Delegation not found' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message
+    })
+
+  } catch (error) {
+    console.error('Revoke delegation API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { DelegationService } from '@/lib/services/delegation-service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request)
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const { granted, received } = await DelegationService.getDelegationsForUser(user.userId)
+
+    return NextResponse.json({
+      message: 'Delegations retrieved successfully',
+      granted,
+      received
+    })
+
+  } catch (error) {
+    console.error('Get delegations API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['PATIENT'])
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const body = await request.json()
+    const { delegateMobile, permissions, expiresAt } = body
+
+    const result = await DelegationService.inviteDelegate(user.userId, {
+      delegateMobile,
+      permissions,
+      expiresAt
+    })
+
+    if (!result.success) {
+      const status = result.message === 'Patient not found' ? 404
+        : result.message === 'This family member already has an invitation or active access' ? 409
+        : result.message === 'Failed to send invitation' ? 500
+        : 400
+
+      return NextResponse.json(
+        { error: result.message },
+        { status }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      delegationId: result.delegationId
+    })
+
+  } catch (error) {
+    console.error('Invite delegate API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
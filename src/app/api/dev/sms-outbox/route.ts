@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { smsService } from '@/lib/services/sms-service'
+
+/**
+ * Messages written by the outbox SMS provider, for reading OTPs in tests
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Only allow in development mode
+    if (process.env.NODE_ENV !== 'development') {
+      return NextResponse.json(
+        { error: 'SMS outbox only available in development mode' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const to = searchParams.get('to') || undefined
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100)
+
+    const messages = await smsService.getOutbox(to, limit)
+
+    return NextResponse.json({ messages })
+
+  } catch (error) {
+    console.error('SMS outbox API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch SMS outbox' },
+      { status: 500 }
+    )
+  }
+}
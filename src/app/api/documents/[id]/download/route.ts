@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Readable } from 'stream'
+import { getRequestDeviceInfo } from '@/lib/auth'
+import { DocumentService } from '@/lib/services/document-service'
+
+/**
+ * Serve a document's file through a signed URL from GET /api/documents/[id]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: documentId } = await params
+    const token = request.nextUrl.searchParams.get('token')
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Download token is required' },
+        { status: 401 }
+      )
+    }
+
+    const result = await DocumentService.redeemDownload(documentId, token, getRequestDeviceInfo(request).ipAddress || null)
+
+    if (!result.success) {
+      const status = result.message === 'Download link is invalid or has expired' ? 403
+        : result.message === 'Download link has already been used' ? 403
+        : result.message === 'Failed to retrieve document file' ? 500
+        : result.message === 'Document is quarantined until its malware scan passes' ? 409
+        : 404
+      return NextResponse.json(
+        { error: result.message },
+        { status, headers: { 'Cache-Control': 'private, no-store' } }
+      )
+    }
+
+    return new NextResponse(Readable.toWeb(result.stream!) as ReadableStream, {
+      headers: {
+        'Content-Type': result.mimetype!,
+        'Content-Disposition': contentDisposition(result.filename!),
+        'Content-Length': result.size!.toString(),
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff'
+      }
+    })
+
+  } catch (error) {
+    console.error('Document download API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * An ASCII fallback name plus the UTF-8 name for clients that understand it
+ */
+function contentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_')
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`
+}
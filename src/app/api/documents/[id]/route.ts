@@ -1,145 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { executeSQLiteQuery } from '../../../../../database/sqlite'
-import jwt from 'jsonwebtoken'
-import { readFile } from 'fs/promises'
+import { SessionService, authenticateRequest } from '@/lib/auth'
+import { DocumentService } from '@/lib/services/document-service'
 import { join } from 'path'
 
+/**
+ * Issue a short-lived download URL for a document the caller may read, once
+ * its malware scan has passed
+ */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const authHeader = request.headers.get('authorization')
-    
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: 'Authorization token required' },
-        { status: 401 }
-      )
-    }
-
-    const token = authHeader.substring(7)
-
-    // Verify JWT token
-    let decoded: any
-    try {
-      decoded = jwt.verify(token, process.env.JWT_SECRET!)
-    } catch (error) {
-      return NextResponse.json(
-        { error: 'Invalid or expired token' },
-        { status: 401 }
-      )
+    const authResult = await authenticateRequest(request)
+    if (!authResult.success) {
+      return authResult.response!
     }
 
     const { id: documentId } = await params
 
-    // Get document info from database
-    let documents: any
-    
-    // Check if this is an emergency token
-    if (decoded.type === 'emergency') {
-      // For emergency access, allow doctors to access patient documents
-      // Verify the emergency session is still active
-      const sessions = await executeSQLiteQuery(`
-        SELECT patient_user_id FROM emergency_sessions 
-        WHERE id = ? AND doctor_user_id = ? AND status = 'ACTIVE' AND expires_at > datetime('now')
-      `, [decoded.sessionId, decoded.doctorId]) as any[]
-
-      if (!sessions || sessions.length === 0) {
-        return NextResponse.json(
-          { error: 'Emergency session expired or invalid' },
-          { status: 403 }
-        )
-      }
-
-      // Get document for the patient in the emergency session
-      const docs = await executeSQLiteQuery(`
-        SELECT d.*, e.type as encounter_type, e.occurred_at as encounter_date
-        FROM documents d
-        LEFT JOIN encounters e ON d.encounter_id = e.id
-        WHERE d.id = ? AND d.patient_user_id = ?
-      `, [documentId, sessions[0].patient_user_id]) as any[]
+    const result = await DocumentService.getDocumentFile(documentId, authResult.user!)
 
-      documents = docs
-    } else {
-      // Regular patient access - allow patients to access their own documents
-      const docs = await executeSQLiteQuery(`
-        SELECT d.*, e.type as encounter_type, e.occurred_at as encounter_date
-        FROM documents d
-        LEFT JOIN encounters e ON d.encounter_id = e.id
-        WHERE d.id = ? AND d.patient_user_id = ?
-      `, [documentId, decoded.userId]) as any[]
-
-      documents = docs
-    }
-
-    if (!documents || documents.length === 0) {
+    if (!result.success) {
+      const status = result.message === 'Document not found' ? 404
+        : result.message === 'Access denied' ? 403
+        : result.scanStatus ? 409 // Quarantined
+        : 500
       return NextResponse.json(
-        { error: 'Document not found' },
-        { status: 404 }
+        { error: result.message, scanStatus: result.scanStatus },
+        { status }
       )
     }
 
-    const document = documents[0]
-
-    // Read file from storage
-    try {
-      let filePath: string
-      
-      // Handle different storage path formats
-      if (document.storage_path.startsWith('/uploads/')) {
-        // Old format: /uploads/documents/filename.ext
-        filePath = join(process.cwd(), document.storage_path.substring(1)) // Remove leading slash
-      } else {
-        // New format: filename.ext (stored directly in uploads/)
-        filePath = join(process.cwd(), 'uploads', document.storage_path)
-      }
-      
-      console.log('🔍 Attempting to read file:', filePath)
-      const fileBuffer = await readFile(filePath)
-
-      // Return file with appropriate headers for download
-      return new NextResponse(fileBuffer, {
-        headers: {
-          'Content-Type': document.mimetype,
-          'Content-Disposition': `attachment; filename="${document.filename}"`,
-          'Content-Length': fileBuffer.length.toString(),
-        },
-      })
-    } catch (fileError) {
-      console.error('File read error:', fileError)
-      console.error('Document storage_path:', document.storage_path)
-      
-      // Try alternative path if first attempt fails
-      try {
-        let alternativePath: string
-        if (document.storage_path.startsWith('/uploads/')) {
-          // Try without the /uploads/ prefix
-          const filename = document.storage_path.split('/').pop()
-          alternativePath = join(process.cwd(), 'uploads', filename!)
-        } else {
-          // Try with /uploads/documents/ prefix
-          alternativePath = join(process.cwd(), 'uploads', 'documents', document.storage_path)
-        }
-        
-        console.log('🔄 Trying alternative path:', alternativePath)
-        const fileBuffer = await readFile(alternativePath)
-        
-        return new NextResponse(fileBuffer, {
-          headers: {
-            'Content-Type': document.mimetype,
-            'Content-Disposition': `attachment; filename="${document.filename}"`,
-            'Content-Length': fileBuffer.length.toString(),
-          },
-        })
-      } catch (alternativeError) {
-        console.error('Alternative path also failed:', alternativeError)
-        return NextResponse.json(
-          { error: 'File not found on disk' },
-          { status: 404 }
-        )
-      }
-    }
+    return NextResponse.json({
+      message: result.message,
+      downloadUrl: result.downloadUrl,
+      expiresAt: result.expiresAt,
+      scanStatus: result.scanStatus
+    }, {
+      headers: { 'Cache-Control': 'private, no-store' }
+    })
 
   } catch (error) {
     console.error('Download document API error:', error)
@@ -166,16 +67,15 @@ export async function DELETE(
 
     const token = authHeader.substring(7)
 
-    // Verify JWT token
-    let decoded: any
-    try {
-      decoded = jwt.verify(token, process.env.JWT_SECRET!)
-    } catch (error) {
+    // Verify the session token, which also rejects revoked sessions
+    const sessionResult = await SessionService.verifySession(token)
+    if (!sessionResult.success) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
         { status: 401 }
       )
     }
+    const decoded: any = sessionResult.sessionData
 
     const { id: documentId } = await params
 
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { authenticateRequest, canAccessPatientData } from '@/lib/auth'
 import { DocumentService } from '@/lib/services/document-service'
-import { database } from '@/lib/database'
+import { HospitalService } from '@/lib/services/hospital-service'
 
 export async function GET(request: NextRequest) {
   try {
@@ -29,7 +29,7 @@ export async function GET(request: NextRequest) {
 
     if (patientId) {
       // Check if user can access this patient's data
-      if (!canAccessPatientData(user, patientId)) {
+      if (!canAccessPatientData(user, patientId, 'DOCUMENTS')) {
         return NextResponse.json(
           { error: 'Access denied for this patient data' },
           { status: 403 }
@@ -58,17 +58,25 @@ export async function GET(request: NextRequest) {
     if (limit) filters.limit = parseInt(limit)
     if (offset) filters.offset = parseInt(offset)
 
-    // For operators, filter by their hospital if no specific hospital requested
-    if (user.role === 'OPERATOR' && !hospitalId) {
-      // Get operator's hospital
-      const [operators] = await database.execute(
-        'SELECT hospital_id FROM operator_profiles WHERE user_id = ?',
-        [user.userId]
-      ) as any
+    // Operators only ever see documents from their own hospital
+    if (user.role === 'OPERATOR') {
+      const tenantResult = await HospitalService.requireActiveTenant(user.userId)
 
-      if (operators && operators.length > 0) {
-        filters.hospitalId = operators[0].hospital_id
+      if (!tenantResult.success) {
+        return NextResponse.json(
+          { error: tenantResult.message },
+          { status: tenantResult.tenant ? 403 : 404 }
+        )
+      }
+
+      if (hospitalId && hospitalId !== tenantResult.tenant!.hospitalId) {
+        return NextResponse.json(
+          { error: 'Access denied for this hospital' },
+          { status: 403 }
+        )
       }
+
+      filters.hospitalId = tenantResult.tenant!.hospitalId
     }
 
     // Get documents
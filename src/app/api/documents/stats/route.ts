@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { authenticateRequest, canAccessPatientData } from '@/lib/auth'
 import { DocumentService } from '@/lib/services/document-service'
-import { database } from '@/lib/database'
+import { HospitalService } from '@/lib/services/hospital-service'
 
 export async function GET(request: NextRequest) {
   try {
@@ -20,7 +20,7 @@ export async function GET(request: NextRequest) {
 
     if (patientId) {
       // Check if user can access this patient's data
-      if (!canAccessPatientData(user, patientId)) {
+      if (!canAccessPatientData(user, patientId, 'DOCUMENTS')) {
         return NextResponse.json(
           { error: 'Access denied for this patient data' },
           { status: 403 }
@@ -32,14 +32,16 @@ export async function GET(request: NextRequest) {
       targetPatientId = user.userId
     } else if (user.role === 'OPERATOR') {
       // Operators can see stats for their hospital
-      const [operators] = await database.execute(
-        'SELECT hospital_id FROM operator_profiles WHERE user_id = ?',
-        [user.userId]
-      ) as any
+      const tenantResult = await HospitalService.requireActiveTenant(user.userId)
 
-      if (operators && operators.length > 0) {
-        targetHospitalId = operators[0].hospital_id
+      if (!tenantResult.success) {
+        return NextResponse.json(
+          { error: tenantResult.message },
+          { status: tenantResult.tenant ? 403 : 404 }
+        )
       }
+
+      targetHospitalId = tenantResult.tenant!.hospitalId
     } else if (user.role === 'DOCTOR' && 'sessionId' in user) {
       // Doctors with emergency session can see patient stats
       targetPatientId = user.patientUserId
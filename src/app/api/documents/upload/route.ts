@@ -5,7 +5,7 @@ import { RBACService } from '@/lib/services/rbac-service'
 
 export async function POST(request: NextRequest) {
   try {
-    const authResult = await authenticateRequest(request, ['OPERATOR'])
+    const authResult = await authenticateRequest(request)
 
     if (!authResult.success) {
       return authResult.response!
@@ -28,8 +28,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Verify operator can upload for this hospital
-    const canUpload = await RBACService.canOperatorUploadForHospital(user.userId, hospitalId)
+    // Verify the user can upload for this hospital
+    const canUpload = await RBACService.hasPermission(user, 'UPLOAD_DOCUMENTS', { hospitalId })
     if (!canUpload) {
       return NextResponse.json(
         { error: 'You can only upload documents for your assigned hospital' },
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { DocumentUploadService } from '@/lib/services/document-upload-service'
+
+/**
+ * Finish a resumable upload. The file is stored as a document only if its
+ * SHA-256 matches the checksum sent by the client.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request)
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const { id } = await params
+    const { checksum } = await request.json()
+
+    if (typeof checksum !== 'string' || !/^[0-9a-fA-F]{64}$/.test(checksum)) {
+      return NextResponse.json(
+        { error: 'checksum must be the SHA-256 of the file in hex' },
+        { status: 400 }
+      )
+    }
+
+    const result = await DocumentUploadService.completeUpload(id, authResult.user!, checksum)
+
+    if (!result.success) {
+      const status = result.message === 'Upload not found' ? 404
+        : result.message === 'Upload is incomplete' ? 409
+        : result.message === 'Checksum does not match the uploaded file' ? 422
+        : 500
+      return NextResponse.json(
+        { error: result.message, upload: result.upload },
+        { status }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      documentId: result.documentId,
+      upload: result.upload
+    })
+
+  } catch (error) {
+    console.error('Complete upload API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { DocumentUploadService, MAX_CHUNK_SIZE, type DocumentUploadResult } from '@/lib/services/document-upload-service'
+
+/**
+ * Progress of a resumable upload, to find where to resume from
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request)
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const { id } = await params
+    const result = await DocumentUploadService.getUpload(id, authResult.user!)
+
+    if (!result.success) {
+      return uploadError(result)
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      upload: result.upload
+    })
+
+  } catch (error) {
+    console.error('Get upload API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Send the chunk starting at ?offset=, as the raw request body
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request)
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const { id } = await params
+    const offset = Number(request.nextUrl.searchParams.get('offset'))
+
+    if (!request.nextUrl.searchParams.has('offset') || !Number.isInteger(offset) || offset < 0) {
+      return NextResponse.json(
+        { error: 'A non-negative integer offset is required' },
+        { status: 400 }
+      )
+    }
+
+    const chunk = await readChunk(request)
+    if (!chunk) {
+      return uploadError({ success: false, message: 'Chunk is empty or too large' })
+    }
+
+    const result = await DocumentUploadService.appendChunk(id, authResult.user!, offset, chunk)
+
+    if (!result.success) {
+      return uploadError(result)
+    }
+
+    return NextResponse.json({
+      message: 'Chunk stored',
+      upload: result.upload
+    })
+
+  } catch (error) {
+    console.error('Upload chunk API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Cancel an upload that has not been completed
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request)
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const { id } = await params
+    const result = await DocumentUploadService.abortUpload(id, authResult.user!)
+
+    if (!result.success) {
+      return uploadError(result)
+    }
+
+    return NextResponse.json({ message: result.message })
+
+  } catch (error) {
+    console.error('Cancel upload API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * The request body, or null when it is larger than MAX_CHUNK_SIZE. A
+ * declared Content-Length over the limit is refused before reading, and the
+ * body is read no further than the limit whatever the header says.
+ */
+async function readChunk(request: NextRequest): Promise<Buffer | null> {
+  if (Number(request.headers.get('content-length')) > MAX_CHUNK_SIZE) {
+    return null
+  }
+
+  if (!request.body) {
+    return Buffer.alloc(0)
+  }
+
+  const reader = request.body.getReader()
+  const parts: Uint8Array[] = []
+  let size = 0
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) {
+      return Buffer.concat(parts)
+    }
+
+    size += value.length
+    if (size > MAX_CHUNK_SIZE) {
+      await reader.cancel()
+      return null
+    }
+    parts.push(value)
+  }
+}
+
+function uploadError(result: DocumentUploadResult) {
+  switch (result.message) {
+    case 'Upload not found':
+      return NextResponse.json({ error: result.message }, { status: 404 })
+
+    case 'Offset does not match received bytes':
+    case 'Upload is already completed':
+      // The client resumes from the returned received bytes
+      return NextResponse.json({ error: result.message, upload: result.upload }, { status: 409 })
+
+    case 'Chunk extends past the end of the file':
+      return NextResponse.json({ error: result.message }, { status: 400 })
+
+    case 'File content does not match its type':
+      return NextResponse.json({ error: result.message, details: result.errors }, { status: 400 })
+
+    case 'Chunk is empty or too large':
+      return NextResponse.json({ error: result.message, maxChunkSize: MAX_CHUNK_SIZE }, { status: 413 })
+
+    default:
+      return NextResponse.json({ error: result.message }, { status: 500 })
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { DocumentUploadService } from '@/lib/services/document-upload-service'
+
+/**
+ * Start a resumable upload of a document for an encounter
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request)
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const { encounterId, filename, mimetype, size } = await request.json()
+
+    if (!encounterId || !filename || !mimetype || typeof size !== 'number') {
+      return NextResponse.json(
+        { error: 'Missing required fields: encounterId, filename, mimetype, size' },
+        { status: 400 }
+      )
+    }
+
+    const result = await DocumentUploadService.createUpload({ encounterId, filename, mimetype, size }, authResult.user!)
+
+    if (!result.success) {
+      const status = result.message === 'Encounter not found' ? 404
+        : result.message === 'Access denied' ? 403
+        : result.errors ? 400
+        : 500
+      return NextResponse.json(
+        { error: result.message, details: result.errors },
+        { status }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      upload: result.upload
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Create upload API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
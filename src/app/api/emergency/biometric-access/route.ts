@@ -2,37 +2,47 @@ import { NextRequest, NextResponse } from 'next/server'
 import { database } from '@/lib/database'
 import { v4 as uuidv4 } from 'uuid'
 import jwt from 'jsonwebtoken'
+import { EmergencyPolicyService } from '@/lib/services/emergency-policy-service'
+import { EmergencyService } from '@/lib/services/emergency-service'
+import { DelegationService } from '@/lib/services/delegation-service'
 import { verifyOTP } from '@/lib/auth/otp-service'
+import { BiometricService, BiometricType } from '@/lib/auth/biometric-service'
+import { authenticateEmergencyRequester } from '@/lib/auth'
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     const {
-      doctorMobile,
       patientIdentifier, // Now optional - can be null for unconscious patients
       reason,
       hospitalName,
       biometricType,
-      biometricData
+      biometricData,
+      approverMobile, // Patient or delegate who received the OTP; defaults to the doctor
+      totpCode
     } = body
 
     // Validate required fields (patientIdentifier is now optional)
-    if (!doctorMobile || !reason || !biometricType || !biometricData) {
+    if (!reason || !biometricType || !biometricData) {
       return NextResponse.json(
-        { error: 'Doctor mobile, reason, biometric type, and biometric data are required' },
+        { error: 'Reason, biometric type, and biometric data are required' },
         { status: 400 }
       )
     }
 
-    // Find doctor by mobile
+    const authResult = await authenticateEmergencyRequester(request, totpCode)
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
     const [doctors] = await database.execute(
-      'SELECT id, name, mobile, email FROM users WHERE mobile = ? AND role = "DOCTOR"',
-      [doctorMobile]
+      'SELECT id, name, mobile, email FROM users WHERE id = ? AND role = "DOCTOR"',
+      [authResult.user!.userId]
     ) as any
 
     if (!doctors || doctors.length === 0) {
       return NextResponse.json(
-        { error: 'Doctor not found with this mobile number' },
+        { error: 'Doctor not found' },
         { status: 404 }
       )
     }
@@ -40,6 +50,7 @@ export async function POST(request: NextRequest) {
     const doctor = doctors[0]
 
     let patient = null
+    let biometricScore: number | null = null
 
     // If patient identifier is provided, find the patient
     if (patientIdentifier) {
@@ -57,30 +68,48 @@ export async function POST(request: NextRequest) {
 
       patient = patients[0]
     } else {
-      // For unconscious patients, we'll use biometric data to identify them
-      // In a real implementation, this would match biometric data against stored biometrics
-      // For now, we'll simulate finding a patient through biometric matching
-      
-      // Simulate biometric patient identification
-      const [biometricPatients] = await database.execute(
-        'SELECT u.id, u.name, u.mobile, u.email FROM users u JOIN patient_profiles pp ON u.id = pp.user_id WHERE u.role = "PATIENT" AND (pp.biometric_fingerprint_ref IS NOT NULL OR pp.biometric_iris_ref IS NOT NULL) LIMIT 1'
-      ) as any
+      // For unconscious patients, identify them by matching the scan against every enrolled patient
+      const match = biometricType === 'OTP'
+        ? null
+        : await BiometricService.identifyPatient(biometricType as BiometricType, biometricData)
 
-      if (!biometricPatients || biometricPatients.length === 0) {
+      if (!match) {
         return NextResponse.json(
           { error: 'No patient found through biometric identification. Please provide patient identifier or ensure patient has registered biometrics.' },
           { status: 404 }
         )
       }
 
+      const [biometricPatients] = await database.execute(
+        'SELECT id, name, mobile, email FROM users WHERE id = ?',
+        [match.userId]
+      ) as [{ id: string; name: string; mobile: string; email: string }[]]
+
       patient = biometricPatients[0]
-      console.log(`🔍 Patient identified through biometric scan: ${patient.name}`)
+      biometricScore = match.score
+      console.log(`🔍 Patient identified through biometric scan: ${patient.name} (score ${match.score.toFixed(2)})`)
+    }
+
+    // Enforce the patient's emergency access policy
+    const policyDecision = await EmergencyPolicyService.evaluateAccess(patient.id, biometricType, doctor.id)
+    if (!policyDecision.allowed) {
+      return NextResponse.json(
+        { error: policyDecision.message },
+        { status: 403 }
+      )
     }
 
     // Verify authentication data
     if (biometricType === 'OTP') {
       // For OTP authentication, verify the OTP using the OTP service
-      const otpVerification = await verifyOTP(doctorMobile, biometricData, 'EMERGENCY_ACCESS')
+      const otpVerification = approverMobile
+        ? await DelegationService.verifyEmergencyApproval(patient.id, approverMobile, biometricData, {
+            doctorUserId: doctor.id,
+            doctorName: doctor.name,
+            reason,
+            hospitalName: hospitalName || null
+          })
+        : await verifyOTP(doctor.mobile, biometricData, 'EMERGENCY_ACCESS')
       
       if (!otpVerification.success) {
         return NextResponse.json(
@@ -88,37 +117,42 @@ export async function POST(request: NextRequest) {
           { status: 401 }
         )
       }
-    } else {
-      // Verify biometric data (in real implementation, this would verify against stored biometric)
-      // For now, we'll accept any biometric data that follows the expected format
-      if (!biometricData.includes('verified')) {
+    } else if (biometricScore === null) {
+      // Identified patients must still match their own enrolled templates
+      const match = await BiometricService.matchUser(patient.id, biometricType as BiometricType, biometricData)
+
+      if (!match?.matched) {
         return NextResponse.json(
           { error: 'Biometric verification failed' },
           { status: 401 }
         )
       }
+
+      biometricScore = match.score
     }
 
-    // Create emergency session (30 minutes)
+    // Create emergency session for the length allowed by the patient's policy
     const sessionId = uuidv4()
     const now = new Date()
     const expiresAt = new Date()
-    expiresAt.setMinutes(expiresAt.getMinutes() + 30) // 30 minutes
+    expiresAt.setMinutes(expiresAt.getMinutes() + policyDecision.sessionMinutes)
 
     await database.execute(`
       INSERT INTO emergency_sessions (
         id, doctor_user_id, patient_user_id, method, reason, 
-        hospital_name, granted_at, expires_at, status
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'ACTIVE')
+        hospital_id, hospital_name, granted_at, expires_at, status, data_categories_json
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'ACTIVE', ?)
     `, [
       sessionId,
       doctor.id,
       patient.id,
       biometricType,
       reason,
+      policyDecision.hospitalId,
       hospitalName || null,
       now.toISOString(),
-      expiresAt.toISOString()
+      expiresAt.toISOString(),
+      JSON.stringify(policyDecision.dataCategories)
     ])
 
     // Create session token
@@ -131,7 +165,7 @@ export async function POST(request: NextRequest) {
         expiresAt: expiresAt.toISOString()
       },
       process.env.JWT_SECRET!,
-      { expiresIn: '30m' }
+      { expiresIn: `${policyDecision.sessionMinutes}m` }
     )
 
     // Log emergency access
@@ -151,19 +185,29 @@ export async function POST(request: NextRequest) {
         hospitalName,
         sessionId,
         expiresAt: expiresAt.toISOString(),
+        dataCategories: policyDecision.dataCategories,
         doctorName: doctor.name,
         doctorMobile: doctor.mobile,
-        patientIdentificationMethod: patientIdentifier ? 'manual_identifier' : 'biometric_scan'
+        patientIdentificationMethod: patientIdentifier ? 'manual_identifier' : 'biometric_scan',
+        biometricScore
       })
     ])
 
     console.log(`🚨 Emergency access granted: Dr. ${doctor.name} -> Patient ${patient.name} (${biometricType})`)
 
+    await EmergencyService.notifyPatientOfAccess(sessionId, patient.id, {
+      doctorName: doctor.name,
+      hospitalName,
+      expiresAt,
+      breakGlass: false
+    })
+
     return NextResponse.json({
       message: 'Emergency access granted successfully',
       sessionId,
       sessionToken,
       expiresAt: expiresAt.toISOString(),
+      dataCategories: policyDecision.dataCategories,
       patient: {
         id: patient.id,
         name: patient.name,
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { BreakGlassService } from '@/lib/services/break-glass-service'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ reviewId: string }> }
+) {
+  try {
+    // The reviewer's REVIEW_BREAK_GLASS_ACCESS grant is checked against the session's hospital
+    const authResult = await authenticateRequest(request)
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const { reviewId } = await params
+    const body = await request.json()
+    const { decision, notes } = body
+
+    if (decision !== 'APPROVE' && decision !== 'FLAG') {
+      return NextResponse.json(
+        { error: 'Decision must be APPROVE or FLAG' },
+        { status: 400 }
+      )
+    }
+
+    const result = await BreakGlassService.reviewAccess(reviewId, user, decision, notes)
+
+    if (!result.success) {
+      const status = result.message === 'Break-glass review not found' ? 404
+        : result.message === 'You cannot review your own break-glass session' ? 403
+        : result.review ? 409 : 400
+      return NextResponse.json(
+        { error: result.message },
+        { status }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      review: result.review
+    })
+
+  } catch (error) {
+    console.error('Review break-glass access API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeRequest } from '@/lib/auth'
+import { BreakGlassService, BreakGlassReviewStatus } from '@/lib/services/break-glass-service'
+
+const REVIEW_STATUSES: BreakGlassReviewStatus[] = ['PENDING', 'APPROVED', 'FLAGGED']
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const hospitalId = searchParams.get('hospitalId')
+    const status = (searchParams.get('status') || 'PENDING').toUpperCase() as BreakGlassReviewStatus
+
+    if (!hospitalId) {
+      return NextResponse.json(
+        { error: 'Hospital ID is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!REVIEW_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: 'Status must be PENDING, APPROVED or FLAGGED' },
+        { status: 400 }
+      )
+    }
+
+    const authResult = await authorizeRequest(request, 'REVIEW_BREAK_GLASS_ACCESS', { hospitalId })
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const result = await BreakGlassService.getReviewQueue(hospitalId, status)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      reviews: result.reviews
+    })
+
+  } catch (error) {
+    console.error('Get break-glass reviews API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
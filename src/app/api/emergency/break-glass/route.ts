@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateEmergencyRequester } from '@/lib/auth'
+import { BreakGlassService } from '@/lib/services/break-glass-service'
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const {
+      patientIdentifier,
+      justification,
+      totpCode
+    } = body
+
+    // Validate required fields
+    if (!patientIdentifier || !justification) {
+      return NextResponse.json(
+        { error: 'Patient identifier and justification are required' },
+        { status: 400 }
+      )
+    }
+
+    const authResult = await authenticateEmergencyRequester(request, totpCode)
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const result = await BreakGlassService.requestAccess({
+      doctorUserId: authResult.user!.userId,
+      patientIdentifier,
+      justification
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: result.message === 'Doctor not found' ? 404 : result.message === 'Break-glass access requires a hospital profile' ? 403 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      sessionId: result.sessionId,
+      sessionToken: result.sessionToken,
+      expiresAt: result.expiresAt?.toISOString(),
+      reviewId: result.reviewId,
+      accessLevel: 'CRITICAL_ONLY',
+      patient: result.patientInfo
+    })
+
+  } catch (error) {
+    console.error('Break-glass access API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,38 +2,20 @@ import { NextRequest, NextResponse } from 'next/server'
 import { database } from '@/lib/database'
 import { v4 as uuidv4 } from 'uuid'
 import jwt from 'jsonwebtoken'
+import { BiometricService, authenticateEmergencyRequester } from '@/lib/auth'
+import { EmergencyPolicyService } from '@/lib/services/emergency-policy-service'
+import { EmergencyService } from '@/lib/services/emergency-service'
 
 export async function POST(request: NextRequest) {
   try {
-    const authHeader = request.headers.get('authorization')
-    
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: 'Authorization token required' },
-        { status: 401 }
-      )
-    }
-
-    const token = authHeader.substring(7)
-    
-    // Verify JWT token to get doctor info
-    let decoded: any
-    try {
-      decoded = jwt.verify(token, process.env.JWT_SECRET!)
-    } catch (error) {
-      return NextResponse.json(
-        { error: 'Invalid or expired token' },
-        { status: 401 }
-      )
-    }
-
     const body = await request.json()
     const {
       patientIdentifier, // Optional for unconscious patients
       reason,
       hospitalName,
       authMethod,
-      authData
+      authData,
+      totpCode
     } = body
 
     // Validate required fields
@@ -44,10 +26,15 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const authResult = await authenticateEmergencyRequester(request, totpCode)
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
     // Get doctor info from token
     const [doctors] = await database.execute(
       'SELECT id, name, mobile, email FROM users WHERE id = ? AND role = "DOCTOR"',
-      [decoded.userId]
+      [authResult.user!.userId]
     ) as any
 
     if (!doctors || doctors.length === 0) {
@@ -77,46 +64,58 @@ export async function POST(request: NextRequest) {
 
       patient = patients[0]
     } else {
-      // For unconscious patients, we'll use biometric data to identify them
-      // In a real implementation, this would match biometric data against stored biometrics
-      // For now, we'll simulate finding a patient through biometric matching
-      
-      // Simulate biometric patient identification
-      const [biometricPatients] = await database.execute(
-        'SELECT u.id, u.name, u.mobile, u.email FROM users u JOIN patient_profiles pp ON u.id = pp.user_id WHERE u.role = "PATIENT" AND (pp.biometric_fingerprint_ref IS NOT NULL OR pp.biometric_iris_ref IS NOT NULL) LIMIT 1'
-      ) as any
+      // For unconscious patients, identify them from the scan in authData
+      const match = authMethod === 'FINGERPRINT' || authMethod === 'IRIS'
+        ? await BiometricService.identifyPatient(authMethod, authData)
+        : null
 
-      if (!biometricPatients || biometricPatients.length === 0) {
+      if (!match) {
         return NextResponse.json(
           { error: 'No patient found through biometric identification. Please provide patient identifier or ensure patient has registered biometrics.' },
           { status: 404 }
         )
       }
 
+      const [biometricPatients] = await database.execute(
+        'SELECT id, name, mobile, email FROM users WHERE id = ?',
+        [match.userId]
+      ) as [{ id: string; name: string; mobile: string; email: string }[]]
+
       patient = biometricPatients[0]
-      console.log(`🔍 Patient identified through biometric scan: ${patient.name}`)
+      console.log(`🔍 Patient identified through biometric scan: ${patient.name} (score ${match.score.toFixed(2)})`)
+    }
+
+    // Enforce the patient's emergency access policy
+    const policyDecision = await EmergencyPolicyService.evaluateAccess(patient.id, authMethod, doctor.id)
+    if (!policyDecision.allowed) {
+      return NextResponse.json(
+        { error: policyDecision.message },
+        { status: 403 }
+      )
     }
 
-    // Create emergency session (30 minutes)
+    // Create emergency session for the length allowed by the patient's policy
     const sessionId = uuidv4()
     const now = new Date()
     const expiresAt = new Date()
-    expiresAt.setMinutes(expiresAt.getMinutes() + 30) // 30 minutes
+    expiresAt.setMinutes(expiresAt.getMinutes() + policyDecision.sessionMinutes)
 
     await database.execute(`
       INSERT INTO emergency_sessions (
         id, doctor_user_id, patient_user_id, method, reason, 
-        hospital_name, granted_at, expires_at, status
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'ACTIVE')
+        hospital_id, hospital_name, granted_at, expires_at, status, data_categories_json
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'ACTIVE', ?)
     `, [
       sessionId,
       doctor.id,
       patient.id,
       authMethod,
       reason,
+      policyDecision.hospitalId,
       hospitalName || null,
       now.toISOString(),
-      expiresAt.toISOString()
+      expiresAt.toISOString(),
+      JSON.stringify(policyDecision.dataCategories)
     ])
 
     // Create session token
@@ -129,7 +128,7 @@ export async function POST(request: NextRequest) {
         expiresAt: expiresAt.toISOString()
       },
       process.env.JWT_SECRET!,
-      { expiresIn: '30m' }
+      { expiresIn: `${policyDecision.sessionMinutes}m` }
     )
 
     // Log emergency access
@@ -149,6 +148,7 @@ export async function POST(request: NextRequest) {
         hospitalName,
         sessionId,
         expiresAt: expiresAt.toISOString(),
+        dataCategories: policyDecision.dataCategories,
         doctorName: doctor.name,
         doctorMobile: doctor.mobile,
         patientIdentificationMethod: patientIdentifier ? 'manual_identifier' : 'biometric_scan'
@@ -157,11 +157,19 @@ export async function POST(request: NextRequest) {
 
     console.log(`🚨 Emergency access granted: Dr. ${doctor.name} -> Patient ${patient.name} (${authMethod})`)
 
+    await EmergencyService.notifyPatientOfAccess(sessionId, patient.id, {
+      doctorName: doctor.name,
+      hospitalName,
+      expiresAt,
+      breakGlass: false
+    })
+
     return NextResponse.json({
       message: 'Emergency access granted successfully',
       sessionId,
       sessionToken,
       expiresAt: expiresAt.toISOString(),
+      dataCategories: policyDecision.dataCategories,
       patient: {
         id: patient.id,
         name: patient.name,
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { database } from '@/lib/database'
 import jwt from 'jsonwebtoken'
+import { MedicalHistoryService } from '@/lib/services/medical-history-service'
+import { BREAK_GLASS_METHOD } from '@/lib/services/break-glass-service'
+import { EmergencyPolicyService, EmergencyDataCategory } from '@/lib/services/emergency-policy-service'
 
 export async function GET(
   request: NextRequest,
@@ -58,6 +61,16 @@ export async function GET(
       )
     }
 
+    // Limit the view to the data categories granted to this session.
+    // Break-glass sessions are always limited to critical information.
+    const dataCategories: EmergencyDataCategory[] = session.method === BREAK_GLASS_METHOD
+      ? ['CRITICAL_INFO']
+      : EmergencyPolicyService.parseSessionCategories(session.data_categories_json)
+    const includeTimeline = dataCategories.includes('TIMELINE')
+    const includeDocuments = dataCategories.includes('DOCUMENTS')
+    const criticalOnly = !includeTimeline && !includeDocuments
+    const accessLevel = criticalOnly ? 'CRITICAL_ONLY' : includeTimeline && includeDocuments ? 'FULL' : 'PARTIAL'
+
     // Get patient details
     const [patients] = await database.execute(`
       SELECT u.*, pp.profile_photo_path, pp.emergency_contact, pp.id_proof_type, pp.id_proof_number
@@ -68,16 +81,20 @@ export async function GET(
 
     const patient = patients[0]
 
-    // Get patient encounters
+    // Get patient encounters (only the latest, for blood group, without timeline access)
     const [encounters] = await database.execute(`
       SELECT * FROM encounters 
       WHERE patient_user_id = ? 
       ORDER BY occurred_at DESC
-      LIMIT 20
-    `, [session.patient_user_id]) as any
+      LIMIT ?
+    `, [session.patient_user_id, includeTimeline ? 20 : 1]) as any
+
+    // Get active allergies, conditions and medications
+    const listsResult = await MedicalHistoryService.getMedicalLists(session.patient_user_id, true)
+    const medicalLists = listsResult.lists || { allergies: [], conditions: [], medications: [] }
 
     // Get patient documents
-    const [documents] = await database.execute(`
+    const [documents] = !includeDocuments ? [[]] : await database.execute(`
       SELECT d.*, e.type as encounterType, e.occurred_at as encounterDate
       FROM documents d
       LEFT JOIN encounters e ON d.encounter_id = e.id
@@ -100,6 +117,8 @@ export async function GET(
         action: 'Doctor accessed patient records during emergency session',
         sessionId,
         doctorName: session.doctorName,
+        accessLevel,
+        dataCategories,
         accessTime: new Date().toISOString()
       })
     ])
@@ -114,7 +133,9 @@ export async function GET(
         hospitalName: session.hospital_name,
         grantedAt: session.granted_at,
         expiresAt: session.expires_at,
-        status: session.status
+        status: session.status,
+        accessLevel,
+        dataCategories
       },
       patient: {
         id: patient.id,
@@ -123,14 +144,18 @@ export async function GET(
         email: patient.email,
         profilePhotoPath: patient.profile_photo_path,
         emergencyContact: patient.emergency_contact,
-        idProofType: patient.id_proof_type,
-        idProofNumber: patient.id_proof_number,
-        // Get latest medical info from most recent encounter
+        idProofType: criticalOnly ? null : patient.id_proof_type,
+        idProofNumber: criticalOnly ? null : patient.id_proof_number,
+        // Blood group comes from the most recent encounter
         bloodGroup: encounters[0]?.blood_group,
-        allergies: encounters[0]?.allergies_snapshot,
-        chronicConditions: encounters[0]?.chronic_snapshot
+        allergies: MedicalHistoryService.formatEntries(medicalLists.allergies) || null,
+        chronicConditions: MedicalHistoryService.formatEntries(medicalLists.conditions) || null,
+        medications: MedicalHistoryService.formatEntries(medicalLists.medications) || null,
+        allergyList: medicalLists.allergies,
+        conditionList: medicalLists.conditions,
+        medicationList: medicalLists.medications
       },
-      encounters: encounters.map((e: any) => ({
+      encounters: !includeTimeline ? [] : encounters.map((e: any) => ({
         id: e.id,
         occurredAt: e.occurred_at,
         type: e.type,
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { authenticateRequest, canAccessPatientData } from '@/lib/auth'
 import { EncounterService } from '@/lib/services/encounter-service'
+import { DelegationService } from '@/lib/services/delegation-service'
 
 export async function GET(
   request: NextRequest,
@@ -28,12 +29,19 @@ export async function GET(
 
     const encounter = encounterResult.encounter!
 
-    // Check if user can access this patient's data
-    if (!canAccessPatientData(user, encounter.patientUserId)) {
-      return NextResponse.json(
-        { error: 'Access denied for this encounter' },
-        { status: 403 }
-      )
+    // Check if user can access this patient's data, directly or as a delegate
+    if (!canAccessPatientData(user, encounter.patientUserId, 'TIMELINE')) {
+      const delegation = await DelegationService.getActiveDelegation(user.userId, encounter.patientUserId, 'VIEW_TIMELINE')
+      if (!delegation) {
+        return NextResponse.json(
+          { error: 'Access denied for this encounter' },
+          { status: 403 }
+        )
+      }
+
+      await DelegationService.logDelegatedAction(delegation, 'ENCOUNTER_VIEWED', {
+        encounterId
+      })
     }
 
     return NextResponse.json({
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { authenticateRequest, canAccessPatientData } from '@/lib/auth'
 import { EncounterService } from '@/lib/services/encounter-service'
+import { DelegationService, Delegation } from '@/lib/services/delegation-service'
+import { HospitalService } from '@/lib/services/hospital-service'
 
 export async function GET(request: NextRequest) {
   try {
@@ -23,14 +25,18 @@ export async function GET(request: NextRequest) {
 
     // Determine which patient's timeline to retrieve
     let targetPatientId: string
+    let delegation: Delegation | null = null
 
     if (patientId) {
-      // Check if user can access this patient's data
-      if (!canAccessPatientData(user, patientId)) {
-        return NextResponse.json(
-          { error: 'Access denied for this patient data' },
-          { status: 403 }
-        )
+      // Check if user can access this patient's data, directly or as a delegate
+      if (!canAccessPatientData(user, patientId, 'TIMELINE')) {
+        delegation = await DelegationService.getActiveDelegation(user.userId, patientId, 'VIEW_TIMELINE')
+        if (!delegation) {
+          return NextResponse.json(
+            { error: 'Access denied for this patient data' },
+            { status: 403 }
+          )
+        }
       }
       targetPatientId = patientId
     } else {
@@ -62,6 +68,13 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    if (delegation) {
+      await DelegationService.logDelegatedAction(delegation, 'ENCOUNTER_VIEWED', {
+        view: 'timeline',
+        encounterCount: timelineResult.encounters?.length || 0
+      })
+    }
+
     return NextResponse.json({
       message: timelineResult.message,
       encounters: timelineResult.encounters
@@ -110,9 +123,21 @@ export async function POST(request: NextRequest) {
 
     // Determine target patient
     let targetPatientId: string
+    let targetHospitalId: string | undefined = hospitalId
+    let delegation: Delegation | null = null
 
-    if (user.role === 'PATIENT') {
-      // Patients can only create encounters for themselves
+    if (user.role === 'PATIENT' && patientUserId && patientUserId !== user.userId) {
+      // Another patient's record needs a delegation that allows adding encounters
+      delegation = await DelegationService.getActiveDelegation(user.userId, patientUserId, 'ADD_ENCOUNTERS')
+      if (!delegation) {
+        return NextResponse.json(
+          { error: 'Access denied for this patient data' },
+          { status: 403 }
+        )
+      }
+      targetPatientId = patientUserId
+    } else if (user.role === 'PATIENT') {
+      // Patients can create encounters for themselves
       targetPatientId = user.userId
     } else if (user.role === 'OPERATOR') {
       // Operators must specify patient ID
@@ -123,6 +148,23 @@ export async function POST(request: NextRequest) {
         )
       }
       targetPatientId = patientUserId
+
+      // Operators record encounters for their own hospital only
+      const tenantResult = await HospitalService.requireActiveTenant(user.userId)
+      if (!tenantResult.success) {
+        return NextResponse.json(
+          { error: tenantResult.message },
+          { status: tenantResult.tenant ? 403 : 404 }
+        )
+      }
+
+      if (hospitalId && hospitalId !== tenantResult.tenant!.hospitalId) {
+        return NextResponse.json(
+          { error: 'Access denied for this hospital' },
+          { status: 403 }
+        )
+      }
+      targetHospitalId = tenantResult.tenant!.hospitalId
     } else {
       return NextResponse.json(
         { error: 'Invalid role for encounter creation' },
@@ -142,10 +184,11 @@ export async function POST(request: NextRequest) {
         chronicSnapshot,
         bloodGroup,
         recentSurgery,
-        hospitalId
+        hospitalId: targetHospitalId
       },
       user.userId,
-      user.role
+      delegation ? 'DELEGATE' : user.role,
+      delegation ? { delegationId: delegation.id, principalUserId: delegation.patientUserId } : {}
     )
 
     if (!encounterResult.success) {
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeRequest } from '@/lib/auth'
+import { HospitalService } from '@/lib/services/hospital-service'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: hospitalId } = await params
+    const authResult = await authorizeRequest(request, 'MANAGE_HOSPITALS', { hospitalId })
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const invitations = await HospitalService.getInvitations(hospitalId)
+
+    return NextResponse.json({
+      message: 'Invitations retrieved successfully',
+      invitations
+    })
+
+  } catch (error) {
+    console.error('Get hospital invitations API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: hospitalId } = await params
+    const authResult = await authorizeRequest(request, 'MANAGE_HOSPITALS', { hospitalId })
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const body = await request.json()
+    const { role, name, mobile, email } = body
+
+    const result = await HospitalService.inviteStaff(hospitalId, { role, name, mobile, email }, user.userId)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: result.message === 'Hospital not found' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      invitation: result.invitation
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Invite hospital staff API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeRequest } from '@/lib/auth'
+import { HospitalService } from '@/lib/services/hospital-service'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: hospitalId } = await params
+    const authResult = await authorizeRequest(request, 'MANAGE_HOSPITALS', { hospitalId })
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const hospital = await HospitalService.getHospital(hospitalId)
+
+    if (!hospital) {
+      return NextResponse.json(
+        { error: 'Hospital not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: 'Hospital retrieved successfully',
+      hospital
+    })
+
+  } catch (error) {
+    console.error('Get hospital API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Only platform administrators can suspend or reactivate a hospital
+    const authResult = await authorizeRequest(request, 'MANAGE_HOSPITALS', {})
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const { id: hospitalId } = await params
+    const body = await request.json()
+    const { status, reason } = body
+
+    const result = await HospitalService.setHospitalStatus(hospitalId, status, reason, user.userId)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: result.message === 'Hospital not found' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      hospital: result.hospital
+    })
+
+  } catch (error) {
+    console.error('Update hospital status API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeRequest } from '@/lib/auth'
+import { HospitalService } from '@/lib/services/hospital-service'
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: hospitalId } = await params
+    const authResult = await authorizeRequest(request, 'MANAGE_HOSPITALS', { hospitalId })
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const body = await request.json()
+    const { requireTotp } = body
+
+    const result = await HospitalService.setTotpRequirement(hospitalId, requireTotp, user.userId, user.role)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: result.message === 'Hospital not found' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      hospital: result.hospital
+    })
+
+  } catch (error) {
+    console.error('Update hospital security policy API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeRequest } from '@/lib/auth'
+import { HospitalService } from '@/lib/services/hospital-service'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: hospitalId } = await params
+    const authResult = await authorizeRequest(request, 'MANAGE_HOSPITALS', { hospitalId })
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const { searchParams } = new URL(request.url)
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
+
+    if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+      return NextResponse.json(
+        { error: 'from and to must be valid dates' },
+        { status: 400 }
+      )
+    }
+
+    const result = await HospitalService.getUsage(
+      hospitalId,
+      from ? new Date(from) : undefined,
+      to ? new Date(to) : undefined
+    )
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: result.message === 'Hospital not found' ? 404 : 500 }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      usage: result.usage
+    })
+
+  } catch (error) {
+    console.error('Get hospital usage API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
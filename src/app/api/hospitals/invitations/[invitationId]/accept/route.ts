@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { HospitalService } from '@/lib/services/hospital-service'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ invitationId: string }> }
+) {
+  try {
+    const { invitationId } = await params
+    const body = await request.json()
+    const { otp } = body
+
+    // The invitee may not have an account yet; the OTP proves the invited mobile number
+    if (!otp) {
+      return NextResponse.json(
+        { error: 'OTP is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await HospitalService.acceptInvitation(invitationId, otp)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: result.message === 'Invitation not found' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      userId: result.userId
+    })
+
+  } catch (error) {
+    console.error('Accept hospital invitation API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeRequest } from '@/lib/auth'
+import { HospitalService } from '@/lib/services/hospital-service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authorizeRequest(request, 'MANAGE_HOSPITALS', {})
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const hospitals = await HospitalService.listHospitals()
+
+    return NextResponse.json({
+      message: 'Hospitals retrieved successfully',
+      hospitals
+    })
+
+  } catch (error) {
+    console.error('List hospitals API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authorizeRequest(request, 'MANAGE_HOSPITALS', {})
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const body = await request.json()
+    const { name } = body
+
+    const result = await HospitalService.createHospital(name, user.userId)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: result.message === 'A hospital with this name already exists' ? 409 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      hospital: result.hospital
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Create hospital API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
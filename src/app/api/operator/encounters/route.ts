@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { authenticateRequest } from '@/lib/auth'
 import { database } from '@/lib/database'
+import { MedicalHistoryService } from '@/lib/services/medical-history-service'
+import { HospitalService } from '@/lib/services/hospital-service'
+import { v4 as uuidv4 } from 'uuid'
 
 export async function GET(request: NextRequest) {
   try {
@@ -17,19 +20,16 @@ export async function GET(request: NextRequest) {
     const limit = parseInt(searchParams.get('limit') || '20')
 
     // Get operator's hospital
-    const [operators] = await database.execute(
-      'SELECT hospital_id FROM operator_profiles WHERE user_id = ?',
-      [user.userId]
-    ) as any
+    const tenantResult = await HospitalService.requireActiveTenant(user.userId)
 
-    if (!operators || operators.length === 0) {
+    if (!tenantResult.success) {
       return NextResponse.json(
-        { error: 'Operator profile not found' },
-        { status: 404 }
+        { error: tenantResult.message },
+        { status: tenantResult.tenant ? 403 : 404 }
       )
     }
 
-    const operatorHospitalId = operators[0].hospital_id
+    const operatorHospitalId = tenantResult.tenant!.hospitalId
 
     let query = `
       SELECT 
@@ -116,19 +116,16 @@ export async function POST(request: NextRequest) {
     }
 
     // Get operator's hospital
-    const [operators] = await database.execute(
-      'SELECT hospital_id FROM operator_profiles WHERE user_id = ?',
-      [user.userId]
-    ) as any
+    const tenantResult = await HospitalService.requireActiveTenant(user.userId)
 
-    if (!operators || operators.length === 0) {
+    if (!tenantResult.success) {
       return NextResponse.json(
-        { error: 'Operator profile not found' },
-        { status: 404 }
+        { error: tenantResult.message },
+        { status: tenantResult.tenant ? 403 : 404 }
       )
     }
 
-    const operatorHospitalId = operators[0].hospital_id
+    const operatorHospitalId = tenantResult.tenant!.hospitalId
 
     // Find patient
     const [patients] = await database.execute(
@@ -146,13 +143,15 @@ export async function POST(request: NextRequest) {
     const patientUserId = patients[0].id
 
     // Create encounter
-    const [encounterResult] = await database.execute(`
+    const encounterId = uuidv4()
+    await database.execute(`
       INSERT INTO encounters (
-        patient_user_id, occurred_at, type, reason_diagnosis, prescriptions_notes,
+        id, patient_user_id, occurred_at, type, reason_diagnosis, prescriptions_notes,
         allergies_snapshot, chronic_snapshot, blood_group, recent_surgery,
         created_by_role, created_by_user_id, hospital_id
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
+      encounterId,
       patientUserId,
       new Date(occurredAt),
       type,
@@ -165,9 +164,15 @@ export async function POST(request: NextRequest) {
       'OPERATOR',
       user.userId,
       operatorHospitalId
-    ]) as any
+    ])
 
-    const encounterId = encounterResult.insertId
+    await MedicalHistoryService.recordEncounterSnapshots({
+      patientUserId,
+      encounterId,
+      occurredAt: new Date(occurredAt),
+      allergiesSnapshot,
+      chronicSnapshot
+    })
 
     // Log encounter creation
     await database.execute(
@@ -178,7 +183,7 @@ export async function POST(request: NextRequest) {
         patientUserId,
         'ENCOUNTER_CREATED',
         JSON.stringify({
-          encounterId: encounterId.toString(),
+          encounterId,
           type,
           occurredAt,
           createdBy: 'OPERATOR',
@@ -190,7 +195,7 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       message: 'Encounter created successfully',
-      encounterId: encounterId.toString(),
+      encounterId,
       patientUserId
     })
 
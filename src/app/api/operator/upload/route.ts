@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { writeFile, mkdir } from 'fs/promises'
+import { mkdir } from 'fs/promises'
 import { join } from 'path'
 import { v4 as uuidv4 } from 'uuid'
 import { executeSQLiteQuery } from '../../../../../database/sqlite'
-import jwt from 'jsonwebtoken'
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key'
+import { SessionService } from '@/lib/auth'
+import { MedicalHistoryService } from '@/lib/services/medical-history-service'
+import { DocumentEncryption } from '@/lib/services/document-encryption'
+import { DocumentScanService } from '@/lib/services/document-scan-service'
+import { DocumentService } from '@/lib/services/document-service'
+import { HospitalService } from '@/lib/services/hospital-service'
 
 export async function POST(request: NextRequest) {
   try {
@@ -23,14 +26,13 @@ export async function POST(request: NextRequest) {
     const token = authHeader.substring(7)
     console.log('🎫 Token extracted:', token.substring(0, 50) + '...')
     
-    let decoded: any
-    try {
-      decoded = jwt.verify(token, JWT_SECRET)
-      console.log('✅ Token decoded successfully:', decoded)
-    } catch (error) {
-      console.log('❌ Token verification failed:', error)
+    const sessionResult = await SessionService.verifySession(token)
+    if (!sessionResult.success) {
+      console.log('❌ Token verification failed:', sessionResult.message)
       return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
     }
+    const decoded = sessionResult.sessionData!
+    console.log('✅ Token decoded successfully:', decoded)
 
     // Get form data
     const formData = await request.formData()
@@ -54,6 +56,21 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
+    // Check attached files are what they claim to be before saving anything
+    const files = (formData.getAll('files') as File[]).filter(file => file.size > 0)
+    const buffers: Buffer[] = []
+    for (const file of files) {
+      const buffer = Buffer.from(await file.arrayBuffer())
+      const content = DocumentService.validateFileContent(file.name, file.type, buffer)
+      if (!content.isValid) {
+        return NextResponse.json({
+          error: `${file.name} was rejected`,
+          details: content.errors
+        }, { status: 400 })
+      }
+      buffers.push(buffer)
+    }
+
     // Verify patient exists
     const patients = await executeSQLiteQuery(
       'SELECT id, name FROM users WHERE id = ? AND role = "PATIENT"',
@@ -66,26 +83,19 @@ export async function POST(request: NextRequest) {
 
     const patient = patients[0]
 
-    // Get operator info - handle special operator session token
-    let operator
-    if (decoded.userId === 'operator-session') {
-      // This is an operator session token
-      operator = {
-        id: 'operator-session',
-        name: 'Hospital Operator',
-        operator_hospital_id: null
-      }
-    } else {
-      // Regular operator user
-      const operators = await executeSQLiteQuery(
-        'SELECT u.id, u.name, u.hospital_id, op.hospital_id as operator_hospital_id FROM users u LEFT JOIN operator_profiles op ON u.id = op.user_id WHERE u.id = ?',
-        [decoded.userId]
-      ) as any[]
-
-      if (!operators || operators.length === 0) {
-        return NextResponse.json({ error: 'Operator not found' }, { status: 404 })
-      }
-      operator = operators[0]
+    // Get operator info
+    const operators = await executeSQLiteQuery(
+      'SELECT u.id, u.name, u.hospital_id, op.hospital_id as operator_hospital_id FROM users u LEFT JOIN operator_profiles op ON u.id = op.user_id WHERE u.id = ?',
+      [decoded.userId]
+    ) as any[]
+
+    if (!operators || operators.length === 0) {
+      return NextResponse.json({ error: 'Operator not found' }, { status: 404 })
+    }
+    const operator = operators[0]
+
+    if (operator.operator_hospital_id && !await HospitalService.isHospitalActive(operator.operator_hospital_id)) {
+      return NextResponse.json({ error: 'Hospital is suspended' }, { status: 403 })
     }
 
     // Create encounter
@@ -103,8 +113,15 @@ export async function POST(request: NextRequest) {
       blood_group, recent_surgery, decoded.userId, operator.operator_hospital_id
     ])
 
+    await MedicalHistoryService.recordEncounterSnapshots({
+      patientUserId: patient_user_id,
+      encounterId,
+      occurredAt: new Date(),
+      allergiesSnapshot: allergies_snapshot,
+      chronicSnapshot: chronic_snapshot
+    })
+
     // Process file uploads
-    const files = formData.getAll('files') as File[]
     const uploadedFiles = []
 
     if (files.length > 0) {
@@ -116,37 +133,36 @@ export async function POST(request: NextRequest) {
         // Directory might already exist
       }
 
-      for (const file of files) {
-        if (file.size > 0) {
-          // Generate unique filename
-          const fileExtension = file.name.split('.').pop()
-          const uniqueFilename = `${uuidv4()}.${fileExtension}`
-          const filePath = join(uploadDir, uniqueFilename)
-
-          // Save file
-          const bytes = await file.arrayBuffer()
-          const buffer = Buffer.from(bytes)
-          await writeFile(filePath, buffer)
-
-          // Save document record
-          const documentId = uuidv4()
-          await executeSQLiteQuery(`
-            INSERT INTO documents (
-              id, encounter_id, patient_user_id, uploaded_by_user_id, 
-              hospital_id, filename, storage_path, mimetype, uploaded_at
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
-          `, [
-            documentId, encounterId, patient_user_id, decoded.userId,
-            operator.operator_hospital_id, file.name, uniqueFilename, file.type
-          ])
-
-          uploadedFiles.push({
-            id: documentId,
-            filename: file.name,
-            size: file.size,
-            type: file.type
-          })
-        }
+      for (const [index, file] of files.entries()) {
+        // Generate unique filename
+        const fileExtension = file.name.split('.').pop()
+        const uniqueFilename = `${uuidv4()}.${fileExtension}`
+        const filePath = join(uploadDir, uniqueFilename)
+
+        // Save encrypted file
+        const documentId = uuidv4()
+        const encryption = await DocumentEncryption.writeFile(filePath, documentId, buffers[index])
+
+        // Save document record, quarantined until its malware scan passes
+        await executeSQLiteQuery(`
+          INSERT INTO documents (
+            id, encounter_id, patient_user_id, uploaded_by_user_id, 
+            hospital_id, filename, storage_path, mimetype, uploaded_at,
+            encrypted_key, encryption_nonce, encryption_tag, encryption_key_id, scan_status
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), ?, ?, ?, ?, 'PENDING')
+        `, [
+          documentId, encounterId, patient_user_id, decoded.userId,
+          operator.operator_hospital_id, file.name, uniqueFilename, file.type,
+          encryption.encryptedKey, encryption.nonce, encryption.authTag, encryption.keyId
+        ])
+        DocumentScanService.scanInBackground(documentId)
+
+        uploadedFiles.push({
+          id: documentId,
+          filename: file.name,
+          size: file.size,
+          type: file.type
+        })
       }
     }
 
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { EmergencyPolicyService } from '@/lib/services/emergency-policy-service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['PATIENT'])
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const policy = await EmergencyPolicyService.getPolicy(user.userId)
+
+    return NextResponse.json({
+      message: 'Emergency access policy retrieved successfully',
+      policy
+    })
+
+  } catch (error) {
+    console.error('Get emergency policy API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['PATIENT'])
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const body = await request.json()
+    const { allowedMethods, dataCategories, maxSessionMinutes, trustedHospitals } = body
+
+    const result = await EmergencyPolicyService.updatePolicy(user.userId, {
+      allowedMethods,
+      dataCategories,
+      maxSessionMinutes,
+      trustedHospitals
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      policy: result.policy
+    })
+
+  } catch (error) {
+    console.error('Update emergency policy API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { database } from '@/lib/database'
-import jwt from 'jsonwebtoken'
-import { writeFile } from 'fs/promises'
+import { SessionService } from '@/lib/auth'
 import { join } from 'path'
 import { v4 as uuidv4 } from 'uuid'
+import { DocumentEncryption } from '@/lib/services/document-encryption'
+import { DocumentScanService } from '@/lib/services/document-scan-service'
+import { DocumentService } from '@/lib/services/document-service'
+import { MedicalHistoryService } from '@/lib/services/medical-history-service'
 
 export async function GET(request: NextRequest) {
   try {
@@ -18,16 +21,15 @@ export async function GET(request: NextRequest) {
 
     const token = authHeader.substring(7)
 
-    // Verify JWT token
-    let decoded: any
-    try {
-      decoded = jwt.verify(token, process.env.JWT_SECRET!)
-    } catch (error) {
+    // Verify the session token, which also rejects revoked sessions
+    const sessionResult = await SessionService.verifySession(token)
+    if (!sessionResult.success) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
         { status: 401 }
       )
     }
+    const decoded: any = sessionResult.sessionData
 
     const { searchParams } = new URL(request.url)
     const limit = searchParams.get('limit')
@@ -89,16 +91,15 @@ export async function POST(request: NextRequest) {
 
     const token = authHeader.substring(7)
 
-    // Verify JWT token
-    let decoded: any
-    try {
-      decoded = jwt.verify(token, process.env.JWT_SECRET!)
-    } catch (error) {
+    // Verify the session token, which also rejects revoked sessions
+    const sessionResult = await SessionService.verifySession(token)
+    if (!sessionResult.success) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
         { status: 401 }
       )
     }
+    const decoded: any = sessionResult.sessionData
 
     const formData = await request.formData()
     
@@ -119,19 +120,40 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Check attached documents are what they claim to be before saving anything
+    const documents: { file: File; buffer: Buffer }[] = []
+    for (const key of Array.from(formData.keys()).filter(key => key.startsWith('document_'))) {
+      const file = formData.get(key) as File
+      if (!file || file.size === 0) {
+        continue
+      }
+
+      const buffer = Buffer.from(await file.arrayBuffer())
+      const content = DocumentService.validateFileContent(file.name, file.type, buffer)
+      if (!content.isValid) {
+        return NextResponse.json(
+          { error: `${file.name} was rejected`, details: content.errors },
+          { status: 400 }
+        )
+      }
+
+      documents.push({ file, buffer })
+    }
+
     console.log('Creating encounter for user:', decoded.userId)
     console.log('Encounter data:', { occurredAt, type, reasonDiagnosis, prescriptionsNotes })
 
     // Create encounter
-    let encounterResult
+    const encounterId = uuidv4()
     try {
-      [encounterResult] = await database.execute(`
+      await database.execute(`
         INSERT INTO encounters (
-          patient_user_id, occurred_at, type, reason_diagnosis, prescriptions_notes,
+          id, patient_user_id, occurred_at, type, reason_diagnosis, prescriptions_notes,
           allergies_snapshot, chronic_snapshot, blood_group, recent_surgery,
           created_by_role, created_by_user_id
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `, [
+        encounterId,
         decoded.userId,
         occurredAt,
         type,
@@ -143,7 +165,7 @@ export async function POST(request: NextRequest) {
         recentSurgery || null,
         'PATIENT',
         decoded.userId
-      ]) as any
+      ])
     } catch (dbError) {
       console.error('Database error creating encounter:', dbError)
       return NextResponse.json(
@@ -152,56 +174,56 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // For SQLite, the insertId might be in a different property
-    const encounterId = encounterResult.insertId || encounterResult.lastID || encounterResult.id
-    console.log('Encounter created with ID:', encounterId, 'Result:', encounterResult)
+    console.log('Encounter created with ID:', encounterId)
 
-    if (!encounterId) {
-      console.error('No encounter ID returned from database')
-      return NextResponse.json(
-        { error: 'Failed to get encounter ID from database' },
-        { status: 500 }
-      )
-    }
+    await MedicalHistoryService.recordEncounterSnapshots({
+      patientUserId: decoded.userId,
+      encounterId,
+      occurredAt,
+      allergiesSnapshot: allergies,
+      chronicSnapshot: chronicConditions
+    })
 
     // Handle document uploads
-    const documentKeys = Array.from(formData.keys()).filter(key => key.startsWith('document_'))
-    
-    for (const key of documentKeys) {
-      const file = formData.get(key) as File
-      if (file && file.size > 0) {
-        try {
-          const bytes = await file.arrayBuffer()
-          const buffer = Buffer.from(bytes)
-          
-          // Generate unique filename
-          const fileExtension = file.name.split('.').pop()
-          const fileName = `${uuidv4()}.${fileExtension}`
-          const filePath = join(process.cwd(), 'uploads', 'documents', fileName)
-          
-          await writeFile(filePath, buffer)
-          
-          // Save document record
-          await database.execute(`
-            INSERT INTO documents (
-              encounter_id, patient_user_id, uploaded_by_user_id,
-              filename, storage_path, mimetype, hospital_id
-            ) VALUES (?, ?, ?, ?, ?, ?, ?)
-          `, [
-            encounterId,
-            decoded.userId,
-            decoded.userId,
-            file.name,
-            `/uploads/documents/${fileName}`,
-            file.type,
-            null // Allow null hospital_id for patient uploads
-          ])
-          
-          console.log('Document uploaded successfully:', file.name)
-        } catch (docError) {
-          console.error('Document upload error:', docError)
-          // Continue with other documents even if one fails
-        }
+    for (const { file, buffer } of documents) {
+      try {
+        // Generate unique filename
+        const fileExtension = file.name.split('.').pop()
+        const fileName = `${uuidv4()}.${fileExtension}`
+        const filePath = join(process.cwd(), 'uploads', 'documents', fileName)
+        
+        const documentId = uuidv4()
+        const encryption = await DocumentEncryption.writeFile(filePath, documentId, buffer)
+        
+        // Save document record
+        await database.execute(`
+          INSERT INTO documents (
+            id, encounter_id, patient_user_id, uploaded_by_user_id,
+            filename, storage_path, mimetype, hospital_id,
+            encrypted_key, encryption_nonce, encryption_tag, encryption_key_id, scan_status
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'PENDING')
+        `, [
+          documentId,
+          encounterId,
+          decoded.userId,
+          decoded.userId,
+          file.name,
+          `/uploads/documents/${fileName}`,
+          file.type,
+          null, // Allow null hospital_id for patient uploads
+          encryption.encryptedKey,
+          encryption.nonce,
+          encryption.authTag,
+          encryption.keyId
+        ])
+
+        // Quarantined until the scan passes
+        DocumentScanService.scanInBackground(documentId)
+        
+        console.log('Document uploaded successfully:', file.name)
+      } catch (docError) {
+        console.error('Document upload error:', docError)
+        // Continue with other documents even if one fails
       }
     }
 
@@ -256,16 +278,15 @@ export async function DELETE(request: NextRequest) {
 
     const token = authHeader.substring(7)
 
-    // Verify JWT token
-    let decoded: any
-    try {
-      decoded = jwt.verify(token, process.env.JWT_SECRET!)
-    } catch (error) {
+    // Verify the session token, which also rejects revoked sessions
+    const sessionResult = await SessionService.verifySession(token)
+    if (!sessionResult.success) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
         { status: 401 }
       )
     }
+    const decoded: any = sessionResult.sessionData
 
     const { searchParams } = new URL(request.url)
     const encounterId = searchParams.get('id')
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, canAccessPatientData } from '@/lib/auth'
+import { FHIRService } from '@/lib/services/fhir-service'
+import { AuditService } from '@/lib/services/audit-service'
+import { EMERGENCY_DATA_CATEGORIES } from '@/lib/services/emergency-policy-service'
+import { FHIR_CONTENT_TYPE } from '@/lib/utils/fhir-utils'
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request)
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const { searchParams } = new URL(request.url)
+    const patientId = searchParams.get('patientId')
+
+    // Determine which patient's record to export, and which parts of it
+    let targetPatientId: string
+    let categories = EMERGENCY_DATA_CATEGORIES
+
+    if (patientId) {
+      // Check if user can access this patient's data
+      if (!canAccessPatientData(user, patientId, 'TIMELINE')) {
+        return NextResponse.json(
+          { error: 'Access denied for this patient data' },
+          { status: 403 }
+        )
+      }
+      targetPatientId = patientId
+      categories = EMERGENCY_DATA_CATEGORIES.filter(category => canAccessPatientData(user, patientId, category))
+    } else {
+      // Default to user's own data (patients only)
+      if (user.role !== 'PATIENT') {
+        return NextResponse.json(
+          { error: 'Patient ID is required for non-patient users' },
+          { status: 400 }
+        )
+      }
+      targetPatientId = user.userId
+    }
+
+    const exportResult = await FHIRService.exportPatientBundle(targetPatientId, categories)
+
+    if (!exportResult.success) {
+      return NextResponse.json(
+        { error: exportResult.message },
+        { status: 400 }
+      )
+    }
+
+    await AuditService.logEvent(user.userId, user.role, 'RECORD_EXPORTED', {
+      format: 'FHIR_R4',
+      dataCategories: categories,
+      resourceCount: exportResult.bundle!.entry.length
+    }, targetPatientId)
+
+    return new NextResponse(JSON.stringify(exportResult.bundle), {
+      headers: {
+        'Content-Type': FHIR_CONTENT_TYPE,
+        'Content-Disposition': `attachment; filename="patient-record-${new Date().toISOString().split('T')[0]}.fhir.json"`,
+        'Cache-Control': 'private, no-store'
+      }
+    })
+
+  } catch (error) {
+    console.error('FHIR export API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { FHIRService } from '@/lib/services/fhir-service'
+import { AuditService } from '@/lib/services/audit-service'
+import type { FHIRBundle } from '@/lib/utils/fhir-utils'
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['PATIENT'])
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+
+    let bundle: Partial<FHIRBundle> | null
+    try {
+      bundle = await request.json()
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      )
+    }
+
+    const importResult = await FHIRService.importPatientBundle(user.userId, bundle, user.userId, user.role)
+
+    if (!importResult.success) {
+      return NextResponse.json(
+        { error: importResult.message },
+        { status: 400 }
+      )
+    }
+
+    await AuditService.logEvent(user.userId, user.role, 'RECORD_IMPORTED', {
+      format: 'FHIR_R4',
+      ...importResult.summary
+    }, user.userId)
+
+    return NextResponse.json({
+      message: importResult.message,
+      summary: importResult.summary,
+      results: importResult.results
+    })
+
+  } catch (error) {
+    console.error('FHIR import API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, canAccessPatientData } from '@/lib/auth'
+import { MedicalHistoryService } from '@/lib/services/medical-history-service'
+import { AuditService } from '@/lib/services/audit-service'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['PATIENT', 'DOCTOR'])
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const { id: entryId } = await params
+    const body = await request.json()
+    const { kind, patientId, severity, onsetDate, status, dosage } = body
+    const targetPatientId = patientId || user.userId
+
+    if (!canAccessPatientData(user, targetPatientId)) {
+      return NextResponse.json(
+        { error: 'Access denied for this patient data' },
+        { status: 403 }
+      )
+    }
+
+    if (!kind || !MedicalHistoryService.isValidKind(kind)) {
+      return NextResponse.json(
+        { error: 'Kind must be one of allergy, condition or medication' },
+        { status: 400 }
+      )
+    }
+
+    const updateResult = await MedicalHistoryService.updateEntry(kind, entryId, targetPatientId, {
+      severity,
+      onsetDate,
+      status,
+      dosage
+    })
+
+    if (!updateResult.success) {
+      return NextResponse.json(
+        { error: updateResult.message },
+        { status: updateResult.message === 'Medical history entry not found' ? 404 : 400 }
+      )
+    }
+
+    await AuditService.logEvent(user.userId, user.role, 'MEDICAL_HISTORY_UPDATED', {
+      action: 'updated',
+      kind,
+      entryId,
+      updatedFields: Object.keys({ severity, onsetDate, status, dosage }).filter(key => body[key] !== undefined)
+    }, targetPatientId)
+
+    return NextResponse.json({
+      message: updateResult.message
+    })
+
+  } catch (error) {
+    console.error('Update medical history API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
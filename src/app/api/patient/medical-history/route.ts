@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, canAccessPatientData } from '@/lib/auth'
+import { MedicalHistoryService } from '@/lib/services/medical-history-service'
+import { AuditService } from '@/lib/services/audit-service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request)
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const { searchParams } = new URL(request.url)
+    const patientId = searchParams.get('patientId')
+    const activeOnly = searchParams.get('activeOnly') === 'true'
+
+    // Determine which patient's medical history to retrieve
+    let targetPatientId: string
+
+    if (patientId) {
+      // Check if user can access this patient's data
+      if (!canAccessPatientData(user, patientId)) {
+        return NextResponse.json(
+          { error: 'Access denied for this patient data' },
+          { status: 403 }
+        )
+      }
+      targetPatientId = patientId
+    } else {
+      // Default to user's own data (patients only)
+      if (user.role !== 'PATIENT') {
+        return NextResponse.json(
+          { error: 'Patient ID is required for non-patient users' },
+          { status: 400 }
+        )
+      }
+      targetPatientId = user.userId
+    }
+
+    const listsResult = await MedicalHistoryService.getMedicalLists(targetPatientId, activeOnly)
+
+    if (!listsResult.success) {
+      return NextResponse.json(
+        { error: listsResult.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      message: listsResult.message,
+      ...listsResult.lists
+    })
+
+  } catch (error) {
+    console.error('Get medical history API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['PATIENT', 'DOCTOR'])
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const body = await request.json()
+    const { kind, patientId, name, severity, onsetDate, status, dosage } = body
+    const targetPatientId = patientId || user.userId
+
+    if (!canAccessPatientData(user, targetPatientId)) {
+      return NextResponse.json(
+        { error: 'Access denied for this patient data' },
+        { status: 403 }
+      )
+    }
+
+    if (!kind || !MedicalHistoryService.isValidKind(kind)) {
+      return NextResponse.json(
+        { error: 'Kind must be one of allergy, condition or medication' },
+        { status: 400 }
+      )
+    }
+
+    const addResult = await MedicalHistoryService.addEntry(kind, targetPatientId, {
+      name,
+      severity,
+      onsetDate,
+      status,
+      dosage
+    })
+
+    if (!addResult.success) {
+      return NextResponse.json(
+        { error: addResult.message },
+        { status: 400 }
+      )
+    }
+
+    await AuditService.logEvent(user.userId, user.role, 'MEDICAL_HISTORY_UPDATED', {
+      action: 'added',
+      kind,
+      entryId: addResult.entryId,
+      name
+    }, targetPatientId)
+
+    return NextResponse.json({
+      message: addResult.message,
+      entryId: addResult.entryId
+    })
+
+  } catch (error) {
+    console.error('Add medical history API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { UserService } from '@/lib/services/user-service'
-import jwt from 'jsonwebtoken'
+import { SessionService } from '@/lib/auth'
 import { writeFile } from 'fs/promises'
 import { join } from 'path'
 import { v4 as uuidv4 } from 'uuid'
@@ -18,16 +18,15 @@ export async function GET(request: NextRequest) {
 
     const token = authHeader.substring(7)
 
-    // Verify JWT token
-    let decoded: any
-    try {
-      decoded = jwt.verify(token, process.env.JWT_SECRET!)
-    } catch (error) {
+    // Verify the session token, which also rejects revoked sessions
+    const sessionResult = await SessionService.verifySession(token)
+    if (!sessionResult.success) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
         { status: 401 }
       )
     }
+    const decoded: any = sessionResult.sessionData
 
     // Get user profile
     const result = await UserService.getUserProfile(decoded.userId)
@@ -66,16 +65,15 @@ export async function PUT(request: NextRequest) {
 
     const token = authHeader.substring(7)
 
-    // Verify JWT token
-    let decoded: any
-    try {
-      decoded = jwt.verify(token, process.env.JWT_SECRET!)
-    } catch (error) {
+    // Verify the session token, which also rejects revoked sessions
+    const sessionResult = await SessionService.verifySession(token)
+    if (!sessionResult.success) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
         { status: 401 }
       )
     }
+    const decoded: any = sessionResult.sessionData
 
     const formData = await request.formData()
     
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { smsService } from '@/lib/services/sms-service'
+
+/**
+ * Delivery receipts from SMS providers
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  try {
+    const { provider } = await params
+
+    const accepted = await smsService.handleStatusCallback(provider, {
+      // Signatures cover the public URL, which differs from request.url behind a proxy
+      url: smsService.statusCallbackUrl(provider) || request.url,
+      headers: request.headers,
+      rawBody: await request.text()
+    })
+
+    if (!accepted) {
+      return NextResponse.json(
+        { error: 'Invalid delivery receipt' },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Delivery status updated' })
+
+  } catch (error) {
+    console.error('SMS status callback API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -4,13 +4,15 @@ import { smsService } from '@/lib/services/sms-service'
 export async function GET(request: NextRequest) {
   try {
     const status = smsService.getStatus()
+    const deliveries = await smsService.getDeliveryStats()
     
     return NextResponse.json({
       smsService: status,
       environment: process.env.NODE_ENV,
       twilioConfigured: !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN),
       phoneNumberConfigured: !!process.env.TWILIO_PHONE_NUMBER,
-      smsEnabled: process.env.SMS_ENABLED === 'true'
+      smsEnabled: process.env.SMS_ENABLED === 'true',
+      deliveries
     })
 
   } catch (error) {
@@ -20,4 +22,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
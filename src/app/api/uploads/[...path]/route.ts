@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { readFile } from 'fs/promises'
-import { join } from 'path'
+import { join, sep } from 'path'
 import { existsSync } from 'fs'
 
 export async function GET(
@@ -9,10 +9,12 @@ export async function GET(
 ) {
   try {
     const resolvedParams = await params
+    const profilesDir = join(process.cwd(), 'uploads', 'profiles')
     const filePath = join(process.cwd(), 'uploads', ...resolvedParams.path)
     
-    // Security check - ensure file is within uploads directory
-    if (!filePath.startsWith(join(process.cwd(), 'uploads'))) {
+    // Only profile photos are served here; documents need a signed URL from
+    // GET /api/documents/[id]
+    if (!filePath.startsWith(profilesDir + sep)) {
       return NextResponse.json(
         { error: 'Access denied' },
         { status: 403 }
@@ -53,7 +55,7 @@ export async function GET(
     return new NextResponse(fileBuffer, {
       headers: {
         'Content-Type': contentType,
-        'Cache-Control': 'public, max-age=31536000'
+        'Cache-Control': 'private, no-store'
       }
     })
 
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, WebAuthnService } from '@/lib/auth'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ credentialId: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['PATIENT'])
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const { credentialId } = await params
+    const removed = await WebAuthnService.deletePasskey(authResult.user!.userId, credentialId)
+
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'Passkey not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Passkey removed' })
+
+  } catch (error) {
+    console.error('Remove passkey API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
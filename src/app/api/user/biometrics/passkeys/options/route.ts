@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, WebAuthnService } from '@/lib/auth'
+
+/**
+ * Start registering a passkey, returning options for navigator.credentials.create()
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['PATIENT'])
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const result = await WebAuthnService.generateRegistrationOptions(authResult.user!.userId)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ options: result.options })
+
+  } catch (error) {
+    console.error('Passkey registration options API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { authenticateRequest } from '@/lib/auth'
 import { UserService } from '@/lib/services/user-service'
-import { BiometricService } from '@/lib/auth'
+import { BiometricService, WebAuthnService } from '@/lib/auth'
 
 export async function POST(request: NextRequest) {
   try {
@@ -13,9 +13,33 @@ export async function POST(request: NextRequest) {
 
     const user = authResult.user!
     const body = await request.json()
-    const { fingerprintData, irisData } = body
+    const { fingerprintData, irisData, fingerprints, credential, deviceName } = body
 
-    if (!fingerprintData && !irisData) {
+    // A passkey registered with the device's fingerprint sensor
+    if (credential) {
+      const passkeyResult = await WebAuthnService.verifyRegistration(user.userId, credential, deviceName)
+
+      if (!passkeyResult.success) {
+        return NextResponse.json(
+          { error: passkeyResult.message },
+          { status: 400 }
+        )
+      }
+
+      return NextResponse.json({
+        message: passkeyResult.message,
+        passkey: passkeyResult.passkey
+      })
+    }
+
+    if (fingerprints !== undefined && !Array.isArray(fingerprints)) {
+      return NextResponse.json(
+        { error: 'fingerprints must be a list of { finger, data }' },
+        { status: 400 }
+      )
+    }
+
+    if (!fingerprintData && !irisData && !fingerprints?.length) {
       return NextResponse.json(
         { error: 'At least one biometric data (fingerprint or iris) is required' },
         { status: 400 }
@@ -26,7 +50,8 @@ export async function POST(request: NextRequest) {
     const result = await UserService.registerBiometrics(
       user.userId,
       fingerprintData,
-      irisData
+      irisData,
+      fingerprints
     )
 
     if (!result.success) {
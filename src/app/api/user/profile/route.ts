@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { authenticateRequest } from '@/lib/auth'
 import { UserService } from '@/lib/services/user-service'
+import type { NotificationChannel } from '@/lib/services/notification-service'
 import { writeFile, mkdir } from 'fs/promises'
 import { join } from 'path'
 import { v4 as uuidv4 } from 'uuid'
@@ -112,6 +113,49 @@ export async function PUT(request: NextRequest) {
   }
 }
 
+export async function PATCH(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request)
+
+    if (!authResult.success) {
+      return authResult.response!
+    }
+
+    const user = authResult.user!
+    const body = await request.json()
+    const { notificationChannel } = body
+
+    if (!notificationChannel) {
+      return NextResponse.json(
+        { error: 'notificationChannel is required' },
+        { status: 400 }
+      )
+    }
+
+    const channel = String(notificationChannel).toUpperCase() as NotificationChannel
+    const result = await UserService.setNotificationChannel(user.userId, channel)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: result.message === 'User not found' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      notificationChannel: channel
+    })
+
+  } catch (error) {
+    console.error('Update notification channel API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
 export async function DELETE(request: NextRequest) {
   try {
     const authResult = await authenticateRequest(request, ['PATIENT'])
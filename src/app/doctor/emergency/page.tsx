@@ -1,8 +1,15 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { authFetch } from '@/lib/utils/auth-fetch'
+
+interface SignedInDoctor {
+  userId: string
+  name: string
+  mobile: string
+}
 
 export default function DoctorEmergencyPage() {
   const router = useRouter()
@@ -11,16 +18,31 @@ export default function DoctorEmergencyPage() {
   const [error, setError] = useState('')
   const [success, setSuccess] = useState('')
   const [generatedOTP, setGeneratedOTP] = useState('')
+  const [doctor, setDoctor] = useState<SignedInDoctor | null>(null)
+  const [checkingSession, setCheckingSession] = useState(true)
 
   const [formData, setFormData] = useState({
-    doctorMobile: '',
     patientIdentifier: '',
     reason: '',
     hospitalName: '',
     authMethod: 'OTP' as 'OTP' | 'FINGERPRINT' | 'IRIS',
-    otp: ''
+    otp: '',
+    totpCode: ''
   })
 
+  // Emergency access is requested from the doctor's own signed-in session
+  useEffect(() => {
+    authFetch('/api/auth/session/validate')
+      .then(async (response) => {
+        const data = await response.json()
+        if (response.ok && data.user?.role === 'DOCTOR' && !data.user.sessionId) {
+          setDoctor(data.user)
+        }
+      })
+      .catch(() => setError('Network error. Please try again.'))
+      .finally(() => setCheckingSession(false))
+  }, [])
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     setFormData({
       ...formData,
@@ -30,8 +52,7 @@ export default function DoctorEmergencyPage() {
   }
 
   const generateOTP = async () => {
-    if (!formData.doctorMobile) {
-      setError('Please enter your mobile number first')
+    if (!doctor) {
       return
     }
 
@@ -45,7 +66,7 @@ export default function DoctorEmergencyPage() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          identifier: formData.doctorMobile,
+          identifier: doctor.mobile,
           purpose: 'EMERGENCY_ACCESS'
         }),
       })
@@ -78,18 +99,18 @@ export default function DoctorEmergencyPage() {
       
       // Directly request emergency access after biometric verification
       try {
-        const emergencyResponse = await fetch('/api/emergency/biometric-access', {
+        const emergencyResponse = await authFetch('/api/emergency/biometric-access', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
-            doctorMobile: formData.doctorMobile,
+            totpCode: formData.totpCode,
             patientIdentifier: formData.patientIdentifier,
             reason: formData.reason,
             hospitalName: formData.hospitalName,
             biometricType: type,
-            biometricData: `${type.toLowerCase()}_verified_${Date.now()}`
+            biometricData: `placeholder_${type.toLowerCase()}_data`
           }),
         })
 
@@ -122,13 +143,13 @@ export default function DoctorEmergencyPage() {
     try {
       // For OTP authentication, use the biometric-access API which handles auth + emergency access in one step
       if (formData.authMethod === 'OTP') {
-        const emergencyResponse = await fetch('/api/emergency/biometric-access', {
+        const emergencyResponse = await authFetch('/api/emergency/biometric-access', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
-            doctorMobile: formData.doctorMobile,
+            totpCode: formData.totpCode,
             patientIdentifier: formData.patientIdentifier,
             reason: formData.reason,
             hospitalName: formData.hospitalName,
@@ -151,18 +172,18 @@ export default function DoctorEmergencyPage() {
         }
       } else {
         // For biometric authentication, use the existing flow
-        const emergencyResponse = await fetch('/api/emergency/biometric-access', {
+        const emergencyResponse = await authFetch('/api/emergency/biometric-access', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
-            doctorMobile: formData.doctorMobile,
+            totpCode: formData.totpCode,
             patientIdentifier: formData.patientIdentifier,
             reason: formData.reason,
             hospitalName: formData.hospitalName,
             biometricType: formData.authMethod,
-            biometricData: 'placeholder_biometric_data'
+            biometricData: `placeholder_${formData.authMethod.toLowerCase()}_data`
           }),
         })
 
@@ -236,26 +257,18 @@ export default function DoctorEmergencyPage() {
           </div>
         )}
 
+        {!checkingSession && !doctor && (
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded mb-4">
+            Sign in with your doctor account to request emergency access.{' '}
+            <Link href="/operator/login" className="font-medium underline">Sign in</Link>
+          </div>
+        )}
+
         {/* Step 1: Patient Information */}
-        {step === 1 && (
+        {doctor && step === 1 && (
           <div className="space-y-6">
             <h2 className="text-xl font-semibold text-gray-900 mb-4">Patient Information</h2>
             
-            <div>
-              <label className="block text-sm font-medium text-gray-800 mb-1">
-                Your Mobile Number (Doctor)
-              </label>
-              <input
-                type="tel"
-                name="doctorMobile"
-                value={formData.doctorMobile}
-                onChange={handleInputChange}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500 text-gray-900"
-                placeholder="Enter your mobile number"
-                required
-              />
-            </div>
-
             <div>
               <label className="block text-sm font-medium text-gray-800 mb-1">
                 Patient Identifier (Optional for Biometric Scan)
@@ -309,7 +322,7 @@ export default function DoctorEmergencyPage() {
             <button
               type="button"
               onClick={() => setStep(2)}
-              disabled={!formData.doctorMobile || !formData.reason || formData.reason.length < 10}
+              disabled={!formData.reason || formData.reason.length < 10}
               className="w-full bg-red-600 text-white py-3 px-4 rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Next: Authentication
@@ -366,6 +379,22 @@ export default function DoctorEmergencyPage() {
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-800 mb-1">Authenticator Code</label>
+              <input
+                type="text"
+                name="totpCode"
+                value={formData.totpCode}
+                onChange={handleInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500 text-gray-900"
+                placeholder="Code from your authenticator app"
+                autoComplete="one-time-code"
+              />
+              <p className="text-sm text-gray-800 mt-1">
+                Required for every emergency access request, in addition to the method below.
+              </p>
+            </div>
+
             {formData.authMethod === 'OTP' && (
               <div className="space-y-4">
                 <div>
@@ -395,7 +424,7 @@ export default function DoctorEmergencyPage() {
                 <button
                   type="button"
                   onClick={() => setStep(3)}
-                  disabled={!formData.otp}
+                  disabled={!formData.otp || !formData.totpCode}
                   className="w-full bg-red-600 text-white py-3 px-4 rounded-md hover:bg-red-700 disabled:opacity-50"
                 >
                   Next: Request Access
@@ -408,7 +437,7 @@ export default function DoctorEmergencyPage() {
                 <button
                   type="button"
                   onClick={() => handleBiometricAuth(formData.authMethod as 'FINGERPRINT' | 'IRIS')}
-                  disabled={loading}
+                  disabled={loading || !formData.totpCode}
                   className="w-full bg-red-600 text-white py-3 px-4 rounded-md hover:bg-red-700 disabled:opacity-50"
                 >
                   {loading ? `Scanning ${formData.authMethod.toLowerCase()}...` : `Scan ${formData.authMethod.toLowerCase()}`}
@@ -445,7 +474,7 @@ export default function DoctorEmergencyPage() {
             <div className="bg-gray-50 rounded-md p-4">
               <h3 className="font-medium text-gray-900 mb-3">Request Summary</h3>
               <div className="space-y-2 text-sm">
-                <div className="text-gray-900"><strong>Doctor:</strong> {formData.doctorMobile}</div>
+                <div className="text-gray-900"><strong>Doctor:</strong> {doctor?.name}</div>
                 <div className="text-gray-900"><strong>Patient:</strong> {formData.patientIdentifier}</div>
                 <div className="text-gray-900"><strong>Hospital:</strong> {formData.hospitalName || 'Not specified'}</div>
                 <div className="text-gray-900"><strong>Authentication:</strong> {formData.authMethod}</div>
@@ -90,14 +90,13 @@ export default function DoctorSessionPage() {
       })
 
       if (response.ok) {
-        const blob = await response.blob()
-        const url = window.URL.createObjectURL(blob)
+        // The response is a short-lived signed link to the file itself
+        const { downloadUrl } = await response.json()
         const a = document.createElement('a')
-        a.href = url
+        a.href = downloadUrl
         a.download = filename
         document.body.appendChild(a)
         a.click()
-        window.URL.revokeObjectURL(url)
         document.body.removeChild(a)
       }
     } catch (error) {
@@ -150,6 +149,28 @@ export default function DoctorSessionPage() {
       </div>
 
       <div className="max-w-7xl mx-auto p-6">
+        {/* Break-Glass and Limited Access Notices */}
+        {session?.method === 'BREAK_GLASS' ? (
+          <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 mb-6">
+            <h3 className="text-sm font-medium text-yellow-800">🔨 Break-Glass Access</h3>
+            <p className="text-sm text-yellow-700">
+              This session was opened without patient consent and shows critical information only.
+              It will be reviewed by the hospital and the patient has been notified.
+            </p>
+          </div>
+        ) : session?.accessLevel !== 'FULL' && (
+          <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 mb-6">
+            <h3 className="text-sm font-medium text-yellow-800">🔒 Limited Access</h3>
+            <p className="text-sm text-yellow-700">
+              The patient&apos;s emergency access policy hides
+              {!session?.dataCategories?.includes('TIMELINE') && ' their medical timeline'}
+              {!session?.dataCategories?.includes('TIMELINE') && !session?.dataCategories?.includes('DOCUMENTS') && ' and'}
+              {!session?.dataCategories?.includes('DOCUMENTS') && ' their documents'}
+              {' '}from this session.
+            </p>
+          </div>
+        )}
+
         {/* Patient Overview */}
         <div className="bg-white rounded-lg shadow-md p-6 mb-6">
           <div className="flex items-center space-x-6">
@@ -218,6 +239,21 @@ export default function DoctorSessionPage() {
           </div>
         )}
 
+        {/* Current Medications */}
+        {patient?.medications && (
+          <div className="bg-blue-50 border-l-4 border-blue-400 p-4 mb-6">
+            <div className="flex">
+              <div className="flex-shrink-0">
+                <span className="text-blue-400 text-xl">💊</span>
+              </div>
+              <div className="ml-3">
+                <h3 className="text-sm font-medium text-blue-800">Current Medications</h3>
+                <p className="text-sm text-blue-700">{patient.medications}</p>
+              </div>
+            </div>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Medical Timeline */}
           <div className="lg:col-span-2 bg-white rounded-lg shadow-md p-6">
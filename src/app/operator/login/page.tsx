@@ -4,6 +4,16 @@ import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 
+interface SignInResponse {
+  message?: string
+  token?: string
+  totpRequired?: boolean
+  totpEnrollmentRequired?: boolean
+  challengeToken?: string
+  recoveryCodes?: string[]
+  user?: { role: string }
+}
+
 export default function OperatorLoginPage() {
   const router = useRouter()
   const [loading, setLoading] = useState(false)
@@ -12,6 +22,13 @@ export default function OperatorLoginPage() {
   const [generatedOTP, setGeneratedOTP] = useState('')
   const [authMethod, setAuthMethod] = useState<'OTP' | 'BIOMETRIC'>('OTP')
   const [biometricType, setBiometricType] = useState<'FINGERPRINT' | 'IRIS'>('FINGERPRINT')
+  const [totpChallenge, setTotpChallenge] = useState<{
+    challengeToken: string
+    enrollment?: { secret: string; otpauthUri: string }
+  } | null>(null)
+  const [totpCode, setTotpCode] = useState('')
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([])
+  const [pendingSignIn, setPendingSignIn] = useState<SignInResponse | null>(null)
 
   const [formData, setFormData] = useState({
     identifier: '',
@@ -64,6 +81,85 @@ export default function OperatorLoginPage() {
     }
   }
 
+  // Doctors sign in here too, to request emergency access
+  const finishLogin = (data: SignInResponse) => {
+    setSuccess('Login successful! Redirecting...')
+    localStorage.setItem('authToken', data.token!)
+    setTimeout(() => {
+      router.push(data.user?.role === 'DOCTOR' ? '/doctor/emergency' : '/operator/upload')
+    }, 1000)
+  }
+
+  // Staff with an authenticator app, or whose hospital requires one, finish
+  // signing in with a code from the app
+  const handleSignInResponse = async (data: SignInResponse) => {
+    if (!data.totpRequired) {
+      finishLogin(data)
+      return
+    }
+
+    let enrollment
+    if (data.totpEnrollmentRequired) {
+      const setupResponse = await fetch('/api/auth/totp/setup', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ challengeToken: data.challengeToken }),
+      })
+      const setupData = await setupResponse.json()
+
+      if (!setupResponse.ok) {
+        setError(setupData.error || 'Failed to start authenticator setup')
+        return
+      }
+      enrollment = { secret: setupData.secret, otpauthUri: setupData.otpauthUri }
+    }
+
+    setSuccess(data.message || '')
+    setTotpChallenge({ challengeToken: data.challengeToken!, enrollment })
+  }
+
+  const handleTotpSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!totpChallenge) {
+      return
+    }
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch(totpChallenge.enrollment ? '/api/auth/totp/activate' : '/api/auth/totp/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          challengeToken: totpChallenge.challengeToken,
+          code: totpCode
+        }),
+      })
+
+      const data: SignInResponse & { error?: string } = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Invalid authenticator code')
+      } else if (data.recoveryCodes) {
+        // Recovery codes are only shown once, so wait for the operator to save them
+        setSuccess(data.message || '')
+        setRecoveryCodes(data.recoveryCodes)
+        setPendingSignIn(data)
+      } else {
+        finishLogin(data)
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
   const handleBiometricLogin = async (type: 'FINGERPRINT' | 'IRIS') => {
     if (!formData.identifier) {
       setError('Please enter your mobile number or email first')
@@ -85,18 +181,14 @@ export default function OperatorLoginPage() {
           body: JSON.stringify({
             identifier: formData.identifier,
             biometricType: type,
-            biometricData: 'placeholder_biometric_data'
+            biometricData: `placeholder_${type.toLowerCase()}_data`
           }),
         })
 
         const data = await response.json()
 
         if (response.ok) {
-          setSuccess('Login successful! Redirecting...')
-          localStorage.setItem('authToken', data.token)
-          setTimeout(() => {
-            router.push('/operator/upload')
-          }, 1000)
+          await handleSignInResponse(data)
         } else {
           setError(data.error || 'Biometric authentication failed')
         }
@@ -129,11 +221,7 @@ export default function OperatorLoginPage() {
       const data = await response.json()
 
       if (response.ok) {
-        setSuccess('Login successful! Redirecting...')
-        localStorage.setItem('authToken', data.token)
-        setTimeout(() => {
-          router.push('/operator/upload')
-        }, 1000)
+        await handleSignInResponse(data)
       } else {
         setError(data.error || 'Login failed')
       }
@@ -171,133 +259,199 @@ export default function OperatorLoginPage() {
           </div>
         )}
 
-        {/* Authentication Method Selection */}
-        <div className="mb-6">
-          <label className="block text-sm font-medium text-gray-700 mb-3">Choose Authentication Method</label>
-          <div className="grid grid-cols-2 gap-3">
-            <button
-              type="button"
-              onClick={() => setAuthMethod('OTP')}
-              className={`p-3 rounded-lg border-2 text-center ${
-                authMethod === 'OTP'
-                  ? 'border-green-500 bg-green-50 text-green-700'
-                  : 'border-gray-200 text-gray-600 hover:border-gray-300'
-              }`}
-            >
-              <div className="text-2xl mb-1">📱</div>
-              <div className="text-sm font-medium">OTP</div>
-            </button>
-            <button
-              type="button"
-              onClick={() => setAuthMethod('BIOMETRIC')}
-              className={`p-3 rounded-lg border-2 text-center ${
-                authMethod === 'BIOMETRIC'
-                  ? 'border-green-500 bg-green-50 text-green-700'
-                  : 'border-gray-200 text-gray-600 hover:border-gray-300'
-              }`}
-            >
-              <div className="text-2xl mb-1">👆</div>
-              <div className="text-sm font-medium">Biometric</div>
-            </button>
-          </div>
-        </div>
-
-        {/* User Identifier Input */}
-        <div className="mb-6">
-          <label className="block text-sm font-medium text-gray-700 mb-1">
-            Mobile Number or Email
-          </label>
-          <input
-            type="text"
-            name="identifier"
-            value={formData.identifier}
-            onChange={handleInputChange}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
-            placeholder="Enter mobile number or email"
-            required
-          />
-        </div>
-
-        {/* OTP Authentication */}
-        {authMethod === 'OTP' && (
-          <form onSubmit={handleOTPLogin} className="space-y-4">
-            <div>
-              <button
-                type="button"
-                onClick={generateOTP}
-                disabled={loading || !formData.identifier}
-                className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 disabled:opacity-50"
-              >
-                {loading ? 'Generating...' : 'Generate OTP'}
-              </button>
-            </div>
+        {/* Authenticator App Step */}
+        {totpChallenge && recoveryCodes.length === 0 && (
+          <form onSubmit={handleTotpSubmit} className="space-y-4 mb-6">
+            {totpChallenge.enrollment && (
+              <div className="bg-gray-50 border border-gray-200 rounded-md p-4 text-sm text-gray-700">
+                <p className="mb-2">
+                  Add this account to your authenticator app by{' '}
+                  <a href={totpChallenge.enrollment.otpauthUri} className="text-green-700 underline">opening this link</a>{' '}
+                  on your phone, or enter the key manually:
+                </p>
+                <p className="font-mono break-all">{totpChallenge.enrollment.secret}</p>
+              </div>
+            )}
 
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Enter OTP</label>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Authenticator Code</label>
               <input
                 type="text"
-                name="otp"
-                value={formData.otp}
-                onChange={handleInputChange}
+                value={totpCode}
+                onChange={(e) => {
+                  setTotpCode(e.target.value)
+                  setError('')
+                }}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
-                placeholder="Enter 6-digit OTP"
-                maxLength={6}
+                placeholder={totpChallenge.enrollment ? 'Enter 6-digit code' : 'Enter 6-digit code or recovery code'}
+                autoComplete="one-time-code"
                 required
               />
             </div>
 
             <button
               type="submit"
-              disabled={loading || !formData.otp}
+              disabled={loading || !totpCode}
               className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 disabled:opacity-50"
             >
-              {loading ? 'Logging in...' : 'Login with OTP'}
+              {loading ? 'Verifying...' : totpChallenge.enrollment ? 'Confirm and Login' : 'Verify Code'}
             </button>
           </form>
         )}
 
-        {/* Biometric Authentication */}
-        {authMethod === 'BIOMETRIC' && (
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-3">Select Biometric Type</label>
+        {recoveryCodes.length > 0 && (
+          <div className="mb-6 space-y-4">
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+              <h3 className="font-medium text-yellow-800 mb-2">Recovery Codes</h3>
+              <p className="text-sm text-yellow-700 mb-3">
+                Each code signs you in once if you lose your phone. They will not be shown again.
+              </p>
+              <div className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-800">
+                {recoveryCodes.map(code => <span key={code}>{code}</span>)}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => finishLogin(pendingSignIn!)}
+              className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700"
+            >
+              I have saved my recovery codes
+            </button>
+          </div>
+        )}
+
+        {!totpChallenge && (
+          <>
+            {/* Authentication Method Selection */}
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-3">Choose Authentication Method</label>
               <div className="grid grid-cols-2 gap-3">
                 <button
                   type="button"
-                  onClick={() => setBiometricType('FINGERPRINT')}
-                  className={`p-4 rounded-lg border-2 text-center ${
-                    biometricType === 'FINGERPRINT'
+                  onClick={() => setAuthMethod('OTP')}
+                  className={`p-3 rounded-lg border-2 text-center ${
+                    authMethod === 'OTP'
                       ? 'border-green-500 bg-green-50 text-green-700'
                       : 'border-gray-200 text-gray-600 hover:border-gray-300'
                   }`}
                 >
-                  <div className="text-3xl mb-2">👆</div>
-                  <div className="text-sm font-medium">Fingerprint</div>
+                  <div className="text-2xl mb-1">📱</div>
+                  <div className="text-sm font-medium">OTP</div>
                 </button>
                 <button
                   type="button"
-                  onClick={() => setBiometricType('IRIS')}
-                  className={`p-4 rounded-lg border-2 text-center ${
-                    biometricType === 'IRIS'
+                  onClick={() => setAuthMethod('BIOMETRIC')}
+                  className={`p-3 rounded-lg border-2 text-center ${
+                    authMethod === 'BIOMETRIC'
                       ? 'border-green-500 bg-green-50 text-green-700'
                       : 'border-gray-200 text-gray-600 hover:border-gray-300'
                   }`}
                 >
-                  <div className="text-3xl mb-2">👁️</div>
-                  <div className="text-sm font-medium">Iris</div>
+                  <div className="text-2xl mb-1">👆</div>
+                  <div className="text-sm font-medium">Biometric</div>
                 </button>
               </div>
             </div>
 
-            <button
-              type="button"
-              onClick={() => handleBiometricLogin(biometricType)}
-              disabled={loading || !formData.identifier}
-              className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 disabled:opacity-50"
-            >
-              {loading ? `Scanning ${biometricType.toLowerCase()}...` : `Login with ${biometricType.toLowerCase()}`}
-            </button>
-          </div>
+            {/* User Identifier Input */}
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Mobile Number or Email
+              </label>
+              <input
+                type="text"
+                name="identifier"
+                value={formData.identifier}
+                onChange={handleInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                placeholder="Enter mobile number or email"
+                required
+              />
+            </div>
+
+            {/* OTP Authentication */}
+            {authMethod === 'OTP' && (
+              <form onSubmit={handleOTPLogin} className="space-y-4">
+                <div>
+                  <button
+                    type="button"
+                    onClick={generateOTP}
+                    disabled={loading || !formData.identifier}
+                    className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 disabled:opacity-50"
+                  >
+                    {loading ? 'Generating...' : 'Generate OTP'}
+                  </button>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Enter OTP</label>
+                  <input
+                    type="text"
+                    name="otp"
+                    value={formData.otp}
+                    onChange={handleInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                    placeholder="Enter 6-digit OTP"
+                    maxLength={6}
+                    required
+                  />
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={loading || !formData.otp}
+                  className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 disabled:opacity-50"
+                >
+                  {loading ? 'Logging in...' : 'Login with OTP'}
+                </button>
+              </form>
+            )}
+
+            {/* Biometric Authentication */}
+            {authMethod === 'BIOMETRIC' && (
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-3">Select Biometric Type</label>
+                  <div className="grid grid-cols-2 gap-3">
+                    <button
+                      type="button"
+                      onClick={() => setBiometricType('FINGERPRINT')}
+                      className={`p-4 rounded-lg border-2 text-center ${
+                        biometricType === 'FINGERPRINT'
+                          ? 'border-green-500 bg-green-50 text-green-700'
+                          : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                      }`}
+                    >
+                      <div className="text-3xl mb-2">👆</div>
+                      <div className="text-sm font-medium">Fingerprint</div>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setBiometricType('IRIS')}
+                      className={`p-4 rounded-lg border-2 text-center ${
+                        biometricType === 'IRIS'
+                          ? 'border-green-500 bg-green-50 text-green-700'
+                          : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                      }`}
+                    >
+                      <div className="text-3xl mb-2">👁️</div>
+                      <div className="text-sm font-medium">Iris</div>
+                    </button>
+                  </div>
+                </div>
+
+                <button
+                  type="button"
+                  onClick={() => handleBiometricLogin(biometricType)}
+                  disabled={loading || !formData.identifier}
+                  className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 disabled:opacity-50"
+                >
+                  {loading ? `Scanning ${biometricType.toLowerCase()}...` : `Login with ${biometricType.toLowerCase()}`}
+                </button>
+              </div>
+            )}
+
+          </>
         )}
 
         <div className="mt-8 bg-blue-50 border border-blue-200 rounded-md p-4">
@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { authFetch } from '@/lib/utils/auth-fetch'
+import { FileUploadTracker, MAX_RESUMABLE_FILE_SIZE, formatFileSize, isAllowedFileType, uploadFileInChunks } from '@/lib/utils/file-utils'
 
 interface PatientInfo {
   id: string
@@ -19,6 +21,7 @@ export default function OperatorUploadPage() {
   const [success, setSuccess] = useState('')
   const [patientInfo, setPatientInfo] = useState<PatientInfo | null>(null)
   const [files, setFiles] = useState<FileList | null>(null)
+  const [uploadProgress, setUploadProgress] = useState('')
   const [encounterData, setEncounterData] = useState({
     type: 'PRESCRIPTION',
     reason_diagnosis: '',
@@ -95,6 +98,12 @@ export default function OperatorUploadPage() {
       return
     }
 
+    const unsupported = Array.from(files).find(file => !isAllowedFileType(file.type) || file.size > MAX_RESUMABLE_FILE_SIZE)
+    if (unsupported) {
+      setError(`${unsupported.name} is not a PDF, JPG or PNG up to ${formatFileSize(MAX_RESUMABLE_FILE_SIZE)}`)
+      return
+    }
+
     setLoading(true)
     setError('')
 
@@ -111,15 +120,11 @@ export default function OperatorUploadPage() {
       formData.append('blood_group', encounterData.blood_group)
       formData.append('recent_surgery', encounterData.recent_surgery)
       
-      // Add files
-      for (let i = 0; i < files.length; i++) {
-        formData.append('files', files[i])
-      }
-
+      // Files are sent separately once the encounter exists, in resumable chunks
       const token = localStorage.getItem('authToken')
       console.log('🎫 Using token for upload:', token ? token.substring(0, 50) + '...' : 'Missing')
       
-      const response = await fetch('/api/operator/upload', {
+      const response = await authFetch('/api/operator/upload', {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${token}`
@@ -131,6 +136,21 @@ export default function OperatorUploadPage() {
       console.log('📤 Upload response:', response.status, data)
 
       if (response.ok) {
+        for (let i = 0; i < files.length; i++) {
+          const file = files[i]
+          const tracker = new FileUploadTracker(file.name)
+          tracker.onProgress(progress => {
+            setUploadProgress(`Uploading ${file.name} (${i + 1} of ${files.length}): ${Math.round(progress)}%`)
+          })
+
+          try {
+            await uploadFileInChunks(file, data.encounter_id, tracker)
+          } catch (uploadError) {
+            setError(`Record created, but ${file.name} failed to upload: ${tracker.getStatus().error || String(uploadError)}`)
+            return
+          }
+        }
+
         setSuccess(`Successfully uploaded ${files.length} document(s) for ${patientInfo.name}`)
         // Reset form
         setEncounterData({
@@ -153,6 +173,7 @@ export default function OperatorUploadPage() {
       setError('Network error. Please try again.')
     } finally {
       setLoading(false)
+      setUploadProgress('')
     }
   }
 
@@ -428,12 +449,15 @@ export default function OperatorUploadPage() {
                 onChange={handleFileChange}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 text-gray-900"
                 multiple
-                accept=".pdf,.jpg,.jpeg,.png,.doc,.docx"
+                accept=".pdf,.jpg,.jpeg,.png"
                 required
               />
               <p className="text-sm text-gray-700 mt-1">
-                Supported formats: PDF, JPG, PNG, DOC, DOCX. You can select multiple files.
+                Supported formats: PDF, JPG, PNG, up to {formatFileSize(MAX_RESUMABLE_FILE_SIZE)} each. You can select multiple files.
               </p>
+              {uploadProgress && (
+                <p className="text-sm text-green-700 mt-2">{uploadProgress}</p>
+              )}
             </div>
 
             {/* Submit Button */}
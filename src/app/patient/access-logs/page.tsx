@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { authFetch } from '@/lib/utils/auth-fetch'
 
 export default function AccessLogsPage() {
   const router = useRouter()
@@ -19,7 +20,7 @@ export default function AccessLogsPage() {
 
   const fetchAccessLogs = async () => {
     try {
-      const response = await fetch(`/api/user/audit-logs?filter=${filter}`, {
+      const response = await authFetch(`/api/user/audit-logs?filter=${filter}`, {
         headers: {
           'Authorization': `Bearer ${localStorage.getItem('authToken')}`
         }
@@ -40,7 +41,7 @@ export default function AccessLogsPage() {
 
   const fetchStats = async () => {
     try {
-      const response = await fetch('/api/user/audit-logs/stats', {
+      const response = await authFetch('/api/user/audit-logs/stats', {
         headers: {
           'Authorization': `Bearer ${localStorage.getItem('authToken')}`
         }
@@ -58,7 +59,7 @@ export default function AccessLogsPage() {
   const exportLogs = async () => {
     try {
       setExporting(true)
-      const response = await fetch('/api/audit/export', {
+      const response = await authFetch('/api/audit/export', {
         headers: {
           'Authorization': `Bearer ${localStorage.getItem('authToken')}`
         }
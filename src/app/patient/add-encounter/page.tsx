@@ -3,6 +3,7 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { authFetch } from '@/lib/utils/auth-fetch'
 
 export default function AddEncounterPage() {
   const router = useRouter()
@@ -60,7 +61,7 @@ export default function AddEncounterPage() {
         formDataToSend.append(`document_${index}`, file)
       })
 
-      const response = await fetch('/api/patient/encounters', {
+      const response = await authFetch('/api/patient/encounters', {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${localStorage.getItem('authToken')}`
@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { authFetch } from '@/lib/utils/auth-fetch'
 
 interface User {
   id: string
@@ -20,6 +21,7 @@ interface User {
 interface CriticalInfo {
   allergies: string
   chronicConditions: string
+  medications: string
   bloodGroup: string
   recentSurgery: string
 }
@@ -72,7 +74,7 @@ export default function PatientDashboard() {
   const fetchDashboardData = async (token: string) => {
     try {
       // Fetch user profile
-      const profileResponse = await fetch('/api/user/profile', {
+      const profileResponse = await authFetch('/api/user/profile', {
         headers: {
           'Authorization': `Bearer ${token}`
         }
@@ -84,7 +86,7 @@ export default function PatientDashboard() {
       }
 
       // Fetch critical medical info
-      const criticalResponse = await fetch('/api/patient/critical-info', {
+      const criticalResponse = await authFetch('/api/patient/critical-info', {
         headers: {
           'Authorization': `Bearer ${token}`
         }
@@ -96,7 +98,7 @@ export default function PatientDashboard() {
       }
 
       // Fetch recent encounters (5 for preview)
-      const encountersResponse = await fetch('/api/encounters?limit=5', {
+      const encountersResponse = await authFetch('/api/encounters?limit=5', {
         headers: {
           'Authorization': `Bearer ${token}`
         }
@@ -108,7 +110,7 @@ export default function PatientDashboard() {
       }
 
       // Fetch all encounters for full timeline
-      const allEncountersResponse = await fetch('/api/encounters', {
+      const allEncountersResponse = await authFetch('/api/encounters', {
         headers: {
           'Authorization': `Bearer ${token}`
         }
@@ -120,7 +122,7 @@ export default function PatientDashboard() {
       }
 
       // Fetch documents
-      const documentsResponse = await fetch('/api/patient/documents', {
+      const documentsResponse = await authFetch('/api/patient/documents', {
         headers: {
           'Authorization': `Bearer ${token}`
         }
@@ -146,21 +148,20 @@ export default function PatientDashboard() {
   const downloadDocument = async (documentId: string, filename: string) => {
     try {
       const token = localStorage.getItem('authToken')
-      const response = await fetch(`/api/documents/${documentId}`, {
+      const response = await authFetch(`/api/documents/${documentId}`, {
         headers: {
           'Authorization': `Bearer ${token}`
         }
       })
 
       if (response.ok) {
-        const blob = await response.blob()
-        const url = window.URL.createObjectURL(blob)
+        // The response is a short-lived signed link to the file itself
+        const { downloadUrl } = await response.json()
         const a = document.createElement('a')
-        a.href = url
+        a.href = downloadUrl
         a.download = filename
         document.body.appendChild(a)
         a.click()
-        window.URL.revokeObjectURL(url)
         document.body.removeChild(a)
       } else {
         console.error('Download failed:', response.status)
@@ -179,7 +180,7 @@ export default function PatientDashboard() {
 
     try {
       const token = localStorage.getItem('authToken')
-      const response = await fetch(`/api/documents/${documentId}`, {
+      const response = await authFetch(`/api/documents/${documentId}`, {
         method: 'DELETE',
         headers: {
           'Authorization': `Bearer ${token}`
@@ -206,7 +207,7 @@ export default function PatientDashboard() {
 
     try {
       const token = localStorage.getItem('authToken')
-      const response = await fetch(`/api/patient/encounters?id=${encounterId}`, {
+      const response = await authFetch(`/api/patient/encounters?id=${encounterId}`, {
         method: 'DELETE',
         headers: {
           'Authorization': `Bearer ${token}`
@@ -339,7 +340,7 @@ export default function PatientDashboard() {
         {criticalInfo && (
           <div className="bg-white rounded-lg shadow p-6 mb-8">
             <h2 className="text-xl font-semibold text-gray-900 mb-4">Critical Medical Information</h2>
-            <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="grid md:grid-cols-2 lg:grid-cols-5 gap-4">
               <div className="bg-red-50 p-4 rounded-lg border border-red-200">
                 <p className="text-sm text-red-700 font-medium">Allergies</p>
                 <p className="text-red-900 font-semibold">{criticalInfo.allergies || 'None recorded'}</p>
@@ -348,6 +349,10 @@ export default function PatientDashboard() {
                 <p className="text-sm text-yellow-700 font-medium">Chronic Conditions</p>
                 <p className="text-yellow-900 font-semibold">{criticalInfo.chronicConditions || 'None recorded'}</p>
               </div>
+              <div className="bg-green-50 p-4 rounded-lg border border-green-200">
+                <p className="text-sm text-green-700 font-medium">Current Medications</p>
+                <p className="text-green-900 font-semibold">{criticalInfo.medications || 'None recorded'}</p>
+              </div>
               <div className="bg-blue-50 p-4 rounded-lg border border-blue-200">
                 <p className="text-sm text-blue-700 font-medium">Blood Group</p>
                 <p className="text-blue-900 font-semibold">{criticalInfo.bloodGroup || 'Not recorded'}</p>
@@ -3,6 +3,7 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { getPasskeyAssertion, isWebAuthnAvailable, PasskeyRequestOptions } from '@/lib/utils/webauthn-client'
 
 export default function PatientLoginPage() {
   const router = useRouter()
@@ -52,11 +53,14 @@ export default function PatientLoginPage() {
       if (response.ok) {
         let successMessage = data.message
         
-        // Add SMS status information
+        // Add delivery status information
+        const channelName = data.channel === 'EMAIL' ? 'Email' : 'SMS'
         if (data.smsStatus === 'sent') {
-          successMessage += ' 📱 SMS delivered successfully!'
+          successMessage += data.channel === 'EMAIL' ? ' 📧 Email sent - check your inbox!' : ' 📱 SMS delivered successfully!'
         } else if (data.smsStatus === 'failed') {
-          successMessage += ' ⚠️ SMS delivery failed, but OTP is still valid.'
+          successMessage += ` ⚠️ ${channelName} delivery failed, but OTP is still valid.`
+        } else if (data.smsStatus === 'queued') {
+          successMessage += ` ⏳ ${channelName} is delayed and will be retried.`
         } else if (!data.smsEnabled) {
           successMessage += ' (Development mode - SMS disabled)'
         }
@@ -86,6 +90,22 @@ export default function PatientLoginPage() {
     setError('')
     setSuccess(`Scanning ${type.toLowerCase()}...`)
 
+    if (type === 'FINGERPRINT' && await isWebAuthnAvailable()) {
+      const optionsResponse = await fetch('/api/auth/biometric/options', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ identifier: formData.identifier }),
+      })
+
+      // Accounts without a passkey fall through to the simulated scan
+      if (optionsResponse.ok) {
+        await handlePasskeyLogin((await optionsResponse.json()).options)
+        return
+      }
+    }
+
     // Simulate biometric scanning
     setTimeout(async () => {
       try {
@@ -97,7 +117,7 @@ export default function PatientLoginPage() {
           body: JSON.stringify({
             identifier: formData.identifier,
             biometricType: type,
-            biometricData: 'placeholder_biometric_data'
+            biometricData: `placeholder_${type.toLowerCase()}_data`
           }),
         })
 
@@ -120,6 +140,41 @@ export default function PatientLoginPage() {
     }, 2000)
   }
 
+  const handlePasskeyLogin = async (options: PasskeyRequestOptions) => {
+    try {
+      const credential = await getPasskeyAssertion(options)
+
+      const response = await fetch('/api/auth/biometric/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          identifier: formData.identifier,
+          biometricType: 'FINGERPRINT',
+          credential
+        }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setSuccess('Login successful! Redirecting...')
+        localStorage.setItem('authToken', data.token)
+        setTimeout(() => {
+          router.push('/patient/dashboard')
+        }, 1000)
+      } else {
+        setError(data.error || 'Passkey authentication failed')
+      }
+    } catch {
+      setSuccess('')
+      setError('Fingerprint check was cancelled or failed. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
   const handleOTPLogin = async (e: React.FormEvent) => {
     e.preventDefault()
     setLoading(true)
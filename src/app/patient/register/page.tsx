@@ -74,6 +74,8 @@ export default function PatientRegisterPage() {
           successMessage += ' 📱 SMS delivered successfully!'
         } else if (data.smsStatus === 'failed') {
           successMessage += ' ⚠️ SMS delivery failed, but OTP is still valid.'
+        } else if (data.smsStatus === 'queued') {
+          successMessage += ' ⏳ SMS is delayed and will be retried.'
         } else if (!data.smsEnabled) {
           successMessage += ' (Development mode - SMS disabled)'
         }
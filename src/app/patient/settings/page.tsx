@@ -3,6 +3,17 @@
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { authFetch } from '@/lib/utils/auth-fetch'
+import type { Passkey } from '@/lib/auth/webauthn-service'
+import { createPasskey, isWebAuthnAvailable } from '@/lib/utils/webauthn-client'
+
+interface SignedInDevice {
+  id: string
+  deviceName: string
+  ipAddress: string | null
+  lastSeenAt: string
+  current: boolean
+}
 
 export default function PatientSettingsPage() {
   const router = useRouter()
@@ -18,13 +29,35 @@ export default function PatientSettingsPage() {
     profilePhoto: null as File | null
   })
 
+  const [policyLoading, setPolicyLoading] = useState(false)
+  const [policy, setPolicy] = useState({
+    allowedMethods: ['OTP', 'FINGERPRINT', 'IRIS'] as string[],
+    dataCategories: ['CRITICAL_INFO', 'TIMELINE', 'DOCUMENTS'] as string[],
+    maxSessionMinutes: 10,
+    trustedHospitals: ''
+  })
+
+  const [notificationChannel, setNotificationChannel] = useState('SMS')
+  const [channelLoading, setChannelLoading] = useState(false)
+
+  const [sessions, setSessions] = useState<SignedInDevice[]>([])
+  const [revokingSessionId, setRevokingSessionId] = useState<string | null>(null)
+
+  const [passkeys, setPasskeys] = useState<Passkey[]>([])
+  const [passkeySupported, setPasskeySupported] = useState(false)
+  const [passkeyLoading, setPasskeyLoading] = useState(false)
+
   useEffect(() => {
     fetchUserProfile()
+    fetchEmergencyPolicy()
+    fetchSessions()
+    fetchPasskeys()
+    isWebAuthnAvailable().then(setPasskeySupported)
   }, [])
 
   const fetchUserProfile = async () => {
     try {
-      const response = await fetch('/api/user/profile', {
+      const response = await authFetch('/api/user/profile', {
         headers: {
           'Authorization': `Bearer ${localStorage.getItem('authToken')}`
         }
@@ -39,6 +72,7 @@ export default function PatientSettingsPage() {
           emergencyContact: data.user.profile?.emergencyContact || '',
           profilePhoto: null
         })
+        setNotificationChannel(data.user.notificationChannel || 'SMS')
       } else {
         router.push('/patient/login')
       }
@@ -48,6 +82,251 @@ export default function PatientSettingsPage() {
     }
   }
 
+  const fetchEmergencyPolicy = async () => {
+    try {
+      const response = await authFetch('/api/patient/emergency-policy', {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('authToken')}`
+        }
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        setPolicy({
+          allowedMethods: data.policy.allowedMethods,
+          dataCategories: data.policy.dataCategories,
+          maxSessionMinutes: data.policy.maxSessionMinutes,
+          trustedHospitals: data.policy.trustedHospitals.join(', ')
+        })
+      }
+    } catch (error) {
+      console.error('Failed to fetch emergency policy:', error)
+    }
+  }
+
+  const handleNotificationChannelChange = async (channel: string) => {
+    setChannelLoading(true)
+    setError('')
+    setSuccess('')
+
+    try {
+      const response = await authFetch('/api/user/profile', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('authToken')}`
+        },
+        body: JSON.stringify({ notificationChannel: channel })
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setNotificationChannel(data.notificationChannel)
+        setSuccess(data.message)
+      } else {
+        setError(data.error || 'Failed to update notification preference')
+      }
+    } catch (error) {
+      console.error('Notification channel update error:', error)
+      setError('Network error. Please try again.')
+    } finally {
+      setChannelLoading(false)
+    }
+  }
+
+  const fetchSessions = async () => {
+    try {
+      const response = await authFetch('/api/auth/sessions', {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('authToken')}`
+        }
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        setSessions(data.sessions)
+      }
+    } catch (error) {
+      console.error('Failed to fetch sessions:', error)
+    }
+  }
+
+  const handleRevokeSession = async (sessionId: string) => {
+    setRevokingSessionId(sessionId)
+    setError('')
+    setSuccess('')
+
+    try {
+      const response = await authFetch(`/api/auth/sessions/${sessionId}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('authToken')}`
+        }
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setSuccess('Signed out of the device successfully!')
+        fetchSessions()
+      } else {
+        setError(data.error || 'Failed to sign out of the device')
+      }
+    } catch (error) {
+      console.error('Session revocation error:', error)
+      setError('Network error. Please try again.')
+    } finally {
+      setRevokingSessionId(null)
+    }
+  }
+
+  const fetchPasskeys = async () => {
+    try {
+      const response = await authFetch('/api/user/biometrics', {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('authToken')}`
+        }
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        setPasskeys(data.biometrics.passkeys)
+      }
+    } catch (error) {
+      console.error('Failed to fetch passkeys:', error)
+    }
+  }
+
+  const handleAddPasskey = async () => {
+    setPasskeyLoading(true)
+    setError('')
+    setSuccess('')
+
+    try {
+      const optionsResponse = await authFetch('/api/user/biometrics/passkeys/options', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('authToken')}`
+        }
+      })
+
+      const optionsData = await optionsResponse.json()
+
+      if (!optionsResponse.ok) {
+        setError(optionsData.error || 'Failed to start passkey registration')
+        return
+      }
+
+      let credential
+      try {
+        credential = await createPasskey(optionsData.options)
+      } catch {
+        setError('Fingerprint registration was cancelled or failed. Please try again.')
+        return
+      }
+
+      const response = await authFetch('/api/user/biometrics', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('authToken')}`
+        },
+        body: JSON.stringify({
+          credential,
+          deviceName: navigator.platform || undefined
+        })
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setSuccess('Fingerprint sign-in set up on this device!')
+        fetchPasskeys()
+      } else {
+        setError(data.error || 'Failed to register passkey')
+      }
+    } catch (error) {
+      console.error('Passkey registration error:', error)
+      setError('Network error. Please try again.')
+    } finally {
+      setPasskeyLoading(false)
+    }
+  }
+
+  const handleRemovePasskey = async (credentialId: string) => {
+    setError('')
+    setSuccess('')
+
+    try {
+      const response = await authFetch(`/api/user/biometrics/passkeys/${credentialId}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('authToken')}`
+        }
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setSuccess('Passkey removed successfully!')
+        fetchPasskeys()
+      } else {
+        setError(data.error || 'Failed to remove passkey')
+      }
+    } catch (error) {
+      console.error('Passkey removal error:', error)
+      setError('Network error. Please try again.')
+    }
+  }
+
+  const togglePolicyValue = (field: 'allowedMethods' | 'dataCategories', value: string) => {
+    setPolicy(prev => ({
+      ...prev,
+      [field]: prev[field].includes(value)
+        ? prev[field].filter(item => item !== value)
+        : [...prev[field], value]
+    }))
+    setError('')
+  }
+
+  const handlePolicySubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setPolicyLoading(true)
+    setError('')
+    setSuccess('')
+
+    try {
+      const response = await authFetch('/api/patient/emergency-policy', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('authToken')}`
+        },
+        body: JSON.stringify({
+          allowedMethods: policy.allowedMethods,
+          dataCategories: policy.dataCategories,
+          maxSessionMinutes: Number(policy.maxSessionMinutes),
+          trustedHospitals: policy.trustedHospitals.split(',').map(hospital => hospital.trim()).filter(Boolean)
+        })
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setSuccess('Emergency access policy updated successfully!')
+        fetchEmergencyPolicy()
+      } else {
+        setError(data.error || 'Failed to update emergency access policy')
+      }
+    } catch (error) {
+      console.error('Emergency policy update error:', error)
+      setError('Network error. Please try again.')
+    } finally {
+      setPolicyLoading(false)
+    }
+  }
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.type === 'file') {
       const file = e.target.files?.[0] || null
@@ -82,7 +361,7 @@ export default function PatientSettingsPage() {
       }
 
       console.log('Sending update request...')
-      const response = await fetch('/api/user/profile', {
+      const response = await authFetch('/api/user/profile', {
         method: 'PUT',
         headers: {
           'Authorization': `Bearer ${localStorage.getItem('authToken')}`
@@ -112,7 +391,18 @@ export default function PatientSettingsPage() {
     }
   }
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    try {
+      await authFetch('/api/auth/logout', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('authToken')}`
+        }
+      })
+    } catch (error) {
+      console.error('Logout error:', error)
+    }
+
     localStorage.removeItem('authToken')
     router.push('/patient/login')
   }
@@ -242,6 +532,204 @@ export default function PatientSettingsPage() {
             </button>
           </div>
         </form>
+
+        <div className="space-y-4 mt-10 pt-8 border-t border-gray-200">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">🔔 Notifications</h2>
+            <p className="text-sm text-gray-700 mt-1">
+              Choose where we send your sign-in codes and security alerts, such as emergency access to your record or a sign-in from a new device.
+            </p>
+          </div>
+
+          <div className="flex gap-6">
+            {[['SMS', `📱 SMS to ${user?.mobile}`], ['EMAIL', `📧 Email to ${user?.email}`]].map(([channel, label]) => (
+              <label key={channel} className="flex items-center gap-2 text-sm text-gray-900">
+                <input
+                  type="radio"
+                  name="notificationChannel"
+                  value={channel}
+                  checked={notificationChannel === channel}
+                  disabled={channelLoading}
+                  onChange={() => handleNotificationChannelChange(channel)}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-4 mt-10 pt-8 border-t border-gray-200">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">💻 Signed-in Devices</h2>
+            <p className="text-sm text-gray-700 mt-1">
+              Devices currently signed in to your account. Sign out any device you don&apos;t recognise.
+            </p>
+          </div>
+
+          {sessions.length === 0 ? (
+            <p className="text-sm text-gray-600">No active sessions found.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+              {sessions.map(session => (
+                <li key={session.id} className="flex items-center justify-between p-4">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {session.deviceName}
+                      {session.current && (
+                        <span className="ml-2 text-xs bg-green-100 text-green-800 px-2 py-0.5 rounded-full">This device</span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {session.ipAddress || 'Unknown IP'} · Last active {new Date(session.lastSeenAt).toLocaleString()}
+                    </p>
+                  </div>
+                  {!session.current && (
+                    <button
+                      type="button"
+                      onClick={() => handleRevokeSession(session.id)}
+                      disabled={revokingSessionId === session.id}
+                      className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                    >
+                      {revokingSessionId === session.id ? 'Signing out...' : 'Sign out'}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="space-y-4 mt-10 pt-8 border-t border-gray-200">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">👆 Fingerprint Sign-in</h2>
+            <p className="text-sm text-gray-700 mt-1">
+              Sign in with your device&apos;s fingerprint sensor or screen lock. Your fingerprint never leaves the device.
+            </p>
+          </div>
+
+          {passkeys.length === 0 ? (
+            <p className="text-sm text-gray-600">No devices set up yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+              {passkeys.map(passkey => (
+                <li key={passkey.id} className="flex items-center justify-between p-4">
+                  <div>
+                    <p className="font-medium text-gray-900">{passkey.deviceName}</p>
+                    <p className="text-sm text-gray-600">
+                      Added {new Date(passkey.createdAt).toLocaleDateString()}
+                      {passkey.lastUsedAt && ` · Last used ${new Date(passkey.lastUsedAt).toLocaleString()}`}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleRemovePasskey(passkey.id)}
+                    className="text-sm text-red-600 hover:text-red-800"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {passkeySupported ? (
+            <button
+              type="button"
+              onClick={handleAddPasskey}
+              disabled={passkeyLoading}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {passkeyLoading ? 'Waiting for fingerprint...' : 'Set up on this device'}
+            </button>
+          ) : (
+            <p className="text-sm text-gray-600">This device doesn&apos;t have a fingerprint sensor or screen lock we can use.</p>
+          )}
+        </div>
+
+        <form onSubmit={handlePolicySubmit} className="space-y-6 mt-10 pt-8 border-t border-gray-200">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">🚨 Emergency Access Policy</h2>
+            <p className="text-sm text-gray-700 mt-1">
+              Control how doctors can unlock your record in an emergency. Critical information
+              (blood group, allergies, conditions and medications) is always shared.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-800 mb-2">Allowed Unlock Methods</label>
+            <div className="flex flex-wrap gap-4">
+              {[
+                { value: 'OTP', label: '📱 OTP' },
+                { value: 'FINGERPRINT', label: '👆 Fingerprint' },
+                { value: 'IRIS', label: '👁️ Iris' }
+              ].map(method => (
+                <label key={method.value} className="flex items-center space-x-2 text-sm text-gray-900">
+                  <input
+                    type="checkbox"
+                    checked={policy.allowedMethods.includes(method.value)}
+                    onChange={() => togglePolicyValue('allowedMethods', method.value)}
+                  />
+                  <span>{method.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-800 mb-2">Doctors Can See</label>
+            <div className="flex flex-wrap gap-4">
+              <label className="flex items-center space-x-2 text-sm text-gray-500">
+                <input type="checkbox" checked disabled />
+                <span>Critical information</span>
+              </label>
+              {[
+                { value: 'TIMELINE', label: 'Medical timeline' },
+                { value: 'DOCUMENTS', label: 'Documents' }
+              ].map(category => (
+                <label key={category.value} className="flex items-center space-x-2 text-sm text-gray-900">
+                  <input
+                    type="checkbox"
+                    checked={policy.dataCategories.includes(category.value)}
+                    onChange={() => togglePolicyValue('dataCategories', category.value)}
+                  />
+                  <span>{category.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-800 mb-1">Maximum Session Length (minutes)</label>
+            <input
+              type="number"
+              min={5}
+              max={60}
+              value={policy.maxSessionMinutes}
+              onChange={(e) => setPolicy({ ...policy, maxSessionMinutes: Number(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-800 mb-1">Trusted Hospitals</label>
+            <input
+              type="text"
+              value={policy.trustedHospitals}
+              onChange={(e) => setPolicy({ ...policy, trustedHospitals: e.target.value })}
+              placeholder="Comma-separated hospital names (leave empty to allow any hospital)"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={policyLoading}
+            className="w-full bg-red-600 text-white py-2 px-4 rounded-md hover:bg-red-700 disabled:opacity-50"
+          >
+            {policyLoading ? 'Saving...' : 'Save Emergency Policy'}
+          </button>
+        </form>
       </div>
     </div>
   )
@@ -0,0 +1,31 @@
+/**
+ * Next.js startup hook: verify the database schema and security
+ * configuration before serving requests, then start session cleanup and
+ * the notification worker
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return
+  }
+
+  const { initializeSQLite } = await import('../database/sqlite')
+  const { checkFieldEncryptionKey } = await import('../database/field-encryption')
+  const { BiometricService } = await import('./lib/auth/biometric-service')
+  const { TotpService } = await import('./lib/auth/totp-service')
+  const { DocumentService } = await import('./lib/services/document-service')
+  const { DocumentScanService } = await import('./lib/services/document-scan-service')
+
+  try {
+    checkFieldEncryptionKey()
+    await initializeSQLite()
+    BiometricService.checkConfiguration()
+    TotpService.checkConfiguration()
+    DocumentService.checkConfiguration()
+    DocumentScanService.checkConfiguration()
+  } catch (error) {
+    console.error('❌ Refusing to start:', error instanceof Error ? error.message : error)
+    process.exit(1)
+  }
+
+  await import('./lib/utils/session-cleanup')
+}
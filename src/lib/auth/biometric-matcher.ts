@@ -0,0 +1,101 @@
+import { createHash } from 'crypto'
+import type { BiometricType } from './biometric-service'
+
+/**
+ * A biometric matching engine. Templates are opaque to the rest of the app;
+ * BiometricService encrypts them before they are stored.
+ */
+export interface BiometricMatcher {
+  /** Stored with each template, since templates only compare within one matcher */
+  readonly name: string
+  /** Scores at or above this count as a match */
+  readonly threshold: number
+  createTemplate(biometricType: BiometricType, sample: string): Promise<Buffer>
+  /** Similarity between a stored template and a fresh sample, from 0 to 1 */
+  compare(biometricType: BiometricType, template: Buffer, sample: string): Promise<number>
+}
+
+/**
+ * Deterministic matcher for development and tests. The template is a hash of
+ * the sample and the score is the share of matching bits, so the same sample
+ * always scores 1 and any other sample scores around 0.5.
+ */
+export class LocalTestMatcher implements BiometricMatcher {
+  readonly name = 'local-test'
+  readonly threshold = 0.9
+
+  async createTemplate(biometricType: BiometricType, sample: string): Promise<Buffer> {
+    return this.features(biometricType, sample)
+  }
+
+  async compare(biometricType: BiometricType, template: Buffer, sample: string): Promise<number> {
+    const features = this.features(biometricType, sample)
+    if (features.length !== template.length) {
+      return 0
+    }
+
+    let differingBits = 0
+    for (let i = 0; i < features.length; i++) {
+      let diff = features[i] ^ template[i]
+      while (diff) {
+        differingBits += diff & 1
+        diff >>= 1
+      }
+    }
+
+    return 1 - differingBits / (features.length * 8)
+  }
+
+  private features(biometricType: BiometricType, sample: string): Buffer {
+    return createHash('sha256').update(`${biometricType}:${sample.trim()}`).digest()
+  }
+}
+
+/**
+ * Stands in for a matcher where biometrics are not offered: enrollment
+ * fails and no sample ever matches
+ */
+export class DisabledMatcher implements BiometricMatcher {
+  readonly name = 'disabled'
+  readonly threshold = 1
+
+  async createTemplate(): Promise<Buffer> {
+    throw new Error('Biometric matching is disabled')
+  }
+
+  async compare(): Promise<number> {
+    return 0
+  }
+}
+
+// Matchers selectable with BIOMETRIC_MATCHER. Register vendor SDK adapters here.
+const MATCHERS: Record<string, () => BiometricMatcher> = {
+  'local-test': () => new LocalTestMatcher(),
+  disabled: () => new DisabledMatcher()
+}
+
+/**
+ * Create the matcher named by BIOMETRIC_MATCHER. Outside production it
+ * defaults to the test matcher; in production it must be set, and the test
+ * matcher is refused since anyone who knows a sample's text can match it.
+ */
+export function createBiometricMatcher(): BiometricMatcher {
+  const isProduction = process.env.NODE_ENV === 'production'
+  const name = process.env.BIOMETRIC_MATCHER || (isProduction ? null : 'local-test')
+
+  if (!name) {
+    throw new Error('BIOMETRIC_MATCHER is not configured')
+  }
+
+  const factory = MATCHERS[name]
+  if (!factory) {
+    throw new Error(`Unknown BIOMETRIC_MATCHER "${name}"`)
+  }
+
+  const matcher = factory()
+  if (isProduction && matcher instanceof LocalTestMatcher) {
+    throw new Error('The local-test biometric matcher cannot be used in production')
+  }
+
+  return matcher
+}
@@ -1,26 +1,73 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+import { v4 as uuidv4 } from 'uuid'
 import { database } from '../database'
+import { WebAuthnService, Passkey, PasskeyAuthenticationResponse } from './webauthn-service'
+import { BiometricMatcher, createBiometricMatcher } from './biometric-matcher'
 
 export interface BiometricResult {
   success: boolean
   message: string
   userId?: string
+  score?: number
 }
 
 export type BiometricType = 'FINGERPRINT' | 'IRIS'
 
+export const FINGER_POSITIONS = [
+  'LEFT_THUMB', 'LEFT_INDEX', 'LEFT_MIDDLE', 'LEFT_RING', 'LEFT_LITTLE',
+  'RIGHT_THUMB', 'RIGHT_INDEX', 'RIGHT_MIDDLE', 'RIGHT_RING', 'RIGHT_LITTLE'
+] as const
+
+export type FingerPosition = typeof FINGER_POSITIONS[number]
+
+export interface BiometricMatch {
+  userId: string
+  position: string
+  score: number
+  matched: boolean
+}
+
+interface BiometricTemplateRow {
+  id: string
+  user_id: string
+  position: string
+  template_encrypted: string
+}
+
 export class BiometricService {
+  private static configuredMatcher: BiometricMatcher | null = null
+
   /**
-   * Verify biometric authentication (placeholder implementation)
+   * Replace the matching engine, e.g. with a vendor SDK adapter
+   */
+  static useMatcher(matcher: BiometricMatcher): void {
+    this.configuredMatcher = matcher
+  }
+
+  /**
+   * Throw when the matcher or template key is misconfigured, so the server
+   * refuses to start instead of failing on the first scan
+   */
+  static checkConfiguration(): void {
+    this.templateKey()
+    console.log(`✅ Biometric matching with ${this.matcher.name}`)
+  }
+
+  /**
+   * Verify biometric authentication. Fingerprint sign-in uses a WebAuthn
+   * passkey when the user has registered one; otherwise the sample is
+   * compared with the user's enrolled templates.
    */
   static async verifyBiometric(
     identifier: string, 
     biometricType: BiometricType,
-    biometricData?: string // In real implementation, this would be biometric data
+    biometricData?: string, // In real implementation, this would be biometric data
+    passkey?: PasskeyAuthenticationResponse
   ): Promise<BiometricResult> {
     try {
       // Find user by mobile or email
       const [users] = await database.execute(
-        'SELECT u.id, u.name, u.mobile, u.email, u.role, pp.biometric_fingerprint_ref, pp.biometric_iris_ref FROM users u LEFT JOIN patient_profiles pp ON u.id = pp.user_id WHERE u.mobile = ? OR u.email = ?',
+        'SELECT id, name, mobile, email, role FROM users WHERE mobile = ? OR email = ?',
         [identifier, identifier]
       ) as any
 
@@ -33,43 +80,48 @@ export class BiometricService {
 
       const user = users[0]
 
-      // Check if user has biometric reference for the requested type
-      const biometricRef = biometricType === 'FINGERPRINT' 
-        ? user.biometric_fingerprint_ref 
-        : user.biometric_iris_ref
+      if (biometricType === 'FINGERPRINT') {
+        // Accounts with a passkey cannot fall back to the placeholder match
+        const passkeys = await WebAuthnService.getPasskeys(user.id)
+        if (passkey || passkeys.length > 0) {
+          return this.verifyPasskey(user, identifier, passkey)
+        }
+      }
+
+      const match = await this.matchUser(user.id, biometricType, biometricData || '')
 
-      if (!biometricRef) {
+      if (!match) {
         await this.logAuditEvent(user.id, 'BIOMETRIC_VERIFICATION_FAILED', {
-          reason: 'No biometric reference found',
+          reason: 'No biometric template found',
           biometricType,
           identifier
         })
         return {
           success: false,
-          message: `No ${biometricType.toLowerCase()} reference found. Please register your biometric data first.`
+          message: `No ${biometricType.toLowerCase()} enrolled. Please register your biometric data first.`
         }
       }
 
-      // Placeholder biometric verification
-      // In a real implementation, this would compare actual biometric data
-      // For the pilot, we simulate successful verification if reference exists
-      const isValid = await this.simulateBiometricVerification(biometricRef, biometricData)
-
-      if (!isValid) {
+      if (!match.matched) {
         await this.logAuditEvent(user.id, 'BIOMETRIC_VERIFICATION_FAILED', {
           reason: 'Biometric verification failed',
           biometricType,
+          score: match.score,
+          threshold: this.matcher.threshold,
           identifier
         })
         return {
           success: false,
-          message: `${biometricType.toLowerCase()} verification failed. Please try again.`
+          message: `${biometricType.toLowerCase()} verification failed. Please try again.`,
+          score: match.score
         }
       }
 
       // Log successful verification
       await this.logAuditEvent(user.id, `BIOMETRIC_${biometricType}_LOGIN`, {
         biometricType,
+        position: match.position,
+        score: match.score,
         identifier,
         timestamp: new Date().toISOString()
       })
@@ -79,7 +131,8 @@ export class BiometricService {
       return {
         success: true,
         message: `${biometricType.toLowerCase()} verification successful`,
-        userId: user.id
+        userId: user.id,
+        score: match.score
       }
 
     } catch (error) {
@@ -92,34 +145,68 @@ export class BiometricService {
   }
 
   /**
-   * Register biometric reference for a user (placeholder implementation)
+   * Enroll a finger or eye, replacing any template already stored for that
+   * position. Fingers default to the right index finger and eyes to the right.
    */
   static async registerBiometric(
     userId: string,
     biometricType: BiometricType,
-    biometricData?: string // In real implementation, this would be processed biometric data
+    biometricData?: string,
+    position?: string
   ): Promise<BiometricResult> {
     try {
-      // Generate placeholder biometric reference
-      const biometricRef = this.generateBiometricReference(userId, biometricType)
+      if (!biometricData) {
+        return {
+          success: false,
+          message: `${biometricType.toLowerCase()} sample is required`
+        }
+      }
 
-      // Update patient profile with biometric reference
-      const updateField = biometricType === 'FINGERPRINT' 
-        ? 'biometric_fingerprint_ref' 
-        : 'biometric_iris_ref'
+      const templatePosition = position || (biometricType === 'FINGERPRINT' ? 'RIGHT_INDEX' : 'RIGHT')
+      const validPositions: readonly string[] = biometricType === 'FINGERPRINT' ? FINGER_POSITIONS : ['LEFT', 'RIGHT']
 
-      await database.execute(
-        `UPDATE patient_profiles SET ${updateField} = ? WHERE user_id = ?`,
-        [biometricRef, userId]
-      )
+      if (!validPositions.includes(templatePosition)) {
+        return {
+          success: false,
+          message: `Invalid ${biometricType.toLowerCase()} position: ${templatePosition}`
+        }
+      }
+
+      const template = await this.matcher.createTemplate(biometricType, biometricData)
+      const encrypted = this.encryptTemplate(template, userId, biometricType, templatePosition)
+
+      await database.transaction(async (tx) => {
+        await tx.execute(
+          `INSERT INTO biometric_templates (id, user_id, biometric_type, position, matcher, template_encrypted, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(user_id, biometric_type, position) DO UPDATE SET
+             matcher = excluded.matcher,
+             template_encrypted = excluded.template_encrypted,
+             created_at = excluded.created_at,
+             last_matched_at = NULL`,
+          [uuidv4(), userId, biometricType, templatePosition, this.matcher.name, encrypted, new Date().toISOString()]
+        )
+
+        // The profile column only records which matcher the patient enrolled with
+        const updateField = biometricType === 'FINGERPRINT'
+          ? 'biometric_fingerprint_ref'
+          : 'biometric_iris_ref'
+
+        await tx.execute(
+          `UPDATE patient_profiles SET ${updateField} = ? WHERE user_id = ?`,
+          [this.matcher.name, userId]
+        )
+      })
 
       // Log biometric registration
       await this.logAuditEvent(userId, 'BIOMETRIC_REGISTRATION', {
         biometricType,
+        position: templatePosition,
+        matcher: this.matcher.name,
         timestamp: new Date().toISOString()
       })
 
-      console.log(`🔐 Biometric ${biometricType} registered for user ${userId}`)
+      console.log(`🔐 Biometric ${biometricType} (${templatePosition}) registered for user ${userId}`)
 
       return {
         success: true,
@@ -136,62 +223,220 @@ export class BiometricService {
     }
   }
 
+  /**
+   * Compare a sample with one user's enrolled templates. Returns null when
+   * nothing is enrolled for the type.
+   */
+  static async matchUser(userId: string, biometricType: BiometricType, sample: string): Promise<BiometricMatch | null> {
+    const [templates] = await database.execute(
+      'SELECT id, user_id, position, template_encrypted FROM biometric_templates WHERE user_id = ? AND biometric_type = ? AND matcher = ?',
+      [userId, biometricType, this.matcher.name]
+    ) as [BiometricTemplateRow[]]
+
+    return this.recordMatch(await this.scoreTemplates(templates, biometricType, sample))
+  }
+
+  /**
+   * Identify a patient who cannot give their identity, by comparing the
+   * sample with every enrolled template of the type. Returns the best
+   * match above the threshold, or null when nothing matches or templates of
+   * more than one patient match, since the scan cannot tell them apart.
+   */
+  static async identifyPatient(biometricType: BiometricType, sample: string): Promise<BiometricMatch | null> {
+    const [templates] = await database.execute(
+      `SELECT bt.id, bt.user_id, bt.position, bt.template_encrypted
+       FROM biometric_templates bt
+       JOIN users u ON u.id = bt.user_id
+       JOIN patient_profiles pp ON pp.user_id = u.id
+       WHERE bt.biometric_type = ? AND bt.matcher = ? AND u.role = 'PATIENT' AND pp.deleted_at IS NULL`,
+      [biometricType, this.matcher.name]
+    ) as [BiometricTemplateRow[]]
+
+    const matches = (await this.scoreTemplates(templates, biometricType, sample)).filter(match => match.matched)
+    const patients = new Set(matches.map(match => match.userId))
+
+    if (patients.size > 1) {
+      console.warn(`⚠️ Biometric ${biometricType} scan matched ${patients.size} patients; refusing to identify`)
+      return null
+    }
+
+    return this.recordMatch(matches)
+  }
+
   /**
    * Check if user has biometric references
    */
   static async getUserBiometrics(userId: string): Promise<{
     hasFingerprint: boolean
     hasIris: boolean
+    fingers: string[]
+    passkeys: Passkey[]
   }> {
     try {
-      const [profiles] = await database.execute(
-        'SELECT biometric_fingerprint_ref, biometric_iris_ref FROM patient_profiles WHERE user_id = ?',
-        [userId]
-      ) as any
+      const [templates] = await database.execute(
+        'SELECT biometric_type, position FROM biometric_templates WHERE user_id = ? AND matcher = ? ORDER BY created_at',
+        [userId, this.matcher.name]
+      ) as [{ biometric_type: BiometricType; position: string }[]]
 
-      if (!profiles || profiles.length === 0) {
-        return { hasFingerprint: false, hasIris: false }
-      }
+      const passkeys = await WebAuthnService.getPasskeys(userId)
+      const fingers = templates
+        .filter(template => template.biometric_type === 'FINGERPRINT')
+        .map(template => template.position)
 
-      const profile = profiles[0]
       return {
-        hasFingerprint: !!profile.biometric_fingerprint_ref,
-        hasIris: !!profile.biometric_iris_ref
+        hasFingerprint: fingers.length > 0 || passkeys.length > 0,
+        hasIris: templates.some(template => template.biometric_type === 'IRIS'),
+        fingers,
+        passkeys
       }
 
     } catch (error) {
       console.error('Get user biometrics error:', error)
-      return { hasFingerprint: false, hasIris: false }
+      return { hasFingerprint: false, hasIris: false, fingers: [], passkeys: [] }
     }
   }
 
   /**
-   * Simulate biometric verification (placeholder)
+   * Verify a WebAuthn assertion as the user's fingerprint sign-in
    */
-  private static async simulateBiometricVerification(
-    storedRef: string, 
-    providedData?: string
-  ): Promise<boolean> {
-    // In a real implementation, this would use actual biometric matching algorithms
-    // For the pilot, we simulate a successful match if the reference exists
-    
-    // Add some randomness to simulate real-world scenarios
-    const successRate = 0.95 // 95% success rate for simulation
-    const isSuccessful = Math.random() < successRate
-
-    // Simulate processing time
-    await new Promise(resolve => setTimeout(resolve, 1000))
-
-    return isSuccessful && !!storedRef
+  private static async verifyPasskey(
+    user: { id: string; name: string },
+    identifier: string,
+    passkey?: PasskeyAuthenticationResponse
+  ): Promise<BiometricResult> {
+    if (!passkey) {
+      return {
+        success: false,
+        message: 'Use the passkey on your registered device to sign in with fingerprint'
+      }
+    }
+
+    const result = await WebAuthnService.verifyAuthentication(identifier, passkey)
+
+    if (!result.success) {
+      await this.logAuditEvent(user.id, 'BIOMETRIC_VERIFICATION_FAILED', {
+        reason: result.message,
+        biometricType: 'FINGERPRINT',
+        method: 'WEBAUTHN',
+        identifier
+      })
+      return {
+        success: false,
+        message: result.message
+      }
+    }
+
+    await this.logAuditEvent(user.id, 'BIOMETRIC_FINGERPRINT_LOGIN', {
+      biometricType: 'FINGERPRINT',
+      method: 'WEBAUTHN',
+      credentialId: passkey.rawId,
+      identifier,
+      timestamp: new Date().toISOString()
+    })
+
+    console.log(`🔐 Passkey verification successful for ${user.name} (${identifier})`)
+
+    return {
+      success: true,
+      message: 'fingerprint verification successful',
+      userId: user.id
+    }
+  }
+
+  /**
+   * Score the sample against each template. Templates that fail to decrypt
+   * are skipped.
+   */
+  private static async scoreTemplates(
+    templates: BiometricTemplateRow[],
+    biometricType: BiometricType,
+    sample: string
+  ): Promise<(BiometricMatch & { templateId: string })[]> {
+    const scored: (BiometricMatch & { templateId: string })[] = []
+
+    for (const template of templates) {
+      let decrypted: Buffer
+      try {
+        decrypted = this.decryptTemplate(template.template_encrypted, template.user_id, biometricType, template.position)
+      } catch {
+        // A template that fails authentication was tampered with or moved; never match it
+        console.error(`Biometric template ${template.id} could not be decrypted`)
+        continue
+      }
+
+      const score = await this.matcher.compare(biometricType, decrypted, sample)
+
+      scored.push({
+        templateId: template.id,
+        userId: template.user_id,
+        position: template.position,
+        score,
+        matched: score >= this.matcher.threshold
+      })
+    }
+
+    return scored
+  }
+
+  /**
+   * Keep the best scored template, or null when there is nothing to
+   * compare. The matched template's last_matched_at is updated.
+   */
+  private static async recordMatch(scored: (BiometricMatch & { templateId: string })[]): Promise<BiometricMatch | null> {
+    const best = scored.reduce<BiometricMatch & { templateId: string } | null>(
+      (best, match) => !best || match.score > best.score ? match : best,
+      null
+    )
+
+    if (!best) {
+      return null
+    }
+
+    const { templateId, ...match } = best
+
+    if (match.matched) {
+      await database.execute(
+        'UPDATE biometric_templates SET last_matched_at = ? WHERE id = ?',
+        [new Date().toISOString(), templateId]
+      )
+    }
+
+    return match
+  }
+
+  private static get matcher(): BiometricMatcher {
+    if (!this.configuredMatcher) {
+      this.configuredMatcher = createBiometricMatcher()
+    }
+    return this.configuredMatcher
   }
 
   /**
-   * Generate placeholder biometric reference
+   * AES-256-GCM with the template's owner and position as associated data,
+   * so a template copied to another row fails to decrypt
    */
-  private static generateBiometricReference(userId: string, biometricType: BiometricType): string {
-    const timestamp = Date.now()
-    const random = Math.random().toString(36).substring(2, 15)
-    return `${biometricType.toLowerCase()}_${userId}_${timestamp}_${random}`
+  private static encryptTemplate(template: Buffer, userId: string, biometricType: BiometricType, position: string): string {
+    const iv = randomBytes(12)
+    const cipher = createCipheriv('aes-256-gcm', this.templateKey(), iv)
+    cipher.setAAD(Buffer.from(`${userId}:${biometricType}:${position}`))
+    const ciphertext = Buffer.concat([cipher.update(template), cipher.final()])
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64')
+  }
+
+  private static decryptTemplate(encoded: string, userId: string, biometricType: BiometricType, position: string): Buffer {
+    const data = Buffer.from(encoded, 'base64')
+    const decipher = createDecipheriv('aes-256-gcm', this.templateKey(), data.subarray(0, 12))
+    decipher.setAAD(Buffer.from(`${userId}:${biometricType}:${position}`))
+    decipher.setAuthTag(data.subarray(12, 28))
+    return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()])
+  }
+
+  private static templateKey(): Buffer {
+    const secret = process.env.BIOMETRIC_TEMPLATE_KEY
+    if (!secret) {
+      throw new Error('BIOMETRIC_TEMPLATE_KEY is not configured')
+    }
+    return createHash('sha256').update(secret).digest()
   }
 
   /**
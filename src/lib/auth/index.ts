@@ -2,19 +2,44 @@
 export { OTPService } from './otp-service'
 export type { OTPResult, OTPVerificationResult } from './otp-service'
 
-export { BiometricService } from './biometric-service'
-export type { BiometricResult, BiometricType } from './biometric-service'
+export { AccountLockoutService, ACCOUNT_UNLOCK_OTP_PURPOSE } from './lockout-service'
+export type { AccountLockout } from './lockout-service'
+
+export { TotpService, TOTP_ROLES } from './totp-service'
+export type { TotpResult, TotpStatus } from './totp-service'
+
+export { BiometricService, FINGER_POSITIONS } from './biometric-service'
+export type { BiometricResult, BiometricType, BiometricMatch, FingerPosition } from './biometric-service'
+
+export { LocalTestMatcher } from './biometric-matcher'
+export type { BiometricMatcher } from './biometric-matcher'
+
+export { WebAuthnService } from './webauthn-service'
+export type { Passkey, PasskeyAuthenticationResponse, PasskeyRegistrationResponse, WebAuthnResult } from './webauthn-service'
+
+export { RateLimiter, MemoryRateLimitStore, SQLiteRateLimitStore, RATE_LIMIT_POLICIES, IDENTIFIER_RATE_LIMIT_POLICIES } from './rate-limiter'
+export type { RateLimitPolicy, RateLimitPolicyName, RateLimitResult, RateLimitStore } from './rate-limiter'
 
 export { SessionService } from './session-service'
-export type { SessionData, EmergencySessionData, SessionResult } from './session-service'
+export type { SessionData, EmergencySessionData, SessionResult, SessionDeviceInfo, UserSession } from './session-service'
 
 // Authentication Middleware
 export {
   authenticateRequest,
+  authorizeRequest,
   authenticatePatient,
   authenticateDoctor,
   authenticateOperator,
   authenticateEmergencySession,
+  authenticateEmergencyRequester,
+  getRequestDeviceInfo,
+  getClientIp,
+  rateLimitRequest,
+  setRefreshTokenCookie,
+  createSessionResponse,
+  createSignInResponse,
+  clearRefreshTokenCookie,
+  getRefreshTokenCookie,
   getUserFromRequest,
   canAccessPatientData,
   validateEmergencyAccess
@@ -30,15 +55,14 @@ export {
   generateSecureRandom,
   formatPhoneNumber,
   sanitizeInput,
-  checkRateLimit,
-  cleanupRateLimit,
   logAuthEvent
 } from './utils'
 
 export const AUTH_CONSTANTS = {
   OTP_LENGTH: 6,
   OTP_EXPIRY_MINUTES: 5,
-  REGULAR_SESSION_HOURS: 24,
+  ACCESS_TOKEN_MINUTES: 15,
+  REFRESH_TOKEN_DAYS: 7,
   EMERGENCY_SESSION_MINUTES: 10,
   MAX_OTP_ATTEMPTS: 3
 }
\ No newline at end of file
@@ -0,0 +1,248 @@
+import { v4 as uuidv4 } from 'uuid'
+import { database } from '../database'
+import { AuditService } from '../services/audit-service'
+import { NotificationService } from '../services/notification-service'
+
+export const ACCOUNT_UNLOCK_OTP_PURPOSE = 'ACCOUNT_UNLOCK'
+
+export interface AccountLockout {
+  id: string
+  userId: string
+  level: number
+  failedAttempts: number
+  lockedAt: string
+  lockedUntil: string
+}
+
+interface AccountLockoutRow {
+  id: string
+  user_id: string
+  level: number
+  failed_attempts: number
+  locked_at: string
+  locked_until: string
+}
+
+/**
+ * Timestamps in otp_failures and account_lockouts are always ISO strings
+ * written here, so they are compared as text to keep millisecond precision.
+ */
+export class AccountLockoutService {
+  private static readonly FAILURE_THRESHOLD = 5
+  private static readonly FAILURE_WINDOW_HOURS = 1
+  private static readonly ESCALATION_DAYS = 7
+  // Lockout length by level; repeated lockouts within ESCALATION_DAYS last longer
+  private static readonly LOCKOUT_MINUTES = [15, 60, 24 * 60]
+  // Incorrect unlock codes allowed per lockout before the unlock is disabled
+  private static readonly UNLOCK_FAILURE_THRESHOLD = 3
+
+  /**
+   * The user's current lockout, if any
+   */
+  static async getActiveLockout(userId: string): Promise<AccountLockout | null> {
+    const [lockouts] = await database.execute(
+      `SELECT * FROM account_lockouts
+       WHERE user_id = ? AND unlocked_at IS NULL AND locked_until > ?
+       ORDER BY locked_at DESC LIMIT 1`,
+      [userId, new Date().toISOString()]
+    ) as [AccountLockoutRow[]]
+
+    return lockouts?.length ? this.mapLockout(lockouts[0]) : null
+  }
+
+  /**
+   * Record a failed OTP verification. Failures are counted across OTPs, so
+   * generating a new code does not reset them. Incorrect unlock codes are
+   * counted separately by recordFailedUnlock. Returns the lockout when this
+   * failure locks the account.
+   */
+  static async recordFailedVerification(userId: string, purpose: string): Promise<AccountLockout | null> {
+    const now = new Date()
+
+    await database.execute(
+      'INSERT INTO otp_failures (user_id, purpose, created_at) VALUES (?, ?, ?)',
+      [userId, purpose, now.toISOString()]
+    )
+
+    // Only failures since the end of the previous lockout count towards the next one
+    const [previous] = await database.execute(
+      'SELECT locked_until, unlocked_at FROM account_lockouts WHERE user_id = ? ORDER BY locked_at DESC LIMIT 1',
+      [userId]
+    ) as [{ locked_until: string; unlocked_at: string | null }[]]
+
+    let countFrom = new Date(now.getTime() - this.FAILURE_WINDOW_HOURS * 60 * 60 * 1000)
+    if (previous?.length) {
+      const previousEnd = new Date(previous[0].unlocked_at || previous[0].locked_until)
+      if (previousEnd > countFrom) {
+        countFrom = previousEnd
+      }
+    }
+
+    const [failures] = await database.execute(
+      'SELECT COUNT(*) as count FROM otp_failures WHERE user_id = ? AND purpose != ? AND created_at > ?',
+      [userId, ACCOUNT_UNLOCK_OTP_PURPOSE, countFrom.toISOString()]
+    ) as [{ count: number }[]]
+
+    const failedAttempts = failures[0].count
+    if (failedAttempts < this.FAILURE_THRESHOLD) {
+      return null
+    }
+
+    const [recent] = await database.execute(
+      'SELECT COUNT(*) as count FROM account_lockouts WHERE user_id = ? AND locked_at > ?',
+      [userId, new Date(now.getTime() - this.ESCALATION_DAYS * 24 * 60 * 60 * 1000).toISOString()]
+    ) as [{ count: number }[]]
+
+    const level = recent[0].count + 1
+    const minutes = this.LOCKOUT_MINUTES[Math.min(level, this.LOCKOUT_MINUTES.length) - 1]
+    const lockedUntil = new Date(now.getTime() + minutes * 60 * 1000)
+
+    const lockout: AccountLockout = {
+      id: uuidv4(),
+      userId,
+      level,
+      failedAttempts,
+      lockedAt: now.toISOString(),
+      lockedUntil: lockedUntil.toISOString()
+    }
+
+    await database.execute(
+      'INSERT INTO account_lockouts (id, user_id, level, failed_attempts, locked_at, locked_until) VALUES (?, ?, ?, ?, ?, ?)',
+      [lockout.id, userId, level, failedAttempts, lockout.lockedAt, lockout.lockedUntil]
+    )
+
+    // Outstanding codes for the account must not be usable once it is locked
+    await database.execute(
+      'DELETE FROM otps WHERE user_id = ? AND purpose != ?',
+      [userId, ACCOUNT_UNLOCK_OTP_PURPOSE]
+    )
+
+    await AuditService.logEvent(userId, 'SYSTEM', 'SUSPICIOUS_ACTIVITY', {
+      reason: 'REPEATED_OTP_FAILURES',
+      failedAttempts,
+      windowHours: this.FAILURE_WINDOW_HOURS,
+      lockoutLevel: level,
+      lockedUntil: lockedUntil.toISOString()
+    })
+
+    return lockout
+  }
+
+  /**
+   * Record an incorrect unlock code sent to the emergency contact. Returns
+   * the lockout when this failure disables its unlock, in which case the
+   * outstanding unlock code is discarded.
+   */
+  static async recordFailedUnlock(userId: string): Promise<AccountLockout | null> {
+    await database.execute(
+      'INSERT INTO otp_failures (user_id, purpose, created_at) VALUES (?, ?, ?)',
+      [userId, ACCOUNT_UNLOCK_OTP_PURPOSE, new Date().toISOString()]
+    )
+
+    const lockout = await this.getActiveLockout(userId)
+    if (!lockout || !await this.isUnlockDisabled(lockout)) {
+      return null
+    }
+
+    await database.execute(
+      'DELETE FROM otps WHERE user_id = ? AND purpose = ?',
+      [userId, ACCOUNT_UNLOCK_OTP_PURPOSE]
+    )
+
+    await AuditService.logEvent(userId, 'SYSTEM', 'SUSPICIOUS_ACTIVITY', {
+      reason: 'REPEATED_UNLOCK_FAILURES',
+      lockoutId: lockout.id,
+      failedAttempts: this.UNLOCK_FAILURE_THRESHOLD,
+      lockedUntil: lockout.lockedUntil
+    })
+
+    return lockout
+  }
+
+  /**
+   * Whether too many incorrect unlock codes were entered during this
+   * lockout for the emergency contact to lift it
+   */
+  static async isUnlockDisabled(lockout: AccountLockout): Promise<boolean> {
+    const [failures] = await database.execute(
+      'SELECT COUNT(*) as count FROM otp_failures WHERE user_id = ? AND purpose = ? AND created_at >= ?',
+      [lockout.userId, ACCOUNT_UNLOCK_OTP_PURPOSE, lockout.lockedAt]
+    ) as [{ count: number }[]]
+
+    return failures[0].count >= this.UNLOCK_FAILURE_THRESHOLD
+  }
+
+  /**
+   * Tell the account owner their account was locked
+   */
+  static async sendLockoutAlert(lockout: AccountLockout): Promise<void> {
+    try {
+      const [users] = await database.execute('SELECT mobile FROM users WHERE id = ?', [lockout.userId]) as [{ mobile: string }[]]
+      if (!users?.length) {
+        return
+      }
+
+      const minutes = Math.round((new Date(lockout.lockedUntil).getTime() - new Date(lockout.lockedAt).getTime()) / 60000)
+      const notification = await NotificationService.sendSms(
+        users[0].mobile,
+        `E-Patient Connect: Your account was locked for ${minutes >= 60 ? `${minutes / 60} hour(s)` : `${minutes} minutes`} after ${lockout.failedAttempts} incorrect verification codes. If this wasn't you, someone may be trying to sign in. Your emergency contact can unlock it sooner.`,
+        { idempotencyKey: `lockout-alert:${lockout.id}` }
+      )
+
+      if (notification.status !== 'SENT') {
+        console.error('Lockout alert SMS failed:', notification.lastError)
+      }
+    } catch (error) {
+      console.error('Lockout alert SMS error:', error)
+    }
+  }
+
+  /**
+   * Lift the user's active lockout
+   */
+  static async unlock(userId: string, method: 'EMERGENCY_CONTACT'): Promise<boolean> {
+    return database.transaction(async (tx) => {
+      const lockout = await this.getActiveLockout(userId)
+      if (!lockout) {
+        return false
+      }
+
+      await tx.execute(
+        'UPDATE account_lockouts SET unlocked_at = ?, unlock_method = ? WHERE id = ?',
+        [new Date().toISOString(), method, lockout.id]
+      )
+
+      await AuditService.logEvent(userId, 'SYSTEM', 'ACCOUNT_UNLOCKED', {
+        lockoutId: lockout.id,
+        method
+      })
+
+      return true
+    })
+  }
+
+  /**
+   * Error shown while an account is locked
+   */
+  static lockoutMessage(lockout: AccountLockout): string {
+    return `Account locked after repeated failed verifications until ${new Date(lockout.lockedUntil).toISOString()}. Your emergency contact can unlock it sooner.`
+  }
+
+  /**
+   * Error shown once the unlock is disabled for a lockout
+   */
+  static unlockDisabledMessage(lockout: AccountLockout): string {
+    return `Too many incorrect unlock codes. The account stays locked until ${new Date(lockout.lockedUntil).toISOString()}.`
+  }
+
+  private static mapLockout(row: AccountLockoutRow): AccountLockout {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      level: row.level,
+      failedAttempts: row.failed_attempts,
+      lockedAt: row.locked_at,
+      lockedUntil: row.locked_until
+    }
+  }
+}
@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { SessionService, SessionData, EmergencySessionData } from './session-service'
+import { SessionService, SessionData, EmergencySessionData, SessionDeviceInfo } from './session-service'
+import type { EmergencyDataCategory } from '../services/emergency-policy-service'
+import { RBACService, Permission, ResourceContext } from '../services/rbac-service'
+import { HospitalService } from '../services/hospital-service'
+import { RateLimiter, RateLimitPolicyName } from './rate-limiter'
+import { TotpService } from './totp-service'
 
 export interface AuthenticatedRequest extends NextRequest {
   user?: SessionData | EmergencySessionData
@@ -73,6 +78,92 @@ export async function authenticateRequest(
   }
 }
 
+/**
+ * Authentication middleware for routes guarded by a permission rather than
+ * an account role. Pass the resource to evaluate the permission's scope.
+ */
+export async function authorizeRequest(
+  request: NextRequest,
+  permission: Permission,
+  resource?: ResourceContext
+): Promise<{ success: boolean; user?: SessionData | EmergencySessionData; response?: NextResponse }> {
+  const authResult = await authenticateRequest(request)
+
+  if (!authResult.success) {
+    return authResult
+  }
+
+  if (!await RBACService.hasPermission(authResult.user!, permission, resource)) {
+    return {
+      success: false,
+      response: NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+  }
+
+  return authResult
+}
+
+/**
+ * Authentication for every route that opens an emergency session: the
+ * doctor's own signed-in session (not an emergency token) plus a current
+ * code from their authenticator app. Doctors of a suspended hospital are
+ * refused.
+ */
+export async function authenticateEmergencyRequester(
+  request: NextRequest,
+  totpCode: string | undefined
+): Promise<{ success: boolean; user?: SessionData; response?: NextResponse }> {
+  const authResult = await authenticateRequest(request, ['DOCTOR'])
+
+  if (!authResult.success) {
+    return { success: false, response: authResult.response }
+  }
+
+  const user = authResult.user!
+  if ('sessionId' in user) {
+    return {
+      success: false,
+      response: NextResponse.json(
+        { error: 'Sign in with your own account to request emergency access' },
+        { status: 403 }
+      )
+    }
+  }
+
+  const rateLimited = await rateLimitRequest(request, 'EMERGENCY_REQUEST', user.userId)
+  if (rateLimited) {
+    return { success: false, response: rateLimited }
+  }
+
+  // Doctors without a hospital profile may still request consented access
+  const tenant = await HospitalService.requireActiveTenant(user.userId)
+  if (tenant.tenant?.status === 'SUSPENDED') {
+    return {
+      success: false,
+      response: NextResponse.json(
+        { error: tenant.message },
+        { status: 403 }
+      )
+    }
+  }
+
+  const totpResult = await TotpService.verifyEmergencyCode(user.userId, totpCode)
+  if (!totpResult.success) {
+    return {
+      success: false,
+      response: NextResponse.json(
+        { error: totpResult.message },
+        { status: totpCode ? 403 : 400 }
+      )
+    }
+  }
+
+  return { success: true, user }
+}
+
 /**
  * Middleware for patient-only routes
  */
@@ -137,6 +228,160 @@ export async function authenticateEmergencySession(
   }
 }
 
+/**
+ * The client's IP address as seen by the outermost trusted proxy.
+ * TRUSTED_PROXY_HOPS is the number of reverse proxies that append to
+ * X-Forwarded-For; entries to the left of theirs are set by the client and
+ * ignored. Without trusted proxies no forwarded address is believed.
+ */
+export function getClientIp(request: NextRequest): string | null {
+  const trustedHops = parseInt(process.env.TRUSTED_PROXY_HOPS || '0', 10)
+  if (!(trustedHops > 0)) {
+    return null
+  }
+
+  const hops = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean)
+
+  return hops[hops.length - trustedHops] || null
+}
+
+/**
+ * Device metadata recorded on the session created for a sign-in request
+ */
+export function getRequestDeviceInfo(request: NextRequest): SessionDeviceInfo {
+  return {
+    userAgent: request.headers.get('user-agent'),
+    ipAddress: getClientIp(request)
+  }
+}
+
+/**
+ * Count a request against a rate limit policy, keyed on the identifier it
+ * targets and the client IP. Returns a 429 response when the limit is hit.
+ */
+export async function rateLimitRequest(
+  request: NextRequest,
+  policyName: RateLimitPolicyName,
+  identifier: string
+): Promise<NextResponse | null> {
+  try {
+    const result = await RateLimiter.consume(policyName, identifier, getClientIp(request))
+
+    if (result.allowed) {
+      return null
+    }
+
+    return NextResponse.json(
+      { error: 'Too many requests. Please try again later.', retryAfter: result.retryAfterSeconds },
+      {
+        status: 429,
+        headers: {
+          'Retry-After': String(result.retryAfterSeconds),
+          'X-RateLimit-Limit': String(result.limit),
+          'X-RateLimit-Remaining': '0'
+        }
+      }
+    )
+  } catch (error) {
+    // Fail open: an unavailable rate limit store should not block sign-in
+    console.error('Rate limit error:', error)
+    return null
+  }
+}
+
+const REFRESH_TOKEN_COOKIE = 'refreshToken'
+
+/**
+ * Hand a refresh token to the browser as an HTTP-only cookie, out of reach
+ * of page scripts and only sent to the auth routes
+ */
+export function setRefreshTokenCookie(response: NextResponse, refreshToken: string, expiresAt: Date): void {
+  response.cookies.set(REFRESH_TOKEN_COOKIE, refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/api/auth',
+    expires: expiresAt
+  })
+}
+
+/**
+ * Remove the refresh token cookie, e.g. on logout
+ */
+export function clearRefreshTokenCookie(response: NextResponse): void {
+  response.cookies.set(REFRESH_TOKEN_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/api/auth',
+    maxAge: 0
+  })
+}
+
+/**
+ * Read the refresh token cookie from a request
+ */
+export function getRefreshTokenCookie(request: NextRequest): string | null {
+  return request.cookies.get(REFRESH_TOKEN_COOKIE)?.value || null
+}
+
+/**
+ * Create a session for a user who has passed every sign-in factor and
+ * respond with its access token, setting the refresh token cookie
+ */
+export async function createSessionResponse(
+  request: NextRequest,
+  userId: string,
+  body: Record<string, unknown>
+): Promise<NextResponse> {
+  const sessionResult = await SessionService.createSession(userId, getRequestDeviceInfo(request))
+
+  if (!sessionResult.success) {
+    return NextResponse.json(
+      { error: sessionResult.message },
+      { status: 500 }
+    )
+  }
+
+  const response = NextResponse.json({
+    ...body,
+    token: sessionResult.token,
+    expiresIn: sessionResult.expiresIn,
+    user: sessionResult.sessionData
+  })
+
+  setRefreshTokenCookie(response, sessionResult.refreshToken!, sessionResult.refreshTokenExpiresAt!)
+
+  return response
+}
+
+/**
+ * Finish a sign-in after the first factor. Staff who use an authenticator
+ * app, or whose hospital requires one, get a challenge token to complete
+ * through /api/auth/totp instead of a session.
+ */
+export async function createSignInResponse(
+  request: NextRequest,
+  userId: string,
+  message: string
+): Promise<NextResponse> {
+  const totp = await TotpService.getStatus(userId)
+
+  if (totp.required) {
+    return NextResponse.json({
+      message: totp.enabled ? 'Enter the code from your authenticator app' : 'Your hospital requires an authenticator app. Set one up to continue.',
+      totpRequired: true,
+      totpEnrollmentRequired: !totp.enabled,
+      challengeToken: TotpService.createChallenge(userId)
+    })
+  }
+
+  return createSessionResponse(request, userId, { message })
+}
+
 /**
  * Extract user from request (for use in API routes after authentication)
  */
@@ -145,9 +390,14 @@ export function getUserFromRequest(request: AuthenticatedRequest): SessionData |
 }
 
 /**
- * Check if user has access to patient data
+ * Check if user has access to patient data. Emergency sessions only cover
+ * the data categories allowed by the patient's policy.
  */
-export function canAccessPatientData(user: SessionData | EmergencySessionData, patientId: string): boolean {
+export function canAccessPatientData(
+  user: SessionData | EmergencySessionData,
+  patientId: string,
+  category: EmergencyDataCategory = 'CRITICAL_INFO'
+): boolean {
   // Patient can access their own data
   if (user.role === 'PATIENT' && user.userId === patientId) {
     return true
@@ -155,7 +405,7 @@ export function canAccessPatientData(user: SessionData | EmergencySessionData, p
 
   // Doctor with emergency session can access specific patient data
   if (user.role === 'DOCTOR' && 'sessionId' in user && user.patientUserId === patientId) {
-    return true
+    return !!user.dataCategories?.includes(category)
   }
 
   return false
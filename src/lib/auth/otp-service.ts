@@ -1,12 +1,16 @@
 import bcrypt from 'bcryptjs'
-import { executeSQLiteQuery } from '../../../database/sqlite'
+import { executeSQLiteQuery, runSQLiteTransaction } from '../../../database/sqlite'
 import { smsService } from '../services/sms-service'
+import { NotificationService } from '../services/notification-service'
+import { otpEmail } from '../services/notification-templates'
+import { AccountLockoutService, AccountLockout, ACCOUNT_UNLOCK_OTP_PURPOSE } from './lockout-service'
 
 export interface OTPResult {
   success: boolean
   message: string
   otp?: string // Only returned in development mode
-  smsStatus?: string // SMS delivery status
+  smsStatus?: string // Delivery status on the channel below
+  channel?: 'SMS' | 'EMAIL' // Where the OTP was sent
 }
 
 export interface OTPVerificationResult {
@@ -31,46 +35,60 @@ export async function generateOTP(identifier: string, purpose: string = 'LOGIN')
     const expiresAt = new Date()
     expiresAt.setMinutes(expiresAt.getMinutes() + OTP_EXPIRY_MINUTES)
 
-    let userId: string
-    let phoneNumber: string
-    let userName: string = 'User'
-
-    // For registration, we don't need to check if user exists
-    if (purpose === 'REGISTRATION') {
-      userId = identifier // Use identifier as temporary user_id for registration
-      phoneNumber = identifier // Assume identifier is phone number for registration
-      
-      // Clean up old registration OTPs for this identifier
-      await executeSQLiteQuery(
-        'DELETE FROM otps WHERE user_id = ? AND purpose = ?',
-        [identifier, purpose]
-      )
-
-      // Store new OTP (using identifier as temporary user_id for registration)
-      await executeSQLiteQuery(
-        'INSERT INTO otps (user_id, code_hash, purpose, expires_at) VALUES (?, ?, ?, ?)',
-        [identifier, otpHash, purpose, expiresAt]
-      )
+    // Replace any previous OTP with the new one in a single transaction
+    const destination = await runSQLiteTransaction(async (): Promise<{ phoneNumber?: string; email?: string; error?: string }> => {
+      // For registration, we don't need to check if user exists
+      if (purpose === 'REGISTRATION') {
+        // Clean up old registration OTPs for this identifier
+        await executeSQLiteQuery(
+          'DELETE FROM otps WHERE user_id = ? AND purpose = ?',
+          [identifier, purpose]
+        )
+
+        // Store new OTP (using identifier as temporary user_id for registration)
+        await executeSQLiteQuery(
+          'INSERT INTO otps (user_id, code_hash, purpose, expires_at) VALUES (?, ?, ?, ?)',
+          [identifier, otpHash, purpose, expiresAt]
+        )
+
+        console.log(`🔐 Registration OTP Generated for ${identifier}: ${otp}`)
+        return { phoneNumber: identifier } // Assume identifier is phone number for registration
+      }
 
-      console.log(`🔐 Registration OTP Generated for ${identifier}: ${otp}`)
-    } else {
       // For login, find existing user
       const users = await executeSQLiteQuery(
-        'SELECT id, name, mobile, email FROM users WHERE mobile = ? OR email = ?',
+        'SELECT id, name, mobile, email, notification_channel FROM users WHERE mobile = ? OR email = ?',
         [identifier, identifier]
       ) as any[]
 
       if (!users || users.length === 0) {
-        return {
-          success: false,
-          message: 'User not found with this mobile number or email'
-        }
+        return { error: 'User not found with this mobile number or email' }
       }
 
       const user = users[0]
-      userId = user.id
-      phoneNumber = user.mobile
-      userName = user.name
+      let phoneNumber = user.mobile as string
+
+      const lockout = await AccountLockoutService.getActiveLockout(user.id)
+      if (purpose === ACCOUNT_UNLOCK_OTP_PURPOSE) {
+        // Unlock codes go to the emergency contact, not to the locked account
+        const profiles = await executeSQLiteQuery(
+          'SELECT emergency_contact FROM patient_profiles WHERE user_id = ?',
+          [user.id]
+        ) as { emergency_contact: string | null }[]
+
+        if (!lockout) {
+          return { error: 'Account is not locked' }
+        }
+        if (await AccountLockoutService.isUnlockDisabled(lockout)) {
+          return { error: AccountLockoutService.unlockDisabledMessage(lockout) }
+        }
+        if (!profiles?.length || !profiles[0].emergency_contact) {
+          return { error: 'No emergency contact on file. Please wait for the lockout to expire.' }
+        }
+        phoneNumber = profiles[0].emergency_contact
+      } else if (lockout) {
+        return { error: AccountLockoutService.lockoutMessage(lockout) }
+      }
 
       // Clean up old OTPs for this user and purpose
       await executeSQLiteQuery(
@@ -92,16 +110,34 @@ export async function generateOTP(identifier: string, purpose: string = 'LOGIN')
       })
 
       console.log(`🔐 OTP Generated for ${user.name} (${identifier}): ${otp}`)
+
+      // Unlock codes always go to the emergency contact's phone
+      if (purpose !== ACCOUNT_UNLOCK_OTP_PURPOSE && user.notification_channel === 'EMAIL' && user.email) {
+        return { phoneNumber, email: user.email }
+      }
+      return { phoneNumber }
+    })
+
+    if (!destination.phoneNumber) {
+      return {
+        success: false,
+        message: destination.error!
+      }
     }
 
-    // Send SMS OTP
+    const { phoneNumber, email } = destination
+    const channel = email ? 'EMAIL' : 'SMS'
+
+    // Send the OTP on the user's preferred channel. A failed send stays queued and is retried until the OTP expires.
     let smsStatus = 'not_sent'
     try {
-      const smsResult = await smsService.sendOTP(phoneNumber, otp, purpose)
-      smsStatus = smsResult.success ? 'sent' : 'failed'
+      const notification = email
+        ? await NotificationService.sendEmail(email, otpEmail(otp, purpose, OTP_EXPIRY_MINUTES), { expiresAt, sensitive: true })
+        : await NotificationService.sendSms(phoneNumber, smsService.createOTPMessage(otp, purpose), { expiresAt, sensitive: true })
+      smsStatus = notification.status === 'SENT' ? 'sent' : notification.status === 'PENDING' ? 'queued' : 'failed'
       
-      if (!smsResult.success) {
-        console.error('SMS sending failed:', smsResult.message)
+      if (smsStatus !== 'sent') {
+        console.error(`${channel} sending failed:`, notification.lastError)
         // Don't fail the entire OTP generation if SMS fails
         // The OTP is still valid and can be used if user receives it through other means
       }
@@ -110,19 +146,24 @@ export async function generateOTP(identifier: string, purpose: string = 'LOGIN')
       smsStatus = 'error'
     }
 
-    // Determine response message based on SMS status and environment
+    // Determine response message based on delivery status and environment
     let responseMessage = 'OTP generated successfully'
     if (smsStatus === 'sent') {
-      responseMessage = `OTP sent to ${phoneNumber.replace(/(\d{2})(\d{4})(\d{4})/, '$1****$3')}`
+      responseMessage = `OTP sent to ${email ? maskEmail(email) : phoneNumber.replace(/(\d{2})(\d{4})(\d{4})/, '$1****$3')}`
+    } else if (smsStatus === 'queued') {
+      responseMessage = `OTP generated. ${email ? 'Email' : 'SMS'} delivery is delayed and will be retried shortly.`
     } else if (smsStatus === 'failed' || smsStatus === 'error') {
-      responseMessage = 'OTP generated but SMS delivery failed. Please check your phone number.'
+      responseMessage = email
+        ? 'OTP generated but email delivery failed. Please check your email address.'
+        : 'OTP generated but SMS delivery failed. Please check your phone number.'
     }
 
     return {
       success: true,
       message: responseMessage,
       otp: process.env.NODE_ENV === 'development' ? otp : undefined,
-      smsStatus
+      smsStatus,
+      channel
     }
 
   } catch (error) {
@@ -139,117 +180,161 @@ export async function generateOTP(identifier: string, purpose: string = 'LOGIN')
  */
 export async function verifyOTP(identifier: string, otp: string, purpose: string = 'LOGIN'): Promise<OTPVerificationResult> {
   try {
-    let userId: string
+    let lockout: AccountLockout | null = null
+
+    // Check and update the attempt counter atomically so concurrent guesses
+    // cannot exceed the attempt limit
+    const result = await runSQLiteTransaction(async (): Promise<OTPVerificationResult> => {
+      let userId: string
+
+      if (purpose === 'REGISTRATION') {
+        // For registration, use identifier as the temporary user_id
+        userId = identifier
+      } else {
+        // For login, find existing user
+        const users = await executeSQLiteQuery(
+          'SELECT id, name, mobile, email FROM users WHERE mobile = ? OR email = ?',
+          [identifier, identifier]
+        ) as any[]
+
+        if (!users || users.length === 0) {
+          return {
+            success: false,
+            message: 'User not found'
+          }
+        }
 
-    if (purpose === 'REGISTRATION') {
-      // For registration, use identifier as the temporary user_id
-      userId = identifier
-    } else {
-      // For login, find existing user
-      const users = await executeSQLiteQuery(
-        'SELECT id, name, mobile, email FROM users WHERE mobile = ? OR email = ?',
-        [identifier, identifier]
+        userId = users[0].id
+
+        const activeLockout = await AccountLockoutService.getActiveLockout(userId)
+        if (activeLockout && purpose !== ACCOUNT_UNLOCK_OTP_PURPOSE) {
+          return {
+            success: false,
+            message: AccountLockoutService.lockoutMessage(activeLockout)
+          }
+        }
+        if (activeLockout && await AccountLockoutService.isUnlockDisabled(activeLockout)) {
+          return {
+            success: false,
+            message: AccountLockoutService.unlockDisabledMessage(activeLockout)
+          }
+        }
+      }
+
+      // Get active OTP
+      const otps = await executeSQLiteQuery(
+        'SELECT id, code_hash, expires_at, attempts FROM otps WHERE user_id = ? AND purpose = ? ORDER BY created_at DESC LIMIT 1',
+        [userId, purpose]
       ) as any[]
 
-      if (!users || users.length === 0) {
+      if (!otps || otps.length === 0) {
+        if (purpose !== 'REGISTRATION') {
+          await logAuditEvent(userId, 'OTP_VERIFICATION_FAILED', {
+            reason: 'No OTP found',
+            identifier
+          })
+        }
         return {
           success: false,
-          message: 'User not found'
+          message: 'No OTP found. Please generate a new one.'
         }
       }
 
-      userId = users[0].id
-    }
-
-    // Get active OTP
-    const otps = await executeSQLiteQuery(
-      'SELECT id, code_hash, expires_at, attempts FROM otps WHERE user_id = ? AND purpose = ? ORDER BY created_at DESC LIMIT 1',
-      [userId, purpose]
-    ) as any[]
+      const otpRecord = otps[0]
 
-    if (!otps || otps.length === 0) {
-      if (purpose !== 'REGISTRATION') {
-        await logAuditEvent(userId, 'OTP_VERIFICATION_FAILED', {
-          reason: 'No OTP found',
-          identifier
-        })
-      }
-      return {
-        success: false,
-        message: 'No OTP found. Please generate a new one.'
+      // Check if OTP has expired
+      if (new Date() > new Date(otpRecord.expires_at)) {
+        await executeSQLiteQuery('DELETE FROM otps WHERE id = ?', [otpRecord.id])
+        if (purpose !== 'REGISTRATION') {
+          await logAuditEvent(userId, 'OTP_VERIFICATION_FAILED', {
+            reason: 'OTP expired',
+            identifier
+          })
+        }
+        return {
+          success: false,
+          message: 'OTP has expired. Please generate a new one.'
+        }
       }
-    }
-
-    const otpRecord = otps[0]
 
-    // Check if OTP has expired
-    if (new Date() > new Date(otpRecord.expires_at)) {
-      await executeSQLiteQuery('DELETE FROM otps WHERE id = ?', [otpRecord.id])
-      if (purpose !== 'REGISTRATION') {
-        await logAuditEvent(userId, 'OTP_VERIFICATION_FAILED', {
-          reason: 'OTP expired',
-          identifier
-        })
+      // Check attempt limit
+      if (otpRecord.attempts >= MAX_ATTEMPTS) {
+        await executeSQLiteQuery('DELETE FROM otps WHERE id = ?', [otpRecord.id])
+        if (purpose !== 'REGISTRATION') {
+          await logAuditEvent(userId, 'OTP_VERIFICATION_FAILED', {
+            reason: 'Max attempts exceeded',
+            identifier
+          })
+        }
+        return {
+          success: false,
+          message: 'Maximum attempts exceeded. Please generate a new OTP.'
+        }
       }
-      return {
-        success: false,
-        message: 'OTP has expired. Please generate a new one.'
+
+      // Verify OTP
+      const isValid = await bcrypt.compare(otp, otpRecord.code_hash)
+
+      if (!isValid) {
+        // Increment attempts
+        await executeSQLiteQuery(
+          'UPDATE otps SET attempts = attempts + 1 WHERE id = ?',
+          [otpRecord.id]
+        )
+        if (purpose !== 'REGISTRATION') {
+          await logAuditEvent(userId, 'OTP_VERIFICATION_FAILED', {
+            reason: 'Invalid OTP',
+            identifier,
+            attempts: otpRecord.attempts + 1
+          })
+
+          if (purpose === ACCOUNT_UNLOCK_OTP_PURPOSE) {
+            const disabled = await AccountLockoutService.recordFailedUnlock(userId)
+            if (disabled) {
+              return {
+                success: false,
+                message: AccountLockoutService.unlockDisabledMessage(disabled)
+              }
+            }
+          } else {
+            lockout = await AccountLockoutService.recordFailedVerification(userId, purpose)
+            if (lockout) {
+              return {
+                success: false,
+                message: AccountLockoutService.lockoutMessage(lockout)
+              }
+            }
+          }
+        }
+        return {
+          success: false,
+          message: `Invalid OTP. ${MAX_ATTEMPTS - otpRecord.attempts - 1} attempts remaining.`
+        }
       }
-    }
 
-    // Check attempt limit
-    if (otpRecord.attempts >= MAX_ATTEMPTS) {
+      // OTP is valid - clean up
       await executeSQLiteQuery('DELETE FROM otps WHERE id = ?', [otpRecord.id])
+
+      // Log successful verification (only for existing users)
       if (purpose !== 'REGISTRATION') {
-        await logAuditEvent(userId, 'OTP_VERIFICATION_FAILED', {
-          reason: 'Max attempts exceeded',
+        await logAuditEvent(userId, 'OTP_VERIFICATION_SUCCESS', {
+          purpose,
           identifier
         })
       }
-      return {
-        success: false,
-        message: 'Maximum attempts exceeded. Please generate a new OTP.'
-      }
-    }
-
-    // Verify OTP
-    const isValid = await bcrypt.compare(otp, otpRecord.code_hash)
 
-    if (!isValid) {
-      // Increment attempts
-      await executeSQLiteQuery(
-        'UPDATE otps SET attempts = attempts + 1 WHERE id = ?',
-        [otpRecord.id]
-      )
-      if (purpose !== 'REGISTRATION') {
-        await logAuditEvent(userId, 'OTP_VERIFICATION_FAILED', {
-          reason: 'Invalid OTP',
-          identifier,
-          attempts: otpRecord.attempts + 1
-        })
-      }
       return {
-        success: false,
-        message: `Invalid OTP. ${MAX_ATTEMPTS - otpRecord.attempts - 1} attempts remaining.`
+        success: true,
+        message: 'OTP verified successfully',
+        userId: purpose === 'REGISTRATION' ? identifier : userId
       }
-    }
+    })
 
-    // OTP is valid - clean up
-    await executeSQLiteQuery('DELETE FROM otps WHERE id = ?', [otpRecord.id])
-    
-    // Log successful verification (only for existing users)
-    if (purpose !== 'REGISTRATION') {
-      await logAuditEvent(userId, 'OTP_VERIFICATION_SUCCESS', {
-        purpose,
-        identifier
-      })
+    if (lockout) {
+      await AccountLockoutService.sendLockoutAlert(lockout)
     }
 
-    return {
-      success: true,
-      message: 'OTP verified successfully',
-      userId: purpose === 'REGISTRATION' ? identifier : userId
-    }
+    return result
 
   } catch (error) {
     console.error('OTP verification error:', error)
@@ -285,6 +370,14 @@ async function logAuditEvent(userId: string, actionType: string, details: any):
   }
 }
 
+/**
+ * Hide most of an email address, e.g. j***@example.com
+ */
+function maskEmail(email: string): string {
+  const [local, domain] = email.split('@')
+  return `${local.charAt(0)}***@${domain}`
+}
+
 // Export as a service object for backward compatibility
 export const OTPService = {
   generateOTP,
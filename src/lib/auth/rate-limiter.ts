@@ -0,0 +1,239 @@
+import { database } from '../database'
+
+export type RateLimitPolicy =
+  | { type: 'SLIDING_WINDOW'; limit: number; windowSeconds: number }
+  | { type: 'TOKEN_BUCKET'; capacity: number; refillTokens: number; refillIntervalSeconds: number }
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  retryAfterSeconds: number // 0 when allowed
+}
+
+/**
+ * Storage for rate limit state. update() must apply the change atomically
+ * per key so concurrent requests cannot both take the last slot.
+ */
+export interface RateLimitStore {
+  update<T>(
+    key: string,
+    apply: (state: T | null) => { state: T; expiresAt: number; result: RateLimitResult }
+  ): Promise<RateLimitResult>
+  purgeExpired(now: number): Promise<void>
+}
+
+/**
+ * Per-process store, for tests and single-instance development
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, { state: unknown; expiresAt: number }>()
+
+  async update<T>(
+    key: string,
+    apply: (state: T | null) => { state: T; expiresAt: number; result: RateLimitResult }
+  ): Promise<RateLimitResult> {
+    const current = this.entries.get(key)
+    const { state, expiresAt, result } = apply(
+      current && current.expiresAt > Date.now() ? current.state as T : null
+    )
+
+    this.entries.set(key, { state, expiresAt })
+    return result
+  }
+
+  async purgeExpired(now: number): Promise<void> {
+    for (const [key, entry] of this.entries.entries()) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key)
+      }
+    }
+  }
+}
+
+/**
+ * Database-backed store shared by every server instance
+ */
+export class SQLiteRateLimitStore implements RateLimitStore {
+  async update<T>(
+    key: string,
+    apply: (state: T | null) => { state: T; expiresAt: number; result: RateLimitResult }
+  ): Promise<RateLimitResult> {
+    return database.transaction(async (tx) => {
+      const [rows] = await tx.execute(
+        'SELECT state_json FROM rate_limits WHERE key = ? AND expires_at > ?',
+        [key, Date.now()]
+      ) as [{ state_json: string }[]]
+
+      const { state, expiresAt, result } = apply(rows.length > 0 ? JSON.parse(rows[0].state_json) : null)
+
+      await tx.execute(
+        `INSERT INTO rate_limits (key, state_json, expires_at) VALUES (?, ?, ?)
+         ON CONFLICT(key) DO UPDATE SET state_json = excluded.state_json, expires_at = excluded.expires_at`,
+        [key, JSON.stringify(state), expiresAt]
+      )
+
+      return result
+    })
+  }
+
+  async purgeExpired(now: number): Promise<void> {
+    await database.execute('DELETE FROM rate_limits WHERE expires_at <= ?', [now])
+  }
+}
+
+/**
+ * Rate limits for the authentication and emergency endpoints
+ */
+export const RATE_LIMIT_POLICIES = {
+  OTP_GENERATE: { type: 'SLIDING_WINDOW', limit: 5, windowSeconds: 15 * 60 },
+  LOGIN: { type: 'SLIDING_WINDOW', limit: 10, windowSeconds: 15 * 60 },
+  EMERGENCY_REQUEST: { type: 'TOKEN_BUCKET', capacity: 3, refillTokens: 1, refillIntervalSeconds: 20 * 60 }
+} satisfies Record<string, RateLimitPolicy>
+
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES
+
+/**
+ * Limits on each identifier across every client IP, so a client that
+ * changes address cannot keep guessing at one account
+ */
+export const IDENTIFIER_RATE_LIMIT_POLICIES = {
+  OTP_GENERATE: { type: 'SLIDING_WINDOW', limit: 10, windowSeconds: 60 * 60 },
+  LOGIN: { type: 'SLIDING_WINDOW', limit: 30, windowSeconds: 60 * 60 },
+  EMERGENCY_REQUEST: { type: 'TOKEN_BUCKET', capacity: 6, refillTokens: 1, refillIntervalSeconds: 20 * 60 }
+} satisfies Record<RateLimitPolicyName, RateLimitPolicy>
+
+export class RateLimiter {
+  private static store: RateLimitStore = process.env.RATE_LIMIT_STORE === 'memory'
+    ? new MemoryRateLimitStore()
+    : new SQLiteRateLimitStore()
+
+  /**
+   * Replace the backing store, e.g. with a MemoryRateLimitStore in tests
+   */
+  static useStore(store: RateLimitStore): void {
+    this.store = store
+  }
+
+  /**
+   * Count a request against a policy. Requests are limited per identifier
+   * and client IP, so one client cannot exhaust the limit for an identifier
+   * everywhere, and by a looser limit per identifier across all IPs.
+   */
+  static async consume(
+    policyName: RateLimitPolicyName,
+    identifier: string,
+    ipAddress: string | null
+  ): Promise<RateLimitResult> {
+    const normalized = identifier.trim().toLowerCase()
+
+    const perClient = await this.apply(RATE_LIMIT_POLICIES[policyName], `${policyName}:${normalized}:${ipAddress || 'unknown'}`)
+    if (!perClient.allowed) {
+      return perClient
+    }
+
+    const perIdentifier = await this.apply(IDENTIFIER_RATE_LIMIT_POLICIES[policyName], `${policyName}:${normalized}`)
+    return perIdentifier.allowed && perClient.remaining < perIdentifier.remaining ? perClient : perIdentifier
+  }
+
+  /**
+   * Remove state that no longer affects any limit
+   */
+  static async purgeExpired(): Promise<void> {
+    try {
+      await this.store.purgeExpired(Date.now())
+    } catch (error) {
+      console.error('Rate limit purge error:', error)
+    }
+  }
+
+  private static apply(policy: RateLimitPolicy, key: string): Promise<RateLimitResult> {
+    const now = Date.now()
+
+    return policy.type === 'SLIDING_WINDOW'
+      ? this.store.update<number[]>(key, (state) => this.slidingWindow(policy, state, now))
+      : this.store.update<{ tokens: number; updatedAt: number }>(key, (state) => this.tokenBucket(policy, state, now))
+  }
+
+  /**
+   * Allow at most `limit` requests in any `windowSeconds` period. State is
+   * the timestamps of the requests still inside the window.
+   */
+  private static slidingWindow(
+    policy: Extract<RateLimitPolicy, { type: 'SLIDING_WINDOW' }>,
+    state: number[] | null,
+    now: number
+  ) {
+    const windowMs = policy.windowSeconds * 1000
+    const hits = (state || []).filter(timestamp => timestamp > now - windowMs)
+
+    if (hits.length >= policy.limit) {
+      return {
+        state: hits,
+        expiresAt: hits[hits.length - 1] + windowMs,
+        result: {
+          allowed: false,
+          limit: policy.limit,
+          remaining: 0,
+          retryAfterSeconds: Math.max(1, Math.ceil((hits[0] + windowMs - now) / 1000))
+        }
+      }
+    }
+
+    hits.push(now)
+    return {
+      state: hits,
+      expiresAt: now + windowMs,
+      result: {
+        allowed: true,
+        limit: policy.limit,
+        remaining: policy.limit - hits.length,
+        retryAfterSeconds: 0
+      }
+    }
+  }
+
+  /**
+   * Allow bursts of up to `capacity` requests, refilled by `refillTokens`
+   * every `refillIntervalSeconds`
+   */
+  private static tokenBucket(
+    policy: Extract<RateLimitPolicy, { type: 'TOKEN_BUCKET' }>,
+    state: { tokens: number; updatedAt: number } | null,
+    now: number
+  ) {
+    const intervalMs = policy.refillIntervalSeconds * 1000
+    const elapsed = state ? now - state.updatedAt : 0
+    const tokens = state
+      ? Math.min(policy.capacity, state.tokens + (elapsed / intervalMs) * policy.refillTokens)
+      : policy.capacity
+
+    // Time until the bucket would be full again, after which the state is irrelevant
+    const expiresAfter = (remainingTokens: number) =>
+      now + Math.ceil(((policy.capacity - remainingTokens) / policy.refillTokens) * intervalMs)
+
+    if (tokens < 1) {
+      return {
+        state: { tokens, updatedAt: now },
+        expiresAt: expiresAfter(tokens),
+        result: {
+          allowed: false,
+          limit: policy.capacity,
+          remaining: 0,
+          retryAfterSeconds: Math.max(1, Math.ceil(((1 - tokens) / policy.refillTokens) * policy.refillIntervalSeconds))
+        }
+      }
+    }
+
+    return {
+      state: { tokens: tokens - 1, updatedAt: now },
+      expiresAt: expiresAfter(tokens - 1),
+      result: {
+        allowed: true,
+        limit: policy.capacity,
+        remaining: Math.floor(tokens - 1),
+        retryAfterSeconds: 0
+      }
+    }
+  }
+}
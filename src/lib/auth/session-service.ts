@@ -1,5 +1,11 @@
+import { createHash, randomBytes } from 'crypto'
 import jwt from 'jsonwebtoken'
-import { database } from '../database'
+import { v4 as uuidv4 } from 'uuid'
+import { database, WriteResult } from '../database'
+import { AuditService } from '../services/audit-service'
+import type { EmergencyDataCategory } from '../services/emergency-policy-service'
+import { NotificationService } from '../services/notification-service'
+import { newDeviceLoginNotification } from '../services/notification-templates'
 
 export interface SessionData {
   userId: string
@@ -7,6 +13,7 @@ export interface SessionData {
   name: string
   mobile: string
   email: string
+  jti?: string // Server-side session id, present on regular sessions
 }
 
 export interface EmergencySessionData extends SessionData {
@@ -14,30 +21,78 @@ export interface EmergencySessionData extends SessionData {
   patientUserId: string
   reason: string
   expiresAt: Date
+  dataCategories?: EmergencyDataCategory[] // Missing grants no category
 }
 
 export interface SessionResult {
   success: boolean
   message: string
   token?: string
+  expiresIn?: number // Access token lifetime in seconds
+  refreshToken?: string
+  refreshTokenExpiresAt?: Date
   sessionData?: SessionData | EmergencySessionData
 }
 
+export interface SessionDeviceInfo {
+  userAgent?: string | null
+  ipAddress?: string | null
+}
+
+export interface UserSession {
+  id: string
+  deviceName: string
+  userAgent: string | null
+  ipAddress: string | null
+  createdAt: string
+  lastSeenAt: string
+  expiresAt: string
+}
+
+// A refresh token joined with its session and user
+interface RefreshTokenRow {
+  id: string
+  session_id: string
+  expires_at: string
+  used_at: string | null
+  revoked_at: string | null
+  device_name: string | null
+  user_id: string
+  role: string
+  name: string
+  mobile: string
+  email: string
+}
+
+interface UserSessionRow {
+  id: string
+  device_name: string | null
+  user_agent: string | null
+  ip_address: string | null
+  created_at: string
+  last_seen_at: string
+  expires_at: string
+}
+
 export class SessionService {
   private static readonly JWT_SECRET = process.env.JWT_SECRET || 'fallback-secret-key'
-  private static readonly REGULAR_SESSION_HOURS = 24
+  private static readonly ACCESS_TOKEN_MINUTES = 15
+  private static readonly REFRESH_TOKEN_DAYS = 7
   private static readonly EMERGENCY_SESSION_MINUTES = 10
+  private static readonly LAST_SEEN_INTERVAL_SECONDS = 60
 
   /**
-   * Create a regular user session
+   * Create a regular user session, recorded against the signing-in device.
+   * Returns a short-lived access token and the first refresh token of the
+   * session's token family.
    */
-  static async createSession(userId: string): Promise<SessionResult> {
+  static async createSession(userId: string, device: SessionDeviceInfo = {}): Promise<SessionResult> {
     try {
       // Get user details
       const [users] = await database.execute(
         'SELECT id, role, name, mobile, email FROM users WHERE id = ?',
         [userId]
-      ) as any
+      ) as [{ id: string; role: string; name: string; mobile: string; email: string }[]]
 
       if (!users || users.length === 0) {
         return {
@@ -56,27 +111,49 @@ export class SessionService {
         email: user.email
       }
 
-      // Create JWT token
-      const token = jwt.sign(
-        {
-          ...sessionData,
-          type: 'regular',
-          iat: Math.floor(Date.now() / 1000),
-          exp: Math.floor(Date.now() / 1000) + (this.REGULAR_SESSION_HOURS * 60 * 60)
-        },
-        this.JWT_SECRET
-      )
-
-      // Log session creation
-      await this.logAuditEvent(userId, 'SESSION_CREATED', {
-        sessionType: 'regular',
-        expiresIn: `${this.REGULAR_SESSION_HOURS} hours`
+      const jti = uuidv4()
+      const userAgent = device.userAgent?.slice(0, 512) || null
+      const deviceName = this.describeDevice(userAgent)
+
+      // A first-ever sign-in is not news; one from a browser the user has never used is
+      const [knownDevices] = await database.execute(
+        'SELECT COUNT(*) AS sessions, SUM(CASE WHEN user_agent IS ? THEN 1 ELSE 0 END) AS same_device FROM sessions WHERE user_id = ?',
+        [userAgent, user.id]
+      ) as [{ sessions: number; same_device: number | null }[]]
+      const newDevice = Number(knownDevices[0].sessions) > 0 && !Number(knownDevices[0].same_device)
+
+      const refresh = await database.transaction(async (tx) => {
+        const now = new Date().toISOString()
+        await tx.execute(
+          'INSERT INTO sessions (id, user_id, user_agent, ip_address, device_name, created_at, last_seen_at, expires_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+          [jti, user.id, userAgent, device.ipAddress || null, deviceName, now, now, now]
+        )
+
+        const issued = await this.issueRefreshToken(jti)
+
+        // Log session creation
+        await AuditService.logEvent(user.id, user.role, 'SESSION_CREATED', {
+          sessionType: 'regular',
+          sessionId: jti,
+          deviceName,
+          ipAddress: device.ipAddress || null,
+          expiresIn: `${this.REFRESH_TOKEN_DAYS} days`
+        })
+
+        return issued
       })
 
+      if (newDevice) {
+        await this.sendNewDeviceAlert(user.id, jti, deviceName, device.ipAddress || null)
+      }
+
       return {
         success: true,
         message: 'Session created successfully',
-        token,
+        token: this.signAccessToken(sessionData, jti),
+        expiresIn: this.ACCESS_TOKEN_MINUTES * 60,
+        refreshToken: refresh.token,
+        refreshTokenExpiresAt: refresh.expiresAt,
         sessionData
       }
 
@@ -89,6 +166,99 @@ export class SessionService {
     }
   }
 
+  /**
+   * Exchange a refresh token for a new access token and refresh token. Each
+   * refresh token works once; presenting a used one again revokes the whole
+   * session, since either the client or an attacker holds a stolen copy.
+   */
+  static async refreshSession(refreshToken: string): Promise<SessionResult> {
+    try {
+      return await database.transaction(async (tx): Promise<SessionResult> => {
+        const [tokens] = await tx.execute(
+          `SELECT rt.id, rt.session_id, rt.expires_at, rt.used_at, s.revoked_at, s.device_name,
+                  u.id as user_id, u.role, u.name, u.mobile, u.email
+           FROM refresh_tokens rt
+           JOIN sessions s ON rt.session_id = s.id
+           JOIN users u ON s.user_id = u.id
+           WHERE rt.token_hash = ?`,
+          [this.hashToken(refreshToken)]
+        ) as [RefreshTokenRow[]]
+
+        if (!tokens || tokens.length === 0) {
+          return {
+            success: false,
+            message: 'Invalid refresh token'
+          }
+        }
+
+        const stored = tokens[0]
+        const now = new Date().toISOString()
+
+        if (stored.revoked_at) {
+          return {
+            success: false,
+            message: 'Session has been revoked'
+          }
+        }
+
+        if (stored.used_at) {
+          await tx.execute(
+            'UPDATE sessions SET revoked_at = ? WHERE id = ?',
+            [now, stored.session_id]
+          )
+
+          await AuditService.logEvent(stored.user_id, stored.role, 'REFRESH_TOKEN_REUSED', {
+            sessionId: stored.session_id,
+            deviceName: stored.device_name
+          })
+
+          return {
+            success: false,
+            message: 'Refresh token has already been used'
+          }
+        }
+
+        if (new Date(stored.expires_at) <= new Date()) {
+          return {
+            success: false,
+            message: 'Refresh token has expired'
+          }
+        }
+
+        await tx.execute(
+          'UPDATE refresh_tokens SET used_at = ? WHERE id = ?',
+          [now, stored.id]
+        )
+
+        const refresh = await this.issueRefreshToken(stored.session_id)
+
+        const sessionData: SessionData = {
+          userId: stored.user_id,
+          role: stored.role,
+          name: stored.name,
+          mobile: stored.mobile,
+          email: stored.email
+        }
+
+        return {
+          success: true,
+          message: 'Session refreshed successfully',
+          token: this.signAccessToken(sessionData, stored.session_id),
+          expiresIn: this.ACCESS_TOKEN_MINUTES * 60,
+          refreshToken: refresh.token,
+          refreshTokenExpiresAt: refresh.expiresAt,
+          sessionData
+        }
+      })
+    } catch (error) {
+      console.error('Session refresh error:', error)
+      return {
+        success: false,
+        message: 'Failed to refresh session'
+      }
+    }
+  }
+
   /**
    * Create an emergency access session for doctors
    */
@@ -97,7 +267,8 @@ export class SessionService {
     patientUserId: string,
     method: 'OTP' | 'FINGERPRINT' | 'IRIS',
     reason: string,
-    hospitalName?: string
+    hospitalName?: string,
+    options: { durationMinutes?: number; dataCategories?: EmergencyDataCategory[]; hospitalId?: string | null } = {}
   ): Promise<SessionResult> {
     try {
       // Get doctor details
@@ -131,15 +302,15 @@ export class SessionService {
 
       // Calculate expiry time
       const expiresAt = new Date()
-      expiresAt.setMinutes(expiresAt.getMinutes() + this.EMERGENCY_SESSION_MINUTES)
+      expiresAt.setMinutes(expiresAt.getMinutes() + (options.durationMinutes ?? this.EMERGENCY_SESSION_MINUTES))
 
-      // Create emergency session record
-      const [sessionResult] = await database.execute(
-        'INSERT INTO emergency_sessions (doctor_user_id, patient_user_id, method, reason, hospital_name, expires_at) VALUES (?, ?, ?, ?, ?, ?)',
-        [doctorUserId, patientUserId, method, reason, hospitalName, expiresAt]
-      ) as any
+      const sessionId = uuidv4()
 
-      const sessionId = sessionResult.insertId
+      // Create emergency session record
+      await database.execute(
+        'INSERT INTO emergency_sessions (id, doctor_user_id, patient_user_id, method, reason, hospital_id, hospital_name, expires_at, data_categories_json) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [sessionId, doctorUserId, patientUserId, method, reason, options.hospitalId ?? null, hospitalName || null, expiresAt.toISOString(), options.dataCategories ? JSON.stringify(options.dataCategories) : null]
+      )
 
       const emergencySessionData: EmergencySessionData = {
         userId: doctor.id,
@@ -147,10 +318,11 @@ export class SessionService {
         name: doctor.name,
         mobile: doctor.mobile,
         email: doctor.email,
-        sessionId: sessionId.toString(),
+        sessionId,
         patientUserId,
         reason,
-        expiresAt
+        expiresAt,
+        ...(options.dataCategories ? { dataCategories: options.dataCategories } : {})
       }
 
       // Create JWT token for emergency session
@@ -166,12 +338,13 @@ export class SessionService {
 
       // Log emergency session creation
       await this.logAuditEvent(doctorUserId, 'EMERGENCY_SESSION_CREATED', {
-        sessionId: sessionId.toString(),
+        sessionId,
         patientUserId,
         patientName: patient.name,
         reason,
         method,
         hospitalName,
+        dataCategories: options.dataCategories,
         expiresAt: expiresAt.toISOString()
       }, patientUserId)
 
@@ -200,10 +373,18 @@ export class SessionService {
     try {
       const decoded = jwt.verify(token, this.JWT_SECRET) as any
 
+      // Challenge tokens only prove the first sign-in factor
+      if (decoded.type === 'totp_challenge') {
+        return {
+          success: false,
+          message: 'Sign-in is not complete'
+        }
+      }
+
       // Check if emergency session is still active
       if (decoded.type === 'emergency') {
         const [sessions] = await database.execute(
-          'SELECT status, expires_at FROM emergency_sessions WHERE id = ?',
+          'SELECT status, expires_at, data_categories_json FROM emergency_sessions WHERE id = ?',
           [decoded.sessionId]
         ) as any
 
@@ -228,6 +409,32 @@ export class SessionService {
             message: 'Emergency session has expired'
           }
         }
+
+        // The categories recorded with the session are authoritative; a
+        // session without any only sees critical information
+        decoded.dataCategories = session.data_categories_json ? JSON.parse(session.data_categories_json) : []
+      } else {
+        // Any other token, including one without a type, must be a regular
+        // session whose server-side record is unrevoked
+        const [sessions] = await database.execute(
+          'SELECT revoked_at, last_seen_at FROM sessions WHERE id = ? AND user_id = ?',
+          [decoded.jti || null, decoded.userId]
+        ) as [{ revoked_at: string | null; last_seen_at: string }[]]
+
+        if (!sessions || sessions.length === 0 || sessions[0].revoked_at) {
+          return {
+            success: false,
+            message: 'Session has been revoked'
+          }
+        }
+
+        const lastSeenAt = new Date(sessions[0].last_seen_at).getTime()
+        if (isNaN(lastSeenAt) || Date.now() - lastSeenAt > this.LAST_SEEN_INTERVAL_SECONDS * 1000) {
+          await database.execute(
+            'UPDATE sessions SET last_seen_at = ? WHERE id = ?',
+            [new Date().toISOString(), decoded.jti]
+          )
+        }
       }
 
       return {
@@ -259,18 +466,85 @@ export class SessionService {
     }
   }
 
+  /**
+   * List a user's signed-in devices, most recently active first
+   */
+  static async getActiveSessions(userId: string): Promise<UserSession[]> {
+    try {
+      const [sessions] = await database.execute(
+        `SELECT id, device_name, user_agent, ip_address, created_at, last_seen_at, expires_at
+         FROM sessions
+         WHERE user_id = ? AND revoked_at IS NULL AND datetime(expires_at) > datetime(?)
+         ORDER BY datetime(last_seen_at) DESC`,
+        [userId, new Date().toISOString()]
+      ) as [UserSessionRow[]]
+
+      return sessions.map(session => ({
+        id: session.id,
+        deviceName: session.device_name || 'Unknown device',
+        userAgent: session.user_agent,
+        ipAddress: session.ip_address,
+        createdAt: session.created_at,
+        lastSeenAt: session.last_seen_at,
+        expiresAt: session.expires_at
+      }))
+    } catch (error) {
+      console.error('Get active sessions error:', error)
+      return []
+    }
+  }
+
+  /**
+   * Sign a user out of one of their sessions. Logging out of the current
+   * session is audited as LOGOUT, signing out another device as SESSION_REVOKED.
+   */
+  static async revokeSession(
+    sessionId: string,
+    user: Pick<SessionData, 'userId' | 'role'>,
+    actionType: 'LOGOUT' | 'SESSION_REVOKED' = 'SESSION_REVOKED'
+  ): Promise<boolean> {
+    try {
+      return await database.transaction(async (tx) => {
+        const [sessions] = await tx.execute(
+          'SELECT device_name FROM sessions WHERE id = ? AND user_id = ? AND revoked_at IS NULL',
+          [sessionId, user.userId]
+        ) as [{ device_name: string | null }[]]
+
+        if (!sessions || sessions.length === 0) {
+          return false
+        }
+
+        await tx.execute(
+          'UPDATE sessions SET revoked_at = ? WHERE id = ?',
+          [new Date().toISOString(), sessionId]
+        )
+
+        await AuditService.logEvent(user.userId, user.role, actionType, {
+          sessionId,
+          deviceName: sessions[0].device_name
+        })
+        return true
+      })
+    } catch (error) {
+      console.error('Session revocation error:', error)
+      return false
+    }
+  }
+
   /**
    * Revoke an emergency session
    */
   static async revokeEmergencySession(sessionId: string): Promise<boolean> {
     try {
-      await database.execute(
-        'UPDATE emergency_sessions SET status = ? WHERE id = ?',
-        ['REVOKED', sessionId]
-      )
-
-      await this.logAuditEvent(null, 'EMERGENCY_SESSION_REVOKED', {
-        sessionId
+      await database.transaction(async (tx) => {
+        await tx.execute(
+          'UPDATE emergency_sessions SET status = ? WHERE id = ?',
+          ['REVOKED', sessionId]
+        )
+
+        await this.logAuditEvent(null, 'EMERGENCY_SESSION_REVOKED', {
+          sessionId
+        })
       })
 
       return true
@@ -294,6 +568,129 @@ export class SessionService {
     }
   }
 
+  /**
+   * Delete session records, and their refresh tokens, once the session can
+   * no longer be refreshed
+   */
+  static async purgeExpiredUserSessions(): Promise<void> {
+    try {
+      const result = await database.transaction(async (tx) => {
+        const now = new Date().toISOString()
+        await tx.execute(
+          'DELETE FROM refresh_tokens WHERE session_id IN (SELECT id FROM sessions WHERE datetime(expires_at) < datetime(?))',
+          [now]
+        )
+
+        const [deleted] = await tx.execute(
+          'DELETE FROM sessions WHERE datetime(expires_at) < datetime(?)',
+          [now]
+        ) as [WriteResult]
+        return deleted
+      })
+
+      if (result.affectedRows > 0) {
+        console.log(`🧹 Removed ${result.affectedRows} expired user sessions`)
+      }
+    } catch (error) {
+      console.error('Purge expired user sessions error:', error)
+    }
+  }
+
+  /**
+   * Sign an access token for a regular session
+   */
+  private static signAccessToken(sessionData: SessionData, jti: string): string {
+    return jwt.sign(
+      {
+        ...sessionData,
+        jti,
+        type: 'regular',
+        iat: Math.floor(Date.now() / 1000),
+        exp: Math.floor(Date.now() / 1000) + (this.ACCESS_TOKEN_MINUTES * 60)
+      },
+      this.JWT_SECRET
+    )
+  }
+
+  /**
+   * Add a refresh token to a session's family and extend the session to
+   * the new token's expiry. Only the token's hash is stored.
+   */
+  private static async issueRefreshToken(sessionId: string): Promise<{ token: string; expiresAt: Date }> {
+    const token = randomBytes(32).toString('base64url')
+    const expiresAt = new Date(Date.now() + this.REFRESH_TOKEN_DAYS * 24 * 60 * 60 * 1000)
+
+    await database.execute(
+      'INSERT INTO refresh_tokens (session_id, token_hash, expires_at) VALUES (?, ?, ?)',
+      [sessionId, this.hashToken(token), expiresAt.toISOString()]
+    )
+
+    await database.execute(
+      'UPDATE sessions SET expires_at = ?, last_seen_at = ? WHERE id = ?',
+      [expiresAt.toISOString(), new Date().toISOString(), sessionId]
+    )
+
+    return { token, expiresAt }
+  }
+
+  /**
+   * Refresh tokens are looked up by their SHA-256 hash
+   */
+  private static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex')
+  }
+
+  /**
+   * Tell the user, on their preferred channel, about a sign-in from a new device
+   */
+  private static async sendNewDeviceAlert(userId: string, sessionId: string, deviceName: string, ipAddress: string | null): Promise<void> {
+    try {
+      const notification = await NotificationService.notifyUser(
+        userId,
+        newDeviceLoginNotification({ deviceName, ipAddress, signedInAt: new Date() }),
+        { idempotencyKey: `new-device:${sessionId}` }
+      )
+
+      if (notification && notification.status !== 'SENT') {
+        console.error('New device alert failed:', notification.lastError)
+      }
+    } catch (error) {
+      console.error('New device alert error:', error)
+    }
+  }
+
+  /**
+   * Short device label, e.g. "Chrome on Android", from a user agent
+   */
+  private static describeDevice(userAgent: string | null): string {
+    if (!userAgent) {
+      return 'Unknown device'
+    }
+
+    const browsers: [RegExp, string][] = [
+      [/Edg\//, 'Edge'],
+      [/OPR\/|Opera/, 'Opera'],
+      [/Chrome\//, 'Chrome'],
+      [/Firefox\//, 'Firefox'],
+      [/Safari\//, 'Safari']
+    ]
+    const platforms: [RegExp, string][] = [
+      [/Android/, 'Android'],
+      [/iPhone|iPad|iPod/, 'iOS'],
+      [/Windows/, 'Windows'],
+      [/Mac OS X|Macintosh/, 'macOS'],
+      [/Linux/, 'Linux']
+    ]
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1]
+    const platform = platforms.find(([pattern]) => pattern.test(userAgent))?.[1]
+
+    if (browser && platform) {
+      return `${browser} on ${platform}`
+    }
+    return browser || platform || userAgent.slice(0, 40)
+  }
+
   /**
    * Log audit events
    */
@@ -0,0 +1,476 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import jwt from 'jsonwebtoken'
+import { v4 as uuidv4 } from 'uuid'
+import { database, WriteResult } from '../database'
+import { AuditService } from '../services/audit-service'
+import { HospitalService } from '../services/hospital-service'
+import { AccountLockoutService } from './lockout-service'
+
+export const TOTP_ROLES = ['DOCTOR', 'OPERATOR']
+
+export interface TotpResult {
+  success: boolean
+  message: string
+  secret?: string // base32, for manual entry
+  otpauthUri?: string // otpauth:// provisioning URI, rendered as a QR code by the client
+  recoveryCodes?: string[] // Shown once, when the authenticator is activated
+}
+
+export interface TotpStatus {
+  enabled: boolean
+  required: boolean // Enabled by the user or required by their hospital
+  requiredByHospital: boolean
+  recoveryCodesRemaining: number
+}
+
+/**
+ * RFC 6238 time-based one-time passwords from an authenticator app, used as
+ * a second factor for doctors and operators
+ */
+export class TotpService {
+  private static readonly ISSUER = 'E-Patient Connect'
+  private static readonly DIGITS = 6
+  private static readonly PERIOD_SECONDS = 30
+  private static readonly ALLOWED_DRIFT_STEPS = 1 // Accept the previous and next code for clock skew
+  private static readonly RECOVERY_CODE_COUNT = 10
+  private static readonly CHALLENGE_MINUTES = 5
+  private static readonly BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+  /**
+   * Throw when the challenge signing secret is missing, so the server
+   * refuses to start instead of failing on the first sign-in
+   */
+  static checkConfiguration(): void {
+    this.challengeSecret()
+  }
+
+  /**
+   * Start enrolling an authenticator app. The secret only takes effect once
+   * activate() confirms a code generated from it.
+   */
+  static async startEnrollment(userId: string): Promise<TotpResult> {
+    try {
+      const user = await this.getStaffUser(userId)
+      if (!user) {
+        return {
+          success: false,
+          message: 'Authenticator apps are only available for doctors and operators'
+        }
+      }
+
+      if (await this.getEnabledSecret(userId)) {
+        return {
+          success: false,
+          message: 'Authenticator app is already set up'
+        }
+      }
+
+      const secret = this.base32Encode(randomBytes(20))
+
+      // Replaces an earlier setup that was never confirmed
+      await database.transaction(async (tx) => {
+        await tx.execute('DELETE FROM user_totp WHERE user_id = ?', [userId])
+        await tx.execute(
+          'INSERT INTO user_totp (user_id, secret, created_at) VALUES (?, ?, ?)',
+          [userId, secret, new Date().toISOString()]
+        )
+      })
+
+      const label = encodeURIComponent(`${this.ISSUER}:${user.email || user.mobile}`)
+      const otpauthUri = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(this.ISSUER)}` +
+        `&algorithm=SHA1&digits=${this.DIGITS}&period=${this.PERIOD_SECONDS}`
+
+      return {
+        success: true,
+        message: 'Scan the QR code with your authenticator app, then confirm a code to finish',
+        secret,
+        otpauthUri
+      }
+
+    } catch (error) {
+      console.error('TOTP enrollment error:', error)
+      return {
+        success: false,
+        message: 'Failed to start authenticator setup'
+      }
+    }
+  }
+
+  /**
+   * Confirm enrollment with a code from the app, and issue recovery codes
+   */
+  static async activate(userId: string, code: string): Promise<TotpResult> {
+    try {
+      return await database.transaction(async (tx): Promise<TotpResult> => {
+        const [rows] = await tx.execute(
+          'SELECT secret, enabled_at FROM user_totp WHERE user_id = ?',
+          [userId]
+        ) as [{ secret: string; enabled_at: string | null }[]]
+
+        if (!rows?.length || rows[0].enabled_at) {
+          return {
+            success: false,
+            message: rows?.length ? 'Authenticator app is already set up' : 'Start authenticator setup first'
+          }
+        }
+
+        const step = this.matchCode(rows[0].secret, code, null)
+        if (step === null) {
+          return {
+            success: false,
+            message: 'Invalid authenticator code'
+          }
+        }
+
+        const now = new Date().toISOString()
+        await tx.execute(
+          'UPDATE user_totp SET enabled_at = ?, last_used_step = ? WHERE user_id = ?',
+          [now, step, userId]
+        )
+
+        const recoveryCodes = await this.replaceRecoveryCodes(userId, now)
+
+        await this.logEvent(userId, 'TOTP_ENABLED', {
+          recoveryCodes: recoveryCodes.length
+        })
+
+        return {
+          success: true,
+          message: 'Authenticator app set up. Store your recovery codes somewhere safe.',
+          recoveryCodes
+        }
+      })
+
+    } catch (error) {
+      console.error('TOTP activation error:', error)
+      return {
+        success: false,
+        message: 'Failed to set up authenticator app'
+      }
+    }
+  }
+
+  /**
+   * Verify a code from the user's authenticator app, or one of their
+   * recovery codes. Failures count towards the account lockout shared with
+   * SMS OTPs, and each code is accepted only once.
+   */
+  static async verifyCode(userId: string, code: string): Promise<TotpResult> {
+    try {
+      const lockout = await AccountLockoutService.getActiveLockout(userId)
+      if (lockout) {
+        return {
+          success: false,
+          message: AccountLockoutService.lockoutMessage(lockout)
+        }
+      }
+
+      const totp = await this.getEnabledSecret(userId)
+      if (!totp) {
+        return {
+          success: false,
+          message: 'Authenticator app is not set up'
+        }
+      }
+
+      const normalized = (code || '').replace(/[\s-]/g, '').toLowerCase()
+
+      if (normalized.length === this.DIGITS) {
+        const step = this.matchCode(totp.secret, normalized, totp.lastUsedStep)
+
+        // Guarding on the stored step makes a concurrent replay of the same code fail
+        if (step !== null) {
+          const [result] = await database.execute(
+            'UPDATE user_totp SET last_used_step = ? WHERE user_id = ? AND (last_used_step IS NULL OR last_used_step < ?)',
+            [step, userId, step]
+          ) as [WriteResult]
+
+          if (result.affectedRows > 0) {
+            return {
+              success: true,
+              message: 'Authenticator code verified'
+            }
+          }
+        }
+      } else if (normalized) {
+        const [result] = await database.execute(
+          'UPDATE totp_recovery_codes SET used_at = ? WHERE user_id = ? AND code_hash = ? AND used_at IS NULL',
+          [new Date().toISOString(), userId, this.hashRecoveryCode(normalized)]
+        ) as [WriteResult]
+
+        if (result.affectedRows > 0) {
+          const remaining = await this.countRecoveryCodes(userId)
+          await this.logEvent(userId, 'TOTP_RECOVERY_CODE_USED', {
+            recoveryCodesRemaining: remaining
+          })
+
+          return {
+            success: true,
+            message: `Recovery code accepted. ${remaining} recovery codes remaining.`
+          }
+        }
+      }
+
+      await this.logEvent(userId, 'TOTP_VERIFICATION_FAILED', {})
+
+      const triggered = await AccountLockoutService.recordFailedVerification(userId, 'TOTP')
+      if (triggered) {
+        await AccountLockoutService.sendLockoutAlert(triggered)
+        return {
+          success: false,
+          message: AccountLockoutService.lockoutMessage(triggered)
+        }
+      }
+
+      return {
+        success: false,
+        message: 'Invalid authenticator code'
+      }
+
+    } catch (error) {
+      console.error('TOTP verification error:', error)
+      return {
+        success: false,
+        message: 'Failed to verify authenticator code'
+      }
+    }
+  }
+
+  /**
+   * The second factor for opening an emergency session. Asked for on every
+   * request, whichever factor the doctor signed in with.
+   */
+  static async verifyEmergencyCode(userId: string, code: string | undefined): Promise<TotpResult> {
+    if (!code) {
+      return {
+        success: false,
+        message: 'An authenticator code is required for emergency access'
+      }
+    }
+
+    const result = await this.verifyCode(userId, code)
+    if (!result.success && result.message === 'Authenticator app is not set up') {
+      return {
+        success: false,
+        message: 'Set up an authenticator app before requesting emergency access'
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Remove the user's authenticator app after checking a current code.
+   * Not allowed while their hospital requires one.
+   */
+  static async disable(userId: string, code: string): Promise<TotpResult> {
+    const status = await this.getStatus(userId)
+    if (status.requiredByHospital) {
+      return {
+        success: false,
+        message: 'Your hospital requires an authenticator app'
+      }
+    }
+
+    const verification = await this.verifyCode(userId, code)
+    if (!verification.success) {
+      return verification
+    }
+
+    await database.transaction(async (tx) => {
+      await tx.execute('DELETE FROM user_totp WHERE user_id = ?', [userId])
+      await tx.execute('DELETE FROM totp_recovery_codes WHERE user_id = ?', [userId])
+
+      await this.logEvent(userId, 'TOTP_DISABLED', {})
+    })
+
+    return {
+      success: true,
+      message: 'Authenticator app removed'
+    }
+  }
+
+  /**
+   * Whether the user has an authenticator app and whether they need one
+   */
+  static async getStatus(userId: string): Promise<TotpStatus> {
+    const user = await this.getStaffUser(userId)
+    if (!user) {
+      return { enabled: false, required: false, requiredByHospital: false, recoveryCodesRemaining: 0 }
+    }
+
+    const enabled = (await this.getEnabledSecret(userId)) !== null
+    const tenant = await HospitalService.getUserTenant(userId)
+    const requiredByHospital = tenant?.requireTotp === true
+
+    return {
+      enabled,
+      required: enabled || requiredByHospital,
+      requiredByHospital,
+      recoveryCodesRemaining: enabled ? await this.countRecoveryCodes(userId) : 0
+    }
+  }
+
+  /**
+   * Short-lived token proving the first factor passed, exchanged for a
+   * session once the authenticator step succeeds. SessionService rejects it
+   * as a session token.
+   */
+  static createChallenge(userId: string): string {
+    return jwt.sign(
+      { sub: userId, type: 'totp_challenge' },
+      this.challengeSecret(),
+      { expiresIn: `${this.CHALLENGE_MINUTES}m` }
+    )
+  }
+
+  /**
+   * The user a sign-in challenge was issued for, or null if it is invalid or expired
+   */
+  static verifyChallenge(challengeToken: string): string | null {
+    try {
+      const decoded = jwt.verify(challengeToken, this.challengeSecret()) as jwt.JwtPayload
+      return decoded.type === 'totp_challenge' && typeof decoded.sub === 'string' ? decoded.sub : null
+    } catch {
+      return null
+    }
+  }
+
+  private static challengeSecret(): string {
+    const secret = process.env.JWT_SECRET
+    if (!secret) {
+      throw new Error('JWT_SECRET is not configured')
+    }
+    return secret
+  }
+
+  private static async getStaffUser(userId: string): Promise<{ role: string; mobile: string; email: string } | null> {
+    const [users] = await database.execute(
+      'SELECT role, mobile, email FROM users WHERE id = ?',
+      [userId]
+    ) as [{ role: string; mobile: string; email: string }[]]
+
+    return users?.length && TOTP_ROLES.includes(users[0].role) ? users[0] : null
+  }
+
+  private static async getEnabledSecret(userId: string): Promise<{ secret: string; lastUsedStep: number | null } | null> {
+    const [rows] = await database.execute(
+      'SELECT secret, last_used_step FROM user_totp WHERE user_id = ? AND enabled_at IS NOT NULL',
+      [userId]
+    ) as [{ secret: string; last_used_step: number | null }[]]
+
+    return rows?.length ? { secret: rows[0].secret, lastUsedStep: rows[0].last_used_step } : null
+  }
+
+  private static async logEvent(userId: string, actionType: string, details: Record<string, unknown>): Promise<void> {
+    const user = await this.getStaffUser(userId)
+    await AuditService.logEvent(userId, user?.role || 'SYSTEM', actionType, details)
+  }
+
+  private static async countRecoveryCodes(userId: string): Promise<number> {
+    const [rows] = await database.execute(
+      'SELECT COUNT(*) as count FROM totp_recovery_codes WHERE user_id = ? AND used_at IS NULL',
+      [userId]
+    ) as [{ count: number }[]]
+
+    return rows[0].count
+  }
+
+  private static async replaceRecoveryCodes(userId: string, createdAt: string): Promise<string[]> {
+    await database.execute('DELETE FROM totp_recovery_codes WHERE user_id = ?', [userId])
+
+    const codes: string[] = []
+    for (let i = 0; i < this.RECOVERY_CODE_COUNT; i++) {
+      const code = randomBytes(5).toString('hex')
+      codes.push(`${code.slice(0, 5)}-${code.slice(5)}`)
+
+      await database.execute(
+        'INSERT INTO totp_recovery_codes (id, user_id, code_hash, created_at) VALUES (?, ?, ?, ?)',
+        [uuidv4(), userId, this.hashRecoveryCode(code), createdAt]
+      )
+    }
+
+    return codes
+  }
+
+  private static hashRecoveryCode(code: string): string {
+    return createHash('sha256').update(code).digest('hex')
+  }
+
+  /**
+   * The time step the code belongs to, if it is valid and newer than the
+   * last accepted step
+   */
+  private static matchCode(secret: string, code: string, lastUsedStep: number | null): number | null {
+    if (!new RegExp(`^\\d{${this.DIGITS}}$`).test(code)) {
+      return null
+    }
+
+    const key = this.base32Decode(secret)
+    const currentStep = Math.floor(Date.now() / 1000 / this.PERIOD_SECONDS)
+
+    for (let step = currentStep - this.ALLOWED_DRIFT_STEPS; step <= currentStep + this.ALLOWED_DRIFT_STEPS; step++) {
+      if (lastUsedStep !== null && step <= lastUsedStep) {
+        continue
+      }
+
+      if (timingSafeEqual(Buffer.from(this.generateCode(key, step)), Buffer.from(code))) {
+        return step
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * HOTP (RFC 4226) value for a time step
+   */
+  private static generateCode(key: Buffer, step: number): string {
+    const counter = Buffer.alloc(8)
+    counter.writeBigUInt64BE(BigInt(step))
+
+    const hmac = createHmac('sha1', key).update(counter).digest()
+    const offset = hmac[hmac.length - 1] & 0x0f
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff
+
+    return (binary % 10 ** this.DIGITS).toString().padStart(this.DIGITS, '0')
+  }
+
+  private static base32Encode(data: Buffer): string {
+    let bits = 0
+    let value = 0
+    let output = ''
+
+    for (const byte of data) {
+      value = (value << 8) | byte
+      bits += 8
+      while (bits >= 5) {
+        output += this.BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+        bits -= 5
+      }
+    }
+
+    if (bits > 0) {
+      output += this.BASE32_ALPHABET[(value << (5 - bits)) & 31]
+    }
+
+    return output
+  }
+
+  private static base32Decode(encoded: string): Buffer {
+    let bits = 0
+    let value = 0
+    const bytes: number[] = []
+
+    for (const char of encoded.toUpperCase().replace(/=+$/, '')) {
+      value = (value << 5) | this.BASE32_ALPHABET.indexOf(char)
+      bits += 5
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 255)
+        bits -= 8
+      }
+    }
+
+    return Buffer.from(bytes)
+  }
+}
@@ -130,47 +130,6 @@ export function sanitizeInput(input: string): string {
   return input.trim().toLowerCase()
 }
 
-/**
- * Check rate limiting (basic implementation)
- */
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>()
-
-export function checkRateLimit(identifier: string, maxAttempts: number = 5, windowMinutes: number = 15): boolean {
-  const now = Date.now()
-  const key = sanitizeInput(identifier)
-  
-  const current = rateLimitMap.get(key)
-  
-  if (!current) {
-    rateLimitMap.set(key, { count: 1, resetTime: now + (windowMinutes * 60 * 1000) })
-    return true
-  }
-  
-  if (now > current.resetTime) {
-    rateLimitMap.set(key, { count: 1, resetTime: now + (windowMinutes * 60 * 1000) })
-    return true
-  }
-  
-  if (current.count >= maxAttempts) {
-    return false
-  }
-  
-  current.count++
-  return true
-}
-
-/**
- * Clean up expired rate limit entries
- */
-export function cleanupRateLimit(): void {
-  const now = Date.now()
-  for (const [key, value] of rateLimitMap.entries()) {
-    if (now > value.resetTime) {
-      rateLimitMap.delete(key)
-    }
-  }
-}
-
 /**
  * Log authentication event
  */
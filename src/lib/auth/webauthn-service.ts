@@ -0,0 +1,620 @@
+import { createHash, createPublicKey, JsonWebKey, randomBytes, verify } from 'crypto'
+import { database, WriteResult } from '../database'
+import { AuditService } from '../services/audit-service'
+
+export interface PasskeyRegistrationResponse {
+  id: string
+  rawId: string
+  type: string
+  response: {
+    clientDataJSON: string // base64url
+    attestationObject: string // base64url
+    transports?: string[]
+  }
+}
+
+export interface PasskeyAuthenticationResponse {
+  id: string
+  rawId: string
+  type: string
+  response: {
+    clientDataJSON: string // base64url
+    authenticatorData: string // base64url
+    signature: string // base64url
+    userHandle?: string | null
+  }
+}
+
+export interface Passkey {
+  id: string
+  deviceName: string
+  createdAt: string
+  lastUsedAt: string | null
+}
+
+export interface WebAuthnResult {
+  success: boolean
+  message: string
+  userId?: string
+  options?: Record<string, unknown> // Passed to navigator.credentials.create() / get()
+  passkey?: Passkey
+}
+
+type ChallengePurpose = 'REGISTRATION' | 'AUTHENTICATION'
+
+interface CredentialDescriptorRow {
+  id: string
+  transports_json: string | null
+}
+
+interface AuthenticatorData {
+  rpIdHash: Buffer
+  userPresent: boolean
+  userVerified: boolean
+  signCount: number
+  credentialId?: Buffer
+  credentialPublicKey?: Map<unknown, unknown> // COSE key
+}
+
+/**
+ * Minimal CBOR (RFC 8949) decoder, enough for attestation objects and COSE
+ * keys. Maps decode to Map so integer COSE labels keep their type.
+ */
+function decodeCbor(data: Buffer, offset = 0): { value: unknown; offset: number } {
+  const initial = data.readUInt8(offset++)
+  const major = initial >> 5
+  const info = initial & 0x1f
+
+  let length: number
+  if (info < 24) {
+    length = info
+  } else if (info === 24) {
+    length = data.readUInt8(offset)
+    offset += 1
+  } else if (info === 25) {
+    length = data.readUInt16BE(offset)
+    offset += 2
+  } else if (info === 26) {
+    length = data.readUInt32BE(offset)
+    offset += 4
+  } else {
+    // 64-bit lengths and indefinite-length items never appear in authenticator data
+    throw new Error('Unsupported CBOR item')
+  }
+
+  switch (major) {
+    case 0:
+      return { value: length, offset }
+    case 1:
+      return { value: -1 - length, offset }
+    case 2:
+    case 3: {
+      if (offset + length > data.length) {
+        throw new Error('Truncated CBOR item')
+      }
+      const bytes = data.subarray(offset, offset + length)
+      return { value: major === 2 ? bytes : bytes.toString('utf8'), offset: offset + length }
+    }
+    case 4: {
+      const items: unknown[] = []
+      for (let i = 0; i < length; i++) {
+        const item = decodeCbor(data, offset)
+        items.push(item.value)
+        offset = item.offset
+      }
+      return { value: items, offset }
+    }
+    case 5: {
+      const map = new Map<unknown, unknown>()
+      for (let i = 0; i < length; i++) {
+        const key = decodeCbor(data, offset)
+        const value = decodeCbor(data, key.offset)
+        map.set(key.value, value.value)
+        offset = value.offset
+      }
+      return { value: map, offset }
+    }
+    case 7:
+      if (info === 20 || info === 21) {
+        return { value: info === 21, offset }
+      }
+      if (info === 22) {
+        return { value: null, offset }
+      }
+      throw new Error('Unsupported CBOR simple value')
+    default:
+      throw new Error('Unsupported CBOR item')
+  }
+}
+
+/**
+ * WebAuthn passkeys from platform authenticators (Touch ID, Windows Hello,
+ * Android fingerprint), the real fingerprint sign-in on capable devices
+ */
+export class WebAuthnService {
+  private static readonly RP_ID = process.env.WEBAUTHN_RP_ID || 'localhost'
+  private static readonly RP_NAME = 'E-Patient Connect'
+  // Comma-separated origins the browser may report, e.g. the app's public URL
+  private static readonly ORIGINS = (process.env.WEBAUTHN_ORIGIN || 'http://localhost:3000').split(',').map(origin => origin.trim())
+  private static readonly CHALLENGE_MINUTES = 5
+  private static readonly ES256 = -7
+  private static readonly RS256 = -257
+
+  /**
+   * Options for registering a new passkey on the user's device
+   */
+  static async generateRegistrationOptions(userId: string): Promise<WebAuthnResult> {
+    try {
+      const [users] = await database.execute(
+        'SELECT id, name, mobile, email FROM users WHERE id = ?',
+        [userId]
+      ) as [{ id: string; name: string; mobile: string; email: string | null }[]]
+
+      if (!users || users.length === 0) {
+        return {
+          success: false,
+          message: 'User not found'
+        }
+      }
+
+      const user = users[0]
+      const [credentials] = await database.execute(
+        'SELECT id, transports_json FROM webauthn_credentials WHERE user_id = ?',
+        [userId]
+      ) as [CredentialDescriptorRow[]]
+
+      const challenge = await this.createChallenge(userId, 'REGISTRATION')
+
+      return {
+        success: true,
+        message: 'Passkey registration options created',
+        options: {
+          challenge,
+          rp: { id: this.RP_ID, name: this.RP_NAME },
+          user: {
+            id: Buffer.from(user.id).toString('base64url'),
+            name: user.email || user.mobile,
+            displayName: user.name
+          },
+          pubKeyCredParams: [
+            { type: 'public-key', alg: this.ES256 },
+            { type: 'public-key', alg: this.RS256 }
+          ],
+          authenticatorSelection: {
+            authenticatorAttachment: 'platform',
+            userVerification: 'required',
+            residentKey: 'preferred'
+          },
+          attestation: 'none',
+          timeout: this.CHALLENGE_MINUTES * 60 * 1000,
+          excludeCredentials: credentials.map(credential => ({
+            type: 'public-key',
+            id: credential.id,
+            transports: credential.transports_json ? JSON.parse(credential.transports_json) : undefined
+          }))
+        }
+      }
+
+    } catch (error) {
+      console.error('Passkey registration options error:', error)
+      return {
+        success: false,
+        message: 'Failed to start passkey registration'
+      }
+    }
+  }
+
+  /**
+   * Verify the authenticator's response to the registration options and
+   * store the new credential. Attestation is not requested, so the
+   * authenticator's make and model are not checked.
+   */
+  static async verifyRegistration(
+    userId: string,
+    credential: PasskeyRegistrationResponse,
+    deviceName?: string
+  ): Promise<WebAuthnResult> {
+    try {
+      const clientData = this.parseClientData(credential?.response?.clientDataJSON, 'webauthn.create')
+      if (!clientData) {
+        return {
+          success: false,
+          message: 'Invalid passkey response'
+        }
+      }
+
+      if (!await this.consumeChallenge(userId, 'REGISTRATION', clientData.challenge)) {
+        return {
+          success: false,
+          message: 'Passkey challenge is invalid or expired'
+        }
+      }
+
+      const attestation = decodeCbor(Buffer.from(credential.response.attestationObject, 'base64url')).value
+      const rawAuthData = attestation instanceof Map ? attestation.get('authData') : null
+      const authData = Buffer.isBuffer(rawAuthData) ? this.parseAuthenticatorData(rawAuthData) : null
+
+      if (!authData || !this.checkAuthenticatorData(authData) || !authData.credentialId || !authData.credentialPublicKey) {
+        return {
+          success: false,
+          message: 'Passkey could not be verified'
+        }
+      }
+
+      const credentialId = authData.credentialId.toString('base64url')
+      if (credentialId !== credential.rawId) {
+        return {
+          success: false,
+          message: 'Passkey could not be verified'
+        }
+      }
+
+      const algorithm = authData.credentialPublicKey.get(3) as number
+      const jwk = this.coseToJwk(authData.credentialPublicKey)
+      if (!jwk) {
+        return {
+          success: false,
+          message: 'This passkey uses an unsupported algorithm'
+        }
+      }
+
+      const [existing] = await database.execute(
+        'SELECT id FROM webauthn_credentials WHERE id = ?',
+        [credentialId]
+      ) as [{ id: string }[]]
+
+      if (existing.length > 0) {
+        return {
+          success: false,
+          message: 'This passkey is already registered'
+        }
+      }
+
+      const passkey: Passkey = {
+        id: credentialId,
+        deviceName: deviceName?.trim().slice(0, 100) || 'Passkey',
+        createdAt: new Date().toISOString(),
+        lastUsedAt: null
+      }
+
+      await database.execute(
+        `INSERT INTO webauthn_credentials (id, user_id, public_key_jwk, algorithm, sign_count, transports_json, device_name, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          credentialId,
+          userId,
+          JSON.stringify(jwk),
+          algorithm,
+          authData.signCount,
+          Array.isArray(credential.response.transports) ? JSON.stringify(credential.response.transports) : null,
+          passkey.deviceName,
+          passkey.createdAt
+        ]
+      )
+
+      await this.logEvent(userId, 'PASSKEY_REGISTERED', {
+        credentialId,
+        deviceName: passkey.deviceName,
+        algorithm
+      })
+
+      return {
+        success: true,
+        message: 'Passkey registered successfully',
+        userId,
+        passkey
+      }
+
+    } catch (error) {
+      console.error('Passkey registration error:', error)
+      return {
+        success: false,
+        message: 'Passkey could not be verified'
+      }
+    }
+  }
+
+  /**
+   * Options for signing in with one of the user's passkeys
+   */
+  static async generateAuthenticationOptions(identifier: string): Promise<WebAuthnResult> {
+    try {
+      const user = await this.findUser(identifier)
+      if (!user) {
+        return {
+          success: false,
+          message: 'User not found with this mobile number or email'
+        }
+      }
+
+      const [credentials] = await database.execute(
+        'SELECT id, transports_json FROM webauthn_credentials WHERE user_id = ?',
+        [user.id]
+      ) as [CredentialDescriptorRow[]]
+
+      if (credentials.length === 0) {
+        return {
+          success: false,
+          message: 'No passkey registered for this account'
+        }
+      }
+
+      const challenge = await this.createChallenge(user.id, 'AUTHENTICATION')
+
+      return {
+        success: true,
+        message: 'Passkey sign-in options created',
+        options: {
+          challenge,
+          rpId: this.RP_ID,
+          userVerification: 'required',
+          timeout: this.CHALLENGE_MINUTES * 60 * 1000,
+          allowCredentials: credentials.map(credential => ({
+            type: 'public-key',
+            id: credential.id,
+            transports: credential.transports_json ? JSON.parse(credential.transports_json) : undefined
+          }))
+        }
+      }
+
+    } catch (error) {
+      console.error('Passkey authentication options error:', error)
+      return {
+        success: false,
+        message: 'Failed to start passkey sign-in'
+      }
+    }
+  }
+
+  /**
+   * Verify a passkey assertion. The signature counter must increase on
+   * every use; a counter that goes backwards suggests a cloned
+   * authenticator and is rejected.
+   */
+  static async verifyAuthentication(
+    identifier: string,
+    credential: PasskeyAuthenticationResponse
+  ): Promise<WebAuthnResult> {
+    try {
+      const user = await this.findUser(identifier)
+      if (!user) {
+        return {
+          success: false,
+          message: 'User not found with this mobile number or email'
+        }
+      }
+
+      const clientData = this.parseClientData(credential?.response?.clientDataJSON, 'webauthn.get')
+      if (!clientData || !await this.consumeChallenge(user.id, 'AUTHENTICATION', clientData.challenge)) {
+        return {
+          success: false,
+          message: 'Passkey challenge is invalid or expired'
+        }
+      }
+
+      const [credentials] = await database.execute(
+        'SELECT * FROM webauthn_credentials WHERE id = ? AND user_id = ?',
+        [credential.rawId, user.id]
+      ) as [{ id: string; public_key_jwk: string; sign_count: number }[]]
+
+      if (!credentials || credentials.length === 0) {
+        return {
+          success: false,
+          message: 'Passkey is not registered for this account'
+        }
+      }
+
+      const stored = credentials[0]
+      const rawAuthData = Buffer.from(credential.response.authenticatorData, 'base64url')
+      const authData = this.parseAuthenticatorData(rawAuthData)
+
+      const signedData = Buffer.concat([
+        rawAuthData,
+        createHash('sha256').update(Buffer.from(credential.response.clientDataJSON, 'base64url')).digest()
+      ])
+      const publicKey = createPublicKey({ key: JSON.parse(stored.public_key_jwk), format: 'jwk' })
+
+      if (!authData || !this.checkAuthenticatorData(authData) ||
+          !verify('sha256', signedData, publicKey, Buffer.from(credential.response.signature, 'base64url'))) {
+        return {
+          success: false,
+          message: 'Passkey could not be verified'
+        }
+      }
+
+      // Authenticators that do not count report zero every time
+      if ((authData.signCount > 0 || stored.sign_count > 0) && authData.signCount <= stored.sign_count) {
+        await this.logEvent(user.id, 'SUSPICIOUS_ACTIVITY', {
+          reason: 'PASSKEY_SIGN_COUNT_REGRESSION',
+          credentialId: stored.id,
+          storedSignCount: stored.sign_count,
+          receivedSignCount: authData.signCount
+        })
+
+        return {
+          success: false,
+          message: 'Passkey could not be verified'
+        }
+      }
+
+      await database.execute(
+        'UPDATE webauthn_credentials SET sign_count = ?, last_used_at = ? WHERE id = ?',
+        [authData.signCount, new Date().toISOString(), stored.id]
+      )
+
+      return {
+        success: true,
+        message: 'Passkey verified',
+        userId: user.id
+      }
+
+    } catch (error) {
+      console.error('Passkey authentication error:', error)
+      return {
+        success: false,
+        message: 'Passkey could not be verified'
+      }
+    }
+  }
+
+  /**
+   * The user's registered passkeys
+   */
+  static async getPasskeys(userId: string): Promise<Passkey[]> {
+    const [rows] = await database.execute(
+      'SELECT id, device_name, created_at, last_used_at FROM webauthn_credentials WHERE user_id = ? ORDER BY created_at DESC',
+      [userId]
+    ) as [{ id: string; device_name: string | null; created_at: string; last_used_at: string | null }[]]
+
+    return rows.map(row => ({
+      id: row.id,
+      deviceName: row.device_name || 'Passkey',
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at
+    }))
+  }
+
+  /**
+   * Remove one of the user's passkeys
+   */
+  static async deletePasskey(userId: string, credentialId: string): Promise<boolean> {
+    const [result] = await database.execute(
+      'DELETE FROM webauthn_credentials WHERE id = ? AND user_id = ?',
+      [credentialId, userId]
+    ) as [WriteResult]
+
+    if (result.affectedRows === 0) {
+      return false
+    }
+
+    await this.logEvent(userId, 'PASSKEY_REMOVED', { credentialId })
+    return true
+  }
+
+  /**
+   * Remove challenges that were never used
+   */
+  static async purgeExpiredChallenges(): Promise<void> {
+    try {
+      await database.execute(
+        'DELETE FROM webauthn_challenges WHERE expires_at <= ?',
+        [new Date().toISOString()]
+      )
+    } catch (error) {
+      console.error('Passkey challenge purge error:', error)
+    }
+  }
+
+  private static async findUser(identifier: string): Promise<{ id: string; role: string } | null> {
+    const [users] = await database.execute(
+      'SELECT id, role FROM users WHERE mobile = ? OR email = ?',
+      [identifier, identifier]
+    ) as [{ id: string; role: string }[]]
+
+    return users?.length ? users[0] : null
+  }
+
+  private static async createChallenge(userId: string, purpose: ChallengePurpose): Promise<string> {
+    const challenge = randomBytes(32).toString('base64url')
+
+    await database.execute(
+      'INSERT INTO webauthn_challenges (user_id, purpose, challenge, expires_at) VALUES (?, ?, ?, ?)',
+      [userId, purpose, challenge, new Date(Date.now() + this.CHALLENGE_MINUTES * 60 * 1000).toISOString()]
+    )
+
+    return challenge
+  }
+
+  /**
+   * Use up a challenge; each one is valid for a single ceremony
+   */
+  private static async consumeChallenge(userId: string, purpose: ChallengePurpose, challenge: string): Promise<boolean> {
+    const [result] = await database.execute(
+      'DELETE FROM webauthn_challenges WHERE user_id = ? AND purpose = ? AND challenge = ? AND expires_at > ?',
+      [userId, purpose, challenge, new Date().toISOString()]
+    ) as [WriteResult]
+
+    return result.affectedRows > 0
+  }
+
+  private static parseClientData(encoded: string | undefined, type: string): { challenge: string } | null {
+    if (typeof encoded !== 'string') {
+      return null
+    }
+
+    try {
+      const clientData = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'))
+      return clientData.type === type && this.ORIGINS.includes(clientData.origin) && typeof clientData.challenge === 'string'
+        ? clientData
+        : null
+    } catch {
+      return null
+    }
+  }
+
+  private static parseAuthenticatorData(data: Buffer): AuthenticatorData | null {
+    if (data.length < 37) {
+      return null
+    }
+
+    const flags = data[32]
+    const authData: AuthenticatorData = {
+      rpIdHash: data.subarray(0, 32),
+      userPresent: (flags & 0x01) !== 0,
+      userVerified: (flags & 0x04) !== 0,
+      signCount: data.readUInt32BE(33)
+    }
+
+    // Attested credential data: AAGUID (16 bytes), ID length (2), ID, COSE public key
+    if (flags & 0x40) {
+      const idLength = data.readUInt16BE(53)
+      authData.credentialId = data.subarray(55, 55 + idLength)
+
+      const publicKey = decodeCbor(data, 55 + idLength).value
+      if (!(publicKey instanceof Map)) {
+        return null
+      }
+      authData.credentialPublicKey = publicKey
+    }
+
+    return authData
+  }
+
+  /**
+   * The ceremony must be for this relying party, with the user present and
+   * verified by the device (fingerprint, face or device PIN)
+   */
+  private static checkAuthenticatorData(authData: AuthenticatorData): boolean {
+    const expectedRpIdHash = createHash('sha256').update(this.RP_ID).digest()
+    return authData.rpIdHash.equals(expectedRpIdHash) && authData.userPresent && authData.userVerified
+  }
+
+  private static coseToJwk(coseKey: Map<unknown, unknown>): JsonWebKey | null {
+    const keyType = coseKey.get(1)
+    const algorithm = coseKey.get(3)
+
+    // EC2 key on P-256
+    if (algorithm === this.ES256 && keyType === 2 && coseKey.get(-1) === 1) {
+      const x = coseKey.get(-2)
+      const y = coseKey.get(-3)
+      return Buffer.isBuffer(x) && Buffer.isBuffer(y)
+        ? { kty: 'EC', crv: 'P-256', x: x.toString('base64url'), y: y.toString('base64url') }
+        : null
+    }
+
+    if (algorithm === this.RS256 && keyType === 3) {
+      const n = coseKey.get(-1)
+      const e = coseKey.get(-2)
+      return Buffer.isBuffer(n) && Buffer.isBuffer(e)
+        ? { kty: 'RSA', n: n.toString('base64url'), e: e.toString('base64url') }
+        : null
+    }
+
+    return null
+  }
+
+  private static async logEvent(userId: string, actionType: string, details: Record<string, unknown>): Promise<void> {
+    const [users] = await database.execute('SELECT role FROM users WHERE id = ?', [userId]) as [{ role: string }[]]
+    await AuditService.logEvent(userId, users?.[0]?.role || 'SYSTEM', actionType, details)
+  }
+}
@@ -1,4 +1,4 @@
-import { getSQLiteConnection, executeSQLiteQuery } from '../../database/sqlite'
+import { getSQLiteConnection, executeSQLiteQuery, runSQLiteTransaction } from '../../database/sqlite'
 
 // Initialize SQLite database on module load
 let initializationPromise: Promise<void> | null = null
@@ -21,6 +21,17 @@ async function initializeDatabase() {
   return initializationPromise
 }
 
+// What execute() resolves to for INSERT, UPDATE and DELETE statements
+export interface WriteResult {
+  insertId: number
+  affectedRows: number
+}
+
+export interface TransactionContext {
+  execute(query: string, params?: unknown[]): Promise<unknown[]>
+  transaction<T>(work: (tx: TransactionContext) => Promise<T>): Promise<T>
+}
+
 // Unified database interface (SQLite only)
 export const database = {
   async execute(query: string, params: any[] = []) {
@@ -37,23 +48,15 @@ export const database = {
     }
   },
 
-  async getConnection() {
+  /**
+   * Run work in a transaction that commits when it resolves and rolls back
+   * when it throws. Writers are serialized; nesting creates a savepoint.
+   */
+  async transaction<T>(work: (tx: TransactionContext) => Promise<T>): Promise<T> {
     // Ensure database is initialized
     await initializeDatabase()
-    
-    return {
-      execute: this.execute.bind(this),
-      beginTransaction: async () => {
-        await this.execute('BEGIN TRANSACTION')
-      },
-      commit: async () => {
-        await this.execute('COMMIT')
-      },
-      rollback: async () => {
-        await this.execute('ROLLBACK')
-      },
-      release: () => {} // No-op for SQLite
-    }
+
+    return runSQLiteTransaction(() => work(database))
   }
 }
 
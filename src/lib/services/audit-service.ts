@@ -14,6 +14,7 @@ export interface AuditLogEntry {
 
 export interface AuditLogFilters {
   patientUserId?: string
+  hospitalId?: string // Events by the hospital's staff
   actorUserId?: string
   actorRole?: string
   actionType?: string
@@ -48,10 +49,19 @@ export const AUDIT_ACTION_TYPES = {
   PROFILE_VIEW: 'Profile View',
   ACCOUNT_SOFT_DELETE: 'Account Soft Delete',
 
+  // Delegation Actions
+  DELEGATION_INVITED: 'Delegate Invited',
+  DELEGATION_ACCEPTED: 'Delegation Accepted',
+  DELEGATION_UPDATED: 'Delegation Updated',
+  DELEGATION_REVOKED: 'Delegation Revoked',
+
   // Encounter Actions
   ENCOUNTER_CREATED: 'Encounter Created',
   ENCOUNTER_UPDATED: 'Encounter Updated',
   ENCOUNTER_VIEWED: 'Encounter Viewed',
+  RECORD_EXPORTED: 'Record Exported',
+  RECORD_IMPORTED: 'Record Imported',
+  MEDICAL_HISTORY_UPDATED: 'Medical History Updated',
 
   // Document Actions
   DOCUMENT_UPLOADED: 'Document Uploaded',
@@ -64,10 +74,43 @@ export const AUDIT_ACTION_TYPES = {
   EMERGENCY_SESSION_CREATED: 'Emergency Session Created',
   EMERGENCY_SESSION_REVOKED: 'Emergency Session Revoked',
   PATIENT_DATA_ACCESSED: 'Patient Data Accessed',
+  BREAK_GLASS_ACCESS_GRANTED: 'Break-Glass Access Granted',
+  BREAK_GLASS_REVIEW_APPROVED: 'Break-Glass Review Approved',
+  BREAK_GLASS_REVIEW_FLAGGED: 'Break-Glass Review Flagged',
+  EMERGENCY_POLICY_UPDATED: 'Emergency Policy Updated',
+  DELEGATE_EMERGENCY_APPROVED: 'Emergency Access Approved by Delegate',
+
+  // Role Management Actions
+  ROLE_CREATED: 'Role Created',
+  ROLE_UPDATED: 'Role Updated',
+  ROLE_DELETED: 'Role Deleted',
+  ROLE_ASSIGNED: 'Role Assigned',
+  ROLE_UNASSIGNED: 'Role Unassigned',
+
+  // Hospital Actions
+  HOSPITAL_CREATED: 'Hospital Created',
+  HOSPITAL_SUSPENDED: 'Hospital Suspended',
+  HOSPITAL_REACTIVATED: 'Hospital Reactivated',
+  HOSPITAL_STAFF_INVITED: 'Hospital Staff Invited',
+  HOSPITAL_STAFF_JOINED: 'Hospital Staff Joined',
+  HOSPITAL_POLICY_UPDATED: 'Hospital Policy Updated',
+
+  // Notification Actions
+  NOTIFICATION_RETRIED: 'Notification Retried',
 
   // System Actions
   SESSION_CREATED: 'Session Created',
   SESSION_EXPIRED: 'Session Expired',
+  SESSION_REVOKED: 'Session Revoked',
+  REFRESH_TOKEN_REUSED: 'Refresh Token Reused',
+  SUSPICIOUS_ACTIVITY: 'Suspicious Activity',
+  ACCOUNT_UNLOCKED: 'Account Unlocked',
+  TOTP_ENABLED: 'Authenticator App Enabled',
+  TOTP_DISABLED: 'Authenticator App Disabled',
+  TOTP_VERIFICATION_FAILED: 'Authenticator Code Failed',
+  TOTP_RECOVERY_CODE_USED: 'Recovery Code Used',
+  PASSKEY_REGISTERED: 'Passkey Registered',
+  PASSKEY_REMOVED: 'Passkey Removed',
   ACCESS_ATTEMPT: 'Access Attempt',
   PERMISSION_DENIED: 'Permission Denied'
 } as const
@@ -75,6 +118,13 @@ export const AUDIT_ACTION_TYPES = {
 export type AuditActionType = keyof typeof AUDIT_ACTION_TYPES
 
 export class AuditService {
+  // Operators, doctors and role holders of a hospital
+  private static readonly HOSPITAL_STAFF_QUERY = `
+    SELECT user_id FROM operator_profiles WHERE hospital_id = ?
+    UNION SELECT user_id FROM doctor_profiles WHERE hospital_id = ?
+    UNION SELECT user_id FROM user_roles WHERE hospital_id = ?
+  `
+
   /**
    * Log an audit event
    */
@@ -132,6 +182,11 @@ export class AuditService {
         queryParams.push(filters.patientUserId)
       }
 
+      if (filters.hospitalId) {
+        query += ` AND al.actor_user_id IN (${this.HOSPITAL_STAFF_QUERY})`
+        queryParams.push(filters.hospitalId, filters.hospitalId, filters.hospitalId)
+      }
+
       if (filters.actorUserId) {
         query += ' AND al.actor_user_id = ?'
         queryParams.push(filters.actorUserId)
@@ -233,6 +288,11 @@ export class AuditService {
         queryParams.push(filters.patientUserId)
       }
 
+      if (filters.hospitalId) {
+        baseQuery += ` AND al.actor_user_id IN (${this.HOSPITAL_STAFF_QUERY})`
+        queryParams.push(filters.hospitalId, filters.hospitalId, filters.hospitalId)
+      }
+
       if (filters.actorRole) {
         baseQuery += ' AND al.actor_role = ?'
         queryParams.push(filters.actorRole)
@@ -343,14 +403,17 @@ export class AuditService {
         FROM audit_logs al
         LEFT JOIN users doctor ON al.actor_user_id = doctor.id
         LEFT JOIN users patient ON al.patient_user_id = patient.id
-        WHERE al.action_type IN (?, ?, ?, ?)
+        WHERE al.action_type IN (?, ?, ?, ?, ?, ?, ?)
       `
 
       const queryParams = [
         'EMERGENCY_ACCESS_ATTEMPT',
         'EMERGENCY_SESSION_CREATED',
         'EMERGENCY_SESSION_REVOKED',
-        'PATIENT_DATA_ACCESSED'
+        'PATIENT_DATA_ACCESSED',
+        'BREAK_GLASS_ACCESS_GRANTED',
+        'BREAK_GLASS_REVIEW_APPROVED',
+        'BREAK_GLASS_REVIEW_FLAGGED'
       ]
 
       if (patientUserId) {
@@ -428,6 +491,11 @@ export class AuditService {
         queryParams.push(filters.patientUserId)
       }
 
+      if (filters.hospitalId) {
+        query += ` AND al.actor_user_id IN (${this.HOSPITAL_STAFF_QUERY})`
+        queryParams.push(filters.hospitalId, filters.hospitalId, filters.hospitalId)
+      }
+
       if (filters.actorRole) {
         query += ' AND al.actor_role = ?'
         queryParams.push(filters.actorRole)
@@ -582,9 +650,16 @@ export class AuditService {
       'PROFILE_UPDATE': '✏️',
       'PROFILE_VIEW': '👀',
       'ACCOUNT_SOFT_DELETE': '🗑️',
+      'DELEGATION_INVITED': '👪',
+      'DELEGATION_ACCEPTED': '🤝',
+      'DELEGATION_UPDATED': '✏️',
+      'DELEGATION_REVOKED': '🛑',
       'ENCOUNTER_CREATED': '📋',
       'ENCOUNTER_UPDATED': '✏️',
       'ENCOUNTER_VIEWED': '👀',
+      'RECORD_EXPORTED': '📤',
+      'RECORD_IMPORTED': '📥',
+      'MEDICAL_HISTORY_UPDATED': '🩺',
       'DOCUMENT_UPLOADED': '📄',
       'DOCUMENT_VIEWED': '👀',
       'DOCUMENT_DOWNLOADED': '⬇️',
@@ -593,8 +668,35 @@ export class AuditService {
       'EMERGENCY_SESSION_CREATED': '🚨',
       'EMERGENCY_SESSION_REVOKED': '🛑',
       'PATIENT_DATA_ACCESSED': '👀',
+      'BREAK_GLASS_ACCESS_GRANTED': '🔨',
+      'BREAK_GLASS_REVIEW_APPROVED': '☑️',
+      'BREAK_GLASS_REVIEW_FLAGGED': '🚩',
+      'EMERGENCY_POLICY_UPDATED': '⚙️',
+      'DELEGATE_EMERGENCY_APPROVED': '👪',
+      'ROLE_CREATED': '🛡️',
+      'ROLE_UPDATED': '🛡️',
+      'ROLE_DELETED': '🗑️',
+      'ROLE_ASSIGNED': '🪪',
+      'ROLE_UNASSIGNED': '🪪',
+      'HOSPITAL_CREATED': '🏥',
+      'HOSPITAL_SUSPENDED': '⛔',
+      'HOSPITAL_REACTIVATED': '🏥',
+      'HOSPITAL_POLICY_UPDATED': '🛡️',
+      'HOSPITAL_STAFF_INVITED': '✉️',
+      'HOSPITAL_STAFF_JOINED': '🧑‍⚕️',
+      'NOTIFICATION_RETRIED': '🔁',
       'SESSION_CREATED': '🔑',
       'SESSION_EXPIRED': '⏰',
+      'SESSION_REVOKED': '🚪',
+      'REFRESH_TOKEN_REUSED': '⚠️',
+      'SUSPICIOUS_ACTIVITY': '🚩',
+      'ACCOUNT_UNLOCKED': '🔓',
+      'TOTP_ENABLED': '📲',
+      'TOTP_DISABLED': '📵',
+      'PASSKEY_REGISTERED': '🔑',
+      'PASSKEY_REMOVED': '🗝️',
+      'TOTP_VERIFICATION_FAILED': '❌',
+      'TOTP_RECOVERY_CODE_USED': '🧾',
       'ACCESS_ATTEMPT': '🔍',
       'PERMISSION_DENIED': '🚫'
     }
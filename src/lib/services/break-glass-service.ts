@@ -0,0 +1,383 @@
+import { database } from '../database'
+import { v4 as uuidv4 } from 'uuid'
+import jwt from 'jsonwebtoken'
+import { AuditService } from './audit-service'
+import { EmergencyService } from './emergency-service'
+import { HospitalService } from './hospital-service'
+import { RBACService } from './rbac-service'
+import type { SessionData, EmergencySessionData } from '../auth'
+
+export const BREAK_GLASS_METHOD = 'BREAK_GLASS'
+
+export type BreakGlassReviewStatus = 'PENDING' | 'APPROVED' | 'FLAGGED'
+
+export type BreakGlassDecision = 'APPROVE' | 'FLAG'
+
+export interface BreakGlassRequest {
+  doctorUserId: string // Authenticated with the doctor's session and authenticator code; no patient consent is collected
+  patientIdentifier: string
+  justification: string
+}
+
+export interface BreakGlassReview {
+  id: string
+  sessionId: string
+  doctorUserId: string
+  doctorName: string
+  patientUserId: string
+  patientName: string
+  justification: string
+  hospitalId: string | null
+  hospitalName: string | null
+  status: BreakGlassReviewStatus
+  reviewerUserId: string | null
+  reviewNotes: string | null
+  reviewedAt: string | null
+  createdAt: string
+}
+
+export interface BreakGlassResult {
+  success: boolean
+  message: string
+  sessionId?: string
+  sessionToken?: string
+  expiresAt?: Date
+  reviewId?: string
+  patientInfo?: { id: string; name: string }
+  review?: BreakGlassReview
+  reviews?: BreakGlassReview[]
+}
+
+interface BreakGlassReviewRow {
+  id: string
+  session_id: string
+  doctor_user_id: string
+  doctor_name: string
+  patient_user_id: string
+  patient_name: string
+  justification: string
+  hospital_id: string | null
+  hospital_name: string | null
+  status: BreakGlassReviewStatus
+  reviewer_user_id: string | null
+  review_notes: string | null
+  reviewed_at: string | null
+  created_at: string
+}
+
+export class BreakGlassService {
+  private static readonly SESSION_DURATION_MINUTES = 15
+  private static readonly MIN_JUSTIFICATION_LENGTH = 20
+
+  /**
+   * Open a read-only, critical-info-only emergency session without patient
+   * consent. The session is queued for review and the patient is notified.
+   */
+  static async requestAccess(request: BreakGlassRequest): Promise<BreakGlassResult> {
+    try {
+      const justification = request.justification?.trim() || ''
+      if (justification.length < this.MIN_JUSTIFICATION_LENGTH) {
+        return {
+          success: false,
+          message: `Justification must be at least ${this.MIN_JUSTIFICATION_LENGTH} characters`
+        }
+      }
+
+      const [doctors] = await database.execute(
+        'SELECT id, name, mobile FROM users WHERE id = ? AND role = ?',
+        [request.doctorUserId, 'DOCTOR']
+      ) as [{ id: string; name: string; mobile: string }[]]
+
+      if (!doctors || doctors.length === 0) {
+        return {
+          success: false,
+          message: 'Doctor not found'
+        }
+      }
+
+      const doctor = doctors[0]
+
+      // The session is reviewed by the doctor's hospital, so it is granted under that hospital
+      const tenant = await HospitalService.getUserTenant(doctor.id)
+      if (!tenant) {
+        return {
+          success: false,
+          message: 'Break-glass access requires a hospital profile'
+        }
+      }
+
+      const [patients] = await database.execute(
+        'SELECT u.id, u.name, u.mobile, pp.deleted_at FROM users u LEFT JOIN patient_profiles pp ON u.id = pp.user_id WHERE (u.mobile = ? OR u.email = ? OR u.id = ?) AND u.role = ?',
+        [request.patientIdentifier, request.patientIdentifier, request.patientIdentifier, 'PATIENT']
+      ) as [{ id: string; name: string; mobile: string; deleted_at: string | null }[]]
+
+      if (!patients || patients.length === 0) {
+        return {
+          success: false,
+          message: 'Patient not found with the provided identifier'
+        }
+      }
+
+      const patient = patients[0]
+
+      if (patient.deleted_at) {
+        return {
+          success: false,
+          message: 'Cannot access records for deactivated patient account'
+        }
+      }
+
+      const sessionId = uuidv4()
+      const reviewId = uuidv4()
+      const expiresAt = new Date()
+      expiresAt.setMinutes(expiresAt.getMinutes() + this.SESSION_DURATION_MINUTES)
+
+      await database.transaction(async (tx) => {
+        await tx.execute(
+          'INSERT INTO emergency_sessions (id, doctor_user_id, patient_user_id, method, reason, hospital_id, hospital_name, expires_at, data_categories_json) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+          [sessionId, doctor.id, patient.id, BREAK_GLASS_METHOD, justification, tenant.hospitalId, tenant.hospitalName, expiresAt.toISOString(), JSON.stringify(['CRITICAL_INFO'])]
+        )
+
+        await tx.execute(
+          'INSERT INTO break_glass_reviews (id, session_id, doctor_user_id, patient_user_id, justification, hospital_id, hospital_name) VALUES (?, ?, ?, ?, ?, ?, ?)',
+          [reviewId, sessionId, doctor.id, patient.id, justification, tenant.hospitalId, tenant.hospitalName]
+        )
+
+        await AuditService.logEvent(doctor.id, 'DOCTOR', 'BREAK_GLASS_ACCESS_GRANTED', {
+          sessionId,
+          reviewId,
+          justification,
+          hospitalId: tenant.hospitalId,
+          hospitalName: tenant.hospitalName,
+          doctorName: doctor.name,
+          expiresAt: expiresAt.toISOString()
+        }, patient.id)
+      })
+
+      const sessionToken = jwt.sign(
+        {
+          sessionId,
+          doctorId: doctor.id,
+          patientId: patient.id,
+          type: 'emergency',
+          accessLevel: 'CRITICAL_ONLY',
+          expiresAt: expiresAt.toISOString()
+        },
+        process.env.JWT_SECRET!,
+        { expiresIn: `${this.SESSION_DURATION_MINUTES}m` }
+      )
+
+      await EmergencyService.notifyPatientOfAccess(sessionId, patient.id, {
+        doctorName: doctor.name,
+        hospitalName: tenant.hospitalName,
+        expiresAt,
+        breakGlass: true
+      })
+
+      console.log(`🔓 Break-glass access granted: Dr. ${doctor.name} -> ${patient.name} for "${justification}"`)
+
+      return {
+        success: true,
+        message: 'Break-glass access granted. This session will be reviewed.',
+        sessionId,
+        sessionToken,
+        expiresAt,
+        reviewId,
+        patientInfo: {
+          id: patient.id,
+          name: patient.name
+        }
+      }
+
+    } catch (error) {
+      console.error('Break-glass access error:', error)
+      return {
+        success: false,
+        message: 'Failed to process break-glass access request'
+      }
+    }
+  }
+
+  /**
+   * Get a hospital's break-glass reviews, oldest first. Callers check the
+   * reviewer's REVIEW_BREAK_GLASS_ACCESS grant for the hospital.
+   */
+  static async getReviewQueue(
+    hospitalId: string,
+    status: BreakGlassReviewStatus = 'PENDING'
+  ): Promise<BreakGlassResult> {
+    try {
+      const [rows] = await database.execute(
+        `SELECT r.*, d.name as doctor_name, p.name as patient_name
+         FROM break_glass_reviews r
+         JOIN users d ON r.doctor_user_id = d.id
+         JOIN users p ON r.patient_user_id = p.id
+         WHERE r.hospital_id = ? AND r.status = ?
+         ORDER BY r.created_at ASC`,
+        [hospitalId, status]
+      ) as [BreakGlassReviewRow[]]
+
+      return {
+        success: true,
+        message: 'Break-glass reviews retrieved successfully',
+        reviews: rows.map(row => this.mapReview(row))
+      }
+
+    } catch (error) {
+      console.error('Get break-glass reviews error:', error)
+      return {
+        success: false,
+        message: 'Failed to retrieve break-glass reviews'
+      }
+    }
+  }
+
+  /**
+   * Approve or flag a pending break-glass session. The reviewer needs
+   * REVIEW_BREAK_GLASS_ACCESS for the hospital the session was granted
+   * under. Flagging also revokes the session if it is still active.
+   */
+  static async reviewAccess(
+    reviewId: string,
+    reviewer: SessionData | EmergencySessionData,
+    decision: BreakGlassDecision,
+    notes?: string
+  ): Promise<BreakGlassResult> {
+    try {
+      if (decision !== 'APPROVE' && decision !== 'FLAG') {
+        return {
+          success: false,
+          message: 'Decision must be APPROVE or FLAG'
+        }
+      }
+
+      if (decision === 'FLAG' && !notes?.trim()) {
+        return {
+          success: false,
+          message: 'Notes are required when flagging a break-glass session'
+        }
+      }
+
+      const status: BreakGlassReviewStatus = decision === 'APPROVE' ? 'APPROVED' : 'FLAGGED'
+
+      const outcome = await database.transaction(async (tx) => {
+        const [reviews] = await tx.execute(
+          `SELECT r.*, d.name as doctor_name, p.name as patient_name
+           FROM break_glass_reviews r
+           JOIN users d ON r.doctor_user_id = d.id
+           JOIN users p ON r.patient_user_id = p.id
+           WHERE r.id = ?`,
+          [reviewId]
+        ) as [BreakGlassReviewRow[]]
+
+        const row = reviews?.[0]
+        if (!row || !await RBACService.hasPermission(reviewer, 'REVIEW_BREAK_GLASS_ACCESS', { hospitalId: row.hospital_id ?? undefined })) {
+          return null
+        }
+
+        // Review must be independent of the doctor who broke the glass
+        if (row.doctor_user_id === reviewer.userId) {
+          return { review: this.mapReview(row), updated: false, ownSession: true }
+        }
+
+        if (row.status !== 'PENDING') {
+          return { review: this.mapReview(row), updated: false }
+        }
+
+        const reviewedAt = new Date().toISOString()
+
+        await tx.execute(
+          'UPDATE break_glass_reviews SET status = ?, reviewer_user_id = ?, review_notes = ?, reviewed_at = ? WHERE id = ?',
+          [status, reviewer.userId, notes?.trim() || null, reviewedAt, reviewId]
+        )
+
+        if (status === 'FLAGGED') {
+          await tx.execute(
+            'UPDATE emergency_sessions SET status = ? WHERE id = ? AND status = ?',
+            ['REVOKED', row.session_id, 'ACTIVE']
+          )
+        }
+
+        await AuditService.logEvent(
+          reviewer.userId,
+          reviewer.role,
+          status === 'APPROVED' ? 'BREAK_GLASS_REVIEW_APPROVED' : 'BREAK_GLASS_REVIEW_FLAGGED',
+          {
+            reviewId,
+            sessionId: row.session_id,
+            doctorUserId: row.doctor_user_id,
+            doctorName: row.doctor_name,
+            justification: row.justification,
+            notes: notes?.trim() || null
+          },
+          row.patient_user_id
+        )
+
+        return {
+          review: this.mapReview({
+            ...row,
+            status,
+            reviewer_user_id: reviewer.userId,
+            review_notes: notes?.trim() || null,
+            reviewed_at: reviewedAt
+          }),
+          updated: true
+        }
+      })
+
+      if (!outcome) {
+        return {
+          success: false,
+          message: 'Break-glass review not found'
+        }
+      }
+
+      if ('ownSession' in outcome) {
+        return {
+          success: false,
+          message: 'You cannot review your own break-glass session'
+        }
+      }
+
+      if (!outcome.updated) {
+        return {
+          success: false,
+          message: `Break-glass session has already been ${outcome.review.status.toLowerCase()}`,
+          review: outcome.review
+        }
+      }
+
+      return {
+        success: true,
+        message: status === 'APPROVED' ? 'Break-glass session approved' : 'Break-glass session flagged',
+        review: outcome.review
+      }
+
+    } catch (error) {
+      console.error('Review break-glass access error:', error)
+      return {
+        success: false,
+        message: 'Failed to review break-glass session'
+      }
+    }
+  }
+
+  private static mapReview(row: BreakGlassReviewRow): BreakGlassReview {
+    return {
+      id: row.id,
+      sessionId: row.session_id,
+      doctorUserId: row.doctor_user_id,
+      doctorName: row.doctor_name,
+      patientUserId: row.patient_user_id,
+      patientName: row.patient_name,
+      justification: row.justification,
+      hospitalId: row.hospital_id,
+      hospitalName: row.hospital_name,
+      status: row.status,
+      reviewerUserId: row.reviewer_user_id,
+      reviewNotes: row.review_notes,
+      reviewedAt: row.reviewed_at,
+      createdAt: row.created_at
+    }
+  }
+}
@@ -0,0 +1,488 @@
+import { database } from '../database'
+import { v4 as uuidv4 } from 'uuid'
+import { OTPService } from '../auth'
+import { AuditService } from './audit-service'
+import { NotificationService } from './notification-service'
+
+export type DelegationPermission = 'VIEW_TIMELINE' | 'ADD_ENCOUNTERS' | 'APPROVE_EMERGENCY_OTP'
+
+export type DelegationStatus = 'PENDING' | 'ACTIVE' | 'REVOKED' | 'EXPIRED'
+
+export const DELEGATION_PERMISSIONS: DelegationPermission[] = ['VIEW_TIMELINE', 'ADD_ENCOUNTERS', 'APPROVE_EMERGENCY_OTP']
+
+export const DELEGATION_OTP_PURPOSE = 'DELEGATION_ACCEPT'
+
+export interface Delegation {
+  id: string
+  patientUserId: string
+  patientName: string
+  delegateMobile: string
+  delegateUserId: string | null
+  delegateName: string | null
+  permissions: DelegationPermission[]
+  status: DelegationStatus
+  expiresAt: string
+  acceptedAt: string | null
+  revokedAt: string | null
+  createdAt: string
+}
+
+export interface DelegationData {
+  delegateMobile?: string
+  permissions?: string[]
+  expiresAt?: string
+}
+
+export interface DelegationResult {
+  success: boolean
+  message: string
+  delegationId?: string
+  delegation?: Delegation
+}
+
+interface DelegationRow {
+  id: string
+  patient_user_id: string
+  patient_name: string
+  delegate_mobile: string
+  delegate_user_id: string | null
+  delegate_name: string | null
+  permissions_json: string
+  status: DelegationStatus
+  expires_at: string
+  accepted_at: string | null
+  revoked_at: string | null
+  created_at: string
+}
+
+export class DelegationService {
+  private static readonly MAX_DELEGATION_DAYS = 365
+
+  private static readonly DELEGATION_QUERY = `
+    SELECT pd.*, p.name as patient_name, d.name as delegate_name
+    FROM patient_delegations pd
+    JOIN users p ON pd.patient_user_id = p.id
+    LEFT JOIN users d ON pd.delegate_user_id = d.id
+  `
+
+  /**
+   * Invite a family member, by mobile number, to act on the patient's behalf
+   */
+  static async inviteDelegate(patientUserId: string, data: DelegationData): Promise<DelegationResult> {
+    try {
+      const delegateMobile = data.delegateMobile?.trim()
+      if (!delegateMobile) {
+        return {
+          success: false,
+          message: 'Delegate mobile number is required'
+        }
+      }
+
+      const validationError = this.validateDelegationData(data, true)
+      if (validationError) {
+        return {
+          success: false,
+          message: validationError
+        }
+      }
+
+      const outcome = await database.transaction(async (tx): Promise<{ delegationId: string } | { error: string }> => {
+        const [patients] = await tx.execute(
+          'SELECT name, mobile FROM users WHERE id = ? AND role = ?',
+          [patientUserId, 'PATIENT']
+        ) as [{ name: string; mobile: string }[]]
+
+        if (!patients || patients.length === 0) {
+          return { error: 'Patient not found' }
+        }
+
+        if (patients[0].mobile === delegateMobile) {
+          return { error: 'You cannot invite yourself as a delegate' }
+        }
+
+        const [existing] = await tx.execute(
+          "SELECT id FROM patient_delegations WHERE patient_user_id = ? AND delegate_mobile = ? AND status IN ('PENDING', 'ACTIVE') AND expires_at > ?",
+          [patientUserId, delegateMobile, new Date().toISOString()]
+        ) as [{ id: string }[]]
+
+        if (existing.length > 0) {
+          return { error: 'This family member already has an invitation or active access' }
+        }
+
+        const id = uuidv4()
+        const permissions = DELEGATION_PERMISSIONS.filter(permission => data.permissions!.includes(permission))
+
+        await tx.execute(
+          'INSERT INTO patient_delegations (id, patient_user_id, delegate_mobile, permissions_json, expires_at) VALUES (?, ?, ?, ?, ?)',
+          [id, patientUserId, delegateMobile, JSON.stringify(permissions), new Date(data.expiresAt!).toISOString()]
+        )
+
+        await AuditService.logEvent(patientUserId, 'PATIENT', 'DELEGATION_INVITED', {
+          delegationId: id,
+          delegateMobile,
+          permissions,
+          expiresAt: new Date(data.expiresAt!).toISOString()
+        }, patientUserId)
+
+        // Queued with the invitation, and sent by the worker once it commits
+        await NotificationService.enqueueSms(
+          delegateMobile,
+          `E-Patient Connect: ${patients[0].name} has invited you to help manage their medical record. Log in and accept invitation ${id} with a one-time code to get access.`,
+          { idempotencyKey: `delegation-invite:${id}` }
+        )
+
+        return { delegationId: id }
+      })
+
+      if ('error' in outcome) {
+        return {
+          success: false,
+          message: outcome.error
+        }
+      }
+
+      return {
+        success: true,
+        message: 'Invitation sent successfully',
+        delegationId: outcome.delegationId
+      }
+
+    } catch (error) {
+      console.error('Invite delegate error:', error)
+      return {
+        success: false,
+        message: 'Failed to send invitation'
+      }
+    }
+  }
+
+  /**
+   * Accept a pending invitation. The delegate must be signed in with the
+   * invited mobile number and confirm with a DELEGATION_ACCEPT OTP.
+   */
+  static async acceptInvitation(delegationId: string, delegateUserId: string, otp: string): Promise<DelegationResult> {
+    try {
+      const [users] = await database.execute(
+        'SELECT id, mobile FROM users WHERE id = ?',
+        [delegateUserId]
+      ) as [{ id: string; mobile: string }[]]
+
+      const delegation = await this.getDelegation(delegationId)
+
+      if (!delegation || !users?.length || delegation.delegateMobile !== users[0].mobile) {
+        return {
+          success: false,
+          message: 'Invitation not found'
+        }
+      }
+
+      if (delegation.status !== 'PENDING') {
+        return {
+          success: false,
+          message: `Invitation is ${delegation.status.toLowerCase()}`
+        }
+      }
+
+      const otpResult = await OTPService.verifyOTP(users[0].mobile, otp, DELEGATION_OTP_PURPOSE)
+      if (!otpResult.success) {
+        return {
+          success: false,
+          message: `Verification failed: ${otpResult.message}`
+        }
+      }
+
+      await database.transaction(async (tx) => {
+        await tx.execute(
+          "UPDATE patient_delegations SET status = 'ACTIVE', delegate_user_id = ?, accepted_at = ? WHERE id = ? AND status = 'PENDING'",
+          [delegateUserId, new Date().toISOString(), delegationId]
+        )
+
+        await AuditService.logEvent(delegateUserId, 'DELEGATE', 'DELEGATION_ACCEPTED', {
+          delegationId,
+          principalUserId: delegation.patientUserId,
+          permissions: delegation.permissions,
+          expiresAt: delegation.expiresAt
+        }, delegation.patientUserId)
+      })
+
+      return {
+        success: true,
+        message: 'Invitation accepted successfully',
+        delegation: (await this.getDelegation(delegationId))!
+      }
+
+    } catch (error) {
+      console.error('Accept delegation error:', error)
+      return {
+        success: false,
+        message: 'Failed to accept invitation'
+      }
+    }
+  }
+
+  /**
+   * Change the permissions or expiry of one of the patient's delegations
+   */
+  static async updateDelegation(delegationId: string, patientUserId: string, data: DelegationData): Promise<DelegationResult> {
+    try {
+      const validationError = this.validateDelegationData(data, false)
+      if (validationError) {
+        return {
+          success: false,
+          message: validationError
+        }
+      }
+
+      const delegation = await this.getDelegation(delegationId)
+      if (!delegation || delegation.patientUserId !== patientUserId) {
+        return {
+          success: false,
+          message: 'Delegation not found'
+        }
+      }
+
+      if (delegation.status === 'REVOKED' || delegation.status === 'EXPIRED') {
+        return {
+          success: false,
+          message: `Delegation is ${delegation.status.toLowerCase()}`
+        }
+      }
+
+      const permissions = data.permissions
+        ? DELEGATION_PERMISSIONS.filter(permission => data.permissions!.includes(permission))
+        : delegation.permissions
+      const expiresAt = data.expiresAt ? new Date(data.expiresAt).toISOString() : delegation.expiresAt
+
+      await database.transaction(async (tx) => {
+        await tx.execute(
+          'UPDATE patient_delegations SET permissions_json = ?, expires_at = ? WHERE id = ?',
+          [JSON.stringify(permissions), expiresAt, delegationId]
+        )
+
+        await AuditService.logEvent(patientUserId, 'PATIENT', 'DELEGATION_UPDATED', {
+          delegationId,
+          delegateMobile: delegation.delegateMobile,
+          permissions,
+          expiresAt
+        }, patientUserId)
+      })
+
+      return {
+        success: true,
+        message: 'Delegation updated successfully',
+        delegation: (await this.getDelegation(delegationId))!
+      }
+
+    } catch (error) {
+      console.error('Update delegation error:', error)
+      return {
+        success: false,
+        message: 'Failed to update delegation'
+      }
+    }
+  }
+
+  /**
+   * Revoke a delegation. The patient or the delegate can end it.
+   */
+  static async revokeDelegation(delegationId: string, userId: string): Promise<DelegationResult> {
+    try {
+      const delegation = await this.getDelegation(delegationId)
+      if (!delegation || (delegation.patientUserId !== userId && delegation.delegateUserId !== userId)) {
+        return {
+          success: false,
+          message: 'Delegation not found'
+        }
+      }
+
+      if (delegation.status === 'REVOKED') {
+        return {
+          success: false,
+          message: 'Delegation is already revoked'
+        }
+      }
+
+      const revokedByPatient = delegation.patientUserId === userId
+
+      await database.transaction(async (tx) => {
+        await tx.execute(
+          "UPDATE patient_delegations SET status = 'REVOKED', revoked_at = ? WHERE id = ?",
+          [new Date().toISOString(), delegationId]
+        )
+
+        await AuditService.logEvent(userId, revokedByPatient ? 'PATIENT' : 'DELEGATE', 'DELEGATION_REVOKED', {
+          delegationId,
+          delegateMobile: delegation.delegateMobile,
+          principalUserId: delegation.patientUserId,
+          revokedBy: revokedByPatient ? 'patient' : 'delegate'
+        }, delegation.patientUserId)
+      })
+
+      return {
+        success: true,
+        message: 'Delegation revoked successfully'
+      }
+
+    } catch (error) {
+      console.error('Revoke delegation error:', error)
+      return {
+        success: false,
+        message: 'Failed to revoke delegation'
+      }
+    }
+  }
+
+  /**
+   * Get delegations a patient has granted, and invitations and delegations
+   * the user has received
+   */
+  static async getDelegationsForUser(userId: string): Promise<{ granted: Delegation[]; received: Delegation[] }> {
+    const [users] = await database.execute('SELECT mobile FROM users WHERE id = ?', [userId]) as [{ mobile: string }[]]
+    const mobile = users?.[0]?.mobile || null
+
+    const [granted] = await database.execute(
+      `${this.DELEGATION_QUERY} WHERE pd.patient_user_id = ? ORDER BY pd.created_at DESC`,
+      [userId]
+    ) as [DelegationRow[]]
+
+    const [received] = await database.execute(
+      `${this.DELEGATION_QUERY} WHERE pd.delegate_user_id = ? OR (pd.status = 'PENDING' AND pd.delegate_mobile = ?) ORDER BY pd.created_at DESC`,
+      [userId, mobile]
+    ) as [DelegationRow[]]
+
+    return {
+      granted: granted.map(row => this.mapDelegation(row)),
+      received: received.map(row => this.mapDelegation(row))
+    }
+  }
+
+  /**
+   * Find the delegate's active, unexpired delegation from a patient that
+   * grants a permission, or any permission when none is given
+   */
+  static async getActiveDelegation(
+    delegateUserId: string,
+    patientUserId: string,
+    permission?: DelegationPermission
+  ): Promise<Delegation | null> {
+    const [rows] = await database.execute(
+      `${this.DELEGATION_QUERY} WHERE pd.delegate_user_id = ? AND pd.patient_user_id = ? AND pd.status = 'ACTIVE' AND pd.expires_at > ?`,
+      [delegateUserId, patientUserId, new Date().toISOString()]
+    ) as [DelegationRow[]]
+
+    const delegation = rows.map(row => this.mapDelegation(row))
+      .find(candidate => !permission || candidate.permissions.includes(permission))
+
+    return delegation || null
+  }
+
+  /**
+   * Record an action a delegate took on the patient's behalf, with the
+   * delegate as actor and the patient as principal
+   */
+  static async logDelegatedAction(delegation: Delegation, actionType: string, details: Record<string, unknown>): Promise<void> {
+    await AuditService.logEvent(delegation.delegateUserId, 'DELEGATE', actionType, {
+      ...details,
+      delegationId: delegation.id,
+      principalUserId: delegation.patientUserId,
+      principalName: delegation.patientName
+    }, delegation.patientUserId)
+  }
+
+  /**
+   * Verify an EMERGENCY_ACCESS OTP approved on the patient's side, either by
+   * the patient or by a delegate allowed to approve emergency OTPs
+   */
+  static async verifyEmergencyApproval(
+    patientUserId: string,
+    approverMobile: string,
+    otp: string,
+    details: Record<string, unknown>
+  ): Promise<{ success: boolean; message: string }> {
+    const [approvers] = await database.execute(
+      'SELECT id, mobile FROM users WHERE mobile = ?',
+      [approverMobile]
+    ) as [{ id: string; mobile: string }[]]
+
+    const approver = approvers?.[0]
+    let delegation: Delegation | null = null
+
+    if (approver && approver.id !== patientUserId) {
+      delegation = await this.getActiveDelegation(approver.id, patientUserId, 'APPROVE_EMERGENCY_OTP')
+    }
+
+    if (!approver || (approver.id !== patientUserId && !delegation)) {
+      return {
+        success: false,
+        message: 'Approver is not the patient or an authorized delegate'
+      }
+    }
+
+    const otpResult = await OTPService.verifyOTP(approver.mobile, otp, 'EMERGENCY_ACCESS')
+    if (!otpResult.success) {
+      return otpResult
+    }
+
+    if (delegation) {
+      await this.logDelegatedAction(delegation, 'DELEGATE_EMERGENCY_APPROVED', details)
+    }
+
+    return {
+      success: true,
+      message: delegation ? 'Emergency access approved by delegate' : 'Emergency access approved by patient'
+    }
+  }
+
+  private static async getDelegation(delegationId: string): Promise<Delegation | null> {
+    const [rows] = await database.execute(
+      `${this.DELEGATION_QUERY} WHERE pd.id = ?`,
+      [delegationId]
+    ) as [DelegationRow[]]
+
+    return rows?.length ? this.mapDelegation(rows[0]) : null
+  }
+
+  private static validateDelegationData(data: DelegationData, requireAll: boolean): string | null {
+    if (requireAll || data.permissions !== undefined) {
+      if (!Array.isArray(data.permissions) || data.permissions.length === 0 ||
+          data.permissions.some(permission => !DELEGATION_PERMISSIONS.includes(permission as DelegationPermission))) {
+        return `Permissions must be one or more of ${DELEGATION_PERMISSIONS.join(', ')}`
+      }
+    }
+
+    if (requireAll || data.expiresAt !== undefined) {
+      const expiresAt = new Date(data.expiresAt || '')
+      const maxExpiry = new Date()
+      maxExpiry.setDate(maxExpiry.getDate() + this.MAX_DELEGATION_DAYS)
+
+      if (isNaN(expiresAt.getTime())) {
+        return 'A valid expiry date is required'
+      } else if (expiresAt <= new Date()) {
+        return 'Expiry date must be in the future'
+      } else if (expiresAt > maxExpiry) {
+        return `Delegations can last at most ${this.MAX_DELEGATION_DAYS} days`
+      }
+    }
+
+    return null
+  }
+
+  private static mapDelegation(row: DelegationRow): Delegation {
+    const expired = row.status !== 'REVOKED' && new Date(row.expires_at) <= new Date()
+
+    return {
+      id: row.id,
+      patientUserId: row.patient_user_id,
+      patientName: row.patient_name,
+      delegateMobile: row.delegate_mobile,
+      delegateUserId: row.delegate_user_id,
+      delegateName: row.delegate_name,
+      permissions: JSON.parse(row.permissions_json),
+      status: expired ? 'EXPIRED' : row.status,
+      expiresAt: row.expires_at,
+      acceptedAt: row.accepted_at,
+      revokedAt: row.revoked_at,
+      createdAt: row.created_at
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+import { createReadStream, createWriteStream } from 'fs'
+import fs from 'fs/promises'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+
+/**
+ * How a document file is encrypted. The data key is wrapped by a master key
+ * and bound to the document, so it cannot be moved to another row.
+ */
+export interface DocumentEncryptionKey {
+  encryptedKey: string // Wrapped data key: IV, tag and ciphertext, base64
+  nonce: string // File IV, base64
+  authTag: string // File GCM tag, base64
+  keyId: string // Master key that wrapped the data key
+}
+
+/**
+ * Envelope encryption for uploaded documents: each file is encrypted with
+ * its own AES-256-GCM data key, wrapped by the master key from
+ * DOCUMENT_MASTER_KEY. Keys listed in DOCUMENT_PREVIOUS_MASTER_KEYS can still
+ * unwrap data keys until they are rewrapped.
+ */
+export class DocumentEncryption {
+  /**
+   * Encrypt a new document and write it to disk
+   */
+  static async writeFile(filePath: string, documentId: string, buffer: Buffer): Promise<DocumentEncryptionKey> {
+    const dataKey = randomBytes(32)
+    const nonce = randomBytes(12)
+    const cipher = createCipheriv('aes-256-gcm', dataKey, nonce)
+
+    await fs.writeFile(filePath, Buffer.concat([cipher.update(buffer), cipher.final()]))
+
+    return this.describe(documentId, dataKey, nonce, cipher.getAuthTag())
+  }
+
+  /**
+   * Encrypt an existing plaintext file into a new file, streaming so large
+   * files are never held in memory
+   */
+  static async encryptFile(sourcePath: string, targetPath: string, documentId: string): Promise<DocumentEncryptionKey> {
+    return this.encryptStream(createReadStream(sourcePath), targetPath, documentId)
+  }
+
+  /**
+   * Encrypt plaintext from a stream into a new file
+   */
+  static async encryptStream(source: Readable, targetPath: string, documentId: string): Promise<DocumentEncryptionKey> {
+    const dataKey = randomBytes(32)
+    const nonce = randomBytes(12)
+    const cipher = createCipheriv('aes-256-gcm', dataKey, nonce)
+
+    await pipeline(source, cipher, createWriteStream(targetPath, { flags: 'wx' }))
+
+    return this.describe(documentId, dataKey, nonce, cipher.getAuthTag())
+  }
+
+  /**
+   * A data key for the chunks of a resumable upload, wrapped and bound to
+   * the upload like a document's key
+   */
+  static createUploadKey(uploadId: string): Pick<DocumentEncryptionKey, 'encryptedKey' | 'keyId'> {
+    const master = this.currentMasterKey()
+    return {
+      encryptedKey: this.wrapKey(uploadId, randomBytes(32), master.key),
+      keyId: master.id
+    }
+  }
+
+  /**
+   * Encrypt one chunk of a resumable upload. The chunk is bound to its
+   * offset, so chunks cannot be reordered on disk.
+   */
+  static encryptChunk(uploadId: string, key: Pick<DocumentEncryptionKey, 'encryptedKey' | 'keyId'>, offset: number, chunk: Buffer): Buffer {
+    const iv = randomBytes(12)
+    const cipher = createCipheriv('aes-256-gcm', this.unwrapKey(uploadId, key), iv)
+    cipher.setAAD(Buffer.from(`${uploadId}:${offset}`))
+    const ciphertext = Buffer.concat([cipher.update(chunk), cipher.final()])
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext])
+  }
+
+  static decryptChunk(uploadId: string, key: Pick<DocumentEncryptionKey, 'encryptedKey' | 'keyId'>, offset: number, data: Buffer): Buffer {
+    const decipher = createDecipheriv('aes-256-gcm', this.unwrapKey(uploadId, key), data.subarray(0, 12))
+    decipher.setAAD(Buffer.from(`${uploadId}:${offset}`))
+    decipher.setAuthTag(data.subarray(12, 28))
+    return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()])
+  }
+
+  /**
+   * Stream a document's plaintext. The stream errors at the end if the file
+   * was tampered with.
+   */
+  static createDecryptStream(filePath: string, documentId: string, key: DocumentEncryptionKey): Readable {
+    const decipher = createDecipheriv('aes-256-gcm', this.unwrapKey(documentId, key), Buffer.from(key.nonce, 'base64'))
+    decipher.setAuthTag(Buffer.from(key.authTag, 'base64'))
+
+    const source = createReadStream(filePath)
+    source.on('error', error => decipher.destroy(error))
+    return source.pipe(decipher)
+  }
+
+  /**
+   * Throw when DOCUMENT_MASTER_KEY is missing, so the server refuses to
+   * start instead of failing on the first upload
+   */
+  static checkConfiguration(): void {
+    this.masterKeys()
+  }
+
+  /**
+   * Wrap a document's data key with the current master key. Returns null
+   * when it already is.
+   */
+  static rewrapKey(documentId: string, key: DocumentEncryptionKey): Pick<DocumentEncryptionKey, 'encryptedKey' | 'keyId'> | null {
+    const current = this.currentMasterKey()
+    if (key.keyId === current.id) {
+      return null
+    }
+
+    return {
+      encryptedKey: this.wrapKey(documentId, this.unwrapKey(documentId, key), current.key),
+      keyId: current.id
+    }
+  }
+
+  static currentKeyId(): string {
+    return this.currentMasterKey().id
+  }
+
+  private static describe(documentId: string, dataKey: Buffer, nonce: Buffer, authTag: Buffer): DocumentEncryptionKey {
+    const master = this.currentMasterKey()
+
+    return {
+      encryptedKey: this.wrapKey(documentId, dataKey, master.key),
+      nonce: nonce.toString('base64'),
+      authTag: authTag.toString('base64'),
+      keyId: master.id
+    }
+  }
+
+  private static wrapKey(documentId: string, dataKey: Buffer, masterKey: Buffer): string {
+    const iv = randomBytes(12)
+    const cipher = createCipheriv('aes-256-gcm', masterKey, iv)
+    cipher.setAAD(Buffer.from(documentId))
+    const ciphertext = Buffer.concat([cipher.update(dataKey), cipher.final()])
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64')
+  }
+
+  private static unwrapKey(documentId: string, key: Pick<DocumentEncryptionKey, 'encryptedKey' | 'keyId'>): Buffer {
+    const master = this.masterKeys().find(candidate => candidate.id === key.keyId)
+    if (!master) {
+      throw new Error(`Document master key ${key.keyId} is not configured`)
+    }
+
+    const data = Buffer.from(key.encryptedKey, 'base64')
+    const decipher = createDecipheriv('aes-256-gcm', master.key, data.subarray(0, 12))
+    decipher.setAAD(Buffer.from(documentId))
+    decipher.setAuthTag(data.subarray(12, 28))
+    return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()])
+  }
+
+  private static currentMasterKey(): { id: string; key: Buffer } {
+    return this.masterKeys()[0]
+  }
+
+  /**
+   * The current master key first, then previous ones. Each is identified by
+   * a fingerprint, so no separate key ids need configuring.
+   */
+  private static masterKeys(): { id: string; key: Buffer }[] {
+    const current = process.env.DOCUMENT_MASTER_KEY
+    if (!current) {
+      throw new Error('DOCUMENT_MASTER_KEY is not configured')
+    }
+
+    const previous = (process.env.DOCUMENT_PREVIOUS_MASTER_KEYS || '')
+      .split(',')
+      .map(secret => secret.trim())
+      .filter(Boolean)
+
+    return [current, ...previous].map(secret => {
+      const key = createHash('sha256').update(secret).digest()
+      return {
+        id: createHash('sha256').update(key).digest('hex').substring(0, 16),
+        key
+      }
+    })
+  }
+}
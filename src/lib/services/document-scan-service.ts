@@ -0,0 +1,163 @@
+import { database } from '../database'
+import { DocumentService } from './document-service'
+import { ClamAVScanner, MalwareScanner, TestMalwareScanner } from './malware-scanner'
+
+export type ScanStatus = 'PENDING' | 'CLEAN' | 'INFECTED' | 'FAILED'
+
+/**
+ * Malware scanning of uploaded documents. Uploads are stored PENDING and
+ * cannot be downloaded until a scan finds them CLEAN. Scans that fail, or
+ * never ran because the server stopped, are retried by scanPending().
+ */
+export class DocumentScanService {
+  private static configuredScanner: MalwareScanner | null = null
+  private static readonly RETRY_AFTER_MINUTES = 5
+
+  /**
+   * Replace the scanning engine, e.g. in tests
+   */
+  static useScanner(scanner: MalwareScanner): void {
+    this.configuredScanner = scanner
+  }
+
+  /**
+   * Throw when no real scanner is configured in production, so the server
+   * refuses to start instead of accepting unscanned uploads
+   */
+  static checkConfiguration(): void {
+    console.log(`✅ Malware scanning with ${this.scanner.name}`)
+  }
+
+  /**
+   * Scan a new upload without making the uploader wait for it
+   */
+  static scanInBackground(documentId: string): void {
+    this.scanDocument(documentId).catch(error => {
+      console.error(`Malware scan of document ${documentId} could not be recorded:`, error)
+    })
+  }
+
+  /**
+   * Scan a document's plaintext and record the result. Returns null when
+   * the document does not exist.
+   */
+  static async scanDocument(documentId: string): Promise<ScanStatus | null> {
+    const [rows] = await database.execute(
+      'SELECT id, patient_user_id, filename, storage_path FROM documents WHERE id = ?',
+      [documentId]
+    ) as [{ id: string; patient_user_id: string; filename: string; storage_path: string }[]]
+
+    if (!rows || rows.length === 0) {
+      return null
+    }
+
+    const document = rows[0]
+    let status: ScanStatus
+    let detail: string | null = null
+
+    try {
+      const file = await DocumentService.openFile(documentId, document.storage_path)
+      const result = await this.scanner.scan(file.stream)
+      status = result.clean ? 'CLEAN' : 'INFECTED'
+      detail = result.signature || null
+    } catch (error) {
+      console.error(`Malware scan of document ${documentId} failed:`, error)
+      status = 'FAILED'
+      detail = error instanceof Error ? error.message : String(error)
+    }
+
+    await database.execute(
+      'UPDATE documents SET scan_status = ?, scan_result = ?, scanned_at = ? WHERE id = ?',
+      [status, detail, new Date().toISOString(), documentId]
+    )
+
+    if (status === 'INFECTED') {
+      console.warn(`🦠 Document ${documentId} (${document.filename}) quarantined: ${detail}`)
+
+      await database.execute(
+        'INSERT INTO audit_logs (actor_user_id, actor_role, patient_user_id, action_type, details_json) VALUES (?, ?, ?, ?, ?)',
+        [
+          null,
+          'SYSTEM',
+          document.patient_user_id,
+          'DOCUMENT_QUARANTINED',
+          JSON.stringify({
+            documentId,
+            filename: document.filename,
+            scanner: this.scanner.name,
+            signature: detail,
+            timestamp: new Date().toISOString()
+          })
+        ]
+      )
+    }
+
+    return status
+  }
+
+  /**
+   * Scan documents whose scan failed or never finished
+   */
+  static async scanPending(limit: number = 10): Promise<number> {
+    try {
+      const retryBefore = new Date(Date.now() - this.RETRY_AFTER_MINUTES * 60 * 1000).toISOString()
+      const [rows] = await database.execute(
+        `SELECT id FROM documents
+         WHERE scan_status IN ('PENDING', 'FAILED') AND datetime(COALESCE(scanned_at, uploaded_at)) < datetime(?)
+         ORDER BY uploaded_at
+         LIMIT ?`,
+        [retryBefore, limit]
+      ) as [{ id: string }[]]
+
+      for (const row of rows) {
+        await this.scanDocument(row.id)
+      }
+
+      return rows.length
+    } catch (error) {
+      console.error('Scan pending documents error:', error)
+      return 0
+    }
+  }
+
+  private static get scanner(): MalwareScanner {
+    if (!this.configuredScanner) {
+      this.configuredScanner = this.createScanner()
+    }
+    return this.configuredScanner
+  }
+
+  /**
+   * clamd when MALWARE_SCANNER is "clamav". Outside production the test
+   * scanner, which passes everything but the EICAR test file, is the default.
+   */
+  private static createScanner(): MalwareScanner {
+    const isProduction = process.env.NODE_ENV === 'production'
+    const name = process.env.MALWARE_SCANNER || (isProduction ? null : 'test')
+
+    if (name === 'clamav') {
+      const { CLAMAV_SOCKET, CLAMAV_HOST, CLAMAV_PORT, CLAMAV_TIMEOUT_MS } = process.env
+
+      return new ClamAVScanner({
+        socketPath: CLAMAV_SOCKET || undefined,
+        host: CLAMAV_HOST || '127.0.0.1',
+        port: parseInt(CLAMAV_PORT || '3310', 10),
+        timeoutMs: parseInt(CLAMAV_TIMEOUT_MS || '60000', 10)
+      })
+    }
+
+    if (!name) {
+      throw new Error('MALWARE_SCANNER is not configured')
+    }
+
+    if (name !== 'test') {
+      throw new Error(`Unknown MALWARE_SCANNER "${name}"`)
+    }
+
+    if (isProduction) {
+      throw new Error('The test malware scanner cannot be used in production')
+    }
+
+    return new TestMalwareScanner()
+  }
+}
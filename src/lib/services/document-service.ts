@@ -1,7 +1,16 @@
-import { database } from '../database'
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { database, WriteResult } from '../database'
+import { createReadStream } from 'fs'
 import fs from 'fs/promises'
 import path from 'path'
+import { Readable } from 'stream'
 import { v4 as uuidv4 } from 'uuid'
+import type { SessionData, EmergencySessionData } from '../auth'
+import { BREAK_GLASS_METHOD } from './break-glass-service'
+import { DocumentEncryption } from './document-encryption'
+import { DocumentScanService, type ScanStatus } from './document-scan-service'
+import { EmergencyPolicyService } from './emergency-policy-service'
+import { RBACService } from './rbac-service'
 
 export interface UploadDocumentData {
   encounterId: string
@@ -21,6 +30,37 @@ export interface DocumentResult {
   documents?: any[]
 }
 
+export interface DocumentDownloadResult {
+  success: boolean
+  message: string
+  downloadUrl?: string
+  expiresAt?: Date
+  scanStatus?: ScanStatus | null // Null for documents uploaded before scanning
+}
+
+export interface DocumentFileResult {
+  success: boolean
+  message: string
+  stream?: Readable // Plaintext, decrypted as it is read
+  size?: number
+  mimetype?: string
+  filename?: string
+}
+
+/**
+ * What a download URL is bound to: one document, one user and the session
+ * (login or emergency) they were signed in with
+ */
+interface DownloadClaims {
+  documentId: string
+  userId: string
+  role: string
+  sessionId: string
+  sessionType: 'regular' | 'emergency'
+  nonce: string // Marks the link used once redeemed
+  expiresAt: number // Unix seconds
+}
+
 export interface DocumentFilters {
   patientUserId?: string
   encounterId?: string
@@ -41,143 +81,177 @@ export const ALLOWED_MIMETYPES = [
 
 export const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
 
+// How each allowed type is recognised from its first bytes, and the extensions it may use
+const FILE_SIGNATURES = [
+  { mimetypes: ['application/pdf'], extensions: ['.pdf'], signature: Buffer.from('%PDF-'), within: 1024 },
+  { mimetypes: ['image/jpeg', 'image/jpg'], extensions: ['.jpg', '.jpeg'], signature: Buffer.from([0xff, 0xd8, 0xff]), within: 0 },
+  { mimetypes: ['image/png'], extensions: ['.png'], signature: Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), within: 0 }
+]
+
+const QUARANTINED_MESSAGE = 'Document is quarantined until its malware scan passes'
+
 export class DocumentService {
   private static readonly UPLOAD_DIR = process.env.UPLOAD_DIR || './uploads'
+  private static readonly DOWNLOAD_URL_SECONDS = 5 * 60
+
+  /**
+   * Throw when the download URL secret or document master key is missing,
+   * so the server refuses to start instead of failing on first use
+   */
+  static checkConfiguration(): void {
+    this.downloadUrlSecret()
+    DocumentEncryption.checkConfiguration()
+  }
 
   /**
    * Upload a document and save metadata
    */
   static async uploadDocument(uploadData: UploadDocumentData): Promise<DocumentResult> {
-    const connection = await pool.getConnection()
-
-    try {
-      await connection.beginTransaction()
+    // Validate file type
+    if (!ALLOWED_MIMETYPES.includes(uploadData.mimetype as any)) {
+      return {
+        success: false,
+        message: `Invalid file type. Allowed types: ${ALLOWED_MIMETYPES.join(', ')}`
+      }
+    }
 
-      // Validate file type
-      if (!ALLOWED_MIMETYPES.includes(uploadData.mimetype as any)) {
-        return {
-          success: false,
-          message: `Invalid file type. Allowed types: ${ALLOWED_MIMETYPES.join(', ')}`
-        }
+    // Validate file size
+    if (uploadData.buffer.length > MAX_FILE_SIZE) {
+      return {
+        success: false,
+        message: `File too large. Maximum size: ${MAX_FILE_SIZE / 1024 / 1024}MB`
       }
+    }
 
-      // Validate file size
-      if (uploadData.buffer.length > MAX_FILE_SIZE) {
-        return {
-          success: false,
-          message: `File too large. Maximum size: ${MAX_FILE_SIZE / 1024 / 1024}MB`
-        }
+    // Validate the content is what the client says it is
+    const content = this.validateFileContent(uploadData.filename, uploadData.mimetype, uploadData.buffer)
+    if (!content.isValid) {
+      return {
+        success: false,
+        message: content.errors.join(', ')
       }
+    }
 
-      // Verify encounter exists and user has permission
-      const [encounters] = await connection.execute(
-        'SELECT patient_user_id, hospital_id FROM encounters WHERE id = ?',
-        [uploadData.encounterId]
-      ) as any
+    let storagePath: string | null = null
 
-      if (!encounters || encounters.length === 0) {
-        return {
-          success: false,
-          message: 'Encounter not found'
+    try {
+      const result = await database.transaction(async (tx): Promise<DocumentResult> => {
+        // Verify encounter exists and user has permission
+        const [encounters] = await tx.execute(
+          'SELECT patient_user_id, hospital_id FROM encounters WHERE id = ?',
+          [uploadData.encounterId]
+        ) as any
+
+        if (!encounters || encounters.length === 0) {
+          return {
+            success: false,
+            message: 'Encounter not found'
+          }
         }
-      }
 
-      const encounter = encounters[0]
+        const encounter = encounters[0]
 
-      // Verify patient matches
-      if (encounter.patient_user_id !== uploadData.patientUserId) {
-        return {
-          success: false,
-          message: 'Patient ID does not match encounter'
+        // Verify patient matches
+        if (encounter.patient_user_id !== uploadData.patientUserId) {
+          return {
+            success: false,
+            message: 'Patient ID does not match encounter'
+          }
         }
-      }
 
-      // Verify hospital matches (for operators)
-      if (uploadData.hospitalId && encounter.hospital_id !== uploadData.hospitalId) {
-        return {
-          success: false,
-          message: 'Hospital ID does not match encounter'
+        // Verify hospital matches (for operators)
+        if (uploadData.hospitalId && encounter.hospital_id !== uploadData.hospitalId) {
+          return {
+            success: false,
+            message: 'Hospital ID does not match encounter'
+          }
         }
-      }
 
-      // Generate unique filename
-      const fileExtension = path.extname(uploadData.filename)
-      const uniqueFilename = `${uuidv4()}${fileExtension}`
-      const storagePath = path.join(this.UPLOAD_DIR, uniqueFilename)
-
-      // Ensure upload directory exists
-      await fs.mkdir(this.UPLOAD_DIR, { recursive: true })
-
-      // Save file to disk
-      await fs.writeFile(storagePath, uploadData.buffer)
-
-      // Save document metadata to database
-      const [documentResult] = await connection.execute(`
-        INSERT INTO documents (
-          encounter_id, patient_user_id, uploaded_by_user_id, hospital_id,
-          filename, storage_path, mimetype
-        ) VALUES (?, ?, ?, ?, ?, ?, ?)
-      `, [
-        uploadData.encounterId,
-        uploadData.patientUserId,
-        uploadData.uploadedByUserId,
-        uploadData.hospitalId,
-        uploadData.filename,
-        storagePath,
-        uploadData.mimetype
-      ]) as any
-
-      const documentId = documentResult.insertId
-
-      // Log document upload
-      await connection.execute(
-        'INSERT INTO audit_logs (actor_user_id, actor_role, patient_user_id, action_type, details_json) VALUES (?, ?, ?, ?, ?)',
-        [
-          uploadData.uploadedByUserId,
-          'OPERATOR', // Assuming operators upload documents
+        // Generate unique filename
+        const fileExtension = path.extname(uploadData.filename)
+        const uniqueFilename = `${uuidv4()}${fileExtension}`
+        storagePath = path.join(this.UPLOAD_DIR, uniqueFilename)
+
+        // Ensure upload directory exists
+        await fs.mkdir(this.UPLOAD_DIR, { recursive: true })
+
+        const documentId = uuidv4()
+
+        // Save encrypted file to disk
+        const encryption = await DocumentEncryption.writeFile(storagePath, documentId, uploadData.buffer)
+
+        // Save document metadata to database
+        await tx.execute(`
+          INSERT INTO documents (
+            id, encounter_id, patient_user_id, uploaded_by_user_id, hospital_id,
+            filename, storage_path, mimetype,
+            encrypted_key, encryption_nonce, encryption_tag, encryption_key_id, scan_status
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'PENDING')
+        `, [
+          documentId,
+          uploadData.encounterId,
           uploadData.patientUserId,
-          'DOCUMENT_UPLOADED',
-          JSON.stringify({
-            documentId: documentId.toString(),
-            filename: uploadData.filename,
-            mimetype: uploadData.mimetype,
-            encounterId: uploadData.encounterId,
-            fileSize: uploadData.buffer.length,
-            timestamp: new Date().toISOString()
-          })
-        ]
-      )
-
-      await connection.commit()
+          uploadData.uploadedByUserId,
+          uploadData.hospitalId,
+          uploadData.filename,
+          storagePath,
+          uploadData.mimetype,
+          encryption.encryptedKey,
+          encryption.nonce,
+          encryption.authTag,
+          encryption.keyId
+        ])
+
+        // Log document upload
+        await tx.execute(
+          'INSERT INTO audit_logs (actor_user_id, actor_role, patient_user_id, action_type, details_json) VALUES (?, ?, ?, ?, ?)',
+          [
+            uploadData.uploadedByUserId,
+            'OPERATOR', // Assuming operators upload documents
+            uploadData.patientUserId,
+            'DOCUMENT_UPLOADED',
+            JSON.stringify({
+              documentId,
+              filename: uploadData.filename,
+              mimetype: uploadData.mimetype,
+              encounterId: uploadData.encounterId,
+              fileSize: uploadData.buffer.length,
+              timestamp: new Date().toISOString()
+            })
+          ]
+        )
+
+        console.log(`📄 Document uploaded: ${uploadData.filename} for encounter ${uploadData.encounterId}`)
 
-      console.log(`📄 Document uploaded: ${uploadData.filename} for encounter ${uploadData.encounterId}`)
+        return {
+          success: true,
+          message: 'Document uploaded successfully',
+          documentId
+        }
+      })
 
-      return {
-        success: true,
-        message: 'Document uploaded successfully',
-        documentId: documentId.toString()
+      if (result.success && result.documentId) {
+        DocumentScanService.scanInBackground(result.documentId)
       }
 
+      return result
+
     } catch (error) {
-      await connection.rollback()
       console.error('Document upload error:', error)
       
       // Clean up file if it was created
-      try {
-        const fileExtension = path.extname(uploadData.filename)
-        const uniqueFilename = `${uuidv4()}${fileExtension}`
-        const storagePath = path.join(this.UPLOAD_DIR, uniqueFilename)
-        await fs.unlink(storagePath)
-      } catch (cleanupError) {
-        // Ignore cleanup errors
+      if (storagePath) {
+        try {
+          await fs.unlink(storagePath)
+        } catch (cleanupError) {
+          // Ignore cleanup errors
+        }
       }
 
       return {
         success: false,
         message: 'Failed to upload document'
       }
-    } finally {
-      connection.release()
     }
   }
 
@@ -189,7 +263,7 @@ export class DocumentService {
       const [documents] = await database.execute(`
         SELECT 
           d.id, d.encounter_id, d.patient_user_id, d.uploaded_by_user_id,
-          d.hospital_id, d.filename, d.storage_path, d.mimetype, d.uploaded_at,
+          d.hospital_id, d.filename, d.storage_path, d.mimetype, d.uploaded_at, d.scan_status,
           uploader.name as uploaded_by_name,
           h.name as hospital_name
         FROM documents d
@@ -221,7 +295,8 @@ export class DocumentService {
           filename: document.filename,
           storagePath: document.storage_path,
           mimetype: document.mimetype,
-          uploadedAt: document.uploaded_at
+          uploadedAt: document.uploaded_at,
+          scanStatus: document.scan_status
         }
       }
 
@@ -235,12 +310,13 @@ export class DocumentService {
   }
 
   /**
-   * Get document file content
+   * Issue a short-lived signed URL for a document's file, after checking that
+   * the user may read the document
    */
-  static async getDocumentFile(documentId: string): Promise<{ success: boolean; buffer?: Buffer; mimetype?: string; filename?: string; message?: string }> {
+  static async getDocumentFile(documentId: string, user: SessionData | EmergencySessionData): Promise<DocumentDownloadResult> {
     try {
       const documentResult = await this.getDocument(documentId)
-      
+
       if (!documentResult.success || !documentResult.document) {
         return {
           success: false,
@@ -249,29 +325,153 @@ export class DocumentService {
       }
 
       const document = documentResult.document
+      const session = await this.getReadingSession(user, document)
+
+      if (!session) {
+        await RBACService.logAccessAttempt(user, 'document', documentId, 'download', false, 'No access to this document')
+        return {
+          success: false,
+          message: 'Access denied'
+        }
+      }
+
+      if (this.isQuarantined(document.scanStatus)) {
+        return {
+          success: false,
+          message: QUARANTINED_MESSAGE,
+          scanStatus: document.scanStatus
+        }
+      }
 
-      // Check if file exists
+      const expiresAt = new Date(Date.now() + this.DOWNLOAD_URL_SECONDS * 1000)
+      const token = this.signDownload({
+        documentId,
+        userId: session.userId,
+        role: session.role,
+        sessionId: session.sessionId,
+        sessionType: session.sessionType,
+        nonce: randomBytes(16).toString('hex'),
+        expiresAt: Math.floor(expiresAt.getTime() / 1000)
+      })
+
+      return {
+        success: true,
+        message: 'Download URL issued',
+        downloadUrl: `/api/documents/${encodeURIComponent(documentId)}/download?token=${token}`,
+        expiresAt,
+        scanStatus: document.scanStatus
+      }
+
+    } catch (error) {
+      console.error('Get document file error:', error)
+      return {
+        success: false,
+        message: 'Failed to retrieve document file'
+      }
+    }
+  }
+
+  /**
+   * Read a document's file through a URL from getDocumentFile. The URL is a
+   * bearer link: it works once, and only while the session it was issued to
+   * is still active. Every download is audited.
+   */
+  static async redeemDownload(
+    documentId: string,
+    token: string,
+    ipAddress: string | null = null
+  ): Promise<DocumentFileResult> {
+    try {
+      const claims = this.verifyDownload(token)
+
+      if (!claims || claims.documentId !== documentId || claims.expiresAt * 1000 < Date.now()) {
+        return {
+          success: false,
+          message: 'Download link is invalid or has expired'
+        }
+      }
+
+      if (!await this.isSessionActive(claims)) {
+        return {
+          success: false,
+          message: 'Download link is invalid or has expired'
+        }
+      }
+
+      const [redemption] = await database.execute(
+        'INSERT OR IGNORE INTO document_download_redemptions (nonce, document_id, redeemed_at, expires_at) VALUES (?, ?, ?, ?)',
+        [claims.nonce, documentId, new Date().toISOString(), new Date(claims.expiresAt * 1000).toISOString()]
+      ) as [WriteResult]
+
+      if (redemption.affectedRows === 0) {
+        return {
+          success: false,
+          message: 'Download link has already been used'
+        }
+      }
+
+      const documentResult = await this.getDocument(documentId)
+
+      if (!documentResult.success || !documentResult.document) {
+        return {
+          success: false,
+          message: documentResult.message
+        }
+      }
+
+      const document = documentResult.document
+
+      if (this.isQuarantined(document.scanStatus)) {
+        return {
+          success: false,
+          message: QUARANTINED_MESSAGE
+        }
+      }
+
+      let file: { stream: Readable; size: number }
       try {
-        await fs.access(document.storagePath)
+        file = await this.openFile(documentId, document.storagePath)
       } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error
+        }
+
         return {
           success: false,
           message: 'Document file not found on disk'
         }
       }
 
-      // Read file content
-      const buffer = await fs.readFile(document.storagePath)
+      await database.execute(
+        'INSERT INTO audit_logs (actor_user_id, actor_role, patient_user_id, action_type, details_json) VALUES (?, ?, ?, ?, ?)',
+        [
+          claims.userId,
+          claims.role,
+          document.patientUserId,
+          'DOCUMENT_DOWNLOADED',
+          JSON.stringify({
+            documentId,
+            filename: document.filename,
+            encounterId: document.encounterId,
+            sessionType: claims.sessionType,
+            sessionId: claims.sessionId,
+            ipAddress,
+            timestamp: new Date().toISOString()
+          })
+        ]
+      )
 
       return {
         success: true,
-        buffer,
+        message: 'Document file retrieved successfully',
+        stream: file.stream,
+        size: file.size,
         mimetype: document.mimetype,
         filename: document.filename
       }
 
     } catch (error) {
-      console.error('Get document file error:', error)
+      console.error('Redeem document download error:', error)
       return {
         success: false,
         message: 'Failed to retrieve document file'
@@ -279,6 +479,20 @@ export class DocumentService {
     }
   }
 
+  /**
+   * Forget redeemed download links that have expired anyway
+   */
+  static async purgeExpiredDownloadLinks(): Promise<void> {
+    try {
+      await database.execute(
+        'DELETE FROM document_download_redemptions WHERE expires_at <= ?',
+        [new Date().toISOString()]
+      )
+    } catch (error) {
+      console.error('Download link purge error:', error)
+    }
+  }
+
   /**
    * Get documents with filters
    */
@@ -287,7 +501,7 @@ export class DocumentService {
       let query = `
         SELECT 
           d.id, d.encounter_id, d.patient_user_id, d.uploaded_by_user_id,
-          d.hospital_id, d.filename, d.mimetype, d.uploaded_at,
+          d.hospital_id, d.filename, d.mimetype, d.uploaded_at, d.scan_status,
           uploader.name as uploaded_by_name,
           h.name as hospital_name,
           e.type as encounter_type,
@@ -359,7 +573,8 @@ export class DocumentService {
         mimetype: doc.mimetype,
         uploadedAt: doc.uploaded_at,
         encounterType: doc.encounter_type,
-        encounterDate: doc.encounter_date
+        encounterDate: doc.encounter_date,
+        scanStatus: doc.scan_status
       }))
 
       return {
@@ -381,63 +596,56 @@ export class DocumentService {
    * Delete document (soft delete - mark as deleted but keep file)
    */
   static async deleteDocument(documentId: string, deletedByUserId: string): Promise<DocumentResult> {
-    const connection = await pool.getConnection()
-
     try {
-      await connection.beginTransaction()
-
-      // Get document info
-      const documentResult = await this.getDocument(documentId)
-      if (!documentResult.success || !documentResult.document) {
-        return {
-          success: false,
-          message: 'Document not found'
+      return await database.transaction(async (tx) => {
+        // Get document info
+        const documentResult = await this.getDocument(documentId)
+        if (!documentResult.success || !documentResult.document) {
+          return {
+            success: false,
+            message: 'Document not found'
+          }
         }
-      }
 
-      const document = documentResult.document
+        const document = documentResult.document
+
+        // For now, we'll just log the deletion without actually deleting the file
+        // In a production system, you might want to move files to a "deleted" folder
+        
+        // Log document deletion
+        await tx.execute(
+          'INSERT INTO audit_logs (actor_user_id, actor_role, patient_user_id, action_type, details_json) VALUES (?, ?, ?, ?, ?)',
+          [
+            deletedByUserId,
+            'SYSTEM',
+            document.patientUserId,
+            'DOCUMENT_DELETED',
+            JSON.stringify({
+              documentId,
+              filename: document.filename,
+              encounterId: document.encounterId,
+              timestamp: new Date().toISOString()
+            })
+          ]
+        )
+
+        // Remove from database (hard delete for now, but could be soft delete)
+        await tx.execute('DELETE FROM documents WHERE id = ?', [documentId])
+
+        console.log(`🗑️ Document deleted: ${document.filename} (ID: ${documentId})`)
 
-      // For now, we'll just log the deletion without actually deleting the file
-      // In a production system, you might want to move files to a "deleted" folder
-      
-      // Log document deletion
-      await connection.execute(
-        'INSERT INTO audit_logs (actor_user_id, actor_role, patient_user_id, action_type, details_json) VALUES (?, ?, ?, ?, ?)',
-        [
-          deletedByUserId,
-          'SYSTEM',
-          document.patientUserId,
-          'DOCUMENT_DELETED',
-          JSON.stringify({
-            documentId,
-            filename: document.filename,
-            encounterId: document.encounterId,
-            timestamp: new Date().toISOString()
-          })
-        ]
-      )
-
-      // Remove from database (hard delete for now, but could be soft delete)
-      await connection.execute('DELETE FROM documents WHERE id = ?', [documentId])
-
-      await connection.commit()
-
-      console.log(`🗑️ Document deleted: ${document.filename} (ID: ${documentId})`)
-
-      return {
-        success: true,
-        message: 'Document deleted successfully'
-      }
+        return {
+          success: true,
+          message: 'Document deleted successfully'
+        }
+      })
 
     } catch (error) {
-      await connection.rollback()
       console.error('Delete document error:', error)
       return {
         success: false,
         message: 'Failed to delete document'
       }
-    } finally {
-      connection.release()
     }
   }
 
@@ -510,7 +718,7 @@ export class DocumentService {
   /**
    * Validate file upload
    */
-  static validateFileUpload(filename: string, mimetype: string, size: number): { isValid: boolean; errors: string[] } {
+  static validateFileUpload(filename: string, mimetype: string, size: number, maxSize: number = MAX_FILE_SIZE): { isValid: boolean; errors: string[] } {
     const errors: string[] = []
 
     // Check file type
@@ -519,8 +727,8 @@ export class DocumentService {
     }
 
     // Check file size
-    if (size > MAX_FILE_SIZE) {
-      errors.push(`File too large. Maximum size: ${MAX_FILE_SIZE / 1024 / 1024}MB`)
+    if (size > maxSize) {
+      errors.push(`File too large. Maximum size: ${maxSize / 1024 / 1024}MB`)
     }
 
     // Check filename
@@ -541,6 +749,30 @@ export class DocumentService {
     }
   }
 
+  /**
+   * Check a file's leading bytes against its declared type and extension,
+   * since both come from the client
+   */
+  static validateFileContent(filename: string, mimetype: string, content: Buffer): { isValid: boolean; errors: string[] } {
+    const errors: string[] = []
+    const detected = FILE_SIGNATURES.find(({ signature, within }) =>
+      within ? content.subarray(0, within + signature.length).includes(signature) : content.subarray(0, signature.length).equals(signature)
+    )
+
+    if (!detected) {
+      errors.push('File content is not a PDF, JPEG or PNG')
+    } else if (!detected.mimetypes.includes(mimetype)) {
+      errors.push(`File content is ${detected.mimetypes[0]}, not ${mimetype}`)
+    } else if (!detected.extensions.includes(path.extname(filename).toLowerCase())) {
+      errors.push(`File extension does not match its content (${detected.extensions.join(', ')})`)
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    }
+  }
+
   /**
    * Get file type icon
    */
@@ -567,4 +799,151 @@ export class DocumentService {
 
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
   }
-}
\ No newline at end of file
+
+  /**
+   * Documents are stored as "/uploads/documents/<file>" (patient uploads),
+   * a path under UPLOAD_DIR, or a bare file name in UPLOAD_DIR
+   */
+  static resolveStoragePath(storagePath: string): string {
+    if (storagePath.startsWith('/uploads/')) {
+      return path.join(process.cwd(), storagePath.substring(1))
+    }
+
+    return storagePath.includes('/')
+      ? path.resolve(storagePath)
+      : path.resolve(this.UPLOAD_DIR, storagePath)
+  }
+
+  /**
+   * Open a document's file for reading. Files uploaded before encryption
+   * was introduced are read as they are.
+   */
+  static async openFile(documentId: string, storagePath: string): Promise<{ stream: Readable; size: number }> {
+    const filePath = this.resolveStoragePath(storagePath)
+    const { size } = await fs.stat(filePath)
+
+    const [rows] = await database.execute(
+      'SELECT encrypted_key, encryption_nonce, encryption_tag, encryption_key_id FROM documents WHERE id = ?',
+      [documentId]
+    ) as [({ encrypted_key: null } | { encrypted_key: string; encryption_nonce: string; encryption_tag: string; encryption_key_id: string })[]]
+
+    const row = rows[0]
+    if (!row?.encrypted_key) {
+      return { stream: createReadStream(filePath), size }
+    }
+
+    // GCM adds no padding, so the plaintext is the same size as the file
+    const stream = DocumentEncryption.createDecryptStream(filePath, documentId, {
+      encryptedKey: row.encrypted_key,
+      nonce: row.encryption_nonce,
+      authTag: row.encryption_tag,
+      keyId: row.encryption_key_id
+    })
+    stream.on('error', error => console.error(`Document ${documentId} failed to decrypt:`, error))
+
+    return { stream, size }
+  }
+
+  /**
+   * The session a user reads a document under, or null when they may not
+   * read it. Patients read their own documents, hospital staff their
+   * hospital's, and doctors in an emergency session the patient's documents
+   * when the patient's policy allows it.
+   */
+  private static async getReadingSession(
+    user: SessionData | EmergencySessionData,
+    document: { patientUserId: string; hospitalId: string | null }
+  ): Promise<Omit<DownloadClaims, 'documentId' | 'nonce' | 'expiresAt'> | null> {
+    // Decoded emergency tokens carry their type alongside the session data
+    const token = user as EmergencySessionData & { type?: string }
+
+    if (token.type === 'emergency') {
+      const doctorId = user.userId
+      const [sessions] = await database.execute(
+        `SELECT patient_user_id, method, data_categories_json FROM emergency_sessions
+         WHERE id = ? AND doctor_user_id = ? AND status = 'ACTIVE'`,
+        [token.sessionId, doctorId]
+      ) as [{ patient_user_id: string; method: string; data_categories_json: string | null }[]]
+
+      const session = sessions?.[0]
+      if (!session || session.patient_user_id !== document.patientUserId || session.method === BREAK_GLASS_METHOD ||
+        !EmergencyPolicyService.parseSessionCategories(session.data_categories_json).includes('DOCUMENTS')) {
+        return null
+      }
+
+      return { userId: doctorId, role: 'DOCTOR', sessionId: token.sessionId, sessionType: 'emergency' }
+    }
+
+    // Downloads are bound to a server-side session, so tokens without one cannot get a URL
+    if (!user.jti) {
+      return null
+    }
+
+    const allowed = await RBACService.hasPermission(user, 'READ_OWN_ENCOUNTERS', { patientUserId: document.patientUserId }) ||
+      await RBACService.hasPermission(user, 'VIEW_PATIENT_DATA', { patientUserId: document.patientUserId }) ||
+      (!!document.hospitalId && await RBACService.hasPermission(user, 'READ_HOSPITAL_ENCOUNTERS', { hospitalId: document.hospitalId }))
+
+    return allowed ? { userId: user.userId, role: user.role, sessionId: user.jti, sessionType: 'regular' } : null
+  }
+
+  private static async isSessionActive(claims: DownloadClaims): Promise<boolean> {
+    const now = new Date().toISOString()
+
+    const [sessions] = claims.sessionType === 'emergency'
+      ? await database.execute(
+        `SELECT id FROM emergency_sessions
+         WHERE id = ? AND doctor_user_id = ? AND status = 'ACTIVE' AND expires_at > ?`,
+        [claims.sessionId, claims.userId, now]
+      ) as [{ id: string }[]]
+      : await database.execute(
+        'SELECT id FROM sessions WHERE id = ? AND user_id = ? AND revoked_at IS NULL AND expires_at > ?',
+        [claims.sessionId, claims.userId, now]
+      ) as [{ id: string }[]]
+
+    return sessions.length > 0
+  }
+
+  private static signDownload(claims: DownloadClaims): string {
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url')
+    return `${payload}.${this.downloadSignature(payload).toString('base64url')}`
+  }
+
+  private static verifyDownload(token: string): DownloadClaims | null {
+    const [payload, signature] = token.split('.')
+    if (!payload || !signature) {
+      return null
+    }
+
+    const expected = this.downloadSignature(payload)
+    const provided = Buffer.from(signature, 'base64url')
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+      return null
+    }
+
+    try {
+      return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+    } catch {
+      return null
+    }
+  }
+
+  private static downloadSignature(payload: string): Buffer {
+    return createHmac('sha256', this.downloadUrlSecret()).update(payload).digest()
+  }
+
+  private static downloadUrlSecret(): string {
+    const secret = process.env.DOCUMENT_URL_SECRET
+    if (!secret) {
+      throw new Error('DOCUMENT_URL_SECRET is not configured')
+    }
+    return secret
+  }
+
+  /**
+   * Documents stay unreadable until scanned clean. Those uploaded before
+   * scanning was introduced have no status and are served as before.
+   */
+  private static isQuarantined(scanStatus: ScanStatus | null): boolean {
+    return !!scanStatus && scanStatus !== 'CLEAN'
+  }
+}
@@ -0,0 +1,555 @@
+import { createHash } from 'crypto'
+import fs from 'fs/promises'
+import path from 'path'
+import { Readable } from 'stream'
+import { v4 as uuidv4 } from 'uuid'
+import { database, WriteResult } from '../database'
+import type { SessionData, EmergencySessionData } from '../auth'
+import { DocumentEncryption } from './document-encryption'
+import { DocumentScanService } from './document-scan-service'
+import { DocumentService } from './document-service'
+import { RBACService } from './rbac-service'
+
+export interface CreateUploadData {
+  encounterId: string
+  filename: string
+  mimetype: string
+  size: number
+}
+
+export interface DocumentUpload {
+  id: string
+  encounterId: string
+  filename: string
+  mimetype: string
+  totalSize: number
+  receivedBytes: number
+  chunkSize: number // Largest chunk accepted in one request
+  status: 'UPLOADING' | 'COMPLETED'
+  documentId: string | null
+  expiresAt: string
+}
+
+export interface DocumentUploadResult {
+  success: boolean
+  message: string
+  upload?: DocumentUpload
+  documentId?: string
+  errors?: string[]
+}
+
+export const MAX_UPLOAD_SIZE = 200 * 1024 * 1024 // 200MB
+export const MAX_CHUNK_SIZE = 8 * 1024 * 1024 // 8MB
+
+interface DocumentUploadRow {
+  id: string
+  encounter_id: string
+  patient_user_id: string
+  hospital_id: string | null
+  uploaded_by_user_id: string
+  filename: string
+  mimetype: string
+  total_size: number
+  received_bytes: number
+  encrypted_key: string
+  encryption_key_id: string
+  status: DocumentUpload['status']
+  document_id: string | null
+  expires_at: string
+}
+
+/**
+ * Resumable uploads for documents too large for one request. A client
+ * creates an upload, sends the file in chunks at increasing offsets, and
+ * completes it with the file's SHA-256. After a dropped connection it asks
+ * for the upload's received bytes and carries on from there.
+ */
+export class DocumentUploadService {
+  private static readonly UPLOAD_DIR = process.env.UPLOAD_DIR || './uploads'
+  private static readonly STAGING_DIR = path.join(process.env.UPLOAD_DIR || './uploads', 'incoming')
+  private static readonly UPLOAD_TTL_HOURS = 24
+
+  /**
+   * Start an upload for a file attached to an encounter
+   */
+  static async createUpload(data: CreateUploadData, user: SessionData | EmergencySessionData): Promise<DocumentUploadResult> {
+    const validation = DocumentService.validateFileUpload(data.filename, data.mimetype, data.size, MAX_UPLOAD_SIZE)
+    if (!validation.isValid) {
+      return {
+        success: false,
+        message: 'File validation failed',
+        errors: validation.errors
+      }
+    }
+
+    if (!Number.isInteger(data.size) || data.size <= 0) {
+      return {
+        success: false,
+        message: 'File validation failed',
+        errors: ['File is empty']
+      }
+    }
+
+    try {
+      const [encounters] = await database.execute(
+        'SELECT id, patient_user_id, hospital_id FROM encounters WHERE id = ?',
+        [data.encounterId]
+      ) as [{ id: string; patient_user_id: string; hospital_id: string | null }[]]
+
+      if (!encounters || encounters.length === 0) {
+        return {
+          success: false,
+          message: 'Encounter not found'
+        }
+      }
+
+      const encounter = encounters[0]
+
+      if (!await this.canUploadTo(user, encounter)) {
+        await RBACService.logAccessAttempt(user, 'encounter', encounter.id, 'upload', false, 'No upload access to this encounter')
+        return {
+          success: false,
+          message: 'Access denied'
+        }
+      }
+
+      const uploadId = uuidv4()
+      const key = DocumentEncryption.createUploadKey(uploadId)
+      const now = new Date()
+
+      await database.execute(
+        `INSERT INTO document_uploads (
+          id, encounter_id, patient_user_id, hospital_id, uploaded_by_user_id,
+          filename, mimetype, total_size, encrypted_key, encryption_key_id,
+          created_at, updated_at, expires_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          uploadId, encounter.id, encounter.patient_user_id, encounter.hospital_id, user.userId,
+          data.filename, data.mimetype, data.size, key.encryptedKey, key.keyId,
+          now.toISOString(), now.toISOString(), this.expiryFrom(now)
+        ]
+      )
+
+      await fs.mkdir(path.join(this.STAGING_DIR, uploadId), { recursive: true })
+
+      return {
+        success: true,
+        message: 'Upload created',
+        upload: (await this.getUpload(uploadId, user)).upload
+      }
+
+    } catch (error) {
+      console.error('Create upload error:', error)
+      return {
+        success: false,
+        message: 'Failed to create upload'
+      }
+    }
+  }
+
+  /**
+   * An upload's progress, for resuming it
+   */
+  static async getUpload(uploadId: string, user: SessionData | EmergencySessionData): Promise<DocumentUploadResult> {
+    try {
+      const row = await this.findUpload(uploadId, user)
+      if (!row) {
+        return {
+          success: false,
+          message: 'Upload not found'
+        }
+      }
+
+      return {
+        success: true,
+        message: 'Upload retrieved successfully',
+        upload: this.describe(row)
+      }
+
+    } catch (error) {
+      console.error('Get upload error:', error)
+      return {
+        success: false,
+        message: 'Failed to retrieve upload'
+      }
+    }
+  }
+
+  /**
+   * Store the chunk starting at offset. The offset must be where the
+   * previous chunk ended, so a chunk sent twice is never stored twice.
+   */
+  static async appendChunk(
+    uploadId: string,
+    user: SessionData | EmergencySessionData,
+    offset: number,
+    chunk: Buffer
+  ): Promise<DocumentUploadResult> {
+    try {
+      const row = await this.findUpload(uploadId, user)
+      if (!row) {
+        return {
+          success: false,
+          message: 'Upload not found'
+        }
+      }
+
+      if (row.status !== 'UPLOADING') {
+        return {
+          success: false,
+          message: 'Upload is already completed',
+          upload: this.describe(row)
+        }
+      }
+
+      if (offset !== row.received_bytes) {
+        return {
+          success: false,
+          message: 'Offset does not match received bytes',
+          upload: this.describe(row)
+        }
+      }
+
+      if (chunk.length === 0 || chunk.length > MAX_CHUNK_SIZE) {
+        return {
+          success: false,
+          message: 'Chunk is empty or too large'
+        }
+      }
+
+      if (offset + chunk.length > row.total_size) {
+        return {
+          success: false,
+          message: 'Chunk extends past the end of the file'
+        }
+      }
+
+      // The first chunk shows whether the file is what the client said it is
+      if (offset === 0) {
+        const content = DocumentService.validateFileContent(row.filename, row.mimetype, chunk)
+        if (!content.isValid) {
+          return {
+            success: false,
+            message: 'File content does not match its type',
+            errors: content.errors
+          }
+        }
+      }
+
+      // Written under a temporary name first, so a chunk is either whole or absent
+      const chunkPath = this.chunkPath(uploadId, offset)
+      const encrypted = DocumentEncryption.encryptChunk(uploadId, this.uploadKey(row), offset, chunk)
+      await fs.writeFile(`${chunkPath}.tmp`, encrypted)
+      await fs.rename(`${chunkPath}.tmp`, chunkPath)
+
+      const now = new Date()
+      const [result] = await database.execute(
+        `UPDATE document_uploads SET received_bytes = ?, updated_at = ?, expires_at = ?
+         WHERE id = ? AND status = 'UPLOADING' AND received_bytes = ?`,
+        [offset + chunk.length, now.toISOString(), this.expiryFrom(now), uploadId, offset]
+      ) as [WriteResult]
+
+      if (result.affectedRows === 0) {
+        // Another request stored a chunk at this offset first
+        return {
+          success: false,
+          message: 'Offset does not match received bytes',
+          upload: (await this.getUpload(uploadId, user)).upload
+        }
+      }
+
+      return this.getUpload(uploadId, user)
+
+    } catch (error) {
+      console.error('Append chunk error:', error)
+      return {
+        success: false,
+        message: 'Failed to store chunk'
+      }
+    }
+  }
+
+  /**
+   * Check the received file against the client's SHA-256 and store it as a
+   * document. Completing an upload again returns the same document.
+   */
+  static async completeUpload(uploadId: string, user: SessionData | EmergencySessionData, checksum: string): Promise<DocumentUploadResult> {
+    let storagePath: string | null = null
+
+    try {
+      const row = await this.findUpload(uploadId, user)
+      if (!row) {
+        return {
+          success: false,
+          message: 'Upload not found'
+        }
+      }
+
+      if (row.status === 'COMPLETED') {
+        return {
+          success: true,
+          message: 'Document uploaded successfully',
+          documentId: row.document_id!,
+          upload: this.describe(row)
+        }
+      }
+
+      if (row.received_bytes !== row.total_size) {
+        return {
+          success: false,
+          message: 'Upload is incomplete',
+          upload: this.describe(row)
+        }
+      }
+
+      const documentId = uuidv4()
+      storagePath = path.join(this.UPLOAD_DIR, `${uuidv4()}${path.extname(row.filename)}`)
+      await fs.mkdir(this.UPLOAD_DIR, { recursive: true })
+
+      const hash = createHash('sha256')
+      const encryption = await DocumentEncryption.encryptStream(
+        Readable.from(this.readChunks(row, hash)),
+        storagePath,
+        documentId
+      )
+
+      if (hash.digest('hex') !== checksum.toLowerCase()) {
+        // Start over rather than keep data that does not match the file
+        await fs.unlink(storagePath)
+        storagePath = null
+        await this.resetUpload(row)
+        return {
+          success: false,
+          message: 'Checksum does not match the uploaded file',
+          upload: (await this.getUpload(uploadId, user)).upload
+        }
+      }
+
+      const completed = await database.transaction(async (tx) => {
+        const [result] = await tx.execute(
+          `UPDATE document_uploads SET status = 'COMPLETED', document_id = ?, updated_at = ?
+           WHERE id = ? AND status = 'UPLOADING'`,
+          [documentId, new Date().toISOString(), uploadId]
+        ) as [WriteResult]
+
+        if (result.affectedRows === 0) {
+          return false
+        }
+
+        await tx.execute(`
+          INSERT INTO documents (
+            id, encounter_id, patient_user_id, uploaded_by_user_id, hospital_id,
+            filename, storage_path, mimetype,
+            encrypted_key, encryption_nonce, encryption_tag, encryption_key_id, scan_status
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'PENDING')
+        `, [
+          documentId,
+          row.encounter_id,
+          row.patient_user_id,
+          row.uploaded_by_user_id,
+          row.hospital_id,
+          row.filename,
+          storagePath,
+          row.mimetype,
+          encryption.encryptedKey,
+          encryption.nonce,
+          encryption.authTag,
+          encryption.keyId
+        ])
+
+        await tx.execute(
+          'INSERT INTO audit_logs (actor_user_id, actor_role, patient_user_id, action_type, details_json) VALUES (?, ?, ?, ?, ?)',
+          [
+            user.userId,
+            user.role,
+            row.patient_user_id,
+            'DOCUMENT_UPLOADED',
+            JSON.stringify({
+              documentId,
+              uploadId,
+              filename: row.filename,
+              mimetype: row.mimetype,
+              encounterId: row.encounter_id,
+              fileSize: row.total_size,
+              timestamp: new Date().toISOString()
+            })
+          ]
+        )
+
+        return true
+      })
+
+      if (!completed) {
+        // A concurrent request completed it first
+        await fs.unlink(storagePath)
+        storagePath = null
+        return this.completeUpload(uploadId, user, checksum)
+      }
+
+      storagePath = null
+      await fs.rm(path.join(this.STAGING_DIR, uploadId), { recursive: true, force: true })
+      DocumentScanService.scanInBackground(documentId)
+
+      console.log(`📄 Document uploaded: ${row.filename} (${row.total_size} bytes) for encounter ${row.encounter_id}`)
+
+      return {
+        success: true,
+        message: 'Document uploaded successfully',
+        documentId,
+        upload: (await this.getUpload(uploadId, user)).upload
+      }
+
+    } catch (error) {
+      console.error('Complete upload error:', error)
+
+      if (storagePath) {
+        await fs.rm(storagePath, { force: true }).catch(() => {})
+      }
+
+      return {
+        success: false,
+        message: 'Failed to complete upload'
+      }
+    }
+  }
+
+  /**
+   * Abandon an upload and discard its chunks
+   */
+  static async abortUpload(uploadId: string, user: SessionData | EmergencySessionData): Promise<DocumentUploadResult> {
+    try {
+      const row = await this.findUpload(uploadId, user)
+      if (!row || row.status !== 'UPLOADING') {
+        return {
+          success: false,
+          message: 'Upload not found'
+        }
+      }
+
+      await database.execute("DELETE FROM document_uploads WHERE id = ? AND status = 'UPLOADING'", [uploadId])
+      await fs.rm(path.join(this.STAGING_DIR, uploadId), { recursive: true, force: true })
+
+      return {
+        success: true,
+        message: 'Upload cancelled'
+      }
+
+    } catch (error) {
+      console.error('Abort upload error:', error)
+      return {
+        success: false,
+        message: 'Failed to cancel upload'
+      }
+    }
+  }
+
+  /**
+   * Discard uploads that stopped receiving chunks before completing
+   */
+  static async purgeExpiredUploads(): Promise<number> {
+    try {
+      const [rows] = await database.execute(
+        "SELECT id FROM document_uploads WHERE status = 'UPLOADING' AND expires_at < ?",
+        [new Date().toISOString()]
+      ) as [{ id: string }[]]
+
+      for (const row of rows) {
+        await database.execute("DELETE FROM document_uploads WHERE id = ? AND status = 'UPLOADING'", [row.id])
+        await fs.rm(path.join(this.STAGING_DIR, row.id), { recursive: true, force: true })
+      }
+
+      return rows.length
+    } catch (error) {
+      console.error('Purge expired uploads error:', error)
+      return 0
+    }
+  }
+
+  /**
+   * Staff need UPLOAD_DOCUMENTS for the encounter's hospital. An operator
+   * upload session, opened with the patient's OTP, covers that patient only.
+   */
+  private static async canUploadTo(
+    user: SessionData | EmergencySessionData,
+    encounter: { patient_user_id: string; hospital_id: string | null }
+  ): Promise<boolean> {
+    const operatorSession = user as SessionData & { patientId?: string; purpose?: string }
+    if (operatorSession.purpose === 'DOCUMENT_UPLOAD') {
+      return operatorSession.patientId === encounter.patient_user_id
+    }
+
+    return !!encounter.hospital_id &&
+      await RBACService.hasPermission(user, 'UPLOAD_DOCUMENTS', { hospitalId: encounter.hospital_id })
+  }
+
+  /**
+   * An unexpired upload started by this user
+   */
+  private static async findUpload(uploadId: string, user: SessionData | EmergencySessionData): Promise<DocumentUploadRow | null> {
+    const [rows] = await database.execute(
+      `SELECT * FROM document_uploads
+       WHERE id = ? AND uploaded_by_user_id = ? AND (status = 'COMPLETED' OR expires_at > ?)`,
+      [uploadId, user.userId, new Date().toISOString()]
+    ) as [DocumentUploadRow[]]
+
+    return rows && rows.length > 0 ? rows[0] : null
+  }
+
+  private static async *readChunks(row: DocumentUploadRow, hash: ReturnType<typeof createHash>): AsyncGenerator<Buffer> {
+    let offset = 0
+
+    while (offset < row.total_size) {
+      const chunk = DocumentEncryption.decryptChunk(
+        row.id,
+        this.uploadKey(row),
+        offset,
+        await fs.readFile(this.chunkPath(row.id, offset))
+      )
+
+      hash.update(chunk)
+      yield chunk
+      offset += chunk.length
+    }
+  }
+
+  private static async resetUpload(row: DocumentUploadRow): Promise<void> {
+    await database.execute(
+      'UPDATE document_uploads SET received_bytes = 0, updated_at = ? WHERE id = ?',
+      [new Date().toISOString(), row.id]
+    )
+
+    const stagingDir = path.join(this.STAGING_DIR, row.id)
+    await fs.rm(stagingDir, { recursive: true, force: true })
+    await fs.mkdir(stagingDir, { recursive: true })
+  }
+
+  private static uploadKey(row: DocumentUploadRow): { encryptedKey: string; keyId: string } {
+    return {
+      encryptedKey: row.encrypted_key,
+      keyId: row.encryption_key_id
+    }
+  }
+
+  private static chunkPath(uploadId: string, offset: number): string {
+    return path.join(this.STAGING_DIR, uploadId, `${offset}.chunk`)
+  }
+
+  private static expiryFrom(time: Date): string {
+    return new Date(time.getTime() + this.UPLOAD_TTL_HOURS * 60 * 60 * 1000).toISOString()
+  }
+
+  private static describe(row: DocumentUploadRow): DocumentUpload {
+    return {
+      id: row.id,
+      encounterId: row.encounter_id,
+      filename: row.filename,
+      mimetype: row.mimetype,
+      totalSize: row.total_size,
+      receivedBytes: row.received_bytes,
+      chunkSize: MAX_CHUNK_SIZE,
+      status: row.status,
+      documentId: row.document_id,
+      expiresAt: row.expires_at
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { join } from 'path'
+import { EmailMessage, EmailTransport, FileDropEmailTransport, SmtpEmailTransport } from './email-transports'
+
+export interface EmailResult {
+  success: boolean
+  message: string
+  messageId?: string
+  transport?: string
+}
+
+class EmailService {
+  private transport: EmailTransport
+
+  constructor() {
+    this.transport = this.createTransport()
+  }
+
+  /**
+   * SMTP when EMAIL_TRANSPORT is "smtp", otherwise .eml files in
+   * EMAIL_DROP_DIR
+   */
+  private createTransport(): EmailTransport {
+    const from = process.env.EMAIL_FROM || 'E-Patient Connect <no-reply@localhost>'
+
+    if (process.env.EMAIL_TRANSPORT === 'smtp') {
+      const { SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS } = process.env
+
+      if (SMTP_HOST) {
+        console.log(`✅ Email service initialized with SMTP relay ${SMTP_HOST}`)
+        return new SmtpEmailTransport({
+          host: SMTP_HOST,
+          port: parseInt(SMTP_PORT || (SMTP_SECURE === 'true' ? '465' : '587'), 10),
+          secure: SMTP_SECURE === 'true',
+          user: SMTP_USER || null,
+          pass: SMTP_PASS || null,
+          from
+        })
+      }
+
+      console.error('❌ SMTP email transport needs SMTP_HOST')
+    }
+
+    const directory = process.env.EMAIL_DROP_DIR || join(process.cwd(), 'mail-drop')
+    console.log(`📧 Email service in development mode - writing messages to ${directory}`)
+    return new FileDropEmailTransport(from, directory)
+  }
+
+  /**
+   * Replace the transport, e.g. with a file drop in tests
+   */
+  useTransport(transport: EmailTransport): void {
+    this.transport = transport
+  }
+
+  async sendEmail(message: EmailMessage): Promise<EmailResult> {
+    try {
+      const result = await this.transport.send(message)
+      console.log(`✅ Email sent to ${message.to} via ${this.transport.name}, ID: ${result.messageId}`)
+
+      return {
+        success: true,
+        message: 'Email sent successfully',
+        messageId: result.messageId,
+        transport: this.transport.name
+      }
+    } catch (error) {
+      console.error(`❌ Email sending via ${this.transport.name} failed:`, error)
+
+      // SMTP errors carry the server's reply code; 5xx replies are permanent failures
+      const responseCode = (error as { responseCode?: number } | null)?.responseCode
+      return {
+        success: false,
+        message: responseCode && responseCode >= 500 && responseCode < 600
+          ? 'The mail server rejected this message.'
+          : 'Failed to send email. Please try again.'
+      }
+    }
+  }
+
+  /**
+   * Check if a transport that really sends email is configured
+   */
+  isConfigured(): boolean {
+    return this.transport.name === 'smtp'
+  }
+}
+
+// Export singleton instance
+export const emailService = new EmailService()
+export default emailService
@@ -0,0 +1,86 @@
+import { mkdir, writeFile } from 'fs/promises'
+import { join } from 'path'
+import nodemailer, { Transporter } from 'nodemailer'
+import { v4 as uuidv4 } from 'uuid'
+
+export interface EmailContent {
+  subject: string
+  text: string
+  html: string
+}
+
+export interface EmailMessage extends EmailContent {
+  to: string
+}
+
+/**
+ * A way of delivering email. send() throws when the message is not accepted,
+ * so the notification queue can retry it.
+ */
+export interface EmailTransport {
+  readonly name: string
+  send(message: EmailMessage): Promise<{ messageId: string }>
+}
+
+/**
+ * Writes each message as an .eml file, for development and tests
+ */
+export class FileDropEmailTransport implements EmailTransport {
+  readonly name = 'file'
+
+  private transporter: Transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'windows' })
+
+  constructor(private from: string, private directory: string) {}
+
+  async send(message: EmailMessage): Promise<{ messageId: string }> {
+    const info = await this.transporter.sendMail({ from: this.from, ...message })
+    await mkdir(this.directory, { recursive: true })
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${uuidv4()}.eml`
+    await writeFile(join(this.directory, fileName), info.message as Buffer)
+
+    console.log(`📧 [DEV MODE] Email to ${message.to} written to ${fileName}`)
+    return { messageId: info.messageId }
+  }
+}
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  secure: boolean // Implicit TLS (port 465); otherwise STARTTLS is used when offered
+  user: string | null
+  pass: string | null
+  from: string
+}
+
+/**
+ * Sends through an SMTP relay with nodemailer. Credentials are only sent
+ * over TLS.
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp'
+
+  private static readonly TIMEOUT_MS = 30 * 1000
+
+  private transporter: Transporter
+
+  constructor(private options: SmtpOptions) {
+    const { host, port, secure, user, pass } = options
+
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure,
+      requireTLS: !!user,
+      auth: user ? { user, pass: pass || '' } : undefined,
+      connectionTimeout: SmtpEmailTransport.TIMEOUT_MS,
+      greetingTimeout: SmtpEmailTransport.TIMEOUT_MS,
+      socketTimeout: SmtpEmailTransport.TIMEOUT_MS
+    })
+  }
+
+  async send(message: EmailMessage): Promise<{ messageId: string }> {
+    const info = await this.transporter.sendMail({ from: this.options.from, ...message })
+    return { messageId: info.messageId }
+  }
+}
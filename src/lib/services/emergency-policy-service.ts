@@ -0,0 +1,239 @@
+import { database } from '../database'
+import { AuditService } from './audit-service'
+import { HospitalService } from './hospital-service'
+
+export type EmergencyMethod = 'OTP' | 'FINGERPRINT' | 'IRIS'
+
+export type EmergencyDataCategory = 'CRITICAL_INFO' | 'TIMELINE' | 'DOCUMENTS'
+
+export const EMERGENCY_METHODS: EmergencyMethod[] = ['OTP', 'FINGERPRINT', 'IRIS']
+
+export const EMERGENCY_DATA_CATEGORIES: EmergencyDataCategory[] = ['CRITICAL_INFO', 'TIMELINE', 'DOCUMENTS']
+
+export const MIN_EMERGENCY_SESSION_MINUTES = 5
+export const MAX_EMERGENCY_SESSION_MINUTES = 60
+
+export interface EmergencyAccessPolicy {
+  allowedMethods: EmergencyMethod[]
+  dataCategories: EmergencyDataCategory[]
+  maxSessionMinutes: number
+  trustedHospitals: string[] // Hospital names or IDs; empty means any hospital
+  isDefault: boolean
+  updatedAt: string | null
+}
+
+export interface EmergencyPolicyData {
+  allowedMethods?: string[]
+  dataCategories?: string[]
+  maxSessionMinutes?: number
+  trustedHospitals?: string[]
+}
+
+export interface EmergencyPolicyResult {
+  success: boolean
+  message: string
+  policy?: EmergencyAccessPolicy
+}
+
+export interface EmergencyPolicyDecision {
+  allowed: boolean
+  message: string
+  sessionMinutes: number
+  dataCategories: EmergencyDataCategory[]
+  hospitalId: string | null // The doctor's hospital, which the session is granted under
+}
+
+interface EmergencyPolicyRow {
+  allowed_methods_json: string
+  data_categories_json: string
+  max_session_minutes: number
+  trusted_hospitals_json: string
+  updated_at: string
+}
+
+// Applies to patients who have not configured a policy
+const DEFAULT_POLICY: EmergencyAccessPolicy = {
+  allowedMethods: EMERGENCY_METHODS,
+  dataCategories: EMERGENCY_DATA_CATEGORIES,
+  maxSessionMinutes: 10,
+  trustedHospitals: [],
+  isDefault: true,
+  updatedAt: null
+}
+
+export class EmergencyPolicyService {
+  /**
+   * Get a patient's emergency access policy, falling back to the default
+   */
+  static async getPolicy(patientUserId: string): Promise<EmergencyAccessPolicy> {
+    const [rows] = await database.execute(
+      'SELECT * FROM emergency_access_policies WHERE patient_user_id = ?',
+      [patientUserId]
+    ) as [EmergencyPolicyRow[]]
+
+    if (!rows || rows.length === 0) {
+      return { ...DEFAULT_POLICY }
+    }
+
+    const row = rows[0]
+    return {
+      allowedMethods: JSON.parse(row.allowed_methods_json),
+      dataCategories: JSON.parse(row.data_categories_json),
+      maxSessionMinutes: row.max_session_minutes,
+      trustedHospitals: JSON.parse(row.trusted_hospitals_json),
+      isDefault: false,
+      updatedAt: row.updated_at
+    }
+  }
+
+  /**
+   * Update a patient's emergency access policy. Omitted fields keep their
+   * current value.
+   */
+  static async updatePolicy(patientUserId: string, data: EmergencyPolicyData): Promise<EmergencyPolicyResult> {
+    try {
+      const validationError = this.validatePolicyData(data)
+      if (validationError) {
+        return {
+          success: false,
+          message: validationError
+        }
+      }
+
+      const current = await this.getPolicy(patientUserId)
+
+      const allowedMethods = data.allowedMethods
+        ? EMERGENCY_METHODS.filter(method => data.allowedMethods!.includes(method))
+        : current.allowedMethods
+
+      // Critical information is always visible during an emergency session
+      const dataCategories = data.dataCategories
+        ? EMERGENCY_DATA_CATEGORIES.filter(category => category === 'CRITICAL_INFO' || data.dataCategories!.includes(category))
+        : current.dataCategories
+
+      const maxSessionMinutes = data.maxSessionMinutes ?? current.maxSessionMinutes
+
+      const trustedHospitals = data.trustedHospitals
+        ? [...new Set(data.trustedHospitals.map(hospital => hospital.trim()).filter(Boolean))]
+        : current.trustedHospitals
+
+      await database.execute(
+        `INSERT INTO emergency_access_policies (patient_user_id, allowed_methods_json, data_categories_json, max_session_minutes, trusted_hospitals_json)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(patient_user_id) DO UPDATE SET
+           allowed_methods_json = excluded.allowed_methods_json,
+           data_categories_json = excluded.data_categories_json,
+           max_session_minutes = excluded.max_session_minutes,
+           trusted_hospitals_json = excluded.trusted_hospitals_json,
+           updated_at = CURRENT_TIMESTAMP`,
+        [patientUserId, JSON.stringify(allowedMethods), JSON.stringify(dataCategories), maxSessionMinutes, JSON.stringify(trustedHospitals)]
+      )
+
+      await AuditService.logEvent(patientUserId, 'PATIENT', 'EMERGENCY_POLICY_UPDATED', {
+        allowedMethods,
+        dataCategories,
+        maxSessionMinutes,
+        trustedHospitals
+      }, patientUserId)
+
+      return {
+        success: true,
+        message: 'Emergency access policy updated successfully',
+        policy: await this.getPolicy(patientUserId)
+      }
+
+    } catch (error) {
+      console.error('Update emergency policy error:', error)
+      return {
+        success: false,
+        message: 'Failed to update emergency access policy'
+      }
+    }
+  }
+
+  /**
+   * Decide whether an emergency access request is allowed by the patient's
+   * policy, and with which session length and data categories. Trusted
+   * hospitals are matched against the hospital the doctor is registered
+   * with, not a hospital name supplied with the request.
+   */
+  static async evaluateAccess(
+    patientUserId: string,
+    method: string,
+    doctorUserId: string
+  ): Promise<EmergencyPolicyDecision> {
+    const policy = await this.getPolicy(patientUserId)
+    const tenant = await HospitalService.getUserTenant(doctorUserId)
+    const decision = {
+      sessionMinutes: policy.maxSessionMinutes,
+      dataCategories: policy.dataCategories,
+      hospitalId: tenant?.hospitalId ?? null
+    }
+
+    if (!policy.allowedMethods.includes(method as EmergencyMethod)) {
+      return {
+        ...decision,
+        allowed: false,
+        message: `The patient does not allow emergency access by ${method}`
+      }
+    }
+
+    if (policy.trustedHospitals.length > 0) {
+      const isTrusted = !!tenant && policy.trustedHospitals.some(trusted =>
+        trusted === tenant.hospitalId || trusted.trim().toLowerCase() === tenant.hospitalName.toLowerCase()
+      )
+
+      if (!isTrusted) {
+        return {
+          ...decision,
+          allowed: false,
+          message: 'The patient only allows emergency access from trusted hospitals'
+        }
+      }
+    }
+
+    return {
+      ...decision,
+      allowed: true,
+      message: 'Emergency access allowed by patient policy'
+    }
+  }
+
+  /**
+   * Parse the data categories stored on an emergency session. A session
+   * without any recorded is granted none.
+   */
+  static parseSessionCategories(dataCategoriesJson: string | null | undefined): EmergencyDataCategory[] {
+    return dataCategoriesJson ? JSON.parse(dataCategoriesJson) : []
+  }
+
+  private static validatePolicyData(data: EmergencyPolicyData): string | null {
+    if (data.allowedMethods !== undefined) {
+      if (!Array.isArray(data.allowedMethods) || data.allowedMethods.some(method => !EMERGENCY_METHODS.includes(method as EmergencyMethod))) {
+        return `Allowed methods must be any of ${EMERGENCY_METHODS.join(', ')}`
+      }
+    }
+
+    if (data.dataCategories !== undefined) {
+      if (!Array.isArray(data.dataCategories) || data.dataCategories.some(category => !EMERGENCY_DATA_CATEGORIES.includes(category as EmergencyDataCategory))) {
+        return `Data categories must be any of ${EMERGENCY_DATA_CATEGORIES.join(', ')}`
+      }
+    }
+
+    if (data.maxSessionMinutes !== undefined) {
+      if (!Number.isInteger(data.maxSessionMinutes) ||
+          data.maxSessionMinutes < MIN_EMERGENCY_SESSION_MINUTES ||
+          data.maxSessionMinutes > MAX_EMERGENCY_SESSION_MINUTES) {
+        return `Maximum session length must be between ${MIN_EMERGENCY_SESSION_MINUTES} and ${MAX_EMERGENCY_SESSION_MINUTES} minutes`
+      }
+    }
+
+    if (data.trustedHospitals !== undefined) {
+      if (!Array.isArray(data.trustedHospitals) || data.trustedHospitals.some(hospital => typeof hospital !== 'string')) {
+        return 'Trusted hospitals must be a list of hospital names'
+      }
+    }
+
+    return null
+  }
+}
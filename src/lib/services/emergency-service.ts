@@ -1,5 +1,10 @@
 import { database } from '../database'
-import { SessionService, OTPService, BiometricService, BiometricType } from '../auth'
+import { SessionService, OTPService, TotpService, BiometricService, BiometricType } from '../auth'
+import { EmergencyPolicyService, EmergencyDataCategory } from './emergency-policy-service'
+import { DelegationService } from './delegation-service'
+import { HospitalService } from './hospital-service'
+import { NotificationService } from './notification-service'
+import { emergencyAccessNotification } from './notification-templates'
 
 export interface EmergencyAccessRequest {
   doctorUserId: string
@@ -8,6 +13,8 @@ export interface EmergencyAccessRequest {
   hospitalName?: string
   authMethod: 'OTP' | 'FINGERPRINT' | 'IRIS'
   authData?: string // OTP code or biometric data
+  approverMobile?: string // Patient or delegate who received the OTP; defaults to the doctor
+  totpCode?: string // Current code from the doctor's authenticator app
 }
 
 export interface EmergencyAccessResult {
@@ -16,6 +23,7 @@ export interface EmergencyAccessResult {
   sessionId?: string
   sessionToken?: string
   expiresAt?: Date
+  dataCategories?: EmergencyDataCategory[]
   patientInfo?: any
 }
 
@@ -41,160 +49,217 @@ export class EmergencyService {
    * Request emergency access to patient records
    */
   static async requestEmergencyAccess(request: EmergencyAccessRequest): Promise<EmergencyAccessResult> {
-    const connection = await pool.getConnection()
-
     try {
-      await connection.beginTransaction()
+      return await database.transaction(async (tx) => {
+        // Verify doctor exists and is active
+        const [doctors] = await tx.execute(
+          'SELECT id, name, mobile, email FROM users WHERE id = ? AND role = ?',
+          [request.doctorUserId, 'DOCTOR']
+        ) as any
+
+        if (!doctors || doctors.length === 0) {
+          return {
+            success: false,
+            message: 'Doctor not found or invalid role'
+          }
+        }
 
-      // Verify doctor exists and is active
-      const [doctors] = await connection.execute(
-        'SELECT id, name, mobile, email FROM users WHERE id = ? AND role = ?',
-        [request.doctorUserId, 'DOCTOR']
-      ) as any
+        const doctor = doctors[0]
 
-      if (!doctors || doctors.length === 0) {
-        return {
-          success: false,
-          message: 'Doctor not found or invalid role'
+        const totpResult = await TotpService.verifyEmergencyCode(doctor.id, request.totpCode)
+        if (!totpResult.success) {
+          await this.logEmergencyAttempt(request.doctorUserId, null, request.reason, 'AUTH_FAILED', request.authMethod)
+          return {
+            success: false,
+            message: `Authentication failed: ${totpResult.message}`
+          }
         }
-      }
 
-      const doctor = doctors[0]
+        const tenant = await HospitalService.requireActiveTenant(doctor.id)
+        if (tenant.tenant?.status === 'SUSPENDED') {
+          return {
+            success: false,
+            message: tenant.message
+          }
+        }
 
-      // Find patient by identifier
-      const [patients] = await connection.execute(
-        'SELECT u.id, u.name, u.mobile, u.email, pp.deleted_at FROM users u LEFT JOIN patient_profiles pp ON u.id = pp.user_id WHERE (u.mobile = ? OR u.email = ? OR u.id = ?) AND u.role = ?',
-        [request.patientIdentifier, request.patientIdentifier, request.patientIdentifier, 'PATIENT']
-      ) as any
+        // Find patient by identifier
+        const [patients] = await tx.execute(
+          'SELECT u.id, u.name, u.mobile, u.email, pp.deleted_at FROM users u LEFT JOIN patient_profiles pp ON u.id = pp.user_id WHERE (u.mobile = ? OR u.email = ? OR u.id = ?) AND u.role = ?',
+          [request.patientIdentifier, request.patientIdentifier, request.patientIdentifier, 'PATIENT']
+        ) as any
 
-      if (!patients || patients.length === 0) {
-        await this.logEmergencyAttempt(request.doctorUserId, null, request.reason, 'PATIENT_NOT_FOUND', request.authMethod)
-        return {
-          success: false,
-          message: 'Patient not found with the provided identifier'
+        if (!patients || patients.length === 0) {
+          await this.logEmergencyAttempt(request.doctorUserId, null, request.reason, 'PATIENT_NOT_FOUND', request.authMethod)
+          return {
+            success: false,
+            message: 'Patient not found with the provided identifier'
+          }
         }
-      }
 
-      const patient = patients[0]
+        const patient = patients[0]
 
-      // Check if patient account is active
-      if (patient.deleted_at) {
-        await this.logEmergencyAttempt(request.doctorUserId, patient.id, request.reason, 'PATIENT_DEACTIVATED', request.authMethod)
-        return {
-          success: false,
-          message: 'Cannot access records for deactivated patient account'
+        // Check if patient account is active
+        if (patient.deleted_at) {
+          await this.logEmergencyAttempt(request.doctorUserId, patient.id, request.reason, 'PATIENT_DEACTIVATED', request.authMethod)
+          return {
+            success: false,
+            message: 'Cannot access records for deactivated patient account'
+          }
         }
-      }
 
-      // Validate authentication based on method
-      let authValid = false
-      let authMessage = ''
+        // Enforce the patient's emergency access policy before authenticating
+        const policyDecision = await EmergencyPolicyService.evaluateAccess(patient.id, request.authMethod, doctor.id)
+        if (!policyDecision.allowed) {
+          await this.logEmergencyAttempt(request.doctorUserId, patient.id, request.reason, 'POLICY_DENIED', request.authMethod)
+          return {
+            success: false,
+            message: policyDecision.message
+          }
+        }
+
+        // Validate authentication based on method
+        let authValid = false
+        let authMessage = ''
+
+        switch (request.authMethod) {
+          case 'OTP':
+            if (!request.authData) {
+              return {
+                success: false,
+                message: 'OTP is required for OTP authentication'
+              }
+            }
 
-      switch (request.authMethod) {
-        case 'OTP':
-          if (!request.authData) {
+            const otpResult = request.approverMobile
+              ? await DelegationService.verifyEmergencyApproval(patient.id, request.approverMobile, request.authData, {
+                  doctorUserId: doctor.id,
+                  doctorName: doctor.name,
+                  reason: request.reason,
+                  hospitalName: request.hospitalName || null
+                })
+              : await OTPService.verifyOTP(doctor.mobile, request.authData, 'EMERGENCY_ACCESS')
+            authValid = otpResult.success
+            authMessage = otpResult.message
+            break
+
+          case 'FINGERPRINT':
+          case 'IRIS':
+            const biometricResult = await BiometricService.verifyBiometric(
+              doctor.mobile,
+              request.authMethod as BiometricType,
+              request.authData
+            )
+            authValid = biometricResult.success
+            authMessage = biometricResult.message
+            break
+
+          default:
             return {
               success: false,
-              message: 'OTP is required for OTP authentication'
+              message: 'Invalid authentication method'
             }
-          }
-
-          const otpResult = await OTPService.verifyOTP(doctor.mobile, request.authData, 'EMERGENCY_ACCESS')
-          authValid = otpResult.success
-          authMessage = otpResult.message
-          break
-
-        case 'FINGERPRINT':
-        case 'IRIS':
-          const biometricResult = await BiometricService.verifyBiometric(
-            doctor.mobile,
-            request.authMethod as BiometricType,
-            request.authData
-          )
-          authValid = biometricResult.success
-          authMessage = biometricResult.message
-          break
+        }
 
-        default:
+        if (!authValid) {
+          await this.logEmergencyAttempt(request.doctorUserId, patient.id, request.reason, 'AUTH_FAILED', request.authMethod)
           return {
             success: false,
-            message: 'Invalid authentication method'
+            message: `Authentication failed: ${authMessage}`
           }
-      }
-
-      if (!authValid) {
-        await this.logEmergencyAttempt(request.doctorUserId, patient.id, request.reason, 'AUTH_FAILED', request.authMethod)
-        return {
-          success: false,
-          message: `Authentication failed: ${authMessage}`
         }
-      }
 
-      // Check for existing active sessions for this doctor-patient pair
-      const [existingSessions] = await connection.execute(
-        'SELECT id, expires_at FROM emergency_sessions WHERE doctor_user_id = ? AND patient_user_id = ? AND status = ? AND expires_at > NOW()',
-        [request.doctorUserId, patient.id, 'ACTIVE']
-      ) as any
+        // Check for existing active sessions for this doctor-patient pair
+        const [existingSessions] = await tx.execute(
+          'SELECT id, expires_at FROM emergency_sessions WHERE doctor_user_id = ? AND patient_user_id = ? AND status = ? AND expires_at > ?',
+          [request.doctorUserId, patient.id, 'ACTIVE', new Date()]
+        ) as any
 
-      if (existingSessions && existingSessions.length > 0) {
-        const existingSession = existingSessions[0]
-        return {
-          success: false,
-          message: 'You already have an active emergency session for this patient',
-          sessionId: existingSession.id.toString(),
-          expiresAt: existingSession.expires_at
+        if (existingSessions && existingSessions.length > 0) {
+          const existingSession = existingSessions[0]
+          return {
+            success: false,
+            message: 'You already have an active emergency session for this patient',
+            sessionId: existingSession.id.toString(),
+            expiresAt: existingSession.expires_at
+          }
         }
-      }
 
-      // Create emergency session using SessionService
-      const sessionResult = await SessionService.createEmergencySession(
-        request.doctorUserId,
-        patient.id,
-        request.authMethod,
-        request.reason,
-        request.hospitalName
-      )
+        // Create emergency session using SessionService
+        const sessionResult = await SessionService.createEmergencySession(
+          request.doctorUserId,
+          patient.id,
+          request.authMethod,
+          request.reason,
+          request.hospitalName,
+          {
+            durationMinutes: policyDecision.sessionMinutes,
+            dataCategories: policyDecision.dataCategories,
+            hospitalId: policyDecision.hospitalId
+          }
+        )
 
-      if (!sessionResult.success) {
-        await this.logEmergencyAttempt(request.doctorUserId, patient.id, request.reason, 'SESSION_CREATION_FAILED', request.authMethod)
-        return {
-          success: false,
-          message: sessionResult.message
+        if (!sessionResult.success) {
+          await this.logEmergencyAttempt(request.doctorUserId, patient.id, request.reason, 'SESSION_CREATION_FAILED', request.authMethod)
+          return {
+            success: false,
+            message: sessionResult.message
+          }
         }
-      }
-
-      const emergencySessionData = sessionResult.sessionData as any
 
-      // Log successful emergency access
-      await this.logEmergencyAttempt(request.doctorUserId, patient.id, request.reason, 'ACCESS_GRANTED', request.authMethod, emergencySessionData.sessionId)
+        const emergencySessionData = sessionResult.sessionData as any
 
-      await connection.commit()
+        // Log successful emergency access
+        await this.logEmergencyAttempt(request.doctorUserId, patient.id, request.reason, 'ACCESS_GRANTED', request.authMethod, emergencySessionData.sessionId)
 
-      console.log(`🚨 Emergency access granted: Dr. ${doctor.name} accessing ${patient.name} for "${request.reason}"`)
+        console.log(`🚨 Emergency access granted: Dr. ${doctor.name} accessing ${patient.name} for "${request.reason}"`)
 
-      return {
-        success: true,
-        message: 'Emergency access granted successfully',
-        sessionId: emergencySessionData.sessionId,
-        sessionToken: sessionResult.token,
-        expiresAt: emergencySessionData.expiresAt,
-        patientInfo: {
-          id: patient.id,
-          name: patient.name,
-          mobile: patient.mobile,
-          email: patient.email
+        return {
+          success: true,
+          message: 'Emergency access granted successfully',
+          sessionId: emergencySessionData.sessionId,
+          sessionToken: sessionResult.token,
+          expiresAt: emergencySessionData.expiresAt,
+          dataCategories: policyDecision.dataCategories,
+          patientInfo: {
+            id: patient.id,
+            name: patient.name,
+            mobile: patient.mobile,
+            email: patient.email
+          }
         }
-      }
+      })
 
     } catch (error) {
-      await connection.rollback()
       console.error('Emergency access request error:', error)
       return {
         success: false,
         message: 'Failed to process emergency access request'
       }
-    } finally {
-      connection.release()
+    }
+  }
+
+  /**
+   * Tell the patient, on their preferred channel, that a doctor opened an
+   * emergency session on their record
+   */
+  static async notifyPatientOfAccess(
+    sessionId: string,
+    patientUserId: string,
+    details: { doctorName: string; hospitalName?: string | null; expiresAt: Date; breakGlass: boolean }
+  ): Promise<void> {
+    try {
+      const notification = await NotificationService.notifyUser(
+        patientUserId,
+        emergencyAccessNotification(details),
+        { idempotencyKey: `emergency-access:${sessionId}` }
+      )
+
+      if (notification && notification.status !== 'SENT') {
+        console.error('Emergency access notification failed:', notification.lastError)
+      }
+    } catch (error) {
+      console.error('Emergency access notification error:', error)
     }
   }
 
@@ -1,4 +1,6 @@
 import { database } from '../database'
+import { v4 as uuidv4 } from 'uuid'
+import { MedicalHistoryService } from './medical-history-service'
 
 export interface CreateEncounterData {
   patientUserId: string
@@ -47,95 +49,100 @@ export class EncounterService {
   static async createEncounter(
     encounterData: CreateEncounterData,
     createdByUserId: string,
-    createdByRole: string
+    createdByRole: string,
+    auditContext: Record<string, unknown> = {} // e.g. the delegation a delegate acted under
   ): Promise<EncounterResult> {
-    const connection = await pool.getConnection()
-
     try {
-      await connection.beginTransaction()
-
-      // Verify patient exists and is active
-      const [patients] = await connection.execute(
-        'SELECT u.id, u.name, pp.deleted_at FROM users u LEFT JOIN patient_profiles pp ON u.id = pp.user_id WHERE u.id = ? AND u.role = ?',
-        [encounterData.patientUserId, 'PATIENT']
-      ) as any
-
-      if (!patients || patients.length === 0) {
-        return {
-          success: false,
-          message: 'Patient not found'
+      return await database.transaction(async (tx) => {
+        // Verify patient exists and is active
+        const [patients] = await tx.execute(
+          'SELECT u.id, u.name, pp.deleted_at FROM users u LEFT JOIN patient_profiles pp ON u.id = pp.user_id WHERE u.id = ? AND u.role = ?',
+          [encounterData.patientUserId, 'PATIENT']
+        ) as any
+
+        if (!patients || patients.length === 0) {
+          return {
+            success: false,
+            message: 'Patient not found'
+          }
         }
-      }
 
-      const patient = patients[0]
-      if (patient.deleted_at) {
-        return {
-          success: false,
-          message: 'Cannot create encounter for deactivated patient'
+        const patient = patients[0]
+        if (patient.deleted_at) {
+          return {
+            success: false,
+            message: 'Cannot create encounter for deactivated patient'
+          }
         }
-      }
 
-      // Create encounter
-      const [encounterResult] = await connection.execute(`
-        INSERT INTO encounters (
-          patient_user_id, occurred_at, type, reason_diagnosis, prescriptions_notes,
-          allergies_snapshot, chronic_snapshot, blood_group, recent_surgery,
-          created_by_role, created_by_user_id, hospital_id
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `, [
-        encounterData.patientUserId,
-        encounterData.occurredAt,
-        encounterData.type,
-        encounterData.reasonDiagnosis,
-        encounterData.prescriptionsNotes,
-        encounterData.allergiesSnapshot || null,
-        encounterData.chronicSnapshot || null,
-        encounterData.bloodGroup || null,
-        encounterData.recentSurgery || null,
-        createdByRole,
-        createdByUserId,
-        encounterData.hospitalId || null
-      ]) as any
-
-      const encounterId = encounterResult.insertId
-
-      // Log encounter creation
-      await connection.execute(
-        'INSERT INTO audit_logs (actor_user_id, actor_role, patient_user_id, action_type, details_json) VALUES (?, ?, ?, ?, ?)',
-        [
-          createdByUserId,
-          createdByRole,
+        const encounterId = uuidv4()
+
+        // Create encounter
+        await tx.execute(`
+          INSERT INTO encounters (
+            id, patient_user_id, occurred_at, type, reason_diagnosis, prescriptions_notes,
+            allergies_snapshot, chronic_snapshot, blood_group, recent_surgery,
+            created_by_role, created_by_user_id, hospital_id
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+          encounterId,
           encounterData.patientUserId,
-          'ENCOUNTER_CREATED',
-          JSON.stringify({
-            encounterId: encounterId.toString(),
-            type: encounterData.type,
-            occurredAt: encounterData.occurredAt.toISOString(),
-            createdBy: createdByRole,
-            timestamp: new Date().toISOString()
-          })
-        ]
-      )
-
-      await connection.commit()
+          encounterData.occurredAt.toISOString(),
+          encounterData.type,
+          encounterData.reasonDiagnosis,
+          encounterData.prescriptionsNotes,
+          encounterData.allergiesSnapshot || null,
+          encounterData.chronicSnapshot || null,
+          encounterData.bloodGroup || null,
+          encounterData.recentSurgery || null,
+          createdByRole,
+          createdByUserId,
+          encounterData.hospitalId || null
+        ])
+
+        // Keep the structured allergy and condition lists in step with the snapshot
+        await MedicalHistoryService.recordEncounterSnapshots({
+          patientUserId: encounterData.patientUserId,
+          encounterId,
+          occurredAt: encounterData.occurredAt,
+          allergiesSnapshot: encounterData.allergiesSnapshot,
+          chronicSnapshot: encounterData.chronicSnapshot
+        })
 
-      console.log(`📋 Encounter created: ${encounterData.type} for patient ${patient.name}`)
+        // Log encounter creation
+        await tx.execute(
+          'INSERT INTO audit_logs (actor_user_id, actor_role, patient_user_id, action_type, details_json) VALUES (?, ?, ?, ?, ?)',
+          [
+            createdByUserId,
+            createdByRole,
+            encounterData.patientUserId,
+            'ENCOUNTER_CREATED',
+            JSON.stringify({
+              encounterId,
+              type: encounterData.type,
+              occurredAt: encounterData.occurredAt.toISOString(),
+              createdBy: createdByRole,
+              ...auditContext,
+              timestamp: new Date().toISOString()
+            })
+          ]
+        )
+
+        console.log(`📋 Encounter created: ${encounterData.type} for patient ${patient.name}`)
 
-      return {
-        success: true,
-        message: 'Encounter created successfully',
-        encounterId: encounterId.toString()
-      }
+        return {
+          success: true,
+          message: 'Encounter created successfully',
+          encounterId
+        }
+      })
 
     } catch (error) {
-      await connection.rollback()
       console.error('Create encounter error:', error)
       return {
         success: false,
         message: 'Failed to create encounter'
       }
-    } finally {
-      connection.release()
     }
   }
 
@@ -328,94 +335,95 @@ export class EncounterService {
     updatedByUserId: string,
     updatedByRole: string
   ): Promise<EncounterResult> {
-    const connection = await pool.getConnection()
-
     try {
-      await connection.beginTransaction()
-
-      // Get current encounter
-      const [encounters] = await connection.execute(
-        'SELECT patient_user_id, created_by_user_id, created_by_role FROM encounters WHERE id = ?',
-        [encounterId]
-      ) as any
-
-      if (!encounters || encounters.length === 0) {
-        return {
-          success: false,
-          message: 'Encounter not found'
+      return await database.transaction(async (tx) => {
+        // Get current encounter
+        const [encounters] = await tx.execute(
+          'SELECT patient_user_id, occurred_at, created_by_user_id, created_by_role FROM encounters WHERE id = ?',
+          [encounterId]
+        ) as any
+
+        if (!encounters || encounters.length === 0) {
+          return {
+            success: false,
+            message: 'Encounter not found'
+          }
         }
-      }
 
-      const encounter = encounters[0]
+        const encounter = encounters[0]
 
-      // Check permissions (only creator or patient can update)
-      if (encounter.created_by_user_id !== updatedByUserId && encounter.patient_user_id !== updatedByUserId) {
-        return {
-          success: false,
-          message: 'You do not have permission to update this encounter'
+        // Check permissions (only creator or patient can update)
+        if (encounter.created_by_user_id !== updatedByUserId && encounter.patient_user_id !== updatedByUserId) {
+          return {
+            success: false,
+            message: 'You do not have permission to update this encounter'
+          }
         }
-      }
 
-      // Build update query
-      const updates = []
-      const values = []
+        // Build update query
+        const updates: string[] = []
+        const values: any[] = []
 
-      Object.entries(updateData).forEach(([key, value]) => {
-        if (value !== undefined) {
-          const dbKey = key.replace(/([A-Z])/g, '_$1').toLowerCase()
-          updates.push(`${dbKey} = ?`)
-          values.push(value)
-        }
-      })
+        Object.entries(updateData).forEach(([key, value]) => {
+          if (value !== undefined) {
+            const dbKey = key.replace(/([A-Z])/g, '_$1').toLowerCase()
+            updates.push(`${dbKey} = ?`)
+            values.push(value instanceof Date ? value.toISOString() : value)
+          }
+        })
 
-      if (updates.length === 0) {
-        return {
-          success: false,
-          message: 'No fields to update'
+        if (updates.length === 0) {
+          return {
+            success: false,
+            message: 'No fields to update'
+          }
         }
-      }
 
-      values.push(encounterId)
+        values.push(encounterId)
 
-      // Update encounter
-      await connection.execute(
-        `UPDATE encounters SET ${updates.join(', ')} WHERE id = ?`,
-        values
-      )
+        // Update encounter
+        await tx.execute(
+          `UPDATE encounters SET ${updates.join(', ')} WHERE id = ?`,
+          values
+        )
 
-      // Log encounter update
-      await connection.execute(
-        'INSERT INTO audit_logs (actor_user_id, actor_role, patient_user_id, action_type, details_json) VALUES (?, ?, ?, ?, ?)',
-        [
-          updatedByUserId,
-          updatedByRole,
-          encounter.patient_user_id,
-          'ENCOUNTER_UPDATED',
-          JSON.stringify({
-            encounterId,
-            updatedFields: Object.keys(updateData),
-            updatedBy: updatedByRole,
-            timestamp: new Date().toISOString()
-          })
-        ]
-      )
+        await MedicalHistoryService.recordEncounterSnapshots({
+          patientUserId: encounter.patient_user_id,
+          encounterId,
+          occurredAt: updateData.occurredAt || encounter.occurred_at,
+          allergiesSnapshot: updateData.allergiesSnapshot,
+          chronicSnapshot: updateData.chronicSnapshot
+        })
 
-      await connection.commit()
+        // Log encounter update
+        await tx.execute(
+          'INSERT INTO audit_logs (actor_user_id, actor_role, patient_user_id, action_type, details_json) VALUES (?, ?, ?, ?, ?)',
+          [
+            updatedByUserId,
+            updatedByRole,
+            encounter.patient_user_id,
+            'ENCOUNTER_UPDATED',
+            JSON.stringify({
+              encounterId,
+              updatedFields: Object.keys(updateData),
+              updatedBy: updatedByRole,
+              timestamp: new Date().toISOString()
+            })
+          ]
+        )
 
-      return {
-        success: true,
-        message: 'Encounter updated successfully'
-      }
+        return {
+          success: true,
+          message: 'Encounter updated successfully'
+        }
+      })
 
     } catch (error) {
-      await connection.rollback()
       console.error('Update encounter error:', error)
       return {
         success: false,
         message: 'Failed to update encounter'
       }
-    } finally {
-      connection.release()
     }
   }
 
@@ -424,25 +432,36 @@ export class EncounterService {
    */
   static async getCriticalMedicalInfo(patientUserId: string): Promise<EncounterResult> {
     try {
-      // Get the most recent encounter for current medical info
+      // Blood group and surgeries still come from the most recent encounter
       const [recentEncounter] = await database.execute(`
-        SELECT allergies_snapshot, chronic_snapshot, blood_group, recent_surgery
+        SELECT blood_group, recent_surgery
         FROM encounters 
         WHERE patient_user_id = ? 
         ORDER BY occurred_at DESC 
         LIMIT 1
       `, [patientUserId]) as any
 
-      const criticalInfo = recentEncounter && recentEncounter.length > 0 ? {
-        allergies: recentEncounter[0].allergies_snapshot || 'None recorded',
-        chronicConditions: recentEncounter[0].chronic_snapshot || 'None recorded',
-        bloodGroup: recentEncounter[0].blood_group || 'Unknown',
-        recentSurgery: recentEncounter[0].recent_surgery || 'None recorded'
-      } : {
-        allergies: 'No medical history available',
-        chronicConditions: 'No medical history available',
-        bloodGroup: 'Unknown',
-        recentSurgery: 'No medical history available'
+      const listsResult = await MedicalHistoryService.getMedicalLists(patientUserId, true)
+      if (!listsResult.success) {
+        return {
+          success: false,
+          message: listsResult.message
+        }
+      }
+
+      const { allergies, conditions, medications } = listsResult.lists!
+      const hasHistory = recentEncounter.length > 0 || allergies.length > 0 || conditions.length > 0 || medications.length > 0
+      const emptyValue = hasHistory ? 'None recorded' : 'No medical history available'
+
+      const criticalInfo = {
+        allergies: MedicalHistoryService.formatEntries(allergies) || emptyValue,
+        chronicConditions: MedicalHistoryService.formatEntries(conditions) || emptyValue,
+        medications: MedicalHistoryService.formatEntries(medications) || emptyValue,
+        bloodGroup: recentEncounter[0]?.blood_group || 'Unknown',
+        recentSurgery: recentEncounter.length > 0 ? recentEncounter[0].recent_surgery || 'None recorded' : emptyValue,
+        allergyList: allergies,
+        conditionList: conditions,
+        medicationList: medications
       }
 
       return {
@@ -0,0 +1,439 @@
+import { createHash } from 'crypto'
+import { database } from '../database'
+import { EncounterService, CreateEncounterData } from './encounter-service'
+import { DocumentService } from './document-service'
+import { UserService } from './user-service'
+import { MedicalHistoryService } from './medical-history-service'
+import { EMERGENCY_DATA_CATEGORIES, EmergencyDataCategory } from './emergency-policy-service'
+import { validateEncounterData, parseSnapshotList } from '../utils/encounter-utils'
+import {
+  FHIRBundle,
+  FHIRBundleEntry,
+  FHIRCodeableConcept,
+  FHIRResource,
+  getCodeableConceptText,
+  mapEncounterResource,
+  getLinkedEncounterReference,
+  buildPatientResource,
+  buildEncounterResource,
+  buildAllergyResource,
+  buildConditionResource,
+  buildMedicationStatementResource,
+  buildProcedureResource,
+  buildDocumentReferenceResource,
+  buildCollectionBundle
+} from '../utils/fhir-utils'
+
+export interface FHIRExportResult {
+  success: boolean
+  message: string
+  bundle?: FHIRBundle
+}
+
+export type FHIRImportStatus = 'imported' | 'duplicate' | 'skipped' | 'error'
+
+export interface FHIRImportEntryResult {
+  index: number
+  resourceType: string
+  resourceId?: string
+  status: FHIRImportStatus
+  message: string
+  encounterId?: string
+}
+
+export interface FHIRImportResult {
+  success: boolean
+  message: string
+  summary?: {
+    imported: number
+    duplicates: number
+    skipped: number
+    errors: number
+  }
+  results?: FHIRImportEntryResult[]
+}
+
+// Resource types that are folded into encounter snapshot columns
+const SNAPSHOT_RESOURCE_TYPES = ['AllergyIntolerance', 'Condition', 'Procedure'] as const
+
+type SnapshotResourceType = typeof SNAPSHOT_RESOURCE_TYPES[number]
+
+interface PendingEncounter {
+  key: string
+  result: FHIRImportEntryResult
+  data?: CreateEncounterData
+  clinical: PendingClinical[]
+}
+
+interface PendingClinical {
+  key: string
+  resourceType: SnapshotResourceType
+  text: string
+  result: FHIRImportEntryResult
+}
+
+export class FHIRService {
+  private static readonly BASE_URL = process.env.FHIR_BASE_URL || 'http://localhost:3000/fhir'
+
+  /**
+   * Export a patient's record as a FHIR R4 collection Bundle. Encounters and
+   * procedures need TIMELINE, allergies, conditions and medications
+   * CRITICAL_INFO, and document references DOCUMENTS.
+   */
+  static async exportPatientBundle(
+    patientUserId: string,
+    categories: EmergencyDataCategory[] = EMERGENCY_DATA_CATEGORIES
+  ): Promise<FHIRExportResult> {
+    try {
+      const profileResult = await UserService.getUserProfile(patientUserId)
+
+      if (!profileResult.success || !profileResult.user || profileResult.user.role !== 'PATIENT') {
+        return {
+          success: false,
+          message: 'Patient not found'
+        }
+      }
+
+      const resources: FHIRResource[] = [buildPatientResource(profileResult.user)]
+
+      if (categories.includes('TIMELINE')) {
+        const timelineResult = await EncounterService.getPatientTimeline(patientUserId)
+        if (!timelineResult.success) {
+          return {
+            success: false,
+            message: timelineResult.message
+          }
+        }
+
+        for (const encounter of timelineResult.encounters || []) {
+          resources.push(buildEncounterResource(encounter, patientUserId))
+        }
+
+        // Surgeries are not yet tracked as a structured list
+        const latestEncounter = timelineResult.encounters?.[0]
+        parseSnapshotList(latestEncounter?.recentSurgery).forEach((procedure, index) => {
+          resources.push(buildProcedureResource(`${patientUserId}-procedure-${index + 1}`, procedure, patientUserId))
+        })
+      }
+
+      if (categories.includes('CRITICAL_INFO')) {
+        const listsResult = await MedicalHistoryService.getMedicalLists(patientUserId)
+        if (!listsResult.success) {
+          return {
+            success: false,
+            message: listsResult.message
+          }
+        }
+
+        const { allergies, conditions, medications } = listsResult.lists!
+        allergies.forEach(allergy => resources.push(buildAllergyResource(allergy, patientUserId)))
+        conditions.forEach(condition => resources.push(buildConditionResource(condition, patientUserId)))
+        medications.forEach(medication => resources.push(buildMedicationStatementResource(medication, patientUserId)))
+      }
+
+      if (categories.includes('DOCUMENTS')) {
+        const documentsResult = await DocumentService.getDocuments({ patientUserId })
+        if (!documentsResult.success) {
+          return {
+            success: false,
+            message: documentsResult.message
+          }
+        }
+
+        for (const document of documentsResult.documents || []) {
+          resources.push(buildDocumentReferenceResource(document, patientUserId))
+        }
+      }
+
+      return {
+        success: true,
+        message: 'FHIR export generated successfully',
+        bundle: buildCollectionBundle(resources, this.BASE_URL)
+      }
+
+    } catch (error) {
+      console.error('FHIR export error:', error)
+      return {
+        success: false,
+        message: 'Failed to generate FHIR export'
+      }
+    }
+  }
+
+  /**
+   * Import encounters from a FHIR Bundle into a patient's timeline
+   */
+  static async importPatientBundle(
+    patientUserId: string,
+    bundle: Partial<FHIRBundle> | null,
+    importedByUserId: string,
+    importedByRole: string
+  ): Promise<FHIRImportResult> {
+    try {
+      if (!bundle || bundle.resourceType !== 'Bundle' || !Array.isArray(bundle.entry)) {
+        return {
+          success: false,
+          message: 'Request body must be a FHIR Bundle with an entry array'
+        }
+      }
+
+      const [existing] = await database.execute(
+        'SELECT resource_key FROM fhir_imports WHERE patient_user_id = ?',
+        [patientUserId]
+      ) as [{ resource_key: string }[]]
+      const importedKeys = new Set(existing.map(row => row.resource_key))
+      const seenKeys = new Set<string>()
+
+      const results: FHIRImportEntryResult[] = []
+      const encounters: PendingEncounter[] = []
+      const encountersByReference = new Map<string, PendingEncounter>()
+      const clinicalEntries: PendingClinical[] = []
+
+      bundle.entry.forEach((entry: FHIRBundleEntry, index: number) => {
+        const resource = entry?.resource
+        const result: FHIRImportEntryResult = {
+          index,
+          resourceType: resource?.resourceType || 'Unknown',
+          resourceId: resource?.id,
+          status: 'skipped',
+          message: ''
+        }
+        results.push(result)
+
+        if (!resource || typeof resource.resourceType !== 'string') {
+          result.status = 'error'
+          result.message = 'Entry has no resource'
+          return
+        }
+
+        if (resource.resourceType !== 'Encounter' && !SNAPSHOT_RESOURCE_TYPES.includes(resource.resourceType as SnapshotResourceType)) {
+          result.message = `Resource type ${resource.resourceType} is not imported`
+          return
+        }
+
+        // Earlier imports may have been recorded under the entry's fullUrl
+        const key = this.getResourceKey(entry)
+        if (importedKeys.has(key) || seenKeys.has(key) || (entry.fullUrl && importedKeys.has(entry.fullUrl))) {
+          result.status = 'duplicate'
+          result.message = 'Resource has already been imported'
+          return
+        }
+        seenKeys.add(key)
+
+        if (resource.resourceType === 'Encounter') {
+          const pending: PendingEncounter = { key, result, clinical: [] }
+          const validationError = this.buildEncounterData(pending, resource, patientUserId)
+
+          if (validationError) {
+            result.status = 'error'
+            result.message = validationError
+          }
+
+          encounters.push(pending)
+          if (entry.fullUrl) {
+            encountersByReference.set(entry.fullUrl, pending)
+          }
+          if (resource.id) {
+            encountersByReference.set(`Encounter/${resource.id}`, pending)
+          }
+          return
+        }
+
+        const text = getCodeableConceptText(resource.code as FHIRCodeableConcept | undefined)
+        if (!text) {
+          result.status = 'error'
+          result.message = `${resource.resourceType} has no code text`
+          return
+        }
+
+        clinicalEntries.push({
+          key,
+          resourceType: resource.resourceType as SnapshotResourceType,
+          text,
+          result
+        })
+      })
+
+      // Attach clinical resources to the encounter they reference, or to the
+      // most recent imported encounter when they are not linked to one
+      const importable = encounters.filter(encounter => encounter.data)
+      const latest = importable.reduce<PendingEncounter | undefined>((current, encounter) =>
+        !current || encounter.data!.occurredAt > current.data!.occurredAt ? encounter : current, undefined)
+
+      let summaryEncounter: PendingEncounter | undefined
+
+      for (const clinical of clinicalEntries) {
+        const bundleEntry = bundle.entry[clinical.result.index]
+        const reference = getLinkedEncounterReference(bundleEntry.resource)
+        let target = reference ? encountersByReference.get(reference) : undefined
+
+        if (!target?.data) {
+          target = latest
+        }
+
+        if (!target) {
+          summaryEncounter = summaryEncounter || this.createSummaryEncounter(patientUserId)
+          target = summaryEncounter
+        }
+
+        target.clinical.push(clinical)
+      }
+
+      if (summaryEncounter) {
+        importable.push(summaryEncounter)
+      }
+
+      for (const encounter of importable) {
+        const data = encounter.data!
+        data.allergiesSnapshot = this.joinSnapshot(encounter.clinical, 'AllergyIntolerance')
+        data.chronicSnapshot = this.joinSnapshot(encounter.clinical, 'Condition')
+        data.recentSurgery = this.joinSnapshot(encounter.clinical, 'Procedure')
+
+        const entries = [encounter, ...encounter.clinical]
+
+        // The encounter and its ledger rows are recorded together or not at all
+        const createResult = await database.transaction(async (tx) => {
+          const result = await EncounterService.createEncounter(data, importedByUserId, importedByRole)
+          if (!result.success) {
+            return result
+          }
+
+          for (const entry of entries) {
+            // The summary encounter has no source resource to de-duplicate against
+            if (entry !== summaryEncounter) {
+              await tx.execute(
+                'INSERT INTO fhir_imports (patient_user_id, resource_key, resource_type, encounter_id, imported_by_user_id) VALUES (?, ?, ?, ?, ?)',
+                [patientUserId, entry.key, entry.result.resourceType, result.encounterId, importedByUserId]
+              )
+            }
+          }
+
+          return result
+        })
+
+        for (const entry of entries) {
+          if (!createResult.success) {
+            entry.result.status = 'error'
+            entry.result.message = createResult.message
+            continue
+          }
+
+          entry.result.status = 'imported'
+          entry.result.message = entry === encounter ? 'Encounter created' : 'Added to encounter snapshot'
+          entry.result.encounterId = createResult.encounterId
+        }
+      }
+
+      const summary = {
+        imported: results.filter(result => result.status === 'imported').length,
+        duplicates: results.filter(result => result.status === 'duplicate').length,
+        skipped: results.filter(result => result.status === 'skipped').length,
+        errors: results.filter(result => result.status === 'error').length
+      }
+
+      console.log(`📥 FHIR import for patient ${patientUserId}: ${summary.imported} imported, ${summary.duplicates} duplicates, ${summary.errors} errors`)
+
+      return {
+        success: true,
+        message: 'FHIR bundle processed',
+        summary,
+        results
+      }
+
+    } catch (error) {
+      console.error('FHIR import error:', error)
+      return {
+        success: false,
+        message: 'Failed to import FHIR bundle'
+      }
+    }
+  }
+
+  /**
+   * Build and validate encounter data, returning an error message if invalid
+   */
+  private static buildEncounterData(
+    pending: PendingEncounter,
+    resource: FHIRResource,
+    patientUserId: string
+  ): string | null {
+    const mapped = mapEncounterResource(resource)
+    const fields = {
+      ...mapped,
+      prescriptionsNotes: mapped.prescriptionsNotes || 'Imported from external health record'
+    }
+
+    const validation = validateEncounterData(fields)
+    if (!validation.isValid) {
+      return validation.errors.join(', ')
+    }
+
+    pending.data = {
+      patientUserId,
+      occurredAt: new Date(fields.occurredAt!),
+      type: fields.type,
+      reasonDiagnosis: fields.reasonDiagnosis!,
+      prescriptionsNotes: fields.prescriptionsNotes,
+      bloodGroup: fields.bloodGroup
+    }
+
+    return null
+  }
+
+  /**
+   * Placeholder encounter for clinical resources with no encounter to attach to
+   */
+  private static createSummaryEncounter(patientUserId: string): PendingEncounter {
+    return {
+      key: `summary:${new Date().toISOString()}`,
+      result: {
+        index: -1,
+        resourceType: 'Encounter',
+        status: 'skipped',
+        message: ''
+      },
+      data: {
+        patientUserId,
+        occurredAt: new Date(),
+        type: 'Other',
+        reasonDiagnosis: 'Imported clinical summary',
+        prescriptionsNotes: 'Imported from external health record'
+      },
+      clinical: []
+    }
+  }
+
+  /**
+   * Join imported clinical resources of one type into a snapshot column value
+   */
+  private static joinSnapshot(clinical: PendingClinical[], resourceType: SnapshotResourceType): string | undefined {
+    const values = clinical
+      .filter(entry => entry.resourceType === resourceType)
+      .map(entry => entry.text)
+
+    return values.length > 0 ? Array.from(new Set(values)).join(', ') : undefined
+  }
+
+  /**
+   * Stable key used to recognise a resource that was imported before. Ids are
+   * only unique within the system that issued them, so Type/id is scoped by
+   * the source: the base of an absolute fullUrl, otherwise meta.source. With
+   * no known source (urn:uuid and urn:oid full URLs are minted per export)
+   * the content is hashed instead.
+   */
+  private static getResourceKey(entry: FHIRBundleEntry): string {
+    const { resourceType, id, meta } = entry.resource
+    const absoluteUrl = entry.fullUrl && /^https?:\/\//i.test(entry.fullUrl) ? entry.fullUrl : undefined
+    const source = absoluteUrl ? absoluteUrl.split('/').slice(0, -2).join('/') : meta?.source
+
+    if (source && id) {
+      return `${source}|${resourceType}/${id}`
+    }
+
+    if (absoluteUrl) {
+      return absoluteUrl
+    }
+
+    return `sha256:${createHash('sha256').update(JSON.stringify(entry.resource)).digest('hex')}`
+  }
+}
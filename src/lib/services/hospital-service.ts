@@ -0,0 +1,754 @@
+import { database, WriteResult } from '../database'
+import { v4 as uuidv4 } from 'uuid'
+import { OTPService } from '../auth/otp-service'
+import { AuditService } from './audit-service'
+import { NotificationService } from './notification-service'
+
+export type HospitalStatus = 'ACTIVE' | 'SUSPENDED'
+
+export type HospitalStaffRole = 'OPERATOR' | 'DOCTOR'
+
+export type HospitalInvitationStatus = 'PENDING' | 'ACCEPTED' | 'REVOKED' | 'EXPIRED'
+
+export const HOSPITAL_STAFF_ROLES: HospitalStaffRole[] = ['OPERATOR', 'DOCTOR']
+
+export interface Hospital {
+  id: string
+  name: string
+  status: HospitalStatus
+  requireTotp: boolean
+  suspendedAt: string | null
+  suspensionReason: string | null
+  operatorCount: number
+  doctorCount: number
+  createdAt: string
+}
+
+export interface HospitalInvitation {
+  id: string
+  hospitalId: string
+  hospitalName: string
+  role: HospitalStaffRole
+  name: string
+  mobile: string
+  email: string
+  status: HospitalInvitationStatus
+  invitedByUserId: string
+  acceptedUserId: string | null
+  expiresAt: string
+  acceptedAt: string | null
+  createdAt: string
+}
+
+export interface HospitalInvitationData {
+  role?: string
+  name?: string
+  mobile?: string
+  email?: string
+}
+
+export interface HospitalUsage {
+  hospitalId: string
+  from: string | null
+  to: string | null
+  encounters: number
+  documents: number
+  emergencySessions: number
+  breakGlassSessions: number
+  operators: number
+  doctors: number
+}
+
+export interface HospitalTenant {
+  hospitalId: string
+  hospitalName: string
+  status: HospitalStatus
+  requireTotp: boolean
+}
+
+export interface HospitalResult {
+  success: boolean
+  message: string
+  hospital?: Hospital
+  invitation?: HospitalInvitation
+  usage?: HospitalUsage
+  tenant?: HospitalTenant
+  userId?: string
+}
+
+interface HospitalRow {
+  id: string
+  name: string
+  status: HospitalStatus
+  require_totp: number
+  suspended_at: string | null
+  suspension_reason: string | null
+  operator_count: number
+  doctor_count: number
+  created_at: string
+}
+
+interface HospitalInvitationRow {
+  id: string
+  hospital_id: string
+  hospital_name: string
+  role: HospitalStaffRole
+  name: string
+  mobile: string
+  email: string
+  status: HospitalInvitationStatus
+  invited_by_user_id: string
+  accepted_user_id: string | null
+  expires_at: string
+  accepted_at: string | null
+  created_at: string
+}
+
+export class HospitalService {
+  private static readonly INVITATION_EXPIRY_DAYS = 7
+
+  private static readonly HOSPITAL_QUERY = `
+    SELECT h.*,
+      (SELECT COUNT(*) FROM operator_profiles op WHERE op.hospital_id = h.id) as operator_count,
+      (SELECT COUNT(*) FROM doctor_profiles dp WHERE dp.hospital_id = h.id) as doctor_count
+    FROM hospitals h
+  `
+
+  private static readonly INVITATION_QUERY = `
+    SELECT hi.*, h.name as hospital_name
+    FROM hospital_invitations hi
+    JOIN hospitals h ON hi.hospital_id = h.id
+  `
+
+  /**
+   * Onboard a new hospital
+   */
+  static async createHospital(name: string, actorUserId: string): Promise<HospitalResult> {
+    try {
+      const hospitalName = name?.trim()
+      if (!hospitalName) {
+        return {
+          success: false,
+          message: 'Hospital name is required'
+        }
+      }
+
+      const hospitalId = await database.transaction(async (tx) => {
+        const [existing] = await tx.execute(
+          'SELECT id FROM hospitals WHERE name = ? COLLATE NOCASE',
+          [hospitalName]
+        ) as [{ id: string }[]]
+
+        if (existing.length > 0) {
+          return null
+        }
+
+        const id = uuidv4()
+        await tx.execute('INSERT INTO hospitals (id, name) VALUES (?, ?)', [id, hospitalName])
+
+        await AuditService.logEvent(actorUserId, 'ADMIN', 'HOSPITAL_CREATED', {
+          hospitalId: id,
+          name: hospitalName
+        })
+
+        return id
+      })
+
+      if (!hospitalId) {
+        return {
+          success: false,
+          message: 'A hospital with this name already exists'
+        }
+      }
+
+      return {
+        success: true,
+        message: 'Hospital created successfully',
+        hospital: (await this.getHospital(hospitalId))!
+      }
+
+    } catch (error) {
+      console.error('Create hospital error:', error)
+      return {
+        success: false,
+        message: 'Failed to create hospital'
+      }
+    }
+  }
+
+  /**
+   * List all hospitals with their staff counts
+   */
+  static async listHospitals(): Promise<Hospital[]> {
+    const [rows] = await database.execute(`${this.HOSPITAL_QUERY} ORDER BY h.name ASC`) as [HospitalRow[]]
+    return rows.map(row => this.mapHospital(row))
+  }
+
+  /**
+   * Get a hospital by ID
+   */
+  static async getHospital(hospitalId: string): Promise<Hospital | null> {
+    const [rows] = await database.execute(`${this.HOSPITAL_QUERY} WHERE h.id = ?`, [hospitalId]) as [HospitalRow[]]
+    return rows?.length ? this.mapHospital(rows[0]) : null
+  }
+
+  /**
+   * Suspend or reactivate a hospital. A suspended hospital's staff are
+   * signed out and lose access to hospital-scoped data until it is
+   * reactivated.
+   */
+  static async setHospitalStatus(
+    hospitalId: string,
+    status: HospitalStatus,
+    reason: string | undefined,
+    actorUserId: string
+  ): Promise<HospitalResult> {
+    try {
+      if (status !== 'ACTIVE' && status !== 'SUSPENDED') {
+        return {
+          success: false,
+          message: 'Status must be ACTIVE or SUSPENDED'
+        }
+      }
+
+      if (status === 'SUSPENDED' && !reason?.trim()) {
+        return {
+          success: false,
+          message: 'A reason is required to suspend a hospital'
+        }
+      }
+
+      const hospital = await this.getHospital(hospitalId)
+      if (!hospital) {
+        return {
+          success: false,
+          message: 'Hospital not found'
+        }
+      }
+
+      if (hospital.status === status) {
+        return {
+          success: false,
+          message: `Hospital is already ${status.toLowerCase()}`
+        }
+      }
+
+      await database.transaction(async (tx) => {
+        await tx.execute(
+          'UPDATE hospitals SET status = ?, suspended_at = ?, suspension_reason = ? WHERE id = ?',
+          status === 'SUSPENDED'
+            ? [status, new Date().toISOString(), reason!.trim(), hospitalId]
+            : [status, null, null, hospitalId]
+        )
+
+        // Outstanding invitations cannot be accepted while suspended, and
+        // staff are signed out along with the emergency sessions granted under the hospital
+        let revokedSessions = 0
+        if (status === 'SUSPENDED') {
+          const now = new Date().toISOString()
+
+          await tx.execute(
+            "UPDATE hospital_invitations SET status = 'REVOKED' WHERE hospital_id = ? AND status = 'PENDING'",
+            [hospitalId]
+          )
+
+          const [sessions] = await tx.execute(
+            `UPDATE sessions SET revoked_at = ?
+             WHERE revoked_at IS NULL AND user_id IN (
+               SELECT user_id FROM operator_profiles WHERE hospital_id = ?
+               UNION SELECT user_id FROM doctor_profiles WHERE hospital_id = ?
+             )`,
+            [now, hospitalId, hospitalId]
+          ) as [WriteResult]
+          revokedSessions = sessions.affectedRows
+
+          await tx.execute(
+            "UPDATE emergency_sessions SET status = 'REVOKED' WHERE hospital_id = ? AND status = 'ACTIVE'",
+            [hospitalId]
+          )
+        }
+
+        await AuditService.logEvent(
+          actorUserId,
+          'ADMIN',
+          status === 'SUSPENDED' ? 'HOSPITAL_SUSPENDED' : 'HOSPITAL_REACTIVATED',
+          {
+            hospitalId,
+            name: hospital.name,
+            reason: reason?.trim() || null,
+            revokedSessions
+          }
+        )
+      })
+
+      return {
+        success: true,
+        message: status === 'SUSPENDED' ? 'Hospital suspended successfully' : 'Hospital reactivated successfully',
+        hospital: (await this.getHospital(hospitalId))!
+      }
+
+    } catch (error) {
+      console.error('Set hospital status error:', error)
+      return {
+        success: false,
+        message: 'Failed to update hospital status'
+      }
+    }
+  }
+
+  /**
+   * Require the hospital's doctors and operators to sign in with an
+   * authenticator app as a second factor
+   */
+  static async setTotpRequirement(
+    hospitalId: string,
+    requireTotp: boolean,
+    actorUserId: string,
+    actorRole: string
+  ): Promise<HospitalResult> {
+    try {
+      if (typeof requireTotp !== 'boolean') {
+        return {
+          success: false,
+          message: 'requireTotp must be true or false'
+        }
+      }
+
+      const hospital = await this.getHospital(hospitalId)
+      if (!hospital) {
+        return {
+          success: false,
+          message: 'Hospital not found'
+        }
+      }
+
+      await database.transaction(async (tx) => {
+        await tx.execute('UPDATE hospitals SET require_totp = ? WHERE id = ?', [requireTotp ? 1 : 0, hospitalId])
+
+        await AuditService.logEvent(actorUserId, actorRole, 'HOSPITAL_POLICY_UPDATED', {
+          hospitalId,
+          name: hospital.name,
+          requireTotp
+        })
+      })
+
+      return {
+        success: true,
+        message: 'Hospital security policy updated successfully',
+        hospital: (await this.getHospital(hospitalId))!
+      }
+
+    } catch (error) {
+      console.error('Set hospital TOTP requirement error:', error)
+      return {
+        success: false,
+        message: 'Failed to update hospital security policy'
+      }
+    }
+  }
+
+  /**
+   * Invite an operator or doctor to join a hospital
+   */
+  static async inviteStaff(
+    hospitalId: string,
+    data: HospitalInvitationData,
+    actorUserId: string
+  ): Promise<HospitalResult> {
+    try {
+      const mobile = data.mobile?.trim()
+      const name = data.name?.trim()
+      const email = data.email?.trim()
+
+      if (!HOSPITAL_STAFF_ROLES.includes(data.role as HospitalStaffRole)) {
+        return {
+          success: false,
+          message: `Role must be one of ${HOSPITAL_STAFF_ROLES.join(', ')}`
+        }
+      }
+
+      if (!mobile || !name || !email) {
+        return {
+          success: false,
+          message: 'Name, mobile and email are required'
+        }
+      }
+
+      const hospital = await this.getHospital(hospitalId)
+      if (!hospital) {
+        return {
+          success: false,
+          message: 'Hospital not found'
+        }
+      }
+
+      if (hospital.status !== 'ACTIVE') {
+        return {
+          success: false,
+          message: 'Cannot invite staff to a suspended hospital'
+        }
+      }
+
+      const [users] = await database.execute('SELECT role FROM users WHERE mobile = ?', [mobile]) as [{ role: string }[]]
+      if (users.length > 0 && users[0].role !== data.role) {
+        return {
+          success: false,
+          message: `This mobile number belongs to a ${users[0].role.toLowerCase()} account`
+        }
+      }
+
+      const expiresAt = new Date()
+      expiresAt.setDate(expiresAt.getDate() + this.INVITATION_EXPIRY_DAYS)
+
+      const invitationId = await database.transaction(async (tx) => {
+        const [existing] = await tx.execute(
+          "SELECT id FROM hospital_invitations WHERE hospital_id = ? AND mobile = ? AND status = 'PENDING' AND expires_at > ?",
+          [hospitalId, mobile, new Date().toISOString()]
+        ) as [{ id: string }[]]
+
+        if (existing.length > 0) {
+          return null
+        }
+
+        const id = uuidv4()
+        await tx.execute(
+          'INSERT INTO hospital_invitations (id, hospital_id, role, name, mobile, email, invited_by_user_id, expires_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+          [id, hospitalId, data.role, name, mobile, email, actorUserId, expiresAt.toISOString()]
+        )
+
+        await AuditService.logEvent(actorUserId, 'ADMIN', 'HOSPITAL_STAFF_INVITED', {
+          hospitalId,
+          invitationId: id,
+          role: data.role,
+          name,
+          mobile
+        })
+
+        return id
+      })
+
+      if (!invitationId) {
+        return {
+          success: false,
+          message: 'This person already has a pending invitation to this hospital'
+        }
+      }
+
+      await this.sendSMS(
+        mobile,
+        `E-Patient Connect: You have been invited to join ${hospital.name} as a ${data.role!.toLowerCase()}. Accept invitation ${invitationId} with a one-time code within ${this.INVITATION_EXPIRY_DAYS} days.`,
+        `hospital-invitation:${invitationId}`
+      )
+
+      return {
+        success: true,
+        message: 'Invitation sent successfully',
+        invitation: (await this.getInvitation(invitationId))!
+      }
+
+    } catch (error) {
+      console.error('Invite hospital staff error:', error)
+      return {
+        success: false,
+        message: 'Failed to send invitation'
+      }
+    }
+  }
+
+  /**
+   * List a hospital's staff invitations, newest first
+   */
+  static async getInvitations(hospitalId: string): Promise<HospitalInvitation[]> {
+    const [rows] = await database.execute(
+      `${this.INVITATION_QUERY} WHERE hi.hospital_id = ? ORDER BY hi.created_at DESC`,
+      [hospitalId]
+    ) as [HospitalInvitationRow[]]
+
+    return rows.map(row => this.mapInvitation(row))
+  }
+
+  /**
+   * Accept a staff invitation. The invitee proves the mobile number with a
+   * REGISTRATION OTP; an account is created if they do not have one yet.
+   */
+  static async acceptInvitation(invitationId: string, otp: string): Promise<HospitalResult> {
+    try {
+      const invitation = await this.getInvitation(invitationId)
+      if (!invitation) {
+        return {
+          success: false,
+          message: 'Invitation not found'
+        }
+      }
+
+      if (invitation.status !== 'PENDING') {
+        return {
+          success: false,
+          message: `Invitation is ${invitation.status.toLowerCase()}`
+        }
+      }
+
+      const otpResult = await OTPService.verifyOTP(invitation.mobile, otp, 'REGISTRATION')
+      if (!otpResult.success) {
+        return {
+          success: false,
+          message: `Verification failed: ${otpResult.message}`
+        }
+      }
+
+      const outcome = await database.transaction(async (tx) => {
+        const [users] = await tx.execute(
+          `SELECT u.id, u.role, op.hospital_id as operator_hospital_id, dp.hospital_id as doctor_hospital_id
+           FROM users u
+           LEFT JOIN operator_profiles op ON u.id = op.user_id
+           LEFT JOIN doctor_profiles dp ON u.id = dp.user_id
+           WHERE u.mobile = ?`,
+          [invitation.mobile]
+        ) as [{ id: string; role: string; operator_hospital_id: string | null; doctor_hospital_id: string | null }[]]
+
+        let userId: string
+
+        if (users.length > 0) {
+          const user = users[0]
+          if (user.role !== invitation.role) {
+            return { error: `This mobile number belongs to a ${user.role.toLowerCase()} account` }
+          }
+          if (user.operator_hospital_id && user.operator_hospital_id !== invitation.hospitalId) {
+            return { error: 'Operator is already linked to another hospital' }
+          }
+          if (user.doctor_hospital_id && user.doctor_hospital_id !== invitation.hospitalId) {
+            return { error: 'Doctor is already linked to another hospital' }
+          }
+          userId = user.id
+        } else {
+          const [emails] = await tx.execute('SELECT id FROM users WHERE email = ?', [invitation.email]) as [{ id: string }[]]
+          if (emails.length > 0) {
+            return { error: 'Email address is already registered' }
+          }
+
+          userId = uuidv4()
+          await tx.execute(
+            'INSERT INTO users (id, role, name, mobile, email) VALUES (?, ?, ?, ?, ?)',
+            [userId, invitation.role, invitation.name, invitation.mobile, invitation.email]
+          )
+        }
+
+        if (invitation.role === 'OPERATOR') {
+          await tx.execute(
+            'INSERT INTO operator_profiles (user_id, hospital_id) VALUES (?, ?) ON CONFLICT(user_id) DO UPDATE SET hospital_id = excluded.hospital_id',
+            [userId, invitation.hospitalId]
+          )
+        } else {
+          await tx.execute(
+            `INSERT INTO doctor_profiles (user_id, hospital_id, hospital_name) VALUES (?, ?, ?)
+             ON CONFLICT(user_id) DO UPDATE SET hospital_id = excluded.hospital_id, hospital_name = excluded.hospital_name`,
+            [userId, invitation.hospitalId, invitation.hospitalName]
+          )
+        }
+
+        await tx.execute(
+          "UPDATE hospital_invitations SET status = 'ACCEPTED', accepted_user_id = ?, accepted_at = ? WHERE id = ?",
+          [userId, new Date().toISOString(), invitationId]
+        )
+
+        await AuditService.logEvent(userId, invitation.role, 'HOSPITAL_STAFF_JOINED', {
+          hospitalId: invitation.hospitalId,
+          hospitalName: invitation.hospitalName,
+          invitationId,
+          role: invitation.role
+        })
+
+        return { userId }
+      })
+
+      if ('error' in outcome) {
+        return {
+          success: false,
+          message: outcome.error!
+        }
+      }
+
+      return {
+        success: true,
+        message: `Joined ${invitation.hospitalName} successfully`,
+        userId: outcome.userId
+      }
+
+    } catch (error) {
+      console.error('Accept hospital invitation error:', error)
+      return {
+        success: false,
+        message: 'Failed to accept invitation'
+      }
+    }
+  }
+
+  /**
+   * Count a hospital's encounters, documents and emergency sessions,
+   * optionally within a date range
+   */
+  static async getUsage(hospitalId: string, from?: Date, to?: Date): Promise<HospitalResult> {
+    try {
+      const hospital = await this.getHospital(hospitalId)
+      if (!hospital) {
+        return {
+          success: false,
+          message: 'Hospital not found'
+        }
+      }
+
+      // Timestamps are stored both as ISO strings and as SQLite datetimes, so compare with datetime()
+      const fromIso = (from || new Date(0)).toISOString()
+      const toIso = (to || new Date('9999-12-31')).toISOString()
+
+      const [encounters] = await database.execute(
+        'SELECT COUNT(*) as count FROM encounters WHERE hospital_id = ? AND datetime(created_at) BETWEEN datetime(?) AND datetime(?)',
+        [hospitalId, fromIso, toIso]
+      ) as [{ count: number }[]]
+
+      const [documents] = await database.execute(
+        'SELECT COUNT(*) as count FROM documents WHERE hospital_id = ? AND datetime(uploaded_at) BETWEEN datetime(?) AND datetime(?)',
+        [hospitalId, fromIso, toIso]
+      ) as [{ count: number }[]]
+
+      const [sessions] = await database.execute(
+        `SELECT COUNT(*) as count, SUM(CASE WHEN method = 'BREAK_GLASS' THEN 1 ELSE 0 END) as break_glass
+         FROM emergency_sessions WHERE hospital_id = ? AND datetime(granted_at) BETWEEN datetime(?) AND datetime(?)`,
+        [hospitalId, fromIso, toIso]
+      ) as [{ count: number; break_glass: number | null }[]]
+
+      return {
+        success: true,
+        message: 'Hospital usage retrieved successfully',
+        usage: {
+          hospitalId,
+          from: from ? fromIso : null,
+          to: to ? toIso : null,
+          encounters: encounters[0].count,
+          documents: documents[0].count,
+          emergencySessions: sessions[0].count,
+          breakGlassSessions: sessions[0].break_glass || 0,
+          operators: hospital.operatorCount,
+          doctors: hospital.doctorCount
+        }
+      }
+
+    } catch (error) {
+      console.error('Get hospital usage error:', error)
+      return {
+        success: false,
+        message: 'Failed to retrieve hospital usage'
+      }
+    }
+  }
+
+  /**
+   * Resolve the hospital a staff user belongs to. Hospital-scoped queries
+   * must use this rather than a hospital ID supplied by the client.
+   */
+  static async getUserTenant(userId: string): Promise<HospitalTenant | null> {
+    const [rows] = await database.execute(
+      `SELECT h.id, h.name, h.status, h.require_totp FROM operator_profiles op JOIN hospitals h ON op.hospital_id = h.id WHERE op.user_id = ?
+       UNION ALL
+       SELECT h.id, h.name, h.status, h.require_totp FROM doctor_profiles dp JOIN hospitals h ON dp.hospital_id = h.id WHERE dp.user_id = ?`,
+      [userId, userId]
+    ) as [{ id: string; name: string; status: HospitalStatus; require_totp: number }[]]
+
+    if (!rows || rows.length === 0) {
+      return null
+    }
+
+    return {
+      hospitalId: rows[0].id,
+      hospitalName: rows[0].name,
+      status: rows[0].status,
+      requireTotp: rows[0].require_totp === 1
+    }
+  }
+
+  /**
+   * Resolve the user's hospital and require it to be active
+   */
+  static async requireActiveTenant(userId: string): Promise<HospitalResult> {
+    const tenant = await this.getUserTenant(userId)
+
+    if (!tenant) {
+      return {
+        success: false,
+        message: 'Hospital profile not found'
+      }
+    }
+
+    if (tenant.status !== 'ACTIVE') {
+      return {
+        success: false,
+        message: 'Hospital is suspended',
+        tenant
+      }
+    }
+
+    return {
+      success: true,
+      message: 'Hospital is active',
+      tenant
+    }
+  }
+
+  /**
+   * Check whether a hospital exists and is active
+   */
+  static async isHospitalActive(hospitalId: string): Promise<boolean> {
+    const [rows] = await database.execute('SELECT status FROM hospitals WHERE id = ?', [hospitalId]) as [{ status: HospitalStatus }[]]
+    return rows?.[0]?.status === 'ACTIVE'
+  }
+
+  private static async getInvitation(invitationId: string): Promise<HospitalInvitation | null> {
+    const [rows] = await database.execute(`${this.INVITATION_QUERY} WHERE hi.id = ?`, [invitationId]) as [HospitalInvitationRow[]]
+    return rows?.length ? this.mapInvitation(rows[0]) : null
+  }
+
+  private static async sendSMS(mobile: string, message: string, idempotencyKey: string): Promise<void> {
+    try {
+      const notification = await NotificationService.sendSms(mobile, message, { idempotencyKey })
+      if (notification.status !== 'SENT') {
+        console.error('Hospital invitation SMS failed:', notification.lastError)
+      }
+    } catch (error) {
+      console.error('Hospital invitation SMS error:', error)
+    }
+  }
+
+  private static mapHospital(row: HospitalRow): Hospital {
+    return {
+      id: row.id,
+      name: row.name,
+      status: row.status,
+      requireTotp: row.require_totp === 1,
+      suspendedAt: row.suspended_at,
+      suspensionReason: row.suspension_reason,
+      operatorCount: row.operator_count,
+      doctorCount: row.doctor_count,
+      createdAt: row.created_at
+    }
+  }
+
+  private static mapInvitation(row: HospitalInvitationRow): HospitalInvitation {
+    const expired = row.status === 'PENDING' && new Date(row.expires_at) <= new Date()
+
+    return {
+      id: row.id,
+      hospitalId: row.hospital_id,
+      hospitalName: row.hospital_name,
+      role: row.role,
+      name: row.name,
+      mobile: row.mobile,
+      email: row.email,
+      status: expired ? 'EXPIRED' : row.status,
+      invitedByUserId: row.invited_by_user_id,
+      acceptedUserId: row.accepted_user_id,
+      expiresAt: row.expires_at,
+      acceptedAt: row.accepted_at,
+      createdAt: row.created_at
+    }
+  }
+}
@@ -11,6 +11,26 @@ export type {
   TimelineFilters 
 } from './encounter-service'
 
+// Structured Medical History Services
+export { MedicalHistoryService, MEDICAL_LIST_KINDS } from './medical-history-service'
+export type {
+  MedicalListKind,
+  MedicalListEntry,
+  MedicalListEntryData,
+  MedicalLists,
+  MedicalHistoryResult,
+  EncounterSnapshotData
+} from './medical-history-service'
+
+// FHIR Interoperability Services
+export { FHIRService } from './fhir-service'
+export type {
+  FHIRExportResult,
+  FHIRImportResult,
+  FHIRImportEntryResult,
+  FHIRImportStatus
+} from './fhir-service'
+
 // Emergency Access Services
 export { EmergencyService } from './emergency-service'
 export type {
@@ -19,6 +39,57 @@ export type {
   EmergencySessionInfo
 } from './emergency-service'
 
+// Emergency Access Policy Services
+export {
+  EmergencyPolicyService,
+  EMERGENCY_METHODS,
+  EMERGENCY_DATA_CATEGORIES,
+  MIN_EMERGENCY_SESSION_MINUTES,
+  MAX_EMERGENCY_SESSION_MINUTES
+} from './emergency-policy-service'
+export type {
+  EmergencyMethod,
+  EmergencyDataCategory,
+  EmergencyAccessPolicy,
+  EmergencyPolicyData,
+  EmergencyPolicyResult,
+  EmergencyPolicyDecision
+} from './emergency-policy-service'
+
+// Break-Glass Access Services
+export { BreakGlassService, BREAK_GLASS_METHOD } from './break-glass-service'
+export type {
+  BreakGlassRequest,
+  BreakGlassReview,
+  BreakGlassResult,
+  BreakGlassReviewStatus,
+  BreakGlassDecision
+} from './break-glass-service'
+
+// Delegated Access Services
+export { DelegationService, DELEGATION_PERMISSIONS, DELEGATION_OTP_PURPOSE } from './delegation-service'
+export type {
+  Delegation,
+  DelegationData,
+  DelegationResult,
+  DelegationPermission,
+  DelegationStatus
+} from './delegation-service'
+
+// Hospital Tenancy Services
+export { HospitalService, HOSPITAL_STAFF_ROLES } from './hospital-service'
+export type {
+  Hospital,
+  HospitalStatus,
+  HospitalStaffRole,
+  HospitalInvitation,
+  HospitalInvitationData,
+  HospitalInvitationStatus,
+  HospitalUsage,
+  HospitalTenant,
+  HospitalResult
+} from './hospital-service'
+
 // Document Management Services
 export { DocumentService } from './document-service'
 export type {
@@ -37,5 +108,13 @@ export type {
 } from './audit-service'
 
 // Role-Based Access Control
-export { RBACService, ROLE_PERMISSIONS } from './rbac-service'
-export type { Permission, RolePermissions } from './rbac-service'
\ No newline at end of file
+export { RBACService, PERMISSIONS, PERMISSION_SCOPES } from './rbac-service'
+export type {
+  Permission,
+  PermissionScope,
+  PermissionGrant,
+  Role,
+  RoleData,
+  RoleResult,
+  ResourceContext
+} from './rbac-service'
\ No newline at end of file
@@ -0,0 +1,348 @@
+import { database, WriteResult } from '../database'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  parseSnapshotList,
+  isValidSeverity,
+  isValidMedicalListStatus
+} from '../utils/encounter-utils'
+
+export type MedicalListKind = 'allergy' | 'condition' | 'medication'
+
+export const MEDICAL_LIST_KINDS: MedicalListKind[] = ['allergy', 'condition', 'medication']
+
+const MEDICAL_LIST_TABLES: Record<MedicalListKind, string> = {
+  allergy: 'patient_allergies',
+  condition: 'patient_conditions',
+  medication: 'patient_medications'
+}
+
+// Names are encrypted, so entries are kept unique on the blind index of the name
+const KEEP_EXISTING_ENTRY = 'ON CONFLICT (patient_user_id, name_bidx) DO NOTHING'
+
+export interface MedicalListEntry {
+  id: string
+  kind: MedicalListKind
+  name: string
+  severity: string
+  dosage?: string | null
+  onsetDate: string | null
+  status: string
+  sourceEncounterId: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface MedicalListEntryData {
+  name?: string
+  severity?: string
+  dosage?: string
+  onsetDate?: string
+  status?: string
+  sourceEncounterId?: string
+}
+
+export interface MedicalLists {
+  allergies: MedicalListEntry[]
+  conditions: MedicalListEntry[]
+  medications: MedicalListEntry[]
+}
+
+export interface MedicalHistoryResult {
+  success: boolean
+  message: string
+  entryId?: string
+  lists?: MedicalLists
+}
+
+export interface EncounterSnapshotData {
+  patientUserId: string
+  encounterId: string
+  occurredAt: Date | string
+  allergiesSnapshot?: string | null
+  chronicSnapshot?: string | null
+}
+
+interface MedicalListRow {
+  id: string
+  name: string
+  severity: string
+  dosage?: string | null
+  onset_date: string | null
+  status: string
+  source_encounter_id: string | null
+  created_at: string
+  updated_at: string
+}
+
+export class MedicalHistoryService {
+  /**
+   * Check whether a value names one of the structured medical lists
+   */
+  static isValidKind(kind: string): kind is MedicalListKind {
+    return MEDICAL_LIST_KINDS.includes(kind as MedicalListKind)
+  }
+
+  /**
+   * Get a patient's allergy, condition and medication lists
+   */
+  static async getMedicalLists(patientUserId: string, activeOnly: boolean = false): Promise<MedicalHistoryResult> {
+    try {
+      const lists: MedicalLists = {
+        allergies: await this.getEntries('allergy', patientUserId, activeOnly),
+        conditions: await this.getEntries('condition', patientUserId, activeOnly),
+        medications: await this.getEntries('medication', patientUserId, activeOnly)
+      }
+
+      return {
+        success: true,
+        message: 'Medical history retrieved successfully',
+        lists
+      }
+
+    } catch (error) {
+      console.error('Get medical lists error:', error)
+      return {
+        success: false,
+        message: 'Failed to retrieve medical history'
+      }
+    }
+  }
+
+  /**
+   * Add an entry to one of a patient's medical lists
+   */
+  static async addEntry(
+    kind: MedicalListKind,
+    patientUserId: string,
+    data: MedicalListEntryData
+  ): Promise<MedicalHistoryResult> {
+    try {
+      const name = data.name?.trim()
+      if (!name) {
+        return {
+          success: false,
+          message: 'Name is required'
+        }
+      }
+
+      const validationError = this.validateEntryData(kind, data)
+      if (validationError) {
+        return {
+          success: false,
+          message: validationError
+        }
+      }
+
+      const table = MEDICAL_LIST_TABLES[kind]
+      const entryId = uuidv4()
+
+      let result: WriteResult
+
+      if (kind === 'medication') {
+        [result] = await database.execute(
+          `INSERT INTO ${table} (id, patient_user_id, name, dosage, severity, onset_date, status, source_encounter_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?) ${KEEP_EXISTING_ENTRY}`,
+          [entryId, patientUserId, name, data.dosage || null, data.severity || 'UNKNOWN', data.onsetDate || null, data.status || 'ACTIVE', data.sourceEncounterId || null]
+        ) as [WriteResult]
+      } else {
+        [result] = await database.execute(
+          `INSERT INTO ${table} (id, patient_user_id, name, severity, onset_date, status, source_encounter_id) VALUES (?, ?, ?, ?, ?, ?, ?) ${KEEP_EXISTING_ENTRY}`,
+          [entryId, patientUserId, name, data.severity || 'UNKNOWN', data.onsetDate || null, data.status || 'ACTIVE', data.sourceEncounterId || null]
+        ) as [WriteResult]
+      }
+
+      if (result.affectedRows === 0) {
+        return {
+          success: false,
+          message: `${name} is already recorded`
+        }
+      }
+
+      return {
+        success: true,
+        message: 'Medical history entry added successfully',
+        entryId
+      }
+
+    } catch (error) {
+      console.error('Add medical list entry error:', error)
+      return {
+        success: false,
+        message: 'Failed to add medical history entry'
+      }
+    }
+  }
+
+  /**
+   * Update severity, onset date, status or dosage of a medical list entry
+   */
+  static async updateEntry(
+    kind: MedicalListKind,
+    entryId: string,
+    patientUserId: string,
+    data: MedicalListEntryData
+  ): Promise<MedicalHistoryResult> {
+    try {
+      const validationError = this.validateEntryData(kind, data)
+      if (validationError) {
+        return {
+          success: false,
+          message: validationError
+        }
+      }
+
+      const updates: string[] = []
+      const values: (string | null)[] = []
+
+      if (data.severity !== undefined) {
+        updates.push('severity = ?')
+        values.push(data.severity)
+      }
+
+      if (data.onsetDate !== undefined) {
+        updates.push('onset_date = ?')
+        values.push(data.onsetDate || null)
+      }
+
+      if (data.status !== undefined) {
+        updates.push('status = ?')
+        values.push(data.status)
+      }
+
+      if (kind === 'medication' && data.dosage !== undefined) {
+        updates.push('dosage = ?')
+        values.push(data.dosage || null)
+      }
+
+      if (updates.length === 0) {
+        return {
+          success: false,
+          message: 'No fields to update'
+        }
+      }
+
+      values.push(entryId, patientUserId)
+
+      const [result] = await database.execute(
+        `UPDATE ${MEDICAL_LIST_TABLES[kind]} SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND patient_user_id = ?`,
+        values
+      ) as [WriteResult]
+
+      if (result.affectedRows === 0) {
+        return {
+          success: false,
+          message: 'Medical history entry not found'
+        }
+      }
+
+      return {
+        success: true,
+        message: 'Medical history entry updated successfully',
+        entryId
+      }
+
+    } catch (error) {
+      console.error('Update medical list entry error:', error)
+      return {
+        success: false,
+        message: 'Failed to update medical history entry'
+      }
+    }
+  }
+
+  /**
+   * Add allergies and chronic conditions from an encounter's snapshot
+   * columns to the structured lists, keeping entries that already exist.
+   * Medications are not derived: prescriptions and notes are free text, so
+   * the medication list only holds entries added to it directly.
+   */
+  static async recordEncounterSnapshots(snapshot: EncounterSnapshotData): Promise<number> {
+    const onsetDate = typeof snapshot.occurredAt === 'string'
+      ? snapshot.occurredAt.slice(0, 10)
+      : snapshot.occurredAt.toISOString().slice(0, 10)
+
+    const entries: Array<[MedicalListKind, string]> = [
+      ...parseSnapshotList(snapshot.allergiesSnapshot).map(name => ['allergy', name] as [MedicalListKind, string]),
+      ...parseSnapshotList(snapshot.chronicSnapshot).map(name => ['condition', name] as [MedicalListKind, string])
+    ]
+
+    return database.transaction(async (tx) => {
+      let added = 0
+
+      for (const [kind, name] of entries) {
+        const [result] = await tx.execute(
+          `INSERT INTO ${MEDICAL_LIST_TABLES[kind]} (id, patient_user_id, name, onset_date, source_encounter_id) VALUES (?, ?, ?, ?, ?) ${KEEP_EXISTING_ENTRY}`,
+          [uuidv4(), snapshot.patientUserId, name, onsetDate, snapshot.encounterId]
+        ) as [WriteResult]
+        added += result.affectedRows
+      }
+
+      return added
+    })
+  }
+
+  /**
+   * Format list entries as a comma-separated summary for display
+   */
+  static formatEntries(entries: MedicalListEntry[]): string {
+    return entries
+      .map(entry => {
+        const details = [entry.dosage, entry.severity !== 'UNKNOWN' ? entry.severity.toLowerCase() : null]
+          .filter(Boolean)
+          .join(', ')
+        return details ? `${entry.name} (${details})` : entry.name
+      })
+      .join(', ')
+  }
+
+  private static async getEntries(
+    kind: MedicalListKind,
+    patientUserId: string,
+    activeOnly: boolean
+  ): Promise<MedicalListEntry[]> {
+    const [rows] = await database.execute(
+      `SELECT * FROM ${MEDICAL_LIST_TABLES[kind]} WHERE patient_user_id = ?${activeOnly ? " AND status = 'ACTIVE'" : ''}`,
+      [patientUserId]
+    ) as [MedicalListRow[]]
+
+    // Names are encrypted, so entries are sorted once decrypted
+    rows.sort((a, b) => a.status.localeCompare(b.status) || a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }))
+
+    return rows.map(row => ({
+      id: row.id,
+      kind,
+      name: row.name,
+      severity: row.severity,
+      ...(kind === 'medication' ? { dosage: row.dosage } : {}),
+      onsetDate: row.onset_date,
+      status: row.status,
+      sourceEncounterId: row.source_encounter_id,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }))
+  }
+
+  private static validateEntryData(kind: MedicalListKind, data: MedicalListEntryData): string | null {
+    if (data.severity !== undefined && !isValidSeverity(data.severity)) {
+      return 'Invalid severity'
+    }
+
+    if (data.status !== undefined && !isValidMedicalListStatus(data.status)) {
+      return 'Invalid status'
+    }
+
+    if (data.onsetDate) {
+      const onsetDate = new Date(data.onsetDate)
+      if (isNaN(onsetDate.getTime())) {
+        return 'Invalid onset date'
+      } else if (onsetDate > new Date()) {
+        return 'Onset date cannot be in the future'
+      }
+    }
+
+    if (data.dosage !== undefined && kind !== 'medication') {
+      return 'Dosage only applies to medications'
+    }
+
+    return null
+  }
+}
@@ -0,0 +1,430 @@
+import { v4 as uuidv4 } from 'uuid'
+import { database, WriteResult } from '../database'
+import { AuditService } from './audit-service'
+import { emailService } from './email-service'
+import type { EmailContent } from './email-transports'
+import type { UserNotification } from './notification-templates'
+import { smsService } from './sms-service'
+
+export type NotificationChannel = 'SMS' | 'EMAIL'
+export type NotificationStatus = 'PENDING' | 'SENDING' | 'SENT' | 'DEAD'
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['SMS', 'EMAIL']
+export const NOTIFICATION_STATUSES: NotificationStatus[] = ['PENDING', 'SENDING', 'SENT', 'DEAD']
+
+export interface Notification {
+  id: string
+  channel: NotificationChannel
+  recipient: string // Phone number or email address
+  subject: string | null // Emails only
+  body: string | null // Never returned for sensitive messages such as OTPs
+  status: NotificationStatus
+  attempts: number
+  maxAttempts: number
+  nextAttemptAt: string
+  expiresAt: string | null
+  lastError: string | null
+  provider: string | null
+  idempotencyKey: string | null
+  createdAt: string
+  updatedAt: string
+  sentAt: string | null
+}
+
+export interface NotificationOptions {
+  /** Enqueueing the same key again returns the existing notification */
+  idempotencyKey?: string
+  /** Give up instead of sending after this time */
+  expiresAt?: Date
+  /** Clear the body once the message is sent or dead-lettered */
+  sensitive?: boolean
+}
+
+export interface NotificationResult {
+  success: boolean
+  message: string
+  notification?: Notification
+  notifications?: Notification[]
+  counts?: Record<NotificationStatus, number>
+}
+
+interface NotificationRow {
+  id: string
+  channel: NotificationChannel
+  recipient: string
+  subject: string | null
+  body: string | null
+  html_body: string | null
+  sensitive: number
+  status: NotificationStatus
+  attempts: number
+  max_attempts: number
+  next_attempt_at: string
+  expires_at: string | null
+  last_error: string | null
+  provider: string | null
+  idempotency_key: string | null
+  created_at: string
+  updated_at: string
+  sent_at: string | null
+}
+
+/**
+ * Durable outbound notifications. Messages are written to the notifications
+ * table first and delivered from there, so a provider outage delays them
+ * instead of failing the request that sent them. NotificationWorker retries
+ * failures with exponential backoff until they are sent, expire or run out of
+ * attempts (DEAD).
+ */
+export class NotificationService {
+  private static readonly MAX_ATTEMPTS = 5
+  private static readonly BASE_RETRY_DELAY_MS = 30 * 1000
+  private static readonly MAX_RETRY_DELAY_MS = 60 * 60 * 1000
+  private static readonly STALE_SENDING_MS = 5 * 60 * 1000
+
+  /**
+   * Queue an SMS for the worker to send. Inside a database transaction the
+   * message is only queued if the transaction commits, so use this rather
+   * than sendSms there.
+   */
+  static async enqueueSms(recipient: string, body: string, options: NotificationOptions = {}): Promise<string> {
+    return this.enqueue('SMS', recipient, { subject: null, text: body, html: null }, options)
+  }
+
+  /**
+   * Queue an email for the worker to send, like enqueueSms
+   */
+  static async enqueueEmail(recipient: string, content: EmailContent, options: NotificationOptions = {}): Promise<string> {
+    return this.enqueue('EMAIL', recipient, content, options)
+  }
+
+  /**
+   * Queue an SMS and try to send it straight away. When that attempt fails
+   * the message stays queued for retry.
+   */
+  static async sendSms(recipient: string, body: string, options: NotificationOptions = {}): Promise<Notification> {
+    const id = await this.enqueueSms(recipient, body, options)
+    await this.attempt(id)
+    return (await this.getNotification(id))!
+  }
+
+  /**
+   * Queue an email and try to send it straight away, like sendSms
+   */
+  static async sendEmail(recipient: string, content: EmailContent, options: NotificationOptions = {}): Promise<Notification> {
+    const id = await this.enqueueEmail(recipient, content, options)
+    await this.attempt(id)
+    return (await this.getNotification(id))!
+  }
+
+  /**
+   * Send a notification to a user on their preferred channel. Users without
+   * an email address get the SMS version.
+   */
+  static async notifyUser(userId: string, notification: UserNotification, options: NotificationOptions = {}): Promise<Notification | null> {
+    const [users] = await database.execute(
+      'SELECT mobile, email, notification_channel FROM users WHERE id = ?',
+      [userId]
+    ) as [{ mobile: string; email: string | null; notification_channel: NotificationChannel }[]]
+
+    if (!users?.length) {
+      return null
+    }
+
+    const user = users[0]
+    return user.notification_channel === 'EMAIL' && user.email
+      ? this.sendEmail(user.email, notification.email, options)
+      : this.sendSms(user.mobile, notification.sms, options)
+  }
+
+  /**
+   * Send every notification that is due. Messages left SENDING by a process
+   * that died mid-delivery are picked up again. Returns how many were sent.
+   */
+  static async processDue(limit: number = 20): Promise<number> {
+    const now = new Date()
+
+    await database.execute(
+      "UPDATE notifications SET status = 'PENDING', updated_at = ? WHERE status = 'SENDING' AND updated_at < ?",
+      [now.toISOString(), new Date(now.getTime() - this.STALE_SENDING_MS).toISOString()]
+    )
+
+    const [due] = await database.execute(
+      "SELECT id FROM notifications WHERE status = 'PENDING' AND next_attempt_at <= ? ORDER BY next_attempt_at LIMIT ?",
+      [now.toISOString(), limit]
+    ) as [{ id: string }[]]
+
+    let sent = 0
+    for (const row of due) {
+      if (await this.attempt(row.id) === 'SENT') {
+        sent++
+      }
+    }
+
+    return sent
+  }
+
+  static async getNotification(notificationId: string): Promise<Notification | null> {
+    const [rows] = await database.execute('SELECT * FROM notifications WHERE id = ?', [notificationId]) as [NotificationRow[]]
+    return rows?.length ? this.mapNotification(rows[0]) : null
+  }
+
+  /**
+   * Most recently updated notifications, by default the dead-lettered ones,
+   * with a count for each status
+   */
+  static async listNotifications(status: NotificationStatus = 'DEAD', limit: number = 50): Promise<NotificationResult> {
+    try {
+      const [rows] = await database.execute(
+        'SELECT * FROM notifications WHERE status = ? ORDER BY updated_at DESC LIMIT ?',
+        [status, limit]
+      ) as [NotificationRow[]]
+
+      const [countRows] = await database.execute(
+        'SELECT status, COUNT(*) AS count FROM notifications GROUP BY status'
+      ) as [{ status: NotificationStatus; count: number }[]]
+
+      const counts = Object.fromEntries(NOTIFICATION_STATUSES.map(name => [name, 0])) as Record<NotificationStatus, number>
+      for (const row of countRows) {
+        counts[row.status] = Number(row.count)
+      }
+
+      return {
+        success: true,
+        message: 'Notifications retrieved successfully',
+        notifications: rows.map(row => this.mapNotification(row)),
+        counts
+      }
+
+    } catch (error) {
+      console.error('List notifications error:', error)
+      return {
+        success: false,
+        message: 'Failed to retrieve notifications'
+      }
+    }
+  }
+
+  /**
+   * Give a dead-lettered notification a fresh set of attempts and try it now
+   */
+  static async retry(notificationId: string, adminUserId: string): Promise<NotificationResult> {
+    try {
+      const notification = await this.getNotification(notificationId)
+
+      if (!notification) {
+        return {
+          success: false,
+          message: 'Notification not found'
+        }
+      }
+
+      if (notification.status !== 'DEAD') {
+        return {
+          success: false,
+          message: 'Only failed notifications can be retried'
+        }
+      }
+
+      // Sensitive bodies are cleared when a message is dead-lettered
+      if (notification.body === null || (notification.expiresAt && new Date(notification.expiresAt) <= new Date())) {
+        return {
+          success: false,
+          message: 'This notification has expired and cannot be resent'
+        }
+      }
+
+      const now = new Date().toISOString()
+      const [result] = await database.execute(
+        "UPDATE notifications SET status = 'PENDING', attempts = 0, next_attempt_at = ?, updated_at = ? WHERE id = ? AND status = 'DEAD'",
+        [now, now, notificationId]
+      ) as [WriteResult]
+
+      if (result.affectedRows === 0) {
+        return {
+          success: false,
+          message: 'Only failed notifications can be retried'
+        }
+      }
+
+      await AuditService.logEvent(adminUserId, 'ADMIN', 'NOTIFICATION_RETRIED', {
+        notificationId,
+        channel: notification.channel,
+        recipient: notification.recipient,
+        attempts: notification.attempts,
+        lastError: notification.lastError
+      })
+
+      await this.attempt(notificationId)
+
+      return {
+        success: true,
+        message: 'Notification retried',
+        notification: (await this.getNotification(notificationId))!
+      }
+
+    } catch (error) {
+      console.error('Retry notification error:', error)
+      return {
+        success: false,
+        message: 'Failed to retry notification'
+      }
+    }
+  }
+
+  /**
+   * Insert a pending notification, or find the one already queued under the
+   * same idempotency key
+   */
+  private static async enqueue(
+    channel: NotificationChannel,
+    recipient: string,
+    content: { subject: string | null; text: string; html: string | null },
+    options: NotificationOptions
+  ): Promise<string> {
+    const id = uuidv4()
+    const now = new Date().toISOString()
+
+    const [result] = await database.execute(
+      `INSERT OR IGNORE INTO notifications
+        (id, channel, recipient, subject, body, html_body, sensitive, idempotency_key, status, max_attempts, next_attempt_at, expires_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'PENDING', ?, ?, ?, ?, ?)`,
+      [
+        id,
+        channel,
+        recipient,
+        content.subject,
+        content.text,
+        content.html,
+        options.sensitive ? 1 : 0,
+        options.idempotencyKey || null,
+        this.MAX_ATTEMPTS,
+        now,
+        options.expiresAt ? options.expiresAt.toISOString() : null,
+        now,
+        now
+      ]
+    ) as [WriteResult]
+
+    if (result.affectedRows === 0) {
+      const [existing] = await database.execute(
+        'SELECT id FROM notifications WHERE idempotency_key = ?',
+        [options.idempotencyKey]
+      ) as [{ id: string }[]]
+      return existing[0].id
+    }
+
+    return id
+  }
+
+  /**
+   * Claim a pending notification and deliver it once. The claim is a guarded
+   * update, so a message is never sent by two workers at the same time.
+   * Returns the resulting status, or null when the notification was not
+   * pending.
+   */
+  private static async attempt(notificationId: string): Promise<NotificationStatus | null> {
+    const [claim] = await database.execute(
+      "UPDATE notifications SET status = 'SENDING', attempts = attempts + 1, updated_at = ? WHERE id = ? AND status = 'PENDING'",
+      [new Date().toISOString(), notificationId]
+    ) as [WriteResult]
+
+    if (claim.affectedRows === 0) {
+      return null
+    }
+
+    const [rows] = await database.execute('SELECT * FROM notifications WHERE id = ?', [notificationId]) as [NotificationRow[]]
+    const row = rows[0]
+
+    if (row.expires_at && new Date(row.expires_at) <= new Date()) {
+      return this.finish(row, 'DEAD', { lastError: 'Expired before it could be delivered' })
+    }
+
+    let result: { success: boolean; message: string; messageId?: string; provider?: string }
+    try {
+      // Bodies are only cleared once a notification is sent or dead, so a claimed one still has them
+      if (row.channel === 'EMAIL') {
+        const sent = await emailService.sendEmail({ to: row.recipient, subject: row.subject!, text: row.body!, html: row.html_body! })
+        result = { ...sent, provider: sent.transport }
+      } else {
+        result = await smsService.sendSMS(row.recipient, row.body!)
+      }
+    } catch (error) {
+      result = { success: false, message: error instanceof Error && error.message ? error.message : `${row.channel} delivery error` }
+    }
+
+    if (result.success) {
+      return this.finish(row, 'SENT', {
+        lastError: null,
+        provider: result.provider || null,
+        providerMessageId: result.messageId || null
+      })
+    }
+
+    const nextAttemptAt = new Date(Date.now() + this.retryDelayMs(row.attempts))
+    if (row.attempts >= row.max_attempts || (row.expires_at && nextAttemptAt >= new Date(row.expires_at))) {
+      console.error(`❌ Notification ${notificationId} dead-lettered after ${row.attempts} attempt(s): ${result.message}`)
+      return this.finish(row, 'DEAD', { lastError: result.message })
+    }
+
+    return this.finish(row, 'PENDING', { lastError: result.message, nextAttemptAt })
+  }
+
+  private static async finish(
+    row: NotificationRow,
+    status: NotificationStatus,
+    outcome: { lastError: string | null; provider?: string | null; providerMessageId?: string | null; nextAttemptAt?: Date }
+  ): Promise<NotificationStatus> {
+    const now = new Date().toISOString()
+    const final = status === 'SENT' || status === 'DEAD'
+
+    await database.execute(
+      `UPDATE notifications SET
+        status = ?, last_error = ?, provider = COALESCE(?, provider), provider_message_id = COALESCE(?, provider_message_id),
+        next_attempt_at = ?, sent_at = ?, body = ?, html_body = ?, updated_at = ?
+       WHERE id = ?`,
+      [
+        status,
+        outcome.lastError,
+        outcome.provider || null,
+        outcome.providerMessageId || null,
+        outcome.nextAttemptAt ? outcome.nextAttemptAt.toISOString() : row.next_attempt_at,
+        status === 'SENT' ? now : null,
+        final && row.sensitive === 1 ? null : row.body,
+        final && row.sensitive === 1 ? null : row.html_body,
+        now,
+        row.id
+      ]
+    )
+
+    return status
+  }
+
+  /**
+   * 30 seconds after the first failure, doubling each time up to an hour
+   */
+  private static retryDelayMs(attempts: number): number {
+    return Math.min(this.BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), this.MAX_RETRY_DELAY_MS)
+  }
+
+  private static mapNotification(row: NotificationRow): Notification {
+    return {
+      id: row.id,
+      channel: row.channel,
+      recipient: row.recipient,
+      subject: row.subject,
+      body: row.sensitive === 1 ? null : row.body,
+      status: row.status,
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      nextAttemptAt: row.next_attempt_at,
+      expiresAt: row.expires_at,
+      lastError: row.last_error,
+      provider: row.provider,
+      idempotencyKey: row.idempotency_key,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      sentAt: row.sent_at
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import type { EmailContent } from './email-transports'
+
+const APP_NAME = 'E-Patient Connect'
+
+/**
+ * The same notification worded for each channel, sent on whichever the user
+ * prefers
+ */
+export interface UserNotification {
+  sms: string
+  email: EmailContent
+}
+
+/**
+ * One-time code email, worded for the purpose like the SMS version
+ */
+export function otpEmail(otp: string, purpose: string, validMinutes: number): EmailContent {
+  const validity = `This code is valid for ${validMinutes} minutes.`
+
+  switch (purpose) {
+    case 'REGISTRATION':
+      return render(`Your ${APP_NAME} registration code`, [
+        `Welcome to ${APP_NAME}! Use this code to finish creating your account:`,
+        { code: otp },
+        `${validity} Do not share it with anyone.`
+      ])
+
+    case 'EMERGENCY_ACCESS':
+      return render(`${APP_NAME} emergency access code`, [
+        'A doctor has asked for emergency access to your critical medical information. Share this code with them only if you agree:',
+        { code: otp },
+        `${validity} Use it only for medical emergencies.`
+      ])
+
+    case 'DELEGATION_ACCEPT':
+      return render(`Accept your ${APP_NAME} family access invitation`, [
+        'Use this code to accept the invitation to help manage a medical record:',
+        { code: otp },
+        `${validity} Do not share it with anyone.`
+      ])
+
+    case 'LOGIN':
+      return render(`Your ${APP_NAME} sign-in code`, [
+        'Use this code to sign in:',
+        { code: otp },
+        `${validity} Do not share it with anyone. If you did not try to sign in, you can ignore this email.`
+      ])
+
+    default:
+      return render(`Your ${APP_NAME} verification code`, [
+        'Your verification code is:',
+        { code: otp },
+        `${validity} Do not share it with anyone.`
+      ])
+  }
+}
+
+/**
+ * Tells a patient that a doctor opened an emergency session on their record
+ */
+export function emergencyAccessNotification(details: {
+  doctorName: string
+  hospitalName?: string | null
+  expiresAt: Date
+  breakGlass: boolean
+}): UserNotification {
+  const where = details.hospitalName ? ` at ${details.hospitalName}` : ''
+  const until = details.expiresAt.toUTCString()
+
+  if (details.breakGlass) {
+    return {
+      sms: `${APP_NAME}: Dr. ${details.doctorName} opened emergency access to your critical medical information without your consent${where}. This access will be reviewed by the hospital.`,
+      email: render('Emergency access to your medical record without consent', [
+        `Dr. ${details.doctorName} opened emergency access to your critical medical information without your consent${where}.`,
+        `Access ends at ${until}. Every use of this break-glass procedure is reviewed by the hospital.`,
+        'You can see who accessed your record in your access logs.'
+      ])
+    }
+  }
+
+  return {
+    sms: `${APP_NAME}: Dr. ${details.doctorName} was granted emergency access to your medical information${where} until ${until}.`,
+    email: render('Emergency access to your medical record', [
+      `Dr. ${details.doctorName} was granted emergency access to your medical information${where}.`,
+      `Access ends at ${until}.`,
+      'If you did not expect this, check your access logs and contact the hospital.'
+    ])
+  }
+}
+
+/**
+ * Warns a user about a sign-in from a device they have not used before
+ */
+export function newDeviceLoginNotification(details: {
+  deviceName: string
+  ipAddress?: string | null
+  signedInAt: Date
+}): UserNotification {
+  const from = details.ipAddress ? ` from ${details.ipAddress}` : ''
+
+  return {
+    sms: `${APP_NAME}: New sign-in on ${details.deviceName}${from}. If this wasn't you, sign that device out in Settings.`,
+    email: render(`New sign-in to your ${APP_NAME} account`, [
+      `Your account was signed in on ${details.deviceName}${from} at ${details.signedInAt.toUTCString()}.`,
+      'If this was you, there is nothing to do.',
+      'If it wasn\'t, sign that device out from the devices list in Settings.'
+    ])
+  }
+}
+
+/**
+ * Build the text and HTML versions from the same paragraphs
+ */
+function render(subject: string, paragraphs: (string | { code: string })[]): EmailContent {
+  const text = paragraphs
+    .map(paragraph => typeof paragraph === 'string' ? paragraph : `    ${paragraph.code}`)
+    .join('\n\n')
+
+  const body = paragraphs
+    .map(paragraph => typeof paragraph === 'string'
+      ? `<p style="margin:0 0 16px">${escapeHtml(paragraph)}</p>`
+      : `<p style="margin:0 0 16px;font-size:28px;font-weight:bold;letter-spacing:6px">${escapeHtml(paragraph.code)}</p>`)
+    .join('\n')
+
+  const html = `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,sans-serif;color:#111827">
+<div style="max-width:520px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">
+<h1 style="margin:0 0 16px;font-size:20px;color:#2563eb">${escapeHtml(subject)}</h1>
+${body}
+<p style="margin:24px 0 0;font-size:12px;color:#6b7280">${APP_NAME}</p>
+</div>
+</body>
+</html>`
+
+  return {
+    subject,
+    text: `${text}\n\n${APP_NAME}`,
+    html
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
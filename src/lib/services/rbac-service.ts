@@ -1,5 +1,9 @@
 import { database } from '../database'
 import { SessionData, EmergencySessionData } from '../auth'
+import type { EmergencyDataCategory } from './emergency-policy-service'
+import { AuditService } from './audit-service'
+import { DelegationService, DelegationPermission } from './delegation-service'
+import { HospitalService } from './hospital-service'
 
 export type Permission = 
   | 'READ_OWN_PROFILE'
@@ -12,45 +16,164 @@ export type Permission =
   | 'VIEW_PATIENT_DATA'
   | 'UPLOAD_DOCUMENTS'
   | 'READ_HOSPITAL_ENCOUNTERS'
+  | 'REQUEST_BREAK_GLASS_ACCESS'
+  | 'REVIEW_BREAK_GLASS_ACCESS'
+  | 'READ_AUDIT_LOGS'
+  | 'MANAGE_ROLES'
+  | 'MANAGE_HOSPITALS'
+  | 'MANAGE_NOTIFICATIONS'
 
-export interface RolePermissions {
-  [role: string]: Permission[]
+/**
+ * Where a permission applies: the user's own resources, their hospital's
+ * resources, patients who granted them access, or anywhere
+ */
+export type PermissionScope = 'OWN' | 'HOSPITAL' | 'PATIENT_GRANTED' | 'ANY'
+
+export const PERMISSIONS: Permission[] = [
+  'READ_OWN_PROFILE',
+  'UPDATE_OWN_PROFILE',
+  'DELETE_OWN_PROFILE',
+  'READ_OWN_ENCOUNTERS',
+  'CREATE_ENCOUNTER',
+  'READ_OWN_AUDIT_LOGS',
+  'REQUEST_EMERGENCY_ACCESS',
+  'VIEW_PATIENT_DATA',
+  'UPLOAD_DOCUMENTS',
+  'READ_HOSPITAL_ENCOUNTERS',
+  'REQUEST_BREAK_GLASS_ACCESS',
+  'REVIEW_BREAK_GLASS_ACCESS',
+  'READ_AUDIT_LOGS',
+  'MANAGE_ROLES',
+  'MANAGE_HOSPITALS',
+  'MANAGE_NOTIFICATIONS'
+]
+
+export const PERMISSION_SCOPES: PermissionScope[] = ['OWN', 'HOSPITAL', 'PATIENT_GRANTED', 'ANY']
+
+export interface PermissionGrant {
+  permission: Permission
+  scope: PermissionScope
+  roleId: string
+  hospitalId: string | null // Hospital a HOSPITAL grant applies to
+}
+
+export interface Role {
+  id: string
+  name: string
+  description: string | null
+  isSystem: boolean
+  permissions: { permission: Permission; scope: PermissionScope }[]
+  assignedUsers: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface RoleData {
+  id?: string
+  name?: string
+  description?: string | null
+  permissions?: { permission: string; scope: string }[]
+}
+
+export interface RoleResult {
+  success: boolean
+  message: string
+  role?: Role
+  roles?: Role[]
+}
+
+/**
+ * The resource a permission is checked against. Without a resource, or with
+ * an empty one, only ANY grants apply.
+ */
+export interface ResourceContext {
+  ownerUserId?: string
+  patientUserId?: string
+  hospitalId?: string
+}
+
+// The delegation permission a delegate needs for each permission with the
+// PATIENT_GRANTED scope; permissions not listed are never delegated
+const DELEGATED_PERMISSIONS: Partial<Record<Permission, DelegationPermission>> = {
+  VIEW_PATIENT_DATA: 'VIEW_TIMELINE'
 }
 
-export const ROLE_PERMISSIONS: RolePermissions = {
-  PATIENT: [
-    'READ_OWN_PROFILE',
-    'UPDATE_OWN_PROFILE',
-    'DELETE_OWN_PROFILE',
-    'READ_OWN_ENCOUNTERS',
-    'CREATE_ENCOUNTER',
-    'READ_OWN_AUDIT_LOGS'
-  ],
-  DOCTOR: [
-    'READ_OWN_PROFILE',
-    'REQUEST_EMERGENCY_ACCESS',
-    'VIEW_PATIENT_DATA' // Only during emergency sessions
-  ],
-  OPERATOR: [
-    'READ_OWN_PROFILE',
-    'UPLOAD_DOCUMENTS',
-    'READ_HOSPITAL_ENCOUNTERS'
-  ]
+interface RoleRow {
+  id: string
+  name: string
+  description: string | null
+  is_system: number
+  assigned_users: number
+  created_at: string
+  updated_at: string
+}
+
+interface RolePermissionRow {
+  permission: Permission
+  scope: PermissionScope
 }
 
 export class RBACService {
+  private static readonly ROLE_QUERY = `
+    SELECT r.*, (SELECT COUNT(*) FROM user_roles ur WHERE ur.role_id = r.id) as assigned_users
+    FROM roles r
+  `
+
   /**
-   * Check if user has a specific permission
+   * Check if user has a specific permission, evaluating the scope of each
+   * grant against the resource
    */
-  static hasPermission(user: SessionData | EmergencySessionData, permission: Permission): boolean {
-    const rolePermissions = ROLE_PERMISSIONS[user.role] || []
-    return rolePermissions.includes(permission)
+  static async hasPermission(
+    user: SessionData | EmergencySessionData,
+    permission: Permission,
+    resource: ResourceContext = {}
+  ): Promise<boolean> {
+    const grants = (await this.getEffectivePermissions(user)).filter(grant => grant.permission === permission)
+
+    for (const grant of grants) {
+      if (await this.grantCoversResource(user, grant, resource)) {
+        return true
+      }
+    }
+
+    return false
   }
 
   /**
-   * Check if user can access specific patient data
+   * Get user's effective permissions: the grants of their account role plus
+   * any roles assigned to them
    */
-  static canAccessPatientData(user: SessionData | EmergencySessionData, patientId: string): boolean {
+  static async getEffectivePermissions(user: SessionData | EmergencySessionData): Promise<PermissionGrant[]> {
+    const [rows] = await database.execute(
+      `SELECT rp.role_id, rp.permission, rp.scope, op.hospital_id
+       FROM role_permissions rp
+       LEFT JOIN operator_profiles op ON op.user_id = ?
+       WHERE rp.role_id = ?
+       UNION ALL
+       SELECT rp.role_id, rp.permission, rp.scope, ur.hospital_id
+       FROM user_roles ur
+       JOIN role_permissions rp ON rp.role_id = ur.role_id
+       WHERE ur.user_id = ?`,
+      [user.userId, user.role, user.userId]
+    ) as [(RolePermissionRow & { role_id: string; hospital_id: string | null })[]]
+
+    return rows.map(row => ({
+      permission: row.permission,
+      scope: row.scope,
+      roleId: row.role_id,
+      hospitalId: row.hospital_id || null
+    }))
+  }
+
+  /**
+   * Check if user can access specific patient data. Emergency sessions are
+   * limited to the data categories allowed by the patient's policy.
+   */
+  static canAccessPatientData(
+    user: SessionData | EmergencySessionData,
+    patientId: string,
+    category: EmergencyDataCategory = 'CRITICAL_INFO'
+  ): boolean {
     // Patient can access their own data
     if (user.role === 'PATIENT' && user.userId === patientId) {
       return true
@@ -59,7 +182,9 @@ export class RBACService {
     // Doctor with active emergency session can access specific patient data
     if (user.role === 'DOCTOR' && 'sessionId' in user) {
       const emergencyUser = user as EmergencySessionData
-      return emergencyUser.patientUserId === patientId && new Date() < emergencyUser.expiresAt
+      return emergencyUser.patientUserId === patientId &&
+        new Date() < new Date(emergencyUser.expiresAt) &&
+        !!emergencyUser.dataCategories?.includes(category)
     }
 
     return false
@@ -119,21 +244,6 @@ export class RBACService {
     }
   }
 
-  /**
-   * Get user's effective permissions (including context-specific permissions)
-   */
-  static getEffectivePermissions(user: SessionData | EmergencySessionData): Permission[] {
-    const basePermissions = ROLE_PERMISSIONS[user.role] || []
-
-    // Add context-specific permissions
-    if (user.role === 'DOCTOR' && 'sessionId' in user) {
-      // Doctor with emergency session gets additional permissions
-      return [...basePermissions, 'VIEW_PATIENT_DATA']
-    }
-
-    return basePermissions
-  }
-
   /**
    * Validate resource access with detailed logging
    */
@@ -215,4 +325,442 @@ export class RBACService {
       console.error('Access attempt logging error:', error)
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * List all roles with their permissions
+   */
+  static async listRoles(): Promise<RoleResult> {
+    try {
+      const [rows] = await database.execute(`${this.ROLE_QUERY} ORDER BY r.is_system DESC, r.name ASC`) as [RoleRow[]]
+
+      return {
+        success: true,
+        message: 'Roles retrieved successfully',
+        roles: await Promise.all(rows.map(row => this.mapRole(row)))
+      }
+
+    } catch (error) {
+      console.error('List roles error:', error)
+      return {
+        success: false,
+        message: 'Failed to retrieve roles'
+      }
+    }
+  }
+
+  /**
+   * Get a role with its permissions
+   */
+  static async getRole(roleId: string): Promise<RoleResult> {
+    try {
+      const [rows] = await database.execute(`${this.ROLE_QUERY} WHERE r.id = ?`, [roleId]) as [RoleRow[]]
+
+      if (!rows || rows.length === 0) {
+        return {
+          success: false,
+          message: 'Role not found'
+        }
+      }
+
+      return {
+        success: true,
+        message: 'Role retrieved successfully',
+        role: await this.mapRole(rows[0])
+      }
+
+    } catch (error) {
+      console.error('Get role error:', error)
+      return {
+        success: false,
+        message: 'Failed to retrieve role'
+      }
+    }
+  }
+
+  /**
+   * Create a custom role
+   */
+  static async createRole(data: RoleData, actorUserId: string): Promise<RoleResult> {
+    try {
+      const roleId = data.id?.trim().toUpperCase() || ''
+      if (!/^[A-Z][A-Z0-9_]{1,39}$/.test(roleId)) {
+        return {
+          success: false,
+          message: 'Role ID must be 2-40 characters of letters, digits and underscores'
+        }
+      }
+
+      if (!data.name?.trim()) {
+        return {
+          success: false,
+          message: 'Role name is required'
+        }
+      }
+
+      const validationError = this.validatePermissions(data.permissions || [])
+      if (validationError) {
+        return {
+          success: false,
+          message: validationError
+        }
+      }
+
+      const created = await database.transaction(async (tx) => {
+        const [existing] = await tx.execute('SELECT id FROM roles WHERE id = ?', [roleId]) as [{ id: string }[]]
+        if (existing.length > 0) {
+          return false
+        }
+
+        await tx.execute(
+          'INSERT INTO roles (id, name, description, is_system) VALUES (?, ?, ?, 0)',
+          [roleId, data.name!.trim(), data.description?.trim() || null]
+        )
+        await this.replacePermissions(roleId, data.permissions || [])
+
+        await AuditService.logEvent(actorUserId, 'ADMIN', 'ROLE_CREATED', {
+          roleId,
+          name: data.name!.trim(),
+          permissions: data.permissions || []
+        })
+
+        return true
+      })
+
+      if (!created) {
+        return {
+          success: false,
+          message: 'A role with this ID already exists'
+        }
+      }
+
+      const result = await this.getRole(roleId)
+      return {
+        ...result,
+        message: 'Role created successfully'
+      }
+
+    } catch (error) {
+      console.error('Create role error:', error)
+      return {
+        success: false,
+        message: 'Failed to create role'
+      }
+    }
+  }
+
+  /**
+   * Update a role's name, description or permissions. Omitted fields keep
+   * their current value.
+   */
+  static async updateRole(roleId: string, data: RoleData, actorUserId: string): Promise<RoleResult> {
+    try {
+      if (data.name !== undefined && !data.name?.trim()) {
+        return {
+          success: false,
+          message: 'Role name cannot be empty'
+        }
+      }
+
+      if (data.permissions !== undefined) {
+        const validationError = this.validatePermissions(data.permissions)
+        if (validationError) {
+          return {
+            success: false,
+            message: validationError
+          }
+        }
+      }
+
+      const current = await this.getRole(roleId)
+      if (!current.success) {
+        return current
+      }
+
+      await database.transaction(async (tx) => {
+        await tx.execute(
+          'UPDATE roles SET name = ?, description = ?, updated_at = ? WHERE id = ?',
+          [
+            data.name?.trim() || current.role!.name,
+            data.description !== undefined ? data.description?.trim() || null : current.role!.description,
+            new Date().toISOString(),
+            roleId
+          ]
+        )
+
+        if (data.permissions !== undefined) {
+          await this.replacePermissions(roleId, data.permissions)
+        }
+
+        await AuditService.logEvent(actorUserId, 'ADMIN', 'ROLE_UPDATED', {
+          roleId,
+          name: data.name?.trim() || current.role!.name,
+          previousPermissions: current.role!.permissions,
+          permissions: data.permissions ?? current.role!.permissions
+        })
+      })
+
+      const result = await this.getRole(roleId)
+      return {
+        ...result,
+        message: 'Role updated successfully'
+      }
+
+    } catch (error) {
+      console.error('Update role error:', error)
+      return {
+        success: false,
+        message: 'Failed to update role'
+      }
+    }
+  }
+
+  /**
+   * Delete a custom role and its assignments. System roles cannot be deleted.
+   */
+  static async deleteRole(roleId: string, actorUserId: string): Promise<RoleResult> {
+    try {
+      const current = await this.getRole(roleId)
+      if (!current.success) {
+        return current
+      }
+
+      if (current.role!.isSystem) {
+        return {
+          success: false,
+          message: 'System roles cannot be deleted'
+        }
+      }
+
+      await database.transaction(async (tx) => {
+        await tx.execute('DELETE FROM user_roles WHERE role_id = ?', [roleId])
+        await tx.execute('DELETE FROM role_permissions WHERE role_id = ?', [roleId])
+        await tx.execute('DELETE FROM roles WHERE id = ?', [roleId])
+
+        await AuditService.logEvent(actorUserId, 'ADMIN', 'ROLE_DELETED', {
+          roleId,
+          name: current.role!.name,
+          assignedUsers: current.role!.assignedUsers
+        })
+      })
+
+      return {
+        success: true,
+        message: 'Role deleted successfully'
+      }
+
+    } catch (error) {
+      console.error('Delete role error:', error)
+      return {
+        success: false,
+        message: 'Failed to delete role'
+      }
+    }
+  }
+
+  /**
+   * Assign a role to a user. hospitalId scopes the role's HOSPITAL grants.
+   */
+  static async assignRole(
+    roleId: string,
+    userId: string,
+    hospitalId: string | null,
+    actorUserId: string
+  ): Promise<RoleResult> {
+    try {
+      const current = await this.getRole(roleId)
+      if (!current.success) {
+        return current
+      }
+
+      const [users] = await database.execute('SELECT id, role FROM users WHERE id = ?', [userId]) as [{ id: string; role: string }[]]
+      if (!users || users.length === 0) {
+        return {
+          success: false,
+          message: 'User not found'
+        }
+      }
+
+      if (users[0].role === 'PATIENT') {
+        return {
+          success: false,
+          message: 'Roles can only be assigned to staff accounts'
+        }
+      }
+
+      if (users[0].role === roleId) {
+        return {
+          success: false,
+          message: 'User already holds this role through their account'
+        }
+      }
+
+      if (hospitalId) {
+        const [hospitals] = await database.execute('SELECT id FROM hospitals WHERE id = ?', [hospitalId]) as [{ id: string }[]]
+        if (!hospitals || hospitals.length === 0) {
+          return {
+            success: false,
+            message: 'Hospital not found'
+          }
+        }
+      }
+
+      await database.transaction(async (tx) => {
+        await tx.execute(
+          `INSERT INTO user_roles (user_id, role_id, hospital_id) VALUES (?, ?, ?)
+           ON CONFLICT(user_id, role_id) DO UPDATE SET hospital_id = excluded.hospital_id`,
+          [userId, roleId, hospitalId]
+        )
+
+        await AuditService.logEvent(actorUserId, 'ADMIN', 'ROLE_ASSIGNED', {
+          roleId,
+          userId,
+          hospitalId
+        })
+      })
+
+      return {
+        success: true,
+        message: 'Role assigned successfully'
+      }
+
+    } catch (error) {
+      console.error('Assign role error:', error)
+      return {
+        success: false,
+        message: 'Failed to assign role'
+      }
+    }
+  }
+
+  /**
+   * Remove a role assignment from a user
+   */
+  static async unassignRole(roleId: string, userId: string, actorUserId: string): Promise<RoleResult> {
+    try {
+      const removed = await database.transaction(async (tx) => {
+        const [assignments] = await tx.execute(
+          'SELECT user_id FROM user_roles WHERE user_id = ? AND role_id = ?',
+          [userId, roleId]
+        ) as [{ user_id: string }[]]
+
+        if (assignments.length === 0) {
+          return false
+        }
+
+        await tx.execute('DELETE FROM user_roles WHERE user_id = ? AND role_id = ?', [userId, roleId])
+
+        await AuditService.logEvent(actorUserId, 'ADMIN', 'ROLE_UNASSIGNED', {
+          roleId,
+          userId
+        })
+
+        return true
+      })
+
+      if (!removed) {
+        return {
+          success: false,
+          message: 'Role assignment not found'
+        }
+      }
+
+      return {
+        success: true,
+        message: 'Role removed successfully'
+      }
+
+    } catch (error) {
+      console.error('Unassign role error:', error)
+      return {
+        success: false,
+        message: 'Failed to remove role'
+      }
+    }
+  }
+
+  private static async grantCoversResource(
+    user: SessionData | EmergencySessionData,
+    grant: PermissionGrant,
+    resource: ResourceContext
+  ): Promise<boolean> {
+    switch (grant.scope) {
+      case 'ANY':
+        return true
+
+      case 'OWN':
+        return (resource.ownerUserId ?? resource.patientUserId) === user.userId
+
+      case 'HOSPITAL':
+        // Suspended hospitals lose all hospital-scoped access
+        return !!resource.hospitalId && grant.hospitalId === resource.hospitalId &&
+          await HospitalService.isHospitalActive(resource.hospitalId)
+
+      case 'PATIENT_GRANTED':
+        if (!resource.patientUserId) {
+          return false
+        }
+
+        // The patient granted access through an emergency session or a delegation
+        if (this.canAccessPatientData(user, resource.patientUserId)) {
+          return true
+        }
+
+        const delegationPermission = DELEGATED_PERMISSIONS[grant.permission]
+        return !!delegationPermission &&
+          !!(await DelegationService.getActiveDelegation(user.userId, resource.patientUserId, delegationPermission))
+
+      default:
+        return false
+    }
+  }
+
+  private static validatePermissions(permissions: { permission: string; scope: string }[]): string | null {
+    if (!Array.isArray(permissions)) {
+      return 'Permissions must be a list'
+    }
+
+    for (const grant of permissions) {
+      if (!PERMISSIONS.includes(grant?.permission as Permission)) {
+        return `Unknown permission: ${grant?.permission}`
+      }
+      if (!PERMISSION_SCOPES.includes(grant.scope as PermissionScope)) {
+        return `Scope must be one of ${PERMISSION_SCOPES.join(', ')}`
+      }
+    }
+
+    if (new Set(permissions.map(grant => grant.permission)).size !== permissions.length) {
+      return 'Each permission can only be granted once per role'
+    }
+
+    return null
+  }
+
+  private static async replacePermissions(roleId: string, permissions: { permission: string; scope: string }[]): Promise<void> {
+    await database.execute('DELETE FROM role_permissions WHERE role_id = ?', [roleId])
+
+    for (const grant of permissions) {
+      await database.execute(
+        'INSERT INTO role_permissions (role_id, permission, scope) VALUES (?, ?, ?)',
+        [roleId, grant.permission, grant.scope]
+      )
+    }
+  }
+
+  private static async mapRole(row: RoleRow): Promise<Role> {
+    const [permissions] = await database.execute(
+      'SELECT permission, scope FROM role_permissions WHERE role_id = ? ORDER BY permission',
+      [row.id]
+    ) as [RolePermissionRow[]]
+
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      isSystem: row.is_system === 1,
+      permissions: permissions.map(grant => ({ permission: grant.permission, scope: grant.scope })),
+      assignedUsers: row.assigned_users,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }
+  }
+}
@@ -0,0 +1,194 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import twilio from 'twilio'
+import { v4 as uuidv4 } from 'uuid'
+import { database } from '../database'
+
+export type SmsDeliveryStatus = 'QUEUED' | 'SENT' | 'DELIVERED' | 'FAILED'
+
+export interface SmsSendResult {
+  messageId: string
+  status: SmsDeliveryStatus
+}
+
+export interface SmsStatusUpdate {
+  messageId: string
+  status: SmsDeliveryStatus
+  errorCode?: string
+}
+
+export interface SmsStatusCallback {
+  url: string // Public URL the provider posted to, for signature checks
+  headers: Headers
+  rawBody: string
+}
+
+/**
+ * A way of delivering SMS. send() throws when the provider cannot take the
+ * message, so SMSService can fail over to the next one.
+ */
+export interface SmsProvider {
+  readonly name: string
+  send(to: string, body: string, statusCallbackUrl: string | null): Promise<SmsSendResult>
+  /** Authenticate and parse a delivery receipt; null when it is not genuine */
+  parseStatusCallback?(callback: SmsStatusCallback): SmsStatusUpdate | null
+}
+
+/**
+ * Logs messages instead of sending them, for development
+ */
+export class ConsoleSmsProvider implements SmsProvider {
+  readonly name = 'console'
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    console.log(`📱 [DEV MODE] SMS to ${to}: ${body}`)
+    return { messageId: 'dev-mode-' + Date.now(), status: 'DELIVERED' }
+  }
+}
+
+/**
+ * Writes messages to the sms_outbox table, so tests can read the OTPs they
+ * were sent
+ */
+export class OutboxSmsProvider implements SmsProvider {
+  readonly name = 'outbox'
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    const id = uuidv4()
+    await database.execute(
+      'INSERT INTO sms_outbox (id, to_number, body, created_at) VALUES (?, ?, ?, ?)',
+      [id, to, body, new Date().toISOString()]
+    )
+    return { messageId: id, status: 'DELIVERED' }
+  }
+
+  /**
+   * Most recent messages first, optionally only those sent to one number
+   */
+  async list(toNumber?: string, limit: number = 20): Promise<{ id: string; to: string; body: string; createdAt: string }[]> {
+    const [rows] = await database.execute(
+      `SELECT id, to_number, body, created_at FROM sms_outbox
+       ${toNumber ? 'WHERE to_number = ?' : ''}
+       ORDER BY created_at DESC LIMIT ?`,
+      toNumber ? [toNumber, limit] : [limit]
+    ) as [{ id: string; to_number: string; body: string; created_at: string }[]]
+
+    return rows.map(row => ({
+      id: row.id,
+      to: row.to_number,
+      body: row.body,
+      createdAt: row.created_at
+    }))
+  }
+}
+
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio'
+  private client: twilio.Twilio
+
+  constructor(accountSid: string, private authToken: string, private from: string) {
+    this.client = twilio(accountSid, authToken)
+  }
+
+  async send(to: string, body: string, statusCallbackUrl: string | null): Promise<SmsSendResult> {
+    const message = await this.client.messages.create({
+      body,
+      from: this.from,
+      to,
+      ...(statusCallbackUrl ? { statusCallback: statusCallbackUrl } : {})
+    })
+
+    return { messageId: message.sid, status: 'QUEUED' }
+  }
+
+  parseStatusCallback(callback: SmsStatusCallback): SmsStatusUpdate | null {
+    const params = Object.fromEntries(new URLSearchParams(callback.rawBody))
+    const signature = callback.headers.get('x-twilio-signature') || ''
+
+    if (!twilio.validateRequest(this.authToken, signature, callback.url, params)) {
+      return null
+    }
+
+    return {
+      messageId: params.MessageSid,
+      status: toDeliveryStatus(params.MessageStatus),
+      errorCode: params.ErrorCode || undefined
+    }
+  }
+}
+
+/**
+ * A generic HTTP SMS gateway. Messages are POSTed as JSON with a bearer
+ * token; delivery receipts must carry an HMAC-SHA256 of the body, keyed with
+ * the same token, in X-SMS-Signature.
+ */
+export class HttpGatewaySmsProvider implements SmsProvider {
+  readonly name = 'http'
+
+  constructor(private url: string, private token: string, private from: string | null) {}
+
+  async send(to: string, body: string, statusCallbackUrl: string | null): Promise<SmsSendResult> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.token}`
+      },
+      body: JSON.stringify({ to, from: this.from, body, statusCallbackUrl })
+    })
+
+    if (!response.ok) {
+      throw new Error(`SMS gateway responded with ${response.status}`)
+    }
+
+    const data = await response.json()
+    const messageId = data.messageId || data.id
+
+    if (!messageId) {
+      throw new Error('SMS gateway did not return a message ID')
+    }
+
+    return { messageId: String(messageId), status: data.status ? toDeliveryStatus(data.status) : 'QUEUED' }
+  }
+
+  parseStatusCallback(callback: SmsStatusCallback): SmsStatusUpdate | null {
+    const expected = createHmac('sha256', this.token).update(callback.rawBody).digest()
+    const provided = Buffer.from(callback.headers.get('x-sms-signature') || '', 'hex')
+
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+      return null
+    }
+
+    try {
+      const data = JSON.parse(callback.rawBody)
+      if (!data.messageId || !data.status) {
+        return null
+      }
+
+      return {
+        messageId: String(data.messageId),
+        status: toDeliveryStatus(data.status),
+        errorCode: data.errorCode ? String(data.errorCode) : undefined
+      }
+    } catch {
+      return null
+    }
+  }
+}
+
+/**
+ * Map a provider's status name onto ours
+ */
+function toDeliveryStatus(status: string | undefined): SmsDeliveryStatus {
+  switch ((status || '').toLowerCase()) {
+    case 'delivered':
+      return 'DELIVERED'
+    case 'sent':
+      return 'SENT'
+    case 'failed':
+    case 'undelivered':
+    case 'rejected':
+      return 'FAILED'
+    default:
+      return 'QUEUED'
+  }
+}
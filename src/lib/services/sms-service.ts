@@ -1,140 +1,245 @@
-import twilio from 'twilio'
+import { v4 as uuidv4 } from 'uuid'
+import { database } from '../database'
+import {
+  ConsoleSmsProvider,
+  HttpGatewaySmsProvider,
+  OutboxSmsProvider,
+  SmsProvider,
+  SmsStatusCallback,
+  TwilioSmsProvider
+} from './sms-providers'
 
 export interface SMSResult {
   success: boolean
   message: string
   messageId?: string
+  provider?: string
 }
 
 class SMSService {
-  private client: twilio.Twilio | null = null
-  private isEnabled: boolean = false
+  private providers: SmsProvider[] = []
 
   constructor() {
-    this.initializeTwilio()
+    this.initializeProviders()
   }
 
-  private initializeTwilio() {
-    const accountSid = process.env.TWILIO_ACCOUNT_SID
-    const authToken = process.env.TWILIO_AUTH_TOKEN
-    const smsEnabled = process.env.SMS_ENABLED === 'true'
+  /**
+   * Build the provider chain from SMS_PROVIDERS, e.g. "twilio,http". Without
+   * it, SMS_ENABLED picks Twilio or console logging as before.
+   */
+  private initializeProviders() {
+    const names = (process.env.SMS_PROVIDERS || (process.env.SMS_ENABLED === 'true' ? 'twilio' : 'console'))
+      .split(',')
+      .map(name => name.trim().toLowerCase())
+      .filter(Boolean)
 
-    if (smsEnabled && accountSid && authToken) {
+    for (const name of names) {
       try {
-        this.client = twilio(accountSid, authToken)
-        this.isEnabled = true
-        console.log('✅ Twilio SMS service initialized')
+        const provider = this.createProvider(name)
+        if (provider) {
+          this.providers.push(provider)
+        }
       } catch (error) {
-        console.error('❌ Failed to initialize Twilio:', error)
-        this.isEnabled = false
+        console.error(`❌ Failed to initialize SMS provider "${name}":`, error)
       }
+    }
+
+    if (this.providers.length === 0) {
+      this.providers.push(new ConsoleSmsProvider())
+    }
+
+    if (this.isConfigured()) {
+      console.log(`✅ SMS service initialized with ${this.providers.map(provider => provider.name).join(' → ')}`)
     } else {
       console.log('📱 SMS service disabled - using development mode')
-      this.isEnabled = false
     }
   }
 
-  /**
-   * Send OTP via SMS
-   */
-  async sendOTP(phoneNumber: string, otp: string, purpose: string = 'LOGIN'): Promise<SMSResult> {
-    // Format phone number (ensure it starts with country code)
-    const formattedPhone = this.formatPhoneNumber(phoneNumber)
-    
-    if (!this.isEnabled || !this.client) {
-      console.log(`📱 [DEV MODE] SMS to ${formattedPhone}: Your OTP is ${otp}`)
-      return {
-        success: true,
-        message: 'OTP sent successfully (development mode)',
-        messageId: 'dev-mode-' + Date.now()
+  private createProvider(name: string): SmsProvider | null {
+    switch (name) {
+      case 'twilio': {
+        const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER } = process.env
+        if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_PHONE_NUMBER) {
+          console.error('❌ Twilio SMS provider needs TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_PHONE_NUMBER')
+          return null
+        }
+        return new TwilioSmsProvider(TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER)
       }
-    }
 
-    try {
-      const twilioPhoneNumber = process.env.TWILIO_PHONE_NUMBER
-      if (!twilioPhoneNumber) {
-        throw new Error('TWILIO_PHONE_NUMBER not configured')
+      case 'http': {
+        const { SMS_HTTP_URL, SMS_HTTP_TOKEN, SMS_HTTP_FROM } = process.env
+        if (!SMS_HTTP_URL || !SMS_HTTP_TOKEN) {
+          console.error('❌ HTTP SMS provider needs SMS_HTTP_URL and SMS_HTTP_TOKEN')
+          return null
+        }
+        return new HttpGatewaySmsProvider(SMS_HTTP_URL, SMS_HTTP_TOKEN, SMS_HTTP_FROM || null)
       }
 
-      const messageBody = this.createOTPMessage(otp, purpose)
+      case 'outbox':
+        return new OutboxSmsProvider()
 
-      const message = await this.client.messages.create({
-        body: messageBody,
-        from: twilioPhoneNumber,
-        to: formattedPhone
-      })
+      case 'console':
+        return new ConsoleSmsProvider()
 
-      console.log(`✅ SMS sent successfully to ${formattedPhone}, SID: ${message.sid}`)
+      default:
+        console.error(`❌ Unknown SMS provider "${name}"`)
+        return null
+    }
+  }
 
-      return {
-        success: true,
-        message: 'OTP sent successfully',
-        messageId: message.sid
-      }
+  /**
+   * Replace the provider chain, e.g. with an OutboxSmsProvider in tests
+   */
+  useProviders(providers: SmsProvider[]): void {
+    this.providers = providers
+  }
 
-    } catch (error: any) {
-      console.error('❌ SMS sending failed:', error)
-      
-      // Return user-friendly error messages
-      let errorMessage = 'Failed to send SMS. Please try again.'
-      
-      if (error.code === 21211) {
-        errorMessage = 'Invalid phone number format. Please check and try again.'
-      } else if (error.code === 21614) {
-        errorMessage = 'Phone number is not valid for SMS delivery.'
-      } else if (error.code === 21408) {
-        errorMessage = 'SMS service temporarily unavailable. Please try again later.'
-      }
+  /**
+   * Send OTP via SMS
+   */
+  async sendOTP(phoneNumber: string, otp: string, purpose: string = 'LOGIN'): Promise<SMSResult> {
+    const result = await this.deliver(this.formatPhoneNumber(phoneNumber), this.createOTPMessage(otp, purpose))
 
-      return {
-        success: false,
-        message: errorMessage
-      }
-    }
+    return result.success
+      ? { ...result, message: `OTP sent successfully${this.isConfigured() ? '' : ' (development mode)'}` }
+      : result
   }
 
   /**
    * Send general SMS (for other notifications)
    */
   async sendSMS(phoneNumber: string, message: string): Promise<SMSResult> {
-    const formattedPhone = this.formatPhoneNumber(phoneNumber)
-    
-    if (!this.isEnabled || !this.client) {
-      console.log(`📱 [DEV MODE] SMS to ${formattedPhone}: ${message}`)
-      return {
-        success: true,
-        message: 'SMS sent successfully (development mode)',
-        messageId: 'dev-mode-' + Date.now()
-      }
+    const result = await this.deliver(this.formatPhoneNumber(phoneNumber), message)
+
+    return result.success
+      ? { ...result, message: `SMS sent successfully${this.isConfigured() ? '' : ' (development mode)'}` }
+      : result
+  }
+
+  /**
+   * Apply a delivery receipt posted by a provider. Returns false when the
+   * provider is not configured or the receipt is not genuine.
+   */
+  async handleStatusCallback(providerName: string, callback: SmsStatusCallback): Promise<boolean> {
+    const provider = this.providers.find(candidate => candidate.name === providerName)
+    const update = provider?.parseStatusCallback?.(callback)
+
+    if (!update) {
+      return false
     }
 
-    try {
-      const twilioPhoneNumber = process.env.TWILIO_PHONE_NUMBER
-      if (!twilioPhoneNumber) {
-        throw new Error('TWILIO_PHONE_NUMBER not configured')
-      }
+    // Receipts can arrive out of order, so a final status is never replaced
+    await database.execute(
+      `UPDATE sms_deliveries SET status = ?, error_code = ?, updated_at = ?
+       WHERE provider = ? AND provider_message_id = ? AND status NOT IN ('DELIVERED', 'FAILED')`,
+      [update.status, update.errorCode || null, new Date().toISOString(), providerName, update.messageId]
+    )
 
-      const smsMessage = await this.client.messages.create({
-        body: message,
-        from: twilioPhoneNumber,
-        to: formattedPhone
-      })
+    return true
+  }
 
-      console.log(`✅ SMS sent successfully to ${formattedPhone}, SID: ${smsMessage.sid}`)
+  /**
+   * Public URL a provider posts delivery receipts to, when the app is
+   * reachable from outside
+   */
+  statusCallbackUrl(providerName: string): string | null {
+    const base = process.env.SMS_STATUS_CALLBACK_URL
+    return base ? `${base.replace(/\/$/, '')}/${providerName}` : null
+  }
 
-      return {
-        success: true,
-        message: 'SMS sent successfully',
-        messageId: smsMessage.sid
-      }
+  /**
+   * Messages written by the outbox provider, most recent first
+   */
+  async getOutbox(toNumber?: string, limit?: number) {
+    return new OutboxSmsProvider().list(toNumber ? this.formatPhoneNumber(toNumber) : undefined, limit)
+  }
+
+  /**
+   * Delivery counts per provider and status over the last 24 hours
+   */
+  async getDeliveryStats(): Promise<{ provider: string; status: string; count: number }[]> {
+    const [rows] = await database.execute(
+      `SELECT provider, status, COUNT(*) AS count FROM sms_deliveries
+       WHERE created_at > ? GROUP BY provider, status ORDER BY provider, status`,
+      [new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()]
+    ) as [{ provider: string; status: string; count: number }[]]
+
+    return rows.map(row => ({ provider: row.provider, status: row.status, count: Number(row.count) }))
+  }
+
+  /**
+   * Try each provider in order until one accepts the message. Every attempt
+   * is recorded in sms_deliveries so receipts and failures can be tracked.
+   */
+  private async deliver(to: string, body: string): Promise<SMSResult> {
+    let lastError: unknown = null
+
+    for (const provider of this.providers) {
+      try {
+        const result = await provider.send(to, body, provider.parseStatusCallback ? this.statusCallbackUrl(provider.name) : null)
+        await this.recordDelivery(provider.name, result.messageId, to, result.status, null)
+
+        console.log(`✅ SMS sent to ${to} via ${provider.name}, ID: ${result.messageId}`)
 
-    } catch (error: any) {
-      console.error('❌ SMS sending failed:', error)
-      return {
-        success: false,
-        message: 'Failed to send SMS. Please try again.'
+        return {
+          success: true,
+          message: 'SMS sent successfully',
+          messageId: result.messageId,
+          provider: provider.name
+        }
+      } catch (error) {
+        console.error(`❌ SMS sending via ${provider.name} failed:`, error)
+        lastError = error
+        await this.recordDelivery(provider.name, null, to, 'FAILED', this.errorCode(error))
       }
     }
+
+    return {
+      success: false,
+      message: this.failureMessage(lastError)
+    }
+  }
+
+  private async recordDelivery(
+    provider: string,
+    providerMessageId: string | null,
+    to: string,
+    status: string,
+    errorCode: string | null
+  ): Promise<void> {
+    try {
+      const now = new Date().toISOString()
+      await database.execute(
+        `INSERT INTO sms_deliveries (id, provider, provider_message_id, to_number, status, error_code, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [uuidv4(), provider, providerMessageId, to, status, errorCode, now, now]
+      )
+    } catch (error) {
+      console.error('SMS delivery logging error:', error)
+    }
+  }
+
+  /**
+   * User-friendly message for the last provider's error
+   */
+  private failureMessage(error: unknown): string {
+    const code = this.errorCode(error)
+    if (code === '21211') {
+      return 'Invalid phone number format. Please check and try again.'
+    } else if (code === '21614') {
+      return 'Phone number is not valid for SMS delivery.'
+    } else if (code === '21408') {
+      return 'SMS service temporarily unavailable. Please try again later.'
+    }
+    return 'Failed to send SMS. Please try again.'
+  }
+
+  /**
+   * The provider's error code, such as Twilio's numeric codes
+   */
+  private errorCode(error: unknown): string | null {
+    const code = (error as { code?: unknown } | null)?.code
+    return code ? String(code) : null
   }
 
   /**
@@ -161,7 +266,7 @@ class SMSService {
   /**
    * Create OTP message based on purpose
    */
-  private createOTPMessage(otp: string, purpose: string): string {
+  createOTPMessage(otp: string, purpose: string): string {
     const appName = 'E-Patient Connect'
     
     switch (purpose) {
@@ -174,26 +279,33 @@ class SMSService {
       case 'EMERGENCY_ACCESS':
         return `${appName} Emergency Access OTP: ${otp}. Valid for 5 minutes. Use only for medical emergencies.`
       
+      case 'DELEGATION_ACCEPT':
+        return `Your ${appName} code to accept a family access invitation is: ${otp}. Valid for 5 minutes. Do not share this code.`
+      
+      case 'ACCOUNT_UNLOCK':
+        return `You are listed as the emergency contact for a locked ${appName} account. Your code to unlock it is: ${otp}. Valid for 5 minutes. Only share it with the account owner if you trust the request.`
+      
       default:
         return `Your ${appName} verification code is: ${otp}. Valid for 5 minutes. Do not share this code.`
     }
   }
 
   /**
-   * Check if SMS service is enabled and configured
+   * Check if a provider that really sends SMS is configured
    */
   isConfigured(): boolean {
-    return this.isEnabled
+    return this.providers.some(provider => provider.name === 'twilio' || provider.name === 'http')
   }
 
   /**
    * Get service status for debugging
    */
-  getStatus(): { enabled: boolean; configured: boolean; mode: string } {
+  getStatus(): { enabled: boolean; configured: boolean; mode: string; providers: string[] } {
     return {
-      enabled: this.isEnabled,
-      configured: !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN),
-      mode: this.isEnabled ? 'production' : 'development'
+      enabled: this.isConfigured(),
+      configured: !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN) || !!process.env.SMS_HTTP_URL,
+      mode: this.isConfigured() ? 'production' : 'development',
+      providers: this.providers.map(provider => provider.name)
     }
   }
 }
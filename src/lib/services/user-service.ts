@@ -1,5 +1,7 @@
 import { database } from '../database'
+import { v4 as uuidv4 } from 'uuid'
 import { BiometricService } from '../auth'
+import { NOTIFICATION_CHANNELS, NotificationChannel } from './notification-service'
 
 export interface CreatePatientData {
   name: string
@@ -33,94 +35,89 @@ export class UserService {
    * Create a new patient user with profile
    */
   static async createPatient(patientData: CreatePatientData): Promise<UserResult> {
-    const connection = await database.getConnection()
-    
     try {
-      await connection.beginTransaction()
-
-      // Check if mobile or email already exists
-      const [existingUsers] = await connection.execute(
-        'SELECT id, mobile, email FROM users WHERE mobile = ? OR email = ?',
-        [patientData.mobile, patientData.email]
-      ) as any
+      return await database.transaction(async (tx) => {
+        // Check if mobile or email already exists
+        const [existingUsers] = await tx.execute(
+          'SELECT id, mobile, email FROM users WHERE mobile = ? OR email = ?',
+          [patientData.mobile, patientData.email]
+        ) as any
 
-      if (existingUsers && existingUsers.length > 0) {
-        const existing = existingUsers[0]
-        const conflict = existing.mobile === patientData.mobile ? 'mobile number' : 'email'
-        return {
-          success: false,
-          message: `A user with this ${conflict} already exists`
+        if (existingUsers && existingUsers.length > 0) {
+          const existing = existingUsers[0]
+          const conflict = existing.mobile === patientData.mobile ? 'mobile number' : 'email'
+          return {
+            success: false,
+            message: `A user with this ${conflict} already exists`
+          }
         }
-      }
 
-      // Check if ID proof number already exists
-      const [existingProofs] = await connection.execute(
-        'SELECT user_id FROM patient_profiles WHERE id_proof_number = ?',
-        [patientData.idProofNumber]
-      ) as any
+        // Check if ID proof number already exists
+        const [existingProofs] = await tx.execute(
+          'SELECT user_id FROM patient_profiles WHERE id_proof_number = ?',
+          [patientData.idProofNumber]
+        ) as any
 
-      if (existingProofs && existingProofs.length > 0) {
-        return {
-          success: false,
-          message: 'A user with this ID proof number already exists'
+        if (existingProofs && existingProofs.length > 0) {
+          return {
+            success: false,
+            message: 'A user with this ID proof number already exists'
+          }
         }
-      }
-
-      // Create user
-      const [userResult] = await connection.execute(
-        'INSERT INTO users (role, name, mobile, email) VALUES (?, ?, ?, ?)',
-        ['PATIENT', patientData.name, patientData.mobile, patientData.email]
-      ) as any
 
-      const userId = userResult.insertId
+        const userId = uuidv4()
 
-      // Create patient profile
-      await connection.execute(
-        'INSERT INTO patient_profiles (user_id, id_proof_type, id_proof_number, emergency_contact, family_member_id, profile_photo_path) VALUES (?, ?, ?, ?, ?, ?)',
-        [userId, patientData.idProofType, patientData.idProofNumber, patientData.emergencyContact, patientData.familyMemberId || null, patientData.profilePhotoPath || null]
-      )
+        // Create user
+        await tx.execute(
+          'INSERT INTO users (id, role, name, mobile, email) VALUES (?, ?, ?, ?, ?)',
+          [userId, 'PATIENT', patientData.name, patientData.mobile, patientData.email]
+        )
 
-      // Log registration
-      await connection.execute(
-        'INSERT INTO audit_logs (actor_user_id, actor_role, patient_user_id, action_type, details_json) VALUES (?, ?, ?, ?, ?)',
-        [userId, 'PATIENT', userId, 'PATIENT_REGISTRATION', JSON.stringify({
-          name: patientData.name,
-          mobile: patientData.mobile,
-          email: patientData.email,
-          idProofType: patientData.idProofType,
-          timestamp: new Date().toISOString()
-        })]
-      )
+        // Create patient profile
+        await tx.execute(
+          'INSERT INTO patient_profiles (user_id, id_proof_type, id_proof_number, emergency_contact, family_member_id, profile_photo_path) VALUES (?, ?, ?, ?, ?, ?)',
+          [userId, patientData.idProofType, patientData.idProofNumber, patientData.emergencyContact, patientData.familyMemberId || null, patientData.profilePhotoPath || null]
+        )
 
-      await connection.commit()
+        // Log registration
+        await tx.execute(
+          'INSERT INTO audit_logs (actor_user_id, actor_role, patient_user_id, action_type, details_json) VALUES (?, ?, ?, ?, ?)',
+          [userId, 'PATIENT', userId, 'PATIENT_REGISTRATION', JSON.stringify({
+            name: patientData.name,
+            mobile: patientData.mobile,
+            email: patientData.email,
+            idProofType: patientData.idProofType,
+            timestamp: new Date().toISOString()
+          })]
+        )
 
-      console.log(`✅ Patient registered: ${patientData.name} (${patientData.mobile})`)
+        console.log(`✅ Patient registered: ${patientData.name} (${patientData.mobile})`)
 
-      return {
-        success: true,
-        message: 'Patient registered successfully',
-        userId: userId.toString()
-      }
+        return {
+          success: true,
+          message: 'Patient registered successfully',
+          userId
+        }
+      })
 
     } catch (error) {
-      await connection.rollback()
       console.error('Patient registration error:', error)
       return {
         success: false,
         message: 'Failed to register patient. Please try again.'
       }
-    } finally {
-      connection.release()
     }
   }
 
   /**
-   * Register biometric data for a patient
+   * Register biometric data for a patient. `fingerprintData` enrolls the
+   * right index finger; `fingerprints` enrolls specific fingers.
    */
   static async registerBiometrics(
     userId: string,
     fingerprintData?: string,
-    irisData?: string
+    irisData?: string,
+    fingerprints: { finger: string; data: string }[] = []
   ): Promise<UserResult> {
     try {
       // Verify user is a patient
@@ -136,9 +133,6 @@ export class UserService {
         }
       }
 
-      let fingerprintRef = null
-      let irisRef = null
-
       // Register fingerprint if provided
       if (fingerprintData) {
         const fingerprintResult = await BiometricService.registerBiometric(userId, 'FINGERPRINT', fingerprintData)
@@ -147,6 +141,13 @@ export class UserService {
         }
       }
 
+      for (const fingerprint of fingerprints) {
+        const fingerprintResult = await BiometricService.registerBiometric(userId, 'FINGERPRINT', fingerprint.data, fingerprint.finger)
+        if (!fingerprintResult.success) {
+          return fingerprintResult
+        }
+      }
+
       // Register iris if provided
       if (irisData) {
         const irisResult = await BiometricService.registerBiometric(userId, 'IRIS', irisData)
@@ -176,7 +177,7 @@ export class UserService {
     try {
       const [users] = await database.execute(`
         SELECT 
-          u.id, u.role, u.name, u.mobile, u.email, u.hospital_id, u.created_at,
+          u.id, u.role, u.name, u.mobile, u.email, u.notification_channel, u.hospital_id, u.created_at,
           pp.id_proof_type, pp.id_proof_number, pp.emergency_contact, pp.family_member_id,
           pp.biometric_fingerprint_ref, pp.biometric_iris_ref, pp.deleted_at, pp.profile_photo_path,
           dp.hospital_name as doctor_hospital,
@@ -216,6 +217,7 @@ export class UserService {
           name: user.name,
           mobile: user.mobile,
           email: user.email,
+          notificationChannel: user.notification_channel,
           createdAt: user.created_at,
           profile: user.role === 'PATIENT' ? {
             idProofType: user.id_proof_type,
@@ -249,158 +251,208 @@ export class UserService {
    * Update patient profile
    */
   static async updatePatientProfile(userId: string, updateData: UpdatePatientData): Promise<UserResult> {
-    const connection = await database.getConnection()
-
     try {
-      await connection.beginTransaction()
-
-      // Verify user is a patient
-      const [users] = await connection.execute(
-        'SELECT id, role FROM users WHERE id = ? AND role = ?',
-        [userId, 'PATIENT']
-      ) as any
-
-      if (!users || users.length === 0) {
-        return {
-          success: false,
-          message: 'Patient not found'
-        }
-      }
-
-      // Check for conflicts if mobile or email is being updated
-      if (updateData.mobile || updateData.email) {
-        const [conflicts] = await connection.execute(
-          'SELECT id FROM users WHERE (mobile = ? OR email = ?) AND id != ?',
-          [updateData.mobile || '', updateData.email || '', userId]
+      return await database.transaction(async (tx) => {
+        // Verify user is a patient
+        const [users] = await tx.execute(
+          'SELECT id, role FROM users WHERE id = ? AND role = ?',
+          [userId, 'PATIENT']
         ) as any
 
-        if (conflicts && conflicts.length > 0) {
+        if (!users || users.length === 0) {
           return {
             success: false,
-            message: 'Mobile number or email already exists for another user'
+            message: 'Patient not found'
           }
         }
-      }
 
-      // Update user table
-      const userUpdates = []
-      const userValues = []
+        // Check for conflicts if mobile or email is being updated
+        if (updateData.mobile || updateData.email) {
+          const [conflicts] = await tx.execute(
+            'SELECT id FROM users WHERE (mobile = ? OR email = ?) AND id != ?',
+            [updateData.mobile || '', updateData.email || '', userId]
+          ) as any
+
+          if (conflicts && conflicts.length > 0) {
+            return {
+              success: false,
+              message: 'Mobile number or email already exists for another user'
+            }
+          }
+        }
 
-      if (updateData.name) {
-        userUpdates.push('name = ?')
-        userValues.push(updateData.name)
-      }
-      if (updateData.mobile) {
-        userUpdates.push('mobile = ?')
-        userValues.push(updateData.mobile)
-      }
-      if (updateData.email) {
-        userUpdates.push('email = ?')
-        userValues.push(updateData.email)
-      }
+        // Update user table
+        const userUpdates = []
+        const userValues = []
 
-      if (userUpdates.length > 0) {
-        userValues.push(userId)
-        await connection.execute(
-          `UPDATE users SET ${userUpdates.join(', ')} WHERE id = ?`,
-          userValues
-        )
-      }
+        if (updateData.name) {
+          userUpdates.push('name = ?')
+          userValues.push(updateData.name)
+        }
+        if (updateData.mobile) {
+          userUpdates.push('mobile = ?')
+          userValues.push(updateData.mobile)
+        }
+        if (updateData.email) {
+          userUpdates.push('email = ?')
+          userValues.push(updateData.email)
+        }
 
-      // Update patient profile
-      const profileUpdates = []
-      const profileValues = []
+        if (userUpdates.length > 0) {
+          userValues.push(userId)
+          await tx.execute(
+            `UPDATE users SET ${userUpdates.join(', ')} WHERE id = ?`,
+            userValues
+          )
+        }
 
-      if (updateData.emergencyContact) {
-        profileUpdates.push('emergency_contact = ?')
-        profileValues.push(updateData.emergencyContact)
-      }
-      if (updateData.familyMemberId !== undefined) {
-        profileUpdates.push('family_member_id = ?')
-        profileValues.push(updateData.familyMemberId)
-      }
-      if (updateData.profilePhotoPath) {
-        profileUpdates.push('profile_photo_path = ?')
-        profileValues.push(updateData.profilePhotoPath)
-      }
+        // Update patient profile
+        const profileUpdates = []
+        const profileValues = []
 
-      if (profileUpdates.length > 0) {
-        profileValues.push(userId)
-        await connection.execute(
-          `UPDATE patient_profiles SET ${profileUpdates.join(', ')} WHERE user_id = ?`,
-          profileValues
-        )
-      }
+        if (updateData.emergencyContact) {
+          profileUpdates.push('emergency_contact = ?')
+          profileValues.push(updateData.emergencyContact)
+        }
+        if (updateData.familyMemberId !== undefined) {
+          profileUpdates.push('family_member_id = ?')
+          profileValues.push(updateData.familyMemberId)
+        }
+        if (updateData.profilePhotoPath) {
+          profileUpdates.push('profile_photo_path = ?')
+          profileValues.push(updateData.profilePhotoPath)
+        }
 
-      // Log profile update
-      await connection.execute(
-        'INSERT INTO audit_logs (actor_user_id, actor_role, patient_user_id, action_type, details_json) VALUES (?, ?, ?, ?, ?)',
-        [userId, 'PATIENT', userId, 'PROFILE_UPDATE', JSON.stringify({
-          updatedFields: Object.keys(updateData),
-          timestamp: new Date().toISOString()
-        })]
-      )
+        if (profileUpdates.length > 0) {
+          profileValues.push(userId)
+          await tx.execute(
+            `UPDATE patient_profiles SET ${profileUpdates.join(', ')} WHERE user_id = ?`,
+            profileValues
+          )
+        }
 
-      await connection.commit()
+        // Log profile update
+        await tx.execute(
+          'INSERT INTO audit_logs (actor_user_id, actor_role, patient_user_id, action_type, details_json) VALUES (?, ?, ?, ?, ?)',
+          [userId, 'PATIENT', userId, 'PROFILE_UPDATE', JSON.stringify({
+            updatedFields: Object.keys(updateData),
+            timestamp: new Date().toISOString()
+          })]
+        )
 
-      return {
-        success: true,
-        message: 'Profile updated successfully'
-      }
+        return {
+          success: true,
+          message: 'Profile updated successfully'
+        }
+      })
 
     } catch (error) {
-      await connection.rollback()
       console.error('Update patient profile error:', error)
       return {
         success: false,
         message: 'Failed to update profile'
       }
-    } finally {
-      connection.release()
     }
   }
 
   /**
-   * Soft delete patient account
+   * Choose whether OTPs and security alerts arrive by SMS or email
    */
-  static async softDeletePatient(userId: string): Promise<UserResult> {
+  static async setNotificationChannel(userId: string, channel: NotificationChannel): Promise<UserResult> {
     try {
-      // Verify user is a patient
-      const [users] = await database.execute(
-        'SELECT id, role, name FROM users WHERE id = ? AND role = ?',
-        [userId, 'PATIENT']
-      ) as any
-
-      if (!users || users.length === 0) {
+      if (!NOTIFICATION_CHANNELS.includes(channel)) {
         return {
           success: false,
-          message: 'Patient not found'
+          message: `Notification channel must be one of ${NOTIFICATION_CHANNELS.join(', ')}`
         }
       }
 
-      const user = users[0]
+      return await database.transaction(async (tx) => {
+        const [users] = await tx.execute('SELECT role, email FROM users WHERE id = ?', [userId]) as [{ role: string; email: string | null }[]]
+
+        if (!users || users.length === 0) {
+          return {
+            success: false,
+            message: 'User not found'
+          }
+        }
+
+        if (channel === 'EMAIL' && !users[0].email) {
+          return {
+            success: false,
+            message: 'Add an email address before choosing email notifications'
+          }
+        }
 
-      // Soft delete by setting deleted_at timestamp
-      await database.execute(
-        'UPDATE patient_profiles SET deleted_at = NOW() WHERE user_id = ?',
-        [userId]
-      )
+        await tx.execute('UPDATE users SET notification_channel = ? WHERE id = ?', [channel, userId])
 
-      // Log soft deletion
-      await database.execute(
-        'INSERT INTO audit_logs (actor_user_id, actor_role, patient_user_id, action_type, details_json) VALUES (?, ?, ?, ?, ?)',
-        [userId, 'PATIENT', userId, 'ACCOUNT_SOFT_DELETE', JSON.stringify({
-          patientName: user.name,
-          timestamp: new Date().toISOString()
-        })]
-      )
+        await tx.execute(
+          'INSERT INTO audit_logs (actor_user_id, actor_role, patient_user_id, action_type, details_json) VALUES (?, ?, ?, ?, ?)',
+          [userId, users[0].role, users[0].role === 'PATIENT' ? userId : null, 'PROFILE_UPDATE', JSON.stringify({
+            updatedFields: ['notificationChannel'],
+            notificationChannel: channel,
+            timestamp: new Date().toISOString()
+          })]
+        )
 
-      console.log(`🗑️ Patient account soft deleted: ${user.name} (${userId})`)
+        return {
+          success: true,
+          message: `Notifications will be sent by ${channel === 'EMAIL' ? 'email' : 'SMS'}`
+        }
+      })
 
+    } catch (error) {
+      console.error('Set notification channel error:', error)
       return {
-        success: true,
-        message: 'Account deactivated successfully'
+        success: false,
+        message: 'Failed to update notification channel'
       }
+    }
+  }
+
+  /**
+   * Soft delete patient account
+   */
+  static async softDeletePatient(userId: string): Promise<UserResult> {
+    try {
+      return await database.transaction(async (tx) => {
+        // Verify user is a patient
+        const [users] = await tx.execute(
+          'SELECT id, role, name FROM users WHERE id = ? AND role = ?',
+          [userId, 'PATIENT']
+        ) as any
+
+        if (!users || users.length === 0) {
+          return {
+            success: false,
+            message: 'Patient not found'
+          }
+        }
+
+        const user = users[0]
+
+        // Soft delete by setting deleted_at timestamp
+        await tx.execute(
+          'UPDATE patient_profiles SET deleted_at = CURRENT_TIMESTAMP WHERE user_id = ?',
+          [userId]
+        )
+
+        // Log soft deletion
+        await tx.execute(
+          'INSERT INTO audit_logs (actor_user_id, actor_role, patient_user_id, action_type, details_json) VALUES (?, ?, ?, ?, ?)',
+          [userId, 'PATIENT', userId, 'ACCOUNT_SOFT_DELETE', JSON.stringify({
+            patientName: user.name,
+            timestamp: new Date().toISOString()
+          })]
+        )
+
+        console.log(`🗑️ Patient account soft deleted: ${user.name} (${userId})`)
+
+        return {
+          success: true,
+          message: 'Account deactivated successfully'
+        }
+      })
 
     } catch (error) {
       console.error('Soft delete patient error:', error)
@@ -60,21 +60,52 @@ export function formatAuditLogForDisplay(log: any): AuditLogDisplay {
 export function getActionSeverity(actionType: string): 'low' | 'medium' | 'high' {
   const highSeverityActions = [
     'LOGIN_FAILED',
+    'REFRESH_TOKEN_REUSED',
+    'SUSPICIOUS_ACTIVITY',
+    'TOTP_DISABLED',
+    'TOTP_VERIFICATION_FAILED',
+    'PASSKEY_REMOVED',
     'EMERGENCY_ACCESS_ATTEMPT',
     'EMERGENCY_SESSION_CREATED',
     'ACCOUNT_SOFT_DELETE',
     'PERMISSION_DENIED',
-    'DOCUMENT_DELETED'
+    'DOCUMENT_DELETED',
+    'BREAK_GLASS_ACCESS_GRANTED',
+    'BREAK_GLASS_REVIEW_FLAGGED',
+    'DELEGATE_EMERGENCY_APPROVED',
+    'ROLE_UPDATED',
+    'ROLE_DELETED',
+    'ROLE_ASSIGNED',
+    'HOSPITAL_SUSPENDED'
   ]
 
   const mediumSeverityActions = [
     'LOGIN_SUCCESS',
+    'SESSION_REVOKED',
+    'ACCOUNT_UNLOCKED',
+    'TOTP_ENABLED',
+    'TOTP_RECOVERY_CODE_USED',
+    'PASSKEY_REGISTERED',
     'PROFILE_UPDATE',
     'ENCOUNTER_CREATED',
     'ENCOUNTER_UPDATED',
     'DOCUMENT_UPLOADED',
     'PATIENT_DATA_ACCESSED',
-    'EMERGENCY_SESSION_REVOKED'
+    'EMERGENCY_SESSION_REVOKED',
+    'BREAK_GLASS_REVIEW_APPROVED',
+    'EMERGENCY_POLICY_UPDATED',
+    'DELEGATION_INVITED',
+    'DELEGATION_ACCEPTED',
+    'DELEGATION_UPDATED',
+    'DELEGATION_REVOKED',
+    'ROLE_CREATED',
+    'ROLE_UNASSIGNED',
+    'HOSPITAL_CREATED',
+    'HOSPITAL_REACTIVATED',
+    'HOSPITAL_STAFF_INVITED',
+    'HOSPITAL_STAFF_JOINED',
+    'HOSPITAL_POLICY_UPDATED',
+    'NOTIFICATION_RETRIED'
   ]
 
   if (highSeverityActions.includes(actionType)) {
@@ -95,6 +126,17 @@ export function getActionCategory(actionType: string): 'auth' | 'profile' | 'med
     'LOGIN_SUCCESS',
     'LOGIN_FAILED',
     'LOGOUT',
+    'SESSION_CREATED',
+    'SESSION_REVOKED',
+    'REFRESH_TOKEN_REUSED',
+    'SUSPICIOUS_ACTIVITY',
+    'ACCOUNT_UNLOCKED',
+    'TOTP_ENABLED',
+    'TOTP_DISABLED',
+    'TOTP_VERIFICATION_FAILED',
+    'TOTP_RECOVERY_CODE_USED',
+    'PASSKEY_REGISTERED',
+    'PASSKEY_REMOVED',
     'OTP_GENERATED',
     'OTP_VERIFICATION_SUCCESS',
     'OTP_VERIFICATION_FAILED',
@@ -106,7 +148,11 @@ export function getActionCategory(actionType: string): 'auth' | 'profile' | 'med
   const profileActions = [
     'PROFILE_UPDATE',
     'PROFILE_VIEW',
-    'ACCOUNT_SOFT_DELETE'
+    'ACCOUNT_SOFT_DELETE',
+    'DELEGATION_INVITED',
+    'DELEGATION_ACCEPTED',
+    'DELEGATION_UPDATED',
+    'DELEGATION_REVOKED'
   ]
 
   const medicalActions = [
@@ -123,7 +169,12 @@ export function getActionCategory(actionType: string): 'auth' | 'profile' | 'med
     'EMERGENCY_ACCESS_ATTEMPT',
     'EMERGENCY_SESSION_CREATED',
     'EMERGENCY_SESSION_REVOKED',
-    'PATIENT_DATA_ACCESSED'
+    'PATIENT_DATA_ACCESSED',
+    'BREAK_GLASS_ACCESS_GRANTED',
+    'BREAK_GLASS_REVIEW_APPROVED',
+    'BREAK_GLASS_REVIEW_FLAGGED',
+    'EMERGENCY_POLICY_UPDATED',
+    'DELEGATE_EMERGENCY_APPROVED'
   ]
 
   if (authActions.includes(actionType)) {
@@ -148,6 +199,43 @@ export function formatAuditDetails(actionType: string, details: any): string {
     case 'LOGIN_FAILED':
       return `Login attempt from ${details.method || 'unknown method'}`
 
+    case 'SESSION_CREATED':
+      return `Signed in${details.deviceName ? ` on ${details.deviceName}` : ''}`
+
+    case 'LOGOUT':
+    case 'SESSION_REVOKED':
+      return `Signed out${details.deviceName ? ` of ${details.deviceName}` : ''}`
+
+    case 'REFRESH_TOKEN_REUSED':
+      return `Reused refresh token detected; signed out${details.deviceName ? ` of ${details.deviceName}` : ''}`
+
+    case 'SUSPICIOUS_ACTIVITY':
+      if (details.reason === 'PASSKEY_SIGN_COUNT_REGRESSION') {
+        return 'Passkey rejected: its signature counter went backwards, which suggests a cloned authenticator'
+      }
+      return `Account locked after ${details.failedAttempts || 'repeated'} failed verification codes`
+
+    case 'ACCOUNT_UNLOCKED':
+      return `Account unlocked${details.method === 'EMERGENCY_CONTACT' ? ' by emergency contact' : ''}`
+
+    case 'TOTP_ENABLED':
+      return 'Authenticator app set up'
+
+    case 'TOTP_DISABLED':
+      return 'Authenticator app removed'
+
+    case 'TOTP_VERIFICATION_FAILED':
+      return 'Incorrect authenticator code entered'
+
+    case 'TOTP_RECOVERY_CODE_USED':
+      return `Recovery code used (${details.recoveryCodesRemaining ?? 0} remaining)`
+
+    case 'PASSKEY_REGISTERED':
+      return `Passkey registered${details.deviceName ? ` on ${details.deviceName}` : ''}`
+
+    case 'PASSKEY_REMOVED':
+      return 'Passkey removed'
+
     case 'OTP_GENERATED':
       return `OTP generated for ${details.purpose || 'login'}`
 
@@ -183,8 +271,73 @@ export function formatAuditDetails(actionType: string, details: any): string {
     case 'EMERGENCY_SESSION_REVOKED':
       return `Emergency session revoked`
 
+    case 'EMERGENCY_POLICY_UPDATED':
+      return `Emergency access policy updated: ${(details.allowedMethods || []).join(', ') || 'no methods'} allowed for up to ${details.maxSessionMinutes || '?'} minutes`
+
+    case 'BREAK_GLASS_ACCESS_GRANTED':
+      return `Break-glass access opened: ${details.justification || 'No justification provided'}`
+
+    case 'BREAK_GLASS_REVIEW_APPROVED':
+      return `Break-glass access by ${details.doctorName || 'doctor'} approved on review`
+
+    case 'BREAK_GLASS_REVIEW_FLAGGED':
+      return `Break-glass access by ${details.doctorName || 'doctor'} flagged: ${details.notes || 'No notes provided'}`
+
+    case 'DELEGATION_INVITED':
+      return `Invited ${details.delegateMobile || 'family member'} as a delegate: ${(details.permissions || []).join(', ')}`
+
+    case 'DELEGATION_ACCEPTED':
+      return `Delegation accepted with ${(details.permissions || []).join(', ') || 'no permissions'}`
+
+    case 'DELEGATION_UPDATED':
+      return `Delegation for ${details.delegateMobile || 'family member'} updated: ${(details.permissions || []).join(', ')}`
+
+    case 'DELEGATION_REVOKED':
+      return `Delegation for ${details.delegateMobile || 'family member'} revoked by ${details.revokedBy || 'unknown'}`
+
+    case 'DELEGATE_EMERGENCY_APPROVED':
+      return `Emergency access for ${details.doctorName || 'doctor'} approved by delegate on behalf of ${details.principalName || 'patient'}`
+
+    case 'ROLE_CREATED':
+      return `Created role ${details.roleId || 'unknown'} with ${(details.permissions || []).length} permission(s)`
+
+    case 'ROLE_UPDATED':
+      return `Updated role ${details.roleId || 'unknown'}`
+
+    case 'ROLE_DELETED':
+      return `Deleted role ${details.roleId || 'unknown'}`
+
+    case 'ROLE_ASSIGNED':
+      return `Assigned role ${details.roleId || 'unknown'} to user ${details.userId || 'unknown'}`
+
+    case 'ROLE_UNASSIGNED':
+      return `Removed role ${details.roleId || 'unknown'} from user ${details.userId || 'unknown'}`
+
+    case 'HOSPITAL_CREATED':
+      return `Hospital "${details.name || 'unknown'}" onboarded`
+
+    case 'HOSPITAL_SUSPENDED':
+      return `Hospital "${details.name || 'unknown'}" suspended: ${details.reason || 'No reason provided'}`
+
+    case 'HOSPITAL_REACTIVATED':
+      return `Hospital "${details.name || 'unknown'}" reactivated`
+
+    case 'HOSPITAL_POLICY_UPDATED':
+      return `Authenticator app ${details.requireTotp ? 'required' : 'no longer required'} at "${details.name || 'unknown'}"`
+
+    case 'HOSPITAL_STAFF_INVITED':
+      return `Invited ${details.name || 'staff member'} to join as ${(details.role || 'staff').toLowerCase()}`
+
+    case 'HOSPITAL_STAFF_JOINED':
+      return `Joined ${details.hospitalName || 'hospital'} as ${(details.role || 'staff').toLowerCase()}`
+
+    case 'NOTIFICATION_RETRIED':
+      return `Retried ${details.channel || 'notification'} to ${details.recipient || 'unknown'} after ${details.attempts ?? 0} failed attempt(s)`
+
     case 'BIOMETRIC_FINGERPRINT_LOGIN':
-      return `Logged in using fingerprint authentication`
+      return details.method === 'WEBAUTHN'
+        ? 'Logged in using a passkey'
+        : `Logged in using fingerprint authentication`
 
     case 'BIOMETRIC_IRIS_LOGIN':
       return `Logged in using iris authentication`
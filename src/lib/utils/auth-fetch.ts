@@ -0,0 +1,55 @@
+/**
+ * Client-side helpers for calling authenticated API routes
+ */
+
+let refreshInFlight: Promise<string | null> | null = null
+
+/**
+ * Exchange the refresh token cookie for a new access token. Concurrent
+ * callers share one request, since each refresh token can only be used once.
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  if (!refreshInFlight) {
+    refreshInFlight = fetch('/api/auth/refresh', { method: 'POST' })
+      .then(async (response) => {
+        if (!response.ok) {
+          return null
+        }
+
+        const data = await response.json()
+        localStorage.setItem('authToken', data.token)
+        return data.token as string
+      })
+      .catch((error) => {
+        console.error('Token refresh error:', error)
+        return null
+      })
+      .finally(() => {
+        refreshInFlight = null
+      })
+  }
+
+  return refreshInFlight
+}
+
+/**
+ * fetch() with the stored access token. When the access token has expired
+ * the session is refreshed once and the request retried.
+ */
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const send = (token: string | null) => {
+    const headers = new Headers(init.headers)
+    if (token) {
+      headers.set('Authorization', `Bearer ${token}`)
+    }
+    return fetch(input, { ...init, headers })
+  }
+
+  const response = await send(localStorage.getItem('authToken'))
+  if (response.status !== 401) {
+    return response
+  }
+
+  const token = await refreshAccessToken()
+  return token ? send(token) : response
+}
@@ -24,6 +24,23 @@ export const BLOOD_GROUPS = [
 
 export type BloodGroup = typeof BLOOD_GROUPS[number]
 
+export const SEVERITY_LEVELS = ['MILD', 'MODERATE', 'SEVERE', 'UNKNOWN'] as const
+
+export type SeverityLevel = typeof SEVERITY_LEVELS[number]
+
+export const MEDICAL_LIST_STATUSES = ['ACTIVE', 'RESOLVED'] as const
+
+export type MedicalListStatus = typeof MEDICAL_LIST_STATUSES[number]
+
+// Placeholder values entered into snapshot fields when nothing applies
+const EMPTY_SNAPSHOT_VALUES = [
+  'none',
+  'none recorded',
+  'no medical history available',
+  'unknown',
+  'n/a'
+]
+
 /**
  * Validate encounter type
  */
@@ -38,6 +55,34 @@ export function isValidBloodGroup(bloodGroup: string): bloodGroup is BloodGroup
   return BLOOD_GROUPS.includes(bloodGroup as BloodGroup)
 }
 
+/**
+ * Validate severity level
+ */
+export function isValidSeverity(severity: string): severity is SeverityLevel {
+  return SEVERITY_LEVELS.includes(severity as SeverityLevel)
+}
+
+/**
+ * Validate medical list status
+ */
+export function isValidMedicalListStatus(status: string): status is MedicalListStatus {
+  return MEDICAL_LIST_STATUSES.includes(status as MedicalListStatus)
+}
+
+/**
+ * Split a comma-separated snapshot field into its entries
+ */
+export function parseSnapshotList(value?: string | null): string[] {
+  if (!value) {
+    return []
+  }
+
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item && !EMPTY_SNAPSHOT_VALUES.includes(item.toLowerCase()))
+}
+
 /**
  * Format encounter date for display
  */
@@ -178,40 +223,15 @@ export function extractCriticalInfo(encounters: any[]): {
   const sortedEncounters = sortEncountersChronologically(encounters, false)
   
   for (const encounter of sortedEncounters) {
-    // Extract allergies
-    if (encounter.allergiesSnapshot) {
-      const allergies = encounter.allergiesSnapshot.split(',').map((a: string) => a.trim())
-      allergies.forEach((allergy: string) => {
-        if (allergy && allergy !== 'None' && allergy !== 'None recorded') {
-          allergiesSet.add(allergy)
-        }
-      })
-    }
-    
-    // Extract chronic conditions
-    if (encounter.chronicSnapshot) {
-      const conditions = encounter.chronicSnapshot.split(',').map((c: string) => c.trim())
-      conditions.forEach((condition: string) => {
-        if (condition && condition !== 'None' && condition !== 'None recorded') {
-          chronicSet.add(condition)
-        }
-      })
-    }
+    parseSnapshotList(encounter.allergiesSnapshot).forEach(allergy => allergiesSet.add(allergy))
+    parseSnapshotList(encounter.chronicSnapshot).forEach(condition => chronicSet.add(condition))
     
     // Get most recent blood group
     if (!bloodGroup && encounter.bloodGroup && encounter.bloodGroup !== 'Unknown') {
       bloodGroup = encounter.bloodGroup
     }
     
-    // Extract recent surgeries
-    if (encounter.recentSurgery) {
-      const surgeries = encounter.recentSurgery.split(',').map((s: string) => s.trim())
-      surgeries.forEach((surgery: string) => {
-        if (surgery && surgery !== 'None' && surgery !== 'None recorded') {
-          surgeriesSet.add(surgery)
-        }
-      })
-    }
+    parseSnapshotList(encounter.recentSurgery).forEach(surgery => surgeriesSet.add(surgery))
   }
   
   return {
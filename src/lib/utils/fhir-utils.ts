@@ -0,0 +1,439 @@
+/**
+ * FHIR R4 resource types and mapping helpers
+ */
+
+import { isValidEncounterType } from './encounter-utils'
+import type { MedicalListEntry } from '../services/medical-history-service'
+
+export const FHIR_CONTENT_TYPE = 'application/fhir+json'
+
+export const FHIR_EXTENSION_BASE = 'https://e-patient-connect.app/fhir/StructureDefinition'
+
+export const PRESCRIPTIONS_NOTES_EXTENSION = `${FHIR_EXTENSION_BASE}/prescriptions-notes`
+export const BLOOD_GROUP_EXTENSION = `${FHIR_EXTENSION_BASE}/blood-group`
+
+export interface FHIRExtension {
+  url: string
+  valueString?: string
+}
+
+export interface FHIRResource {
+  resourceType: string
+  id?: string
+  meta?: { lastUpdated?: string; source?: string }
+  extension?: FHIRExtension[]
+  [key: string]: unknown
+}
+
+export interface FHIRBundleEntry {
+  fullUrl?: string
+  resource: FHIRResource
+}
+
+export interface FHIRBundle {
+  resourceType: 'Bundle'
+  id?: string
+  meta?: { lastUpdated?: string }
+  type: 'collection' | 'document' | 'transaction' | 'batch' | 'searchset'
+  timestamp?: string
+  entry: FHIRBundleEntry[]
+}
+
+export interface FHIRCodeableConcept {
+  text?: string
+  coding?: { system?: string; code?: string; display?: string }[]
+}
+
+// The fields of a patient profile, timeline entry and document the builders read
+export interface FHIRPatientSource {
+  id: string
+  name: string
+  mobile?: string | null
+  email?: string | null
+  profile?: {
+    idProofType?: string | null
+    idProofNumber?: string | null
+    emergencyContact?: string | null
+  } | null
+}
+
+export interface FHIREncounterSource {
+  id: string
+  type: string
+  occurredAt?: Date | string | null
+  reasonDiagnosis?: string | null
+  prescriptionsNotes?: string | null
+  bloodGroup?: string | null
+  hospitalName?: string | null
+}
+
+export interface FHIRDocumentSource {
+  id: string
+  filename: string
+  mimetype: string
+  uploadedAt?: Date | string | null
+  encounterId?: string | null
+  hospitalName?: string | null
+}
+
+/**
+ * Convert a database timestamp to an ISO string
+ */
+export function toFHIRDateTime(value?: Date | string | null): string | undefined {
+  if (!value) {
+    return undefined
+  }
+
+  const date = typeof value === 'string' ? new Date(value.includes('T') ? value : value.replace(' ', 'T') + 'Z') : value
+  return isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+/**
+ * Map an encounter type to the FHIR v3 ActCode encounter class
+ */
+export function getEncounterClass(type: string): { system: string; code: string; display: string } {
+  const system = 'http://terminology.hl7.org/CodeSystem/v3-ActCode'
+
+  switch (type) {
+    case 'Emergency':
+      return { system, code: 'EMER', display: 'emergency' }
+    case 'Admission':
+    case 'Surgery':
+    case 'Discharge':
+      return { system, code: 'IMP', display: 'inpatient encounter' }
+    default:
+      return { system, code: 'AMB', display: 'ambulatory' }
+  }
+}
+
+/**
+ * Build the Patient resource from a user profile
+ */
+export function buildPatientResource(user: FHIRPatientSource): FHIRResource {
+  const telecom = []
+  if (user.mobile) {
+    telecom.push({ system: 'phone', value: user.mobile, use: 'mobile' })
+  }
+  if (user.email) {
+    telecom.push({ system: 'email', value: user.email })
+  }
+
+  const resource: FHIRResource = {
+    resourceType: 'Patient',
+    id: user.id,
+    active: true,
+    name: [{ text: user.name }],
+    telecom
+  }
+
+  if (user.profile?.idProofNumber) {
+    resource.identifier = [{
+      type: { text: user.profile.idProofType },
+      value: user.profile.idProofNumber
+    }]
+  }
+
+  if (user.profile?.emergencyContact) {
+    resource.contact = [{
+      relationship: [{ text: 'Emergency contact' }],
+      telecom: [{ system: 'phone', value: user.profile.emergencyContact }]
+    }]
+  }
+
+  return resource
+}
+
+/**
+ * Build an Encounter resource from a timeline entry
+ */
+export function buildEncounterResource(encounter: FHIREncounterSource, patientUserId: string): FHIRResource {
+  const resource: FHIRResource = {
+    resourceType: 'Encounter',
+    id: encounter.id,
+    status: 'finished',
+    class: getEncounterClass(encounter.type),
+    type: [{ text: encounter.type }],
+    subject: { reference: `Patient/${patientUserId}` },
+    period: { start: toFHIRDateTime(encounter.occurredAt) },
+    reasonCode: [{ text: encounter.reasonDiagnosis }]
+  }
+
+  if (encounter.hospitalName) {
+    resource.serviceProvider = { display: encounter.hospitalName }
+  }
+
+  const extension: FHIRExtension[] = []
+  if (encounter.prescriptionsNotes) {
+    extension.push({ url: PRESCRIPTIONS_NOTES_EXTENSION, valueString: encounter.prescriptionsNotes })
+  }
+  if (encounter.bloodGroup && encounter.bloodGroup !== 'Unknown') {
+    extension.push({ url: BLOOD_GROUP_EXTENSION, valueString: encounter.bloodGroup })
+  }
+  if (extension.length > 0) {
+    resource.extension = extension
+  }
+
+  return resource
+}
+
+// Allergy severity mapped to AllergyIntolerance.criticality
+const ALLERGY_CRITICALITY: Record<string, string> = {
+  MILD: 'low',
+  MODERATE: 'low',
+  SEVERE: 'high',
+  UNKNOWN: 'unable-to-assess'
+}
+
+// Condition severity mapped to SNOMED CT severity codes
+const CONDITION_SEVERITY: Record<string, { code: string, display: string }> = {
+  MILD: { code: '255604002', display: 'Mild' },
+  MODERATE: { code: '6736007', display: 'Moderate' },
+  SEVERE: { code: '24484000', display: 'Severe' }
+}
+
+/**
+ * Build an AllergyIntolerance resource from a structured allergy entry
+ */
+export function buildAllergyResource(allergy: MedicalListEntry, patientUserId: string): FHIRResource {
+  const resource: FHIRResource = {
+    resourceType: 'AllergyIntolerance',
+    id: allergy.id,
+    clinicalStatus: {
+      coding: [{
+        system: 'http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical',
+        code: allergy.status === 'RESOLVED' ? 'resolved' : 'active'
+      }]
+    },
+    criticality: ALLERGY_CRITICALITY[allergy.severity] || 'unable-to-assess',
+    code: { text: allergy.name },
+    patient: { reference: `Patient/${patientUserId}` }
+  }
+
+  if (allergy.onsetDate) {
+    resource.onsetDateTime = allergy.onsetDate
+  }
+
+  if (allergy.sourceEncounterId) {
+    resource.encounter = { reference: `Encounter/${allergy.sourceEncounterId}` }
+  }
+
+  return resource
+}
+
+/**
+ * Build a Condition resource from a structured condition entry
+ */
+export function buildConditionResource(condition: MedicalListEntry, patientUserId: string): FHIRResource {
+  const resource: FHIRResource = {
+    resourceType: 'Condition',
+    id: condition.id,
+    clinicalStatus: {
+      coding: [{
+        system: 'http://terminology.hl7.org/CodeSystem/condition-clinical',
+        code: condition.status === 'RESOLVED' ? 'resolved' : 'active'
+      }]
+    },
+    category: [{
+      coding: [{
+        system: 'http://terminology.hl7.org/CodeSystem/condition-category',
+        code: 'problem-list-item',
+        display: 'Problem List Item'
+      }]
+    }],
+    code: { text: condition.name },
+    subject: { reference: `Patient/${patientUserId}` }
+  }
+
+  const severity = CONDITION_SEVERITY[condition.severity]
+  if (severity) {
+    resource.severity = {
+      coding: [{ system: 'http://snomed.info/sct', ...severity }]
+    }
+  }
+
+  if (condition.onsetDate) {
+    resource.onsetDateTime = condition.onsetDate
+  }
+
+  if (condition.sourceEncounterId) {
+    resource.encounter = { reference: `Encounter/${condition.sourceEncounterId}` }
+  }
+
+  return resource
+}
+
+/**
+ * Build a MedicationStatement resource from a structured medication entry
+ */
+export function buildMedicationStatementResource(medication: MedicalListEntry, patientUserId: string): FHIRResource {
+  const resource: FHIRResource = {
+    resourceType: 'MedicationStatement',
+    id: medication.id,
+    status: medication.status === 'RESOLVED' ? 'stopped' : 'active',
+    medicationCodeableConcept: { text: medication.name },
+    subject: { reference: `Patient/${patientUserId}` }
+  }
+
+  if (medication.onsetDate) {
+    resource.effectivePeriod = { start: medication.onsetDate }
+  }
+
+  if (medication.dosage) {
+    resource.dosage = [{ text: medication.dosage }]
+  }
+
+  if (medication.sourceEncounterId) {
+    resource.context = { reference: `Encounter/${medication.sourceEncounterId}` }
+  }
+
+  return resource
+}
+
+/**
+ * Build a Procedure resource for a recorded surgery
+ */
+export function buildProcedureResource(id: string, procedure: string, patientUserId: string): FHIRResource {
+  return {
+    resourceType: 'Procedure',
+    id,
+    status: 'completed',
+    code: { text: procedure },
+    subject: { reference: `Patient/${patientUserId}` }
+  }
+}
+
+/**
+ * Build a DocumentReference resource from a document row
+ */
+export function buildDocumentReferenceResource(document: FHIRDocumentSource, patientUserId: string): FHIRResource {
+  const resource: FHIRResource = {
+    resourceType: 'DocumentReference',
+    id: document.id,
+    status: 'current',
+    subject: { reference: `Patient/${patientUserId}` },
+    date: toFHIRDateTime(document.uploadedAt),
+    description: document.filename,
+    content: [{
+      attachment: {
+        contentType: document.mimetype,
+        title: document.filename,
+        url: `/api/documents/${document.id}`,
+        creation: toFHIRDateTime(document.uploadedAt)
+      }
+    }]
+  }
+
+  if (document.encounterId) {
+    resource.context = {
+      encounter: [{ reference: `Encounter/${document.encounterId}` }]
+    }
+  }
+
+  if (document.hospitalName) {
+    resource.custodian = { display: document.hospitalName }
+  }
+
+  return resource
+}
+
+/**
+ * Wrap resources in a collection Bundle
+ */
+export function buildCollectionBundle(resources: FHIRResource[], baseUrl: string): FHIRBundle {
+  const now = new Date().toISOString()
+
+  return {
+    resourceType: 'Bundle',
+    meta: { lastUpdated: now },
+    type: 'collection',
+    timestamp: now,
+    entry: resources.map(resource => ({
+      fullUrl: `${baseUrl}/${resource.resourceType}/${resource.id}`,
+      resource
+    }))
+  }
+}
+
+/**
+ * Get display text from a CodeableConcept
+ */
+export function getCodeableConceptText(concept?: FHIRCodeableConcept): string | undefined {
+  if (!concept) {
+    return undefined
+  }
+
+  const text = concept.text || concept.coding?.find(coding => coding.display)?.display || concept.coding?.[0]?.code
+  return typeof text === 'string' && text.trim() ? text.trim() : undefined
+}
+
+/**
+ * Get a string extension value from a resource
+ */
+export function getExtensionValue(resource: FHIRResource, url: string): string | undefined {
+  return resource.extension?.find(extension => extension.url === url)?.valueString
+}
+
+/**
+ * Normalise a reference to its "Type/id" form (absolute URLs are trimmed)
+ */
+export function normalizeReference(reference?: string): string | undefined {
+  if (!reference) {
+    return undefined
+  }
+
+  if (reference.startsWith('urn:')) {
+    return reference
+  }
+
+  const segments = reference.split('/').filter(Boolean)
+  return segments.length >= 2 ? segments.slice(-2).join('/') : reference
+}
+
+/**
+ * Map a FHIR Encounter to the fields of an encounter timeline entry
+ */
+export function mapEncounterResource(resource: FHIRResource): {
+  occurredAt?: string
+  type: string
+  reasonDiagnosis?: string
+  prescriptionsNotes?: string
+  bloodGroup?: string
+} {
+  const encounter = resource as FHIRResource & {
+    type?: FHIRCodeableConcept[]
+    class?: { code?: string }
+    reasonCode?: FHIRCodeableConcept[]
+    period?: { start?: string; end?: string }
+  }
+  const typeText = getCodeableConceptText(encounter.type?.[0])
+
+  let type = 'Other'
+  if (typeText && isValidEncounterType(typeText)) {
+    type = typeText
+  } else if (encounter.class?.code === 'EMER') {
+    type = 'Emergency'
+  } else if (encounter.class?.code === 'IMP') {
+    type = 'Admission'
+  }
+
+  const reason = getCodeableConceptText(encounter.reasonCode?.[0])
+
+  return {
+    occurredAt: encounter.period?.start || encounter.period?.end,
+    type,
+    reasonDiagnosis: reason || typeText,
+    prescriptionsNotes: getExtensionValue(resource, PRESCRIPTIONS_NOTES_EXTENSION),
+    bloodGroup: getExtensionValue(resource, BLOOD_GROUP_EXTENSION)
+  }
+}
+
+/**
+ * Get the encounter a clinical resource was recorded in, if any
+ */
+export function getLinkedEncounterReference(resource: FHIRResource): string | undefined {
+  const clinical = resource as FHIRResource & {
+    encounter?: { reference?: string }
+    context?: { reference?: string }
+  }
+  return normalizeReference(clinical.encounter?.reference || clinical.context?.reference)
+}
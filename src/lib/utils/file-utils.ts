@@ -2,6 +2,8 @@
  * File upload and management utilities
  */
 
+import { authFetch } from './auth-fetch'
+
 export const ALLOWED_FILE_TYPES = {
   'application/pdf': {
     extension: '.pdf',
@@ -29,6 +31,7 @@ export type AllowedMimeType = keyof typeof ALLOWED_FILE_TYPES
 
 export const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
 export const UPLOAD_CHUNK_SIZE = 1024 * 1024 // 1MB chunks for large files
+export const MAX_RESUMABLE_FILE_SIZE = 200 * 1024 * 1024 // 200MB, through uploadFileInChunks
 
 /**
  * Validate file type
@@ -256,6 +259,100 @@ export class FileUploadTracker {
   }
 }
 
+/**
+ * Upload a file to an encounter through a resumable upload, in
+ * UPLOAD_CHUNK_SIZE chunks. After a network error or server failure the
+ * upload resumes from the bytes the server has, so a dropped connection only
+ * costs the chunk in flight. Resolves to the new document's id.
+ */
+export async function uploadFileInChunks(
+  file: File,
+  encounterId: string,
+  tracker?: FileUploadTracker,
+  maxRetries: number = 5
+): Promise<string> {
+  try {
+    const checksum = await sha256Hex(file)
+
+    const created = await authFetch('/api/documents/uploads', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ encounterId, filename: file.name, mimetype: file.type, size: file.size })
+    })
+    const createdData = await created.json()
+    if (!created.ok) {
+      throw new Error(createdData.details?.join(', ') || createdData.error || 'Failed to start upload')
+    }
+
+    const uploadUrl = `/api/documents/uploads/${encodeURIComponent(createdData.upload.id)}`
+    let offset = createdData.upload.receivedBytes as number
+    let failures = 0
+
+    while (offset < file.size) {
+      let response: Response | null = null
+
+      try {
+        response = await authFetch(`${uploadUrl}?offset=${offset}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/octet-stream' },
+          body: file.slice(offset, offset + UPLOAD_CHUNK_SIZE)
+        })
+      } catch {
+        // Network error: fall through and ask the server where to resume
+      }
+
+      if (response && (response.ok || response.status === 409)) {
+        // 409 means the server already has more or less than we thought
+        offset = (await response.json()).upload.receivedBytes
+        failures = 0
+        tracker?.updateProgress(Math.min(99, (offset / file.size) * 100))
+        continue
+      }
+
+      if (response && response.status < 500) {
+        throw new Error((await response.json()).error || 'Failed to upload file')
+      }
+
+      if (++failures > maxRetries) {
+        throw new Error('Upload failed after repeated network errors')
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 1000 * failures))
+
+      try {
+        const status = await authFetch(uploadUrl)
+        if (status.ok) {
+          offset = (await status.json()).upload.receivedBytes
+        }
+      } catch {
+        // Still offline; retry the same chunk
+      }
+    }
+
+    const completed = await authFetch(`${uploadUrl}/complete`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ checksum })
+    })
+    const completedData = await completed.json()
+    if (!completed.ok) {
+      throw new Error(completedData.error || 'Failed to complete upload')
+    }
+
+    tracker?.setCompleted()
+    return completedData.documentId
+
+  } catch (error) {
+    tracker?.setError(getUploadErrorMessage(error))
+    throw error
+  }
+}
+
+async function sha256Hex(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
 /**
  * Convert file to base64 for preview
  */
@@ -0,0 +1,68 @@
+import { NotificationService } from '../services/notification-service'
+
+/**
+ * Background delivery of queued notifications
+ */
+
+export class NotificationWorker {
+  private static workerInterval: NodeJS.Timeout | null = null
+  private static processing = false
+  private static readonly POLL_INTERVAL_MS = 15 * 1000 // 15 seconds
+
+  /**
+   * Start polling the notification queue
+   */
+  static start(): void {
+    if (this.workerInterval) {
+      console.log('⚠️ Notification worker already running')
+      return
+    }
+
+    console.log('📨 Starting notification worker...')
+
+    this.runOnce()
+
+    this.workerInterval = setInterval(() => {
+      this.runOnce()
+    }, this.POLL_INTERVAL_MS)
+  }
+
+  /**
+   * Stop polling the notification queue
+   */
+  static stop(): void {
+    if (this.workerInterval) {
+      clearInterval(this.workerInterval)
+      this.workerInterval = null
+      console.log('🛑 Stopped notification worker')
+    }
+  }
+
+  /**
+   * Send whatever is due. A run still in progress is not overlapped.
+   */
+  static async runOnce(): Promise<void> {
+    if (this.processing) {
+      return
+    }
+
+    this.processing = true
+    try {
+      const sent = await NotificationService.processDue()
+      if (sent > 0) {
+        console.log(`📨 Delivered ${sent} queued notification(s)`)
+      }
+    } catch (error) {
+      console.error('Notification worker error:', error)
+    } finally {
+      this.processing = false
+    }
+  }
+
+  static getStatus(): { running: boolean; intervalMs: number } {
+    return {
+      running: this.workerInterval !== null,
+      intervalMs: this.POLL_INTERVAL_MS
+    }
+  }
+}
@@ -1,5 +1,9 @@
 import { EmergencyService } from '../services/emergency-service'
-import { OTPService } from '../auth'
+import { OTPService, SessionService, RateLimiter, WebAuthnService } from '../auth'
+import { DocumentService } from '../services/document-service'
+import { DocumentUploadService } from '../services/document-upload-service'
+import { DocumentScanService } from '../services/document-scan-service'
+import { NotificationWorker } from './notification-worker'
 
 /**
  * Session cleanup utilities
@@ -48,9 +52,27 @@ export class SessionCleanup {
       // Cleanup expired emergency sessions
       await EmergencyService.cleanupExpiredSessions()
 
+      // Remove expired user session records
+      await SessionService.purgeExpiredUserSessions()
+
       // Cleanup expired OTPs
       await OTPService.cleanupExpiredOTPs()
 
+      // Drop rate limit state that no longer applies
+      await RateLimiter.purgeExpired()
+
+      // Remove passkey challenges that were never answered
+      await WebAuthnService.purgeExpiredChallenges()
+
+      // Discard resumable uploads that were abandoned
+      await DocumentUploadService.purgeExpiredUploads()
+
+      // Forget used download links once they have expired
+      await DocumentService.purgeExpiredDownloadLinks()
+
+      // Retry malware scans that failed or were interrupted
+      await DocumentScanService.scanPending()
+
       // Log cleanup completion (only in development)
       if (process.env.NODE_ENV === 'development') {
         console.log('🧹 Session cleanup completed')
@@ -75,19 +97,22 @@ export class SessionCleanup {
  * Initialize session cleanup on module load
  */
 if (typeof window === 'undefined') { // Server-side only
-  // Start cleanup when the module is loaded
+  // Start cleanup and notification delivery when the module is loaded
   SessionCleanup.startAutomaticCleanup()
+  NotificationWorker.start()
 
   // Graceful shutdown
   process.on('SIGINT', () => {
     console.log('🛑 Shutting down session cleanup...')
     SessionCleanup.stopAutomaticCleanup()
+    NotificationWorker.stop()
     process.exit(0)
   })
 
   process.on('SIGTERM', () => {
     console.log('🛑 Shutting down session cleanup...')
     SessionCleanup.stopAutomaticCleanup()
+    NotificationWorker.stop()
     process.exit(0)
   })
 }
\ No newline at end of file
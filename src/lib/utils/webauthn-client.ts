@@ -0,0 +1,131 @@
+/**
+ * Browser helpers for passkeys. The server sends binary fields as base64url
+ * strings, which navigator.credentials needs as ArrayBuffers (and back).
+ */
+
+// A credential descriptor with its id as sent by the server
+interface EncodedCredentialDescriptor {
+  type: PublicKeyCredentialType
+  id: string
+  transports?: AuthenticatorTransport[]
+}
+
+export interface PasskeyCreationOptions
+  extends Omit<PublicKeyCredentialCreationOptions, 'challenge' | 'user' | 'excludeCredentials'> {
+  challenge: string
+  user: Omit<PublicKeyCredentialUserEntity, 'id'> & { id: string }
+  excludeCredentials?: EncodedCredentialDescriptor[]
+}
+
+export interface PasskeyRequestOptions extends Omit<PublicKeyCredentialRequestOptions, 'challenge' | 'allowCredentials'> {
+  challenge: string
+  allowCredentials?: EncodedCredentialDescriptor[]
+}
+
+function toBuffer(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4)
+  const binary = atob(padded)
+  const bytes = new Uint8Array(binary.length)
+
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+
+  return bytes.buffer
+}
+
+function toBase64Url(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer)
+  let binary = ''
+
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function toDescriptors(credentials: EncodedCredentialDescriptor[] = []): PublicKeyCredentialDescriptor[] {
+  return credentials.map((credential) => ({
+    ...credential,
+    id: toBuffer(credential.id)
+  }))
+}
+
+/**
+ * Whether this device has a built-in authenticator (fingerprint, face, PIN)
+ */
+export async function isWebAuthnAvailable(): Promise<boolean> {
+  if (typeof window === 'undefined' || !window.PublicKeyCredential) {
+    return false
+  }
+
+  try {
+    return await PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable()
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Create a passkey from the options returned by /api/user/biometrics/passkeys/options
+ */
+export async function createPasskey(options: PasskeyCreationOptions) {
+  const credential = await navigator.credentials.create({
+    publicKey: {
+      ...options,
+      challenge: toBuffer(options.challenge),
+      user: { ...options.user, id: toBuffer(options.user.id) },
+      excludeCredentials: toDescriptors(options.excludeCredentials)
+    }
+  }) as PublicKeyCredential | null
+
+  if (!credential) {
+    throw new Error('Passkey registration was cancelled')
+  }
+
+  const response = credential.response as AuthenticatorAttestationResponse
+
+  return {
+    id: credential.id,
+    rawId: toBase64Url(credential.rawId),
+    type: credential.type,
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      attestationObject: toBase64Url(response.attestationObject),
+      transports: response.getTransports?.() || []
+    }
+  }
+}
+
+/**
+ * Sign the challenge from /api/auth/biometric/options with a registered passkey
+ */
+export async function getPasskeyAssertion(options: PasskeyRequestOptions) {
+  const credential = await navigator.credentials.get({
+    publicKey: {
+      ...options,
+      challenge: toBuffer(options.challenge),
+      allowCredentials: toDescriptors(options.allowCredentials)
+    }
+  }) as PublicKeyCredential | null
+
+  if (!credential) {
+    throw new Error('Passkey sign-in was cancelled')
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse
+
+  return {
+    id: credential.id,
+    rawId: toBase64Url(credential.rawId),
+    type: credential.type,
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      authenticatorData: toBase64Url(response.authenticatorData),
+      signature: toBase64Url(response.signature),
+      userHandle: response.userHandle ? toBase64Url(response.userHandle) : null
+    }
+  }
+}
@@ -79,6 +79,40 @@ async function makeRequest(endpoint, options = {}) {
   }
 }
 
+// Current RFC 6238 code for a base32 authenticator secret
+async function totpCode(secret) {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+  let bits = ''
+  for (const char of secret) {
+    bits += alphabet.indexOf(char).toString(2).padStart(5, '0')
+  }
+  const key = Buffer.from(bits.match(/.{8}/g).map(byte => parseInt(byte, 2)))
+
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(Math.floor(Date.now() / 30000)))
+  const hmacKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-1' }, false, ['sign'])
+  const hmac = Buffer.from(await crypto.subtle.sign('HMAC', hmacKey, counter))
+  const offset = hmac[hmac.length - 1] & 0x0f
+  return String((hmac.readUInt32BE(offset) & 0x7fffffff) % 1000000).padStart(6, '0')
+}
+
+// Enroll an authenticator app for a staff token. Returns its recovery codes,
+// which the tests use in place of app codes since each app code works once.
+async function enrollAuthenticator(token) {
+  const headers = { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` }
+  const setup = await makeRequest('/auth/totp/setup', { method: 'POST', headers, body: '{}' })
+  if (!setup.data || !setup.data.secret) {
+    return []
+  }
+
+  const activate = await makeRequest('/auth/totp/activate', {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ code: await totpCode(setup.data.secret) })
+  })
+  return (activate.data && activate.data.recoveryCodes) || []
+}
+
 // Test functions
 async function testHealthCheck() {
   log('\n🏥 Testing Health Check...', 'info')
@@ -257,6 +291,8 @@ async function testEmergencyAccess() {
     return
   }
   
+  const recoveryCodes = await enrollAuthenticator(tokens.doctor)
+
   const { data, status } = await makeRequest('/emergency/request', {
     method: 'POST',
     headers: {
@@ -267,11 +303,19 @@ async function testEmergencyAccess() {
       reason: 'API Testing Emergency Access',
       hospitalName: 'Test Hospital',
       authMethod: 'OTP',
-      authData: '123456' // Mock OTP
+      authData: '123456', // Mock OTP
+      totpCode: recoveryCodes[0]
     })
   })
   
   logTest('Emergency Access Request', status === 200, `Status: ${status}`)
+
+  // Remove the authenticator so the next run can sign in with OTP alone
+  await makeRequest('/auth/totp', {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${tokens.doctor}` },
+    body: JSON.stringify({ code: recoveryCodes[1] })
+  })
   
   if (data && data.sessionToken) {
     tokens.emergency = data.sessionToken
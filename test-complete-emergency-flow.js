@@ -7,6 +7,10 @@ const patientIdentifier = 'snigdhachaudhari@gmail.com';
 const reason = 'Patient unconscious, need immediate access to medical history for emergency treatment';
 const hospitalName = 'Emergency Hospital';
 
+// A signed-in doctor's access token and a current authenticator code
+const doctorToken = process.env.DOCTOR_TOKEN;
+const totpCode = process.env.DOCTOR_TOTP_CODE;
+
 async function testCompleteFlow() {
   try {
     console.log('Step 1: Generate OTP for doctor authentication...');
@@ -33,9 +37,9 @@ async function testCompleteFlow() {
     // Step 2: Request emergency access using biometric-access API
     const emergencyResponse = await fetch('http://localhost:3000/api/emergency/biometric-access', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${doctorToken}` },
       body: JSON.stringify({
-        doctorMobile,
+        totpCode,
         patientIdentifier,
         reason,
         hospitalName,
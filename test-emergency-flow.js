@@ -7,6 +7,11 @@
 
 const BASE_URL = 'http://localhost:3000'
 
+// Emergency access needs a signed-in doctor and a fresh authenticator code on
+// every request; pass recovery codes to run the script more than once a minute
+const DOCTOR_TOKEN = process.env.DOCTOR_TOKEN
+const TOTP_CODES = (process.env.DOCTOR_TOTP_CODES || '').split(',')
+
 async function testEmergencyFlow() {
   console.log('🚨 Testing Emergency Access Flow...\n')
 
@@ -17,14 +22,15 @@ async function testEmergencyFlow() {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        'Authorization': `Bearer ${DOCTOR_TOKEN}`
       },
       body: JSON.stringify({
-        doctorMobile: '+1234567890',
+        totpCode: TOTP_CODES.shift(),
         patientIdentifier: 'snigdhachaudhari1@gmail.com', // Provide patient ID
         reason: 'Patient unconscious after accident, need immediate access to medical history',
         hospitalName: 'Emergency General Hospital',
         biometricType: 'FINGERPRINT',
-        biometricData: 'fingerprint_verified_' + Date.now()
+        biometricData: 'placeholder_fingerprint_data'
       }),
     })
 
@@ -48,14 +54,15 @@ async function testEmergencyFlow() {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        'Authorization': `Bearer ${DOCTOR_TOKEN}`
       },
       body: JSON.stringify({
-        doctorMobile: '+1234567890',
+        totpCode: TOTP_CODES.shift(),
         patientIdentifier: '', // Empty - patient is unconscious
         reason: 'Patient unconscious after accident, unable to provide ID, using biometric scan',
         hospitalName: 'Emergency General Hospital',
         biometricType: 'IRIS',
-        biometricData: 'iris_verified_' + Date.now()
+        biometricData: 'placeholder_iris_data'
       }),
     })
 
@@ -101,16 +108,16 @@ async function testEmergencyFlow() {
     console.log('\n' + '='.repeat(60) + '\n')
 
     // Test 4: Test validation - missing required fields
-    console.log('4. Testing validation (missing doctor mobile)...')
+    console.log('4. Testing validation (missing reason)...')
     const validationResponse = await fetch(`${BASE_URL}/api/emergency/biometric-access`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        'Authorization': `Bearer ${DOCTOR_TOKEN}`
       },
       body: JSON.stringify({
-        // doctorMobile: missing
+        // reason: missing
         patientIdentifier: '',
-        reason: 'Test validation',
         hospitalName: 'Test Hospital',
         biometricType: 'FINGERPRINT',
         biometricData: 'test_data'